@@ -1,71 +1,276 @@
 import React, { useState, useEffect } from 'react?external=react';
 import Sidebar from './components/Sidebar';
-import { ToolType, GeneratedAsset, User } from './types';
+import { ToolType, GeneratedAsset } from './types';
 import LayoutEditor from './components/LayoutEditor';
 import CopyGenerator from './components/CopyGenerator';
 import ImageGenerator from './components/ImageGenerator';
 import ImageEditor from './components/ImageEditor';
 import VideoGenerator from './components/VideoGenerator';
 import ThreeDGenerator from './components/ThreeDGenerator';
+import BrandKitEditor from './components/BrandKitEditor';
+import AssetDetails from './components/AssetDetails';
+import Library from './components/Library';
 import LoginScreen from './components/LoginScreen';
+import { loadAssets, saveAsset, deleteAssets, updateAssetLibraryFields, AssetLibraryFields, migrateFromLocalStorage, migrateAssetProvenance, moveAssetsToProject, copyAssetsToProject, getAssetProjectId, AssetOwner, getStorageUsage, requestPersistentStorage, StorageQuotaError, getVariantSiblings } from './services/assetStore';
+import { useAuth, signOut } from './services/auth';
+import { useProjects, loadProjects, resetProjects, setActiveProject } from './services/projectStore';
+import { useRoute, getRoute, navigate, paramsToSettings } from './services/router';
+import { setJobCompletionHandler, resumeJobs } from './services/jobManager';
+import { PromptReuse, getPromptReuse } from './services/promptLibrary';
+import { withCreator } from './services/provenance';
+import JobsTray from './components/JobsTray';
+import { AlertTriangle, RotateCcw, X } from 'lucide-react';
+
+// Warn before the browser starts rejecting writes
+const STORAGE_WARNING_RATIO = 0.9;
+
+// Tools whose prompt and settings can be prefilled from the URL
+const URL_PREFILL_TOOLS = [ToolType.COPY_WRITER, ToolType.IMAGE_GEN, ToolType.VIDEO_GEN, ToolType.THREE_D_GEN];
 
 const App: React.FC = () => {
-  const [user, setUser] = useState<User | null>(null);
-  const [currentTool, setCurrentTool] = useState<ToolType>(ToolType.DASHBOARD);
+  const auth = useAuth();
+  const user = auth.session?.user ?? null;
+  const { activeProject, projects, loaded: projectsLoaded } = useProjects();
+  const route = useRoute();
+  const currentTool = route.tool;
   const [assets, setAssets] = useState<GeneratedAsset[]>([]);
   const [initializing, setInitializing] = useState(true);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const [editorImage, setEditorImage] = useState<string | null>(null); // Handed from a generator to the ImageEditor
+  const [promptReuse, setPromptReuse] = useState<PromptReuse | null>(null); // Picked up by the tool it names
+
+  // The open asset lives in the URL, so it can be linked to and closed with back
+  const detailAssetId = route.params.asset ?? null;
+  const setDetailAssetId = (id: string | null) => {
+    const { asset, ...params } = getRoute().params;
+    navigate({ ...getRoute(), params: id ? { ...params, asset: id } : params }, !id || !!asset);
+  };
 
-  // Load User and Assets from LocalStorage on mount
+  // Reselecting the current tool keeps its URL (and any inputs carried in it)
+  const setCurrentTool = (tool: ToolType) => {
+    if (tool !== getRoute().tool) navigate({ tool });
+  };
+
+  // Bring stored data up to date on mount; the library itself loads once someone is signed in
   useEffect(() => {
-    const storedUser = localStorage.getItem('envisage_user');
-    const storedAssets = localStorage.getItem('envisage_assets');
-    
-    if (storedUser) {
-        setUser(JSON.parse(storedUser));
+    const init = async () => {
+      try {
+        await migrateFromLocalStorage();
+        await migrateAssetProvenance();
+        requestPersistentStorage();
+        // Pick up video jobs that were still rendering when the app closed
+        await resumeJobs();
+      } catch (e: any) {
+        console.error(e);
+        setStorageError(e.message);
+      } finally {
+        setInitializing(false);
+      }
+    };
+    init();
+  }, []);
+
+  // Each account has its own workspaces and projects; the first sign-in creates them
+  useEffect(() => {
+    if (initializing) return;
+    if (!user) {
+      resetProjects();
+      return;
     }
-    if (storedAssets) {
-        setAssets(JSON.parse(storedAssets));
+    loadProjects(user.id).catch((e: any) => {
+      console.error(e);
+      setStorageError(e.message);
+    });
+  }, [initializing, user?.id]);
+
+  // The library shows the active project; switching projects or accounts swaps it out
+  useEffect(() => {
+    setAssets([]);
+    if (!activeProject) return;
+    let cancelled = false;
+    const load = async () => {
+      try {
+        const loaded = await loadAssets(activeProject.id);
+        if (!cancelled) setAssets(loaded);
+      } catch (e: any) {
+        console.error(e);
+        if (!cancelled) setStorageError(e.message);
+      }
+    };
+    load();
+    return () => { cancelled = true; };
+  }, [activeProject?.id]);
+
+  // A linked asset may be in another of the user's projects; links to anything else are dropped
+  useEffect(() => {
+    if (!activeProject || !detailAssetId || assets.some(a => a.id === detailAssetId)) return;
+    let cancelled = false;
+    getAssetProjectId(detailAssetId).then(projectId => {
+      if (cancelled || projectId === activeProject.id) return;
+      if (projectId && projects.some(p => p.id === projectId)) setActiveProject(projectId);
+      else setDetailAssetId(null);
+    }).catch(e => console.error(e));
+    return () => { cancelled = true; };
+  }, [activeProject?.id, detailAssetId]);
+
+  // Opening a generator link (or stepping back to one) prefills its inputs
+  useEffect(() => {
+    const { prompt, asset, ...settings } = route.params;
+    if (prompt === undefined || !URL_PREFILL_TOOLS.includes(route.tool)) return;
+    setPromptReuse({ tool: route.tool, prompt, settings: paramsToSettings(settings) });
+  }, [route.key]);
+
+  // Assets stay on the device for the next sign-in
+  const handleLogout = () => {
+      setCurrentTool(ToolType.DASHBOARD);
+      setPromptReuse(null);
+      setEditorImage(null);
+      signOut();
+  };
+
+  const checkStorageUsage = async () => {
+    const usage = await getStorageUsage();
+    if (usage && usage.quota > 0 && usage.usage / usage.quota > STORAGE_WARNING_RATIO) {
+      setStorageError(`Storage is ${Math.round((usage.usage / usage.quota) * 100)}% full. Delete unused assets to keep saving new ones.`);
     }
-    setInitializing(false);
-  }, []);
+  };
+
+  // Background jobs pass the user and project they were queued from, which may no longer be the current ones
+  const handleAssetCreated = async (created: GeneratedAsset, owner?: AssetOwner) => {
+    const target = owner ?? (user && activeProject ? { ownerId: user.id, projectId: activeProject.id } : null);
+    if (!target) return;
+    const current = target.ownerId === user?.id && target.projectId === activeProject?.id;
+    const asset = created.provenance && target.ownerId === user?.id ? { ...created, provenance: withCreator(created.provenance, user) } : created;
+    try {
+      const stored = await saveAsset(asset, target);
+      if (current) setAssets((prev) => [stored, ...prev]);
+      checkStorageUsage();
+    } catch (e: any) {
+      console.error(e);
+      // Keep the asset for this session so the user can still download it
+      if (current) setAssets((prev) => [asset, ...prev]);
+      setStorageError(
+        e instanceof StorageQuotaError
+          ? `${e.message} The latest asset is only available until you reload.`
+          : e.message
+      );
+    }
+  };
 
-  // Save Assets to LocalStorage whenever they change
+  // Finished background video jobs land in the library like any other asset
   useEffect(() => {
-    if (!initializing) {
-        localStorage.setItem('envisage_assets', JSON.stringify(assets));
+    setJobCompletionHandler(handleAssetCreated);
+    return () => setJobCompletionHandler(null);
+  });
+
+  const handleSendToEditor = (image: string) => {
+    setEditorImage(image);
+    setCurrentTool(ToolType.IMAGE_EDIT);
+  };
+
+  const handleUpdateAssets = async (ids: string[], update: (current: AssetLibraryFields) => AssetLibraryFields) => {
+    try {
+      const patches = await updateAssetLibraryFields(ids, update);
+      setAssets((prev) => prev.map(a => patches.has(a.id) ? { ...a, ...patches.get(a.id) } : a));
+    } catch (e: any) {
+      console.error(e);
+      setStorageError(e.message);
     }
-  }, [assets, initializing]);
+  };
 
-  const handleLogin = (newUser: User) => {
-      setUser(newUser);
-      localStorage.setItem('envisage_user', JSON.stringify(newUser));
+  const handleFolderDeleted = (folderId: string) => {
+    setAssets((prev) => prev.map(a => a.folderId === folderId ? { ...a, folderId: undefined } : a));
   };
 
-  const handleLogout = () => {
-      setUser(null);
-      localStorage.removeItem('envisage_user');
-      // Optional: Decide if you want to clear assets on logout or keep them on device
-      // localStorage.removeItem('envisage_assets'); 
+  const handleDeleteAssets = async (ids: string[]) => {
+    try {
+      await deleteAssets(ids);
+      setAssets((prev) => prev.filter(a => !ids.includes(a.id)));
+      if (detailAssetId && ids.includes(detailAssetId)) setDetailAssetId(null);
+    } catch (e: any) {
+      console.error(e);
+      setStorageError(e.message);
+    }
+  };
+
+  const handleMoveAssets = async (ids: string[], projectId: string) => {
+    try {
+      await moveAssetsToProject(ids, projectId);
+      setAssets((prev) => prev.filter(a => !ids.includes(a.id)));
+      if (detailAssetId && ids.includes(detailAssetId)) setDetailAssetId(null);
+    } catch (e: any) {
+      console.error(e);
+      setStorageError(e.message);
+    }
+  };
+
+  const handleCopyAssets = async (ids: string[], projectId: string) => {
+    try {
+      await copyAssetsToProject(ids, projectId);
+      checkStorageUsage();
+    } catch (e: any) {
+      console.error(e);
+      setStorageError(e.message);
+    }
   };
 
-  const handleAssetCreated = (asset: GeneratedAsset) => {
-    setAssets((prev) => [asset, ...prev]);
+  const detailAsset = assets.find(a => a.id === detailAssetId);
+
+  const handleReusePrompt = (asset: GeneratedAsset) => {
+    const reuse = getPromptReuse(asset);
+    if (!reuse) return;
+    setDetailAssetId(null);
+    setPromptReuse(reuse);
+    setCurrentTool(reuse.tool);
   };
 
+  const reuseProps = (tool: ToolType) => ({
+    reuse: promptReuse?.tool === tool ? promptReuse : null,
+    onReuseConsumed: () => setPromptReuse(null),
+  });
+
   const renderContent = () => {
     switch (currentTool) {
       case ToolType.LAYOUT_EDITOR:
-        return <LayoutEditor assets={assets} onAssetCreated={handleAssetCreated} />;
+        return (
+          <LayoutEditor
+            assets={assets}
+            onAssetCreated={handleAssetCreated}
+            documentId={route.id}
+            onDocumentOpen={(id, replace) => navigate({ tool: ToolType.LAYOUT_EDITOR, id }, replace)}
+          />
+        );
       case ToolType.COPY_WRITER:
-        return <CopyGenerator onAssetCreated={handleAssetCreated} />;
+        return <CopyGenerator onAssetCreated={handleAssetCreated} {...reuseProps(ToolType.COPY_WRITER)} />;
       case ToolType.IMAGE_GEN:
-        return <ImageGenerator onAssetCreated={handleAssetCreated} />;
+        return <ImageGenerator onAssetCreated={handleAssetCreated} onSendToEditor={handleSendToEditor} {...reuseProps(ToolType.IMAGE_GEN)} />;
       case ToolType.IMAGE_EDIT:
-        return <ImageEditor onAssetCreated={handleAssetCreated} />;
+        return <ImageEditor
+            assets={assets}
+            onAssetCreated={handleAssetCreated}
+            incomingImage={editorImage}
+            onIncomingConsumed={() => setEditorImage(null)}
+            {...reuseProps(ToolType.IMAGE_EDIT)}
+          />;
       case ToolType.VIDEO_GEN:
-        return <VideoGenerator onAssetCreated={handleAssetCreated} />;
+        return <VideoGenerator {...reuseProps(ToolType.VIDEO_GEN)} />;
       case ToolType.THREE_D_GEN:
-        return <ThreeDGenerator onAssetCreated={handleAssetCreated} />;
+        return <ThreeDGenerator {...reuseProps(ToolType.THREE_D_GEN)} />;
+      case ToolType.LIBRARY:
+        return (
+          <Library
+            assets={assets}
+            onOpenAsset={(asset) => setDetailAssetId(asset.id)}
+            onReusePrompt={handleReusePrompt}
+            onUpdateAssets={handleUpdateAssets}
+            onDeleteAssets={handleDeleteAssets}
+            onMoveToProject={handleMoveAssets}
+            onCopyToProject={handleCopyAssets}
+            onFolderDeleted={handleFolderDeleted}
+          />
+        );
+      case ToolType.BRAND_KIT:
+        return <BrandKitEditor assets={assets} />;
       case ToolType.DASHBOARD:
       default:
         return (
@@ -110,21 +315,31 @@ const App: React.FC = () => {
                     onClick={() => setCurrentTool(ToolType.LAYOUT_EDITOR)}
                     color="from-orange-500 to-amber-600"
                 />
+                <DashboardCard 
+                    title="Brand Kit" 
+                    desc="Keep colors, fonts, logos and tone of voice consistent everywhere."
+                    onClick={() => setCurrentTool(ToolType.BRAND_KIT)}
+                    color="from-teal-500 to-cyan-600"
+                />
             </div>
 
             <div className="mt-12">
                 <div className="flex items-center justify-between mb-4">
-                    <h3 className="text-xl font-semibold text-white">Recent Assets</h3>
-                    <button onClick={() => setCurrentTool(ToolType.LAYOUT_EDITOR)} className="text-indigo-400 text-sm hover:text-indigo-300">View All</button>
+                    <h3 className="text-xl font-semibold text-white">Recent in {activeProject?.name}</h3>
+                    <button onClick={() => setCurrentTool(ToolType.LIBRARY)} className="text-indigo-400 text-sm hover:text-indigo-300">View All</button>
                 </div>
                 <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-4">
                     {assets.length === 0 ? (
                         <div className="col-span-full py-12 text-center bg-zinc-900 rounded-lg border border-dashed border-zinc-800 text-zinc-500">
-                            No assets generated yet. Start creating!
+                            No assets in this project yet. Start creating!
                         </div>
                     ) : (
                         assets.slice(0, 6).map(asset => (
-                            <div key={asset.id} className="aspect-square bg-zinc-900 rounded-lg overflow-hidden border border-zinc-800 relative group transition-all hover:scale-105 hover:border-zinc-600 shadow-lg">
+                            <div
+                                key={asset.id}
+                                onClick={() => setDetailAssetId(asset.id)}
+                                className="aspect-square bg-zinc-900 rounded-lg overflow-hidden border border-zinc-800 relative group transition-all hover:scale-105 hover:border-zinc-600 shadow-lg cursor-pointer"
+                            >
                                 {asset.type === 'image' && <img src={asset.content} className="w-full h-full object-cover" alt="Asset"/>}
                                 {asset.type === 'video' && (
                                     <div className="w-full h-full flex flex-col items-center justify-center bg-zinc-950 text-zinc-500">
@@ -133,8 +348,21 @@ const App: React.FC = () => {
                                     </div>
                                 )}
                                 {asset.type === 'text' && <div className="p-3 text-[10px] text-zinc-400 overflow-hidden h-full leading-relaxed bg-zinc-900">{asset.content}</div>}
-                                <div className="absolute inset-0 bg-gradient-to-t from-black/80 to-transparent opacity-0 group-hover:opacity-100 transition-opacity flex items-end p-2">
+                                {getVariantSiblings(assets, asset).length > 0 && (
+                                    <span className="absolute top-1.5 right-1.5 bg-indigo-600/90 text-white text-[9px] font-semibold px-1.5 py-0.5 rounded">
+                                        A/B ×{getVariantSiblings(assets, asset).length + 1}
+                                    </span>
+                                )}
+                                <div className="absolute inset-0 bg-gradient-to-t from-black/80 to-transparent opacity-0 group-hover:opacity-100 transition-opacity flex flex-col justify-end gap-1 p-2">
                                     <span className="text-[10px] text-white truncate w-full">{asset.metadata?.prompt}</span>
+                                    {getPromptReuse(asset) && (
+                                        <button
+                                            onClick={(e) => { e.stopPropagation(); handleReusePrompt(asset); }}
+                                            className="self-start flex items-center gap-1 bg-indigo-600 hover:bg-indigo-500 text-white text-[10px] px-1.5 py-0.5 rounded"
+                                        >
+                                            <RotateCcw size={10} /> Reuse prompt
+                                        </button>
+                                    )}
                                 </div>
                             </div>
                         ))
@@ -146,12 +374,16 @@ const App: React.FC = () => {
     }
   };
 
-  if (initializing) {
+  if (initializing || auth.status === 'loading') {
       return <div className="h-screen w-screen bg-black flex items-center justify-center text-zinc-500">Loading Studio...</div>;
   }
 
   if (!user) {
-      return <LoginScreen onLogin={handleLogin} />;
+      return <LoginScreen />;
+  }
+
+  if (!projectsLoaded && !storageError) {
+      return <div className="h-screen w-screen bg-black flex items-center justify-center text-zinc-500">Loading Studio...</div>;
   }
 
   return (
@@ -163,8 +395,29 @@ const App: React.FC = () => {
         onLogout={handleLogout}
       />
       <main className="flex-1 h-full overflow-y-auto bg-black relative scroll-smooth">
-        {renderContent()}
+        {storageError && (
+            <div className="sticky top-0 z-40 bg-amber-950/90 border-b border-amber-700 text-amber-200 text-sm px-4 py-2 flex items-center gap-3 backdrop-blur">
+                <AlertTriangle size={16} className="shrink-0" />
+                <span className="flex-1">{storageError}</span>
+                <button onClick={() => setStorageError(null)} className="text-amber-400 hover:text-white p-1" title="Dismiss">
+                    <X size={14} />
+                </button>
+            </div>
+        )}
+        {/* Remount the tool on a project switch so it drops the previous project's state */}
+        <React.Fragment key={activeProject?.id}>{renderContent()}</React.Fragment>
       </main>
+      <JobsTray />
+      {detailAsset && (
+        <AssetDetails
+          asset={detailAsset}
+          assets={assets}
+          onClose={() => setDetailAssetId(null)}
+          onSelect={(asset) => setDetailAssetId(asset.id)}
+          onReusePrompt={handleReusePrompt}
+          onUpdateAssets={handleUpdateAssets}
+        />
+      )}
     </div>
   );
 };
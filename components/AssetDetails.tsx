@@ -0,0 +1,251 @@
+import React, { useState } from 'react';
+import { GeneratedAsset, ToolType } from '../types';
+import { AssetLibraryFields, getVariantSiblings } from '../services/assetStore';
+import { useBrandKits } from '../services/brandKitStore';
+import { getPromptReuse } from '../services/promptLibrary';
+import { provenanceDuration } from '../services/provenance';
+import { TOOL_LABELS, normalizeTag } from './library/libraryFilters';
+import { X, RotateCcw, Download, Info, Star, Link as LinkIcon, Check } from 'lucide-react';
+import { formatRoute } from '../services/router';
+
+interface AssetDetailsProps {
+  asset: GeneratedAsset;
+  assets: GeneratedAsset[];
+  onClose: () => void;
+  onSelect: (asset: GeneratedAsset) => void; // Navigates to a parent or derived asset
+  onReusePrompt?: (asset: GeneratedAsset) => void;
+  onUpdateAssets?: (ids: string[], update: (current: AssetLibraryFields) => AssetLibraryFields) => void;
+}
+
+// camelCase parameter keys as sentence-case labels
+const humanize = (key: string) => {
+  const words = key.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+const formatValue = (value: string | number | boolean) =>
+  typeof value === 'boolean' ? (value ? 'Yes' : 'No') : String(value);
+
+const formatDuration = (ms: number) =>
+  ms < 1000 ? `${ms} ms` : ms < 60000 ? `${(ms / 1000).toFixed(1)} s` : `${Math.floor(ms / 60000)} min ${Math.round((ms % 60000) / 1000)} s`;
+
+const AssetThumb: React.FC<{ asset: GeneratedAsset, onClick: () => void }> = ({ asset, onClick }) => (
+  <button
+    onClick={onClick}
+    className="w-16 h-16 rounded overflow-hidden border border-zinc-800 hover:border-indigo-500 bg-zinc-950 shrink-0"
+    title={asset.metadata?.prompt}
+  >
+    {asset.type === 'image' && <img src={asset.content} alt="" className="w-full h-full object-cover" />}
+    {asset.type === 'video' && <span className="text-[10px] text-zinc-500">VIDEO</span>}
+    {asset.type === 'text' && <span className="block p-1 text-[8px] text-zinc-400 text-left leading-tight overflow-hidden h-full">{asset.content}</span>}
+  </button>
+);
+
+// Everything known about how an asset was made, from its provenance record
+const AssetDetails: React.FC<AssetDetailsProps> = ({ asset, assets, onClose, onSelect, onReusePrompt, onUpdateAssets }) => {
+  const { kits } = useBrandKits();
+  const [tagInput, setTagInput] = useState('');
+  const [linkCopied, setLinkCopied] = useState(false);
+  const provenance = asset.provenance;
+  const parents = assets.filter(a => provenance?.parentAssetIds.includes(a.id));
+  const missingParents = (provenance?.parentAssetIds.length || 0) - parents.length;
+  const derived = assets.filter(a => a.provenance?.parentAssetIds.includes(asset.id));
+  const siblings = getVariantSiblings(assets, asset);
+  const brandKit = provenance?.brandKitId ? kits.find(k => k.id === provenance.brandKitId) : undefined;
+  const duration = provenance ? provenanceDuration(provenance) : null;
+  const parameters = Object.entries(provenance?.parameters || {});
+
+  const handleAddTag = () => {
+    const tag = normalizeTag(tagInput);
+    setTagInput('');
+    if (!tag || asset.tags?.includes(tag)) return;
+    onUpdateAssets?.([asset.id], current => ({ ...current, tags: [...(current.tags || []), tag] }));
+  };
+
+  const handleRemoveTag = (tag: string) =>
+    onUpdateAssets?.([asset.id], current => ({ ...current, tags: (current.tags || []).filter(t => t !== tag) }));
+
+  // A link that opens this asset in the Library, switching to its project if needed
+  const handleCopyLink = () => {
+    const hash = formatRoute({ tool: ToolType.LIBRARY, params: { asset: asset.id } });
+    navigator.clipboard.writeText(`${window.location.origin}${window.location.pathname}${hash}`);
+    setLinkCopied(true);
+    setTimeout(() => setLinkCopied(false), 2000);
+  };
+
+  const rows: [string, string][] = [
+    ['Created', new Date(asset.createdAt).toLocaleString()],
+  ];
+  if (provenance?.userName) rows.push(['Created by', provenance.userName]);
+  if (provenance?.tool) rows.push(['Tool', TOOL_LABELS[provenance.tool]]);
+  if (provenance) rows.push(['Origin', humanize(provenance.origin)]);
+  if (provenance?.model) rows.push(['Model', `${provenance.model}${provenance.providerId ? ` (${provenance.providerId})` : ''}`]);
+  if (duration !== null) rows.push(['Generation time', formatDuration(duration)]);
+  if (provenance?.brandKitId) rows.push(['Brand kit', brandKit?.name || 'Deleted brand kit']);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-6" onMouseDown={onClose}>
+      <div
+        className="bg-zinc-900 border border-zinc-800 rounded-xl shadow-2xl w-full max-w-4xl max-h-[85vh] flex flex-col"
+        onMouseDown={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-5 py-3 border-b border-zinc-800">
+          <h3 className="text-sm font-semibold text-zinc-200">Asset Details</h3>
+          <div className="flex items-center gap-2">
+            {onUpdateAssets && (
+              <button
+                onClick={() => onUpdateAssets([asset.id], current => ({ ...current, favorite: !current.favorite }))}
+                className={`p-1.5 rounded ${asset.favorite ? 'text-yellow-400' : 'text-zinc-500 hover:text-white'}`}
+                title={asset.favorite ? 'Remove from favorites' : 'Add to favorites'}
+              >
+                <Star size={16} fill={asset.favorite ? 'currentColor' : 'none'} />
+              </button>
+            )}
+            {onReusePrompt && getPromptReuse(asset) && (
+              <button
+                onClick={() => onReusePrompt(asset)}
+                className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white px-3 py-1.5 rounded text-sm"
+              >
+                <RotateCcw size={14} /> Reuse Prompt
+              </button>
+            )}
+            {asset.type !== 'text' && (
+              <a
+                href={asset.content}
+                download={`omni-${asset.id}.${asset.type === 'video' ? 'mp4' : 'png'}`}
+                className="flex items-center gap-2 bg-zinc-800 hover:bg-zinc-700 text-zinc-200 px-3 py-1.5 rounded text-sm"
+              >
+                <Download size={14} /> Download
+              </a>
+            )}
+            <button onClick={handleCopyLink} className="text-zinc-500 hover:text-white p-1.5" title="Copy link">
+              {linkCopied ? <Check size={16} className="text-green-400" /> : <LinkIcon size={16} />}
+            </button>
+            <button onClick={onClose} className="text-zinc-500 hover:text-white p-1"><X size={16} /></button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 divide-y md:divide-y-0 md:divide-x divide-zinc-800 min-h-0 flex-1 overflow-y-auto md:overflow-hidden">
+          <div className="p-5 flex items-center justify-center bg-zinc-950 md:overflow-y-auto">
+            {asset.type === 'image' && <img src={asset.content} alt="Asset" className="max-w-full max-h-[60vh] object-contain rounded" />}
+            {asset.type === 'video' && <video src={asset.content} controls loop className="max-w-full max-h-[60vh] rounded" />}
+            {asset.type === 'text' && <p className="text-sm text-zinc-300 whitespace-pre-wrap self-start">{asset.content}</p>}
+          </div>
+
+          <div className="p-5 space-y-5 md:overflow-y-auto">
+            {asset.metadata?.prompt && (
+              <section>
+                <h4 className="text-xs font-medium text-zinc-500 mb-1">Prompt</h4>
+                <p className="text-sm text-zinc-200 whitespace-pre-wrap">{asset.metadata.prompt}</p>
+              </section>
+            )}
+
+            {onUpdateAssets && (
+              <section>
+                <h4 className="text-xs font-medium text-zinc-500 mb-1">Tags</h4>
+                <div className="flex flex-wrap items-center gap-1">
+                  {(asset.tags || []).map(tag => (
+                    <span key={tag} className="flex items-center gap-1 bg-zinc-800 text-zinc-200 text-xs px-2 py-0.5 rounded-full">
+                      #{tag}
+                      <button onClick={() => handleRemoveTag(tag)} className="text-zinc-500 hover:text-white"><X size={10} /></button>
+                    </span>
+                  ))}
+                  <input
+                    value={tagInput}
+                    onChange={(e) => setTagInput(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleAddTag()}
+                    onBlur={handleAddTag}
+                    placeholder="Add tag"
+                    className="bg-transparent text-xs text-white w-24 px-1 py-0.5 focus:outline-none border-b border-transparent focus:border-indigo-500"
+                  />
+                </div>
+              </section>
+            )}
+
+            <section>
+              <h4 className="text-xs font-medium text-zinc-500 mb-1">Provenance</h4>
+              <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+                {rows.map(([label, value]) => (
+                  <React.Fragment key={label}>
+                    <dt className="text-zinc-500">{label}</dt>
+                    <dd className="text-zinc-200 break-words">{value}</dd>
+                  </React.Fragment>
+                ))}
+              </dl>
+            </section>
+
+            {parameters.length > 0 && (
+              <section>
+                <h4 className="text-xs font-medium text-zinc-500 mb-1">Parameters</h4>
+                <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+                  {parameters.map(([key, value]) => (
+                    <React.Fragment key={key}>
+                      <dt className="text-zinc-500">{humanize(key)}</dt>
+                      <dd className="text-zinc-200 font-mono text-xs break-words self-center">{formatValue(value)}</dd>
+                    </React.Fragment>
+                  ))}
+                </dl>
+              </section>
+            )}
+
+            {(parents.length > 0 || missingParents > 0) && (
+              <section>
+                <h4 className="text-xs font-medium text-zinc-500 mb-1">Made From</h4>
+                <div className="flex flex-wrap gap-2">
+                  {parents.map(parent => <AssetThumb key={parent.id} asset={parent} onClick={() => onSelect(parent)} />)}
+                </div>
+                {missingParents > 0 && (
+                  <p className="text-[11px] text-zinc-600 mt-1">{missingParents} source asset{missingParents > 1 ? 's have' : ' has'} been deleted.</p>
+                )}
+              </section>
+            )}
+
+            {asset.lineage && asset.lineage.length > 1 && (
+              <section>
+                <h4 className="text-xs font-medium text-zinc-500 mb-1">Edit Chain</h4>
+                <ol className="space-y-1">
+                  {asset.lineage.map((step, i) => (
+                    <li key={step.id} className="flex items-center gap-2">
+                      <img src={step.image} alt="" className="w-10 h-10 object-cover rounded shrink-0" />
+                      <span className="text-xs text-zinc-300 truncate">
+                        {i === 0 ? 'Original' : `${step.masked ? 'Masked: ' : ''}${step.prompt}`}
+                      </span>
+                    </li>
+                  ))}
+                </ol>
+              </section>
+            )}
+
+            {derived.length > 0 && (
+              <section>
+                <h4 className="text-xs font-medium text-zinc-500 mb-1">Used In</h4>
+                <div className="flex flex-wrap gap-2">
+                  {derived.map(child => <AssetThumb key={child.id} asset={child} onClick={() => onSelect(child)} />)}
+                </div>
+              </section>
+            )}
+
+            {siblings.length > 0 && (
+              <section>
+                <h4 className="text-xs font-medium text-zinc-500 mb-1">Variants From the Same Run</h4>
+                <div className="flex flex-wrap gap-2">
+                  {siblings.map(sibling => <AssetThumb key={sibling.id} asset={sibling} onClick={() => onSelect(sibling)} />)}
+                </div>
+              </section>
+            )}
+
+            {provenance && (
+              <p className="flex items-center gap-1 text-[11px] text-zinc-600">
+                <Info size={11} /> Provenance schema v{provenance.version}
+                {provenance.migratedFrom === 0 && ' · reconstructed from older metadata, some details are unknown'}
+                {!!provenance.migratedFrom && ` · upgraded from v${provenance.migratedFrom}`}
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AssetDetails;
@@ -0,0 +1,345 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BrandKit, GeneratedAsset } from '../types';
+import {
+  useBrandKits, createBrandKit, saveBrandKit, deleteBrandKit, setActiveBrandKit, newBrandKitItemId
+} from '../services/brandKitStore';
+import { inlineContent } from '../services/layoutStore';
+import { FONT_FAMILIES } from './layout/richText';
+import { Palette, Plus, Trash2, Save, Upload, Check, X, Image as ImageIcon } from 'lucide-react';
+
+interface BrandKitEditorProps {
+  assets: GeneratedAsset[];
+}
+
+const inputClass = 'w-full bg-zinc-950 border border-zinc-800 rounded-lg p-2 text-sm text-white focus:ring-2 focus:ring-indigo-500 focus:outline-none';
+
+const Section: React.FC<{ title: string, hint?: string, children: React.ReactNode }> = ({ title, hint, children }) => (
+  <div className="bg-zinc-900 p-5 rounded-xl border border-zinc-800">
+    <h3 className="text-sm font-semibold text-zinc-300">{title}</h3>
+    {hint && <p className="text-xs text-zinc-500 mt-0.5">{hint}</p>}
+    <div className="mt-3">{children}</div>
+  </div>
+);
+
+// Manages brand kits. Edits stay in a local draft until saved, so a half-typed
+// kit never leaks into generator prompts.
+const BrandKitEditor: React.FC<BrandKitEditorProps> = ({ assets }) => {
+  const { kits, activeKit, loaded } = useBrandKits();
+  const [draft, setDraft] = useState<BrandKit | null>(null);
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [bannedInput, setBannedInput] = useState('');
+  const [showLibrary, setShowLibrary] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Open the active kit (or the first one) once kits have loaded
+  useEffect(() => {
+    if (draft || !loaded) return;
+    const initial = activeKit || kits[0];
+    if (initial) setDraft(initial);
+  }, [loaded]);
+
+  const confirmDiscard = () => !dirty || confirm("Discard unsaved changes to this brand kit?");
+
+  const openKit = (kit: BrandKit) => {
+    if (kit.id === draft?.id || !confirmDiscard()) return;
+    setDraft(kit);
+    setDirty(false);
+  };
+
+  const update = (patch: Partial<BrandKit>) => {
+    if (!draft) return;
+    setDraft({ ...draft, ...patch });
+    setDirty(true);
+  };
+
+  const handleNew = () => {
+    if (!confirmDiscard()) return;
+    setDraft(createBrandKit());
+    setDirty(true);
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    if (!draft.name.trim()) {
+      alert("Give the brand a name before saving.");
+      return;
+    }
+    setSaving(true);
+    try {
+      const stored = await saveBrandKit({
+        ...draft,
+        name: draft.name.trim(),
+        fonts: draft.fonts.map(f => f.trim()).filter(Boolean),
+        sampleCopy: draft.sampleCopy.map(s => s.trim()).filter(Boolean),
+      });
+      setDraft(stored);
+      setDirty(false);
+      if (!activeKit) setActiveBrandKit(stored.id);
+    } catch (e: any) {
+      console.error(e);
+      alert(e.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!draft) return;
+    if (!confirm(`Delete the brand kit "${draft.name}"?`)) return;
+    try {
+      if (kits.some(k => k.id === draft.id)) await deleteBrandKit(draft.id);
+      setDraft(kits.find(k => k.id !== draft.id) || null);
+      setDirty(false);
+    } catch (e: any) {
+      console.error(e);
+      alert(e.message);
+    }
+  };
+
+  // --- Logos ---
+  const addLogo = (name: string, content: string) => {
+    if (!draft) return;
+    update({ logos: [...draft.logos, { id: newBrandKitItemId('logo'), name, content }] });
+  };
+
+  const handleLogoUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (ev) => {
+      if (typeof ev.target?.result === 'string') addLogo(file.name, ev.target.result);
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const handleLogoFromLibrary = async (asset: GeneratedAsset) => {
+    try {
+      addLogo(asset.metadata?.prompt || 'Logo', await inlineContent(asset.content));
+      setShowLibrary(false);
+    } catch (e) {
+      console.error(e);
+      alert("Could not read that asset.");
+    }
+  };
+
+  // --- Lists ---
+  const addBannedWord = () => {
+    if (!draft) return;
+    const words = bannedInput.split(',').map(w => w.trim()).filter(w => w && !draft.bannedWords.includes(w));
+    if (words.length) update({ bannedWords: [...draft.bannedWords, ...words] });
+    setBannedInput('');
+  };
+
+  const replaceAt = <T,>(list: T[], index: number, value: T) => list.map((v, i) => i === index ? value : v);
+  const removeAt = <T,>(list: T[], index: number) => list.filter((_, i) => i !== index);
+
+  const imageAssets = assets.filter(a => a.type === 'image');
+
+  return (
+    <div className="max-w-5xl mx-auto p-8">
+      <h2 className="text-3xl font-bold text-white mb-6 flex items-center gap-3">
+        <Palette className="text-teal-400" /> Brand Kit
+      </h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+        {/* Kit list */}
+        <div className="md:col-span-1 space-y-2">
+          <button onClick={handleNew} className="w-full flex items-center justify-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white px-3 py-2 rounded-lg text-sm">
+            <Plus size={14} /> New Brand Kit
+          </button>
+          {kits.map(kit => (
+            <div
+              key={kit.id}
+              onClick={() => openKit(kit)}
+              className={`px-3 py-2 rounded-lg cursor-pointer border ${kit.id === draft?.id ? 'bg-indigo-600/20 border-indigo-500/40' : 'border-transparent hover:bg-zinc-900'}`}
+            >
+              <div className="flex items-center gap-2">
+                <span className="flex-1 truncate text-sm text-zinc-200">{kit.name}</span>
+                {kit.id === activeKit?.id && <span className="text-[10px] text-teal-400 uppercase tracking-wider">Active</span>}
+              </div>
+              <div className="flex gap-1 mt-1">
+                {kit.colors.slice(0, 6).map((c, i) => <span key={i} className="w-3 h-3 rounded-full" style={{ backgroundColor: c.hex }} />)}
+              </div>
+            </div>
+          ))}
+          {loaded && kits.length === 0 && <p className="text-xs text-zinc-600 italic px-1">No brand kits yet.</p>}
+        </div>
+
+        {/* Kit form */}
+        {draft ? (
+          <div className="md:col-span-3 space-y-4">
+            <div className="flex items-center gap-2">
+              <input
+                value={draft.name}
+                onChange={(e) => update({ name: e.target.value })}
+                className="flex-1 bg-transparent text-xl font-semibold text-white border-b border-zinc-800 focus:border-indigo-500 focus:outline-none py-1"
+                placeholder="Brand name"
+              />
+              {kits.some(k => k.id === draft.id) && draft.id !== activeKit?.id && (
+                <button onClick={() => setActiveBrandKit(draft.id)} className="flex items-center gap-2 bg-zinc-800 hover:bg-zinc-700 text-zinc-200 px-3 py-1.5 rounded text-sm">
+                  <Check size={14} /> Use in Generators
+                </button>
+              )}
+              <button onClick={handleDelete} className="p-2 text-zinc-500 hover:text-red-400" title="Delete brand kit">
+                <Trash2 size={16} />
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={saving || !dirty}
+                className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-700 disabled:bg-zinc-800 disabled:text-zinc-500 text-white px-3 py-1.5 rounded text-sm"
+              >
+                <Save size={14} /> {saving ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+
+            <Section title="Logos" hint="Stored inside the kit, so they survive clearing the asset library.">
+              <div className="flex flex-wrap gap-3">
+                {draft.logos.map((logo, i) => (
+                  <div key={logo.id} className="relative group w-20 h-20 bg-zinc-950 border border-zinc-800 rounded-lg p-2">
+                    <img src={logo.content} alt={logo.name} className="w-full h-full object-contain" />
+                    <button
+                      onClick={() => update({ logos: removeAt(draft.logos, i) })}
+                      className="absolute -top-2 -right-2 bg-zinc-800 text-zinc-400 hover:text-red-400 rounded-full p-0.5 opacity-0 group-hover:opacity-100"
+                      title="Remove"
+                    >
+                      <X size={12} />
+                    </button>
+                  </div>
+                ))}
+                <button onClick={() => fileInputRef.current?.click()} className="w-20 h-20 border-2 border-dashed border-zinc-700 hover:border-zinc-500 rounded-lg flex flex-col items-center justify-center text-zinc-500 text-[10px] gap-1">
+                  <Upload size={16} /> Upload
+                </button>
+                <button onClick={() => setShowLibrary(!showLibrary)} className="w-20 h-20 border-2 border-dashed border-zinc-700 hover:border-zinc-500 rounded-lg flex flex-col items-center justify-center text-zinc-500 text-[10px] gap-1">
+                  <ImageIcon size={16} /> Library
+                </button>
+                <input type="file" ref={fileInputRef} onChange={handleLogoUpload} className="hidden" accept="image/png, image/jpeg, image/webp, image/svg+xml" />
+              </div>
+              {showLibrary && (
+                <div className="grid grid-cols-6 gap-2 mt-3 max-h-48 overflow-y-auto">
+                  {imageAssets.length === 0 && <p className="col-span-full text-xs text-zinc-600 italic">No images in the asset library.</p>}
+                  {imageAssets.map(asset => (
+                    <img
+                      key={asset.id}
+                      src={asset.content}
+                      onClick={() => handleLogoFromLibrary(asset)}
+                      className="aspect-square object-cover rounded border border-zinc-800 hover:border-indigo-500 cursor-pointer"
+                      alt={asset.metadata?.prompt || 'Asset'}
+                    />
+                  ))}
+                </div>
+              )}
+            </Section>
+
+            <Section title="Color Palette">
+              <div className="space-y-2">
+                {draft.colors.map((color, i) => (
+                  <div key={i} className="flex items-center gap-2">
+                    <input
+                      type="color"
+                      value={color.hex}
+                      onChange={(e) => update({ colors: replaceAt(draft.colors, i, { ...color, hex: e.target.value }) })}
+                      className="w-9 h-9 bg-transparent border border-zinc-800 rounded cursor-pointer shrink-0"
+                    />
+                    <input
+                      value={color.name}
+                      onChange={(e) => update({ colors: replaceAt(draft.colors, i, { ...color, name: e.target.value }) })}
+                      className={inputClass}
+                      placeholder="Color name, e.g. Primary"
+                    />
+                    <span className="text-xs text-zinc-500 font-mono w-16">{color.hex}</span>
+                    <button onClick={() => update({ colors: removeAt(draft.colors, i) })} className="p-1 text-zinc-500 hover:text-red-400"><Trash2 size={14} /></button>
+                  </div>
+                ))}
+                <button
+                  onClick={() => update({ colors: [...draft.colors, { name: `Color ${draft.colors.length + 1}`, hex: '#4f46e5' }] })}
+                  className="flex items-center gap-2 text-xs text-indigo-400 hover:text-indigo-300"
+                >
+                  <Plus size={12} /> Add color
+                </button>
+              </div>
+            </Section>
+
+            <Section title="Fonts" hint="The first font is used for headlines.">
+              <div className="space-y-2">
+                {draft.fonts.map((font, i) => (
+                  <div key={i} className="flex items-center gap-2">
+                    <input
+                      value={font}
+                      list="brand-kit-fonts"
+                      onChange={(e) => update({ fonts: replaceAt(draft.fonts, i, e.target.value) })}
+                      className={inputClass}
+                      style={{ fontFamily: font }}
+                      placeholder="Font family"
+                    />
+                    <button onClick={() => update({ fonts: removeAt(draft.fonts, i) })} className="p-1 text-zinc-500 hover:text-red-400"><Trash2 size={14} /></button>
+                  </div>
+                ))}
+                <datalist id="brand-kit-fonts">
+                  {FONT_FAMILIES.map(f => <option key={f} value={f} />)}
+                </datalist>
+                <button onClick={() => update({ fonts: [...draft.fonts, ''] })} className="flex items-center gap-2 text-xs text-indigo-400 hover:text-indigo-300">
+                  <Plus size={12} /> Add font
+                </button>
+              </div>
+            </Section>
+
+            <Section title="Tone of Voice" hint="Describe how the brand sounds. Injected into every generator prompt.">
+              <textarea
+                value={draft.toneOfVoice}
+                onChange={(e) => update({ toneOfVoice: e.target.value })}
+                className={`${inputClass} h-24 resize-none`}
+                placeholder="e.g. Warm, confident and plain-spoken. Short sentences, no jargon."
+              />
+            </Section>
+
+            <Section title="Banned Words" hint="Copy generation is told never to use these.">
+              <div className="flex flex-wrap gap-2 mb-2">
+                {draft.bannedWords.map((word, i) => (
+                  <span key={word} className="flex items-center gap-1 bg-zinc-800 text-zinc-300 text-xs px-2 py-1 rounded-full">
+                    {word}
+                    <button onClick={() => update({ bannedWords: removeAt(draft.bannedWords, i) })} className="text-zinc-500 hover:text-red-400"><X size={10} /></button>
+                  </span>
+                ))}
+              </div>
+              <input
+                value={bannedInput}
+                onChange={(e) => setBannedInput(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') addBannedWord(); }}
+                onBlur={addBannedWord}
+                className={inputClass}
+                placeholder="Type a word and press Enter (comma-separate several)"
+              />
+            </Section>
+
+            <Section title="Sample Copy" hint="Examples of on-brand writing for the copywriter to imitate.">
+              <div className="space-y-2">
+                {draft.sampleCopy.map((sample, i) => (
+                  <div key={i} className="flex items-start gap-2">
+                    <textarea
+                      value={sample}
+                      onChange={(e) => update({ sampleCopy: replaceAt(draft.sampleCopy, i, e.target.value) })}
+                      className={`${inputClass} h-16 resize-none`}
+                    />
+                    <button onClick={() => update({ sampleCopy: removeAt(draft.sampleCopy, i) })} className="p-1 text-zinc-500 hover:text-red-400"><Trash2 size={14} /></button>
+                  </div>
+                ))}
+                <button onClick={() => update({ sampleCopy: [...draft.sampleCopy, ''] })} className="flex items-center gap-2 text-xs text-indigo-400 hover:text-indigo-300">
+                  <Plus size={12} /> Add sample
+                </button>
+              </div>
+            </Section>
+          </div>
+        ) : (
+          <div className="md:col-span-3 flex flex-col items-center justify-center text-zinc-600 py-24 bg-zinc-900 rounded-xl border border-dashed border-zinc-800">
+            <Palette size={48} className="opacity-20 mb-2" />
+            <p>Create a brand kit to keep every generation on brand.</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BrandKitEditor;
@@ -0,0 +1,48 @@
+import React from 'react';
+import { useBrandKits, setActiveBrandKit } from '../services/brandKitStore';
+import { Palette } from 'lucide-react';
+
+interface BrandKitPickerProps {
+  className?: string;
+}
+
+// Selects the brand kit that generators inject into their prompts.
+// The choice is shared, so switching it here switches it in every tool.
+const BrandKitPicker: React.FC<BrandKitPickerProps> = ({ className = 'mb-4' }) => {
+  const { kits, activeKit } = useBrandKits();
+
+  return (
+    <div className={className}>
+      <label className="flex items-center gap-2 text-sm font-medium text-zinc-400 mb-2">
+        <Palette size={14} /> Brand Kit
+      </label>
+      <div className="flex items-center gap-2">
+        <select
+          value={activeKit?.id || ''}
+          onChange={(e) => setActiveBrandKit(e.target.value || null)}
+          className="flex-1 min-w-0 bg-zinc-950 border border-zinc-800 rounded-lg p-2 text-sm text-white focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+        >
+          <option value="">No brand kit</option>
+          {kits.map(kit => <option key={kit.id} value={kit.id}>{kit.name}</option>)}
+        </select>
+        {activeKit && activeKit.colors.length > 0 && (
+          <div className="flex -space-x-1 shrink-0">
+            {activeKit.colors.slice(0, 5).map((color, i) => (
+              <span
+                key={i}
+                className="w-4 h-4 rounded-full border border-zinc-900"
+                style={{ backgroundColor: color.hex }}
+                title={`${color.name} ${color.hex}`}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+      {kits.length === 0 && (
+        <p className="text-[10px] text-zinc-600 mt-1">Create a kit in Brand Kit to keep generations on brand.</p>
+      )}
+    </div>
+  );
+};
+
+export default BrandKitPicker;
@@ -1,58 +1,189 @@
-import React, { useState } from 'react';
-import { generateMarketingCopy } from '../services/geminiService';
-import { GeneratedAsset } from '../types';
-import { Sparkles, Copy, Check } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { streamStructuredCopy, StructuredCopyOptions } from '../services/geminiService';
+import {
+  COPY_FORMAT_SPECS, DEFAULT_COPY_SPEC, CopyFormatError, CopyViolation, StructuredCopy,
+  getCopySpec, validateCopy, formatStructuredCopy
+} from '../services/copySpecs';
+import { AssetProvenance, GeneratedAsset, PromptSettings, PromptSource, ToolType } from '../types';
+import { useBrandKits } from '../services/brandKitStore';
+import BrandKitPicker from './BrandKitPicker';
+import PromptLibraryMenu from './PromptLibraryMenu';
+import { PromptReuse, recordPrompt } from '../services/promptLibrary';
+import { useRouteParams } from '../services/router';
+import { createProvenance } from '../services/provenance';
+import { Sparkles, Copy, Check, Pin, PinOff, RefreshCw, Save, Loader2, AlertTriangle, Wand2 } from 'lucide-react';
 
 interface CopyGeneratorProps {
   onAssetCreated: (asset: GeneratedAsset) => void;
+  reuse?: PromptReuse | null; // Prompt and settings to prefill, e.g. from a library asset
+  onReuseConsumed?: () => void;
 }
 
-const CopyGenerator: React.FC<CopyGeneratorProps> = ({ onAssetCreated }) => {
+interface CopyVariant {
+  id: string;
+  raw: string; // Streamed JSON, shown until it can be parsed
+  copy?: StructuredCopy;
+  violations: CopyViolation[];
+  status: 'streaming' | 'done' | 'error';
+  error?: string;
+  pinned: boolean;
+  savedAssetId?: string;
+  provenance?: AssetProvenance;
+}
+
+const MAX_VARIANTS = 4;
+
+const newVariantId = () => `variant-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`;
+
+// Variants stream in side by side as structured JSON, then get validated against
+// the format's spec. Pinned variants survive a new generation; saved ones become
+// assets that share a variantGroupId with their siblings.
+const CopyGenerator: React.FC<CopyGeneratorProps> = ({ onAssetCreated, reuse, onReuseConsumed }) => {
   const [topic, setTopic] = useState('');
-  const [type, setType] = useState('Instagram Ad');
+  const [specId, setSpecId] = useState(DEFAULT_COPY_SPEC.id);
   const [voice, setVoice] = useState('Professional');
-  const [loading, setLoading] = useState(false);
-  const [result, setResult] = useState('');
-  const [copied, setCopied] = useState(false);
+  const [variantCount, setVariantCount] = useState(1);
+  const [variants, setVariants] = useState<CopyVariant[]>([]);
+  const [groupId, setGroupId] = useState(newVariantId);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const { activeKit } = useBrandKits();
+  // Latest stream per variant; chunks from a superseded stream are dropped
+  const streamTokens = useRef(new Map<string, number>());
 
-  const handleGenerate = async () => {
-    if (!topic) return;
-    setLoading(true);
-    try {
-      const text = await generateMarketingCopy(topic, type, voice);
-      setResult(text);
-      
-      const newAsset: GeneratedAsset = {
-        id: Date.now().toString(),
-        type: 'text',
-        content: text,
-        createdAt: Date.now(),
-        metadata: { prompt: topic }
-      };
-      onAssetCreated(newAsset);
+  const loading = variants.some(v => v.status === 'streaming');
+  const spec = getCopySpec(specId);
+
+  const patchVariant = (id: string, patch: Partial<CopyVariant>) =>
+    setVariants(prev => prev.map(v => v.id === id ? { ...v, ...patch } : v));
+
+  const promptSource = (): PromptSource => ({
+    tool: ToolType.COPY_WRITER,
+    prompt: topic,
+    settings: { specId, voice, variantCount },
+  });
+
+  const applyPrompt = (text: string, settings?: PromptSettings) => {
+    setTopic(text);
+    if (!settings) return;
+    if (typeof settings.specId === 'string' && settings.specId !== specId) {
+      setSpecId(getCopySpec(settings.specId).id);
+      setVariants([]);
+    }
+    if (typeof settings.voice === 'string') setVoice(settings.voice);
+    if (typeof settings.variantCount === 'number') setVariantCount(Math.min(MAX_VARIANTS, settings.variantCount));
+  };
 
+  useEffect(() => {
+    if (!reuse) return;
+    applyPrompt(reuse.prompt, reuse.settings);
+    onReuseConsumed?.();
+  }, [reuse]);
+
+  useRouteParams(ToolType.COPY_WRITER, topic, { specId, voice, variantCount });
+
+  const streamVariant = async (id: string, index: number, total: number, revise?: StructuredCopyOptions['revise']) => {
+    const token = (streamTokens.current.get(id) || 0) + 1;
+    streamTokens.current.set(id, token);
+    const isCurrent = () => streamTokens.current.get(id) === token;
+
+    patchVariant(id, { raw: '', copy: undefined, violations: [], error: undefined, status: 'streaming', savedAssetId: undefined });
+    const startedAt = Date.now();
+    try {
+      const copy = await streamStructuredCopy(
+        { topic, spec, brandVoice: voice, brandKit: activeKit, variant: { index, total }, revise },
+        (partial) => { if (isCurrent()) patchVariant(id, { raw: partial }); }
+      );
+      const provenance = createProvenance({
+        tool: ToolType.COPY_WRITER,
+        model: 'copy',
+        parameters: { format: spec.id, voice, variantIndex: index + 1, variantCount: total, fixToFit: revise ? true : undefined },
+        brandKit: activeKit,
+        startedAt,
+      });
+      if (isCurrent()) patchVariant(id, { copy, violations: validateCopy(spec, copy), status: 'done', provenance });
     } catch (e) {
       console.error(e);
-      alert('Failed to generate copy');
-    } finally {
-      setLoading(false);
+      if (isCurrent()) {
+        patchVariant(id, { status: 'error', error: e instanceof CopyFormatError ? e.message : "Failed to generate this variant." });
+      }
     }
   };
 
-  const copyToClipboard = () => {
-      navigator.clipboard.writeText(result);
-      setCopied(true);
-      setTimeout(() => setCopied(false), 2000);
+  const handleGenerate = () => {
+    if (!topic) return;
+    const pinned = variants.filter(v => v.pinned);
+    const fresh: CopyVariant[] = Array.from({ length: variantCount }, () => ({
+      id: newVariantId(), raw: '', violations: [], status: 'streaming', pinned: false,
+    }));
+    const next = [...pinned, ...fresh];
+    // Stay in the same sibling group while saved pinned variants remain on screen
+    setGroupId(pinned.some(v => v.savedAssetId) ? groupId : newVariantId());
+    setVariants(next);
+    fresh.forEach(v => streamVariant(v.id, next.indexOf(v), next.length));
+    recordPrompt(promptSource()).catch(e => console.error(e));
+  };
+
+  const handleRegenerate = (variant: CopyVariant) => {
+    if (!topic) return;
+    streamVariant(variant.id, variants.indexOf(variant), variants.length);
+  };
+
+  // Sends the current copy and its violations back to the model for a constrained rewrite
+  const handleFixToFit = (variant: CopyVariant) => {
+    if (!topic || !variant.copy) return;
+    streamVariant(variant.id, variants.indexOf(variant), variants.length, { copy: variant.copy, violations: variant.violations });
+  };
+
+  const handleFieldEdit = (variant: CopyVariant, key: string, value: string) => {
+    if (!variant.copy) return;
+    const copy = { ...variant.copy, [key]: value };
+    const provenance = variant.provenance && {
+      ...variant.provenance,
+      parameters: { ...variant.provenance.parameters, manuallyEdited: true },
+    };
+    patchVariant(variant.id, { copy, violations: validateCopy(spec, copy), savedAssetId: undefined, provenance });
+  };
+
+  const handleSave = (variant: CopyVariant) => {
+    if (variant.savedAssetId || variant.status !== 'done' || !variant.copy) return;
+    const assetId = `${Date.now()}-${Math.random().toString(36).substr(2, 5)}`;
+    onAssetCreated({
+      id: assetId,
+      type: 'text',
+      content: formatStructuredCopy(spec, variant.copy),
+      createdAt: Date.now(),
+      metadata: { prompt: topic, source: promptSource() },
+      variantGroupId: groupId,
+      provenance: variant.provenance,
+    });
+    patchVariant(variant.id, { savedAssetId: assetId });
+  };
+
+  const handleSaveAll = () => {
+    const pinned = variants.filter(v => v.pinned);
+    (pinned.length ? pinned : variants).forEach(handleSave);
+  };
+
+  const copyToClipboard = (variant: CopyVariant) => {
+      if (!variant.copy) return;
+      navigator.clipboard.writeText(formatStructuredCopy(spec, variant.copy));
+      setCopiedId(variant.id);
+      setTimeout(() => setCopiedId(null), 2000);
   }
 
+  const unsavedCount = variants.filter(v => v.status === 'done' && !v.savedAssetId).length;
+
   return (
-    <div className="max-w-3xl mx-auto p-8">
+    <div className={`${variants.length > 1 ? 'max-w-6xl' : 'max-w-3xl'} mx-auto p-8`}>
       <h2 className="text-3xl font-bold text-white mb-6">AI Copywriter</h2>
-      
+
       <div className="bg-zinc-900 p-6 rounded-xl border border-zinc-800 shadow-xl">
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
           <div>
-            <label className="block text-sm font-medium text-zinc-400 mb-2">Topic / Product</label>
+            <div className="flex items-center justify-between mb-2">
+              <label className="block text-sm font-medium text-zinc-400">Topic / Product</label>
+              <PromptLibraryMenu tool={ToolType.COPY_WRITER} prompt={topic} onApply={applyPrompt} />
+            </div>
             <input
               type="text"
               value={topic}
@@ -64,17 +195,25 @@ const CopyGenerator: React.FC<CopyGeneratorProps> = ({ onAssetCreated }) => {
           <div>
             <label className="block text-sm font-medium text-zinc-400 mb-2">Content Type</label>
             <select
-              value={type}
-              onChange={(e) => setType(e.target.value)}
+              value={specId}
+              onChange={(e) => {
+                // Results are validated against the spec, so they cannot outlive a format change
+                if (variants.length && !confirm("Changing the format clears the current results. Continue?")) return;
+                setSpecId(e.target.value);
+                setVariants([]);
+              }}
               className="w-full bg-zinc-950 border border-zinc-800 rounded-lg p-3 text-white focus:ring-2 focus:ring-indigo-500 focus:outline-none"
             >
-              <option>Instagram Ad</option>
-              <option>LinkedIn Post</option>
-              <option>Blog Post Outline</option>
-              <option>Tagline</option>
-              <option>Email Subject Line</option>
-              <option>Product Description</option>
+              {COPY_FORMAT_SPECS.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
             </select>
+            <p className="text-[10px] text-zinc-500 mt-1">
+              {spec.fields.filter(f => f.maxLength).map(f => `${f.label} ≤ ${f.maxLength}`).join(' · ')}
+              {spec.hashtags.max > 0 && ` · ${spec.hashtags.min}–${spec.hashtags.max} hashtags`}
+              {spec.emoji === 'none' && ' · no emoji'}
+            </p>
+          </div>
+          <div className="md:col-span-2">
+            <BrandKitPicker className="" />
           </div>
           <div className="md:col-span-2">
             <label className="block text-sm font-medium text-zinc-400 mb-2">Brand Voice</label>
@@ -84,8 +223,8 @@ const CopyGenerator: React.FC<CopyGeneratorProps> = ({ onAssetCreated }) => {
                         key={v}
                         onClick={() => setVoice(v)}
                         className={`px-4 py-2 rounded-full text-sm border ${
-                            voice === v 
-                            ? 'bg-indigo-600 border-indigo-600 text-white' 
+                            voice === v
+                            ? 'bg-indigo-600 border-indigo-600 text-white'
                             : 'bg-zinc-950 border-zinc-800 text-zinc-400 hover:border-zinc-600'
                         }`}
                     >
@@ -93,6 +232,27 @@ const CopyGenerator: React.FC<CopyGeneratorProps> = ({ onAssetCreated }) => {
                     </button>
                 ))}
              </div>
+             {activeKit?.toneOfVoice && (
+                <p className="text-xs text-zinc-500 mt-2">Blended with {activeKit.name}'s tone of voice, banned words and sample copy.</p>
+             )}
+          </div>
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-zinc-400 mb-2">Variants</label>
+            <div className="flex gap-2">
+                {Array.from({ length: MAX_VARIANTS }, (_, i) => i + 1).map(n => (
+                    <button
+                        key={n}
+                        onClick={() => setVariantCount(n)}
+                        className={`w-10 py-2 rounded-lg text-sm border ${
+                            variantCount === n
+                            ? 'bg-indigo-600 border-indigo-600 text-white'
+                            : 'bg-zinc-950 border-zinc-800 text-zinc-400 hover:border-zinc-600'
+                        }`}
+                    >
+                        {n}
+                    </button>
+                ))}
+            </div>
           </div>
         </div>
 
@@ -100,8 +260,8 @@ const CopyGenerator: React.FC<CopyGeneratorProps> = ({ onAssetCreated }) => {
           onClick={handleGenerate}
           disabled={loading || !topic}
           className={`w-full py-3 rounded-lg font-bold flex items-center justify-center gap-2 transition-all ${
-            loading 
-            ? 'bg-zinc-800 text-zinc-500 cursor-not-allowed' 
+            loading
+            ? 'bg-zinc-800 text-zinc-500 cursor-not-allowed'
             : 'bg-indigo-600 hover:bg-indigo-500 text-white shadow-lg hover:shadow-indigo-500/20'
           }`}
         >
@@ -109,23 +269,121 @@ const CopyGenerator: React.FC<CopyGeneratorProps> = ({ onAssetCreated }) => {
             <span className="animate-pulse">Generating Magic...</span>
           ) : (
             <>
-              <Sparkles size={20} /> Generate Copy
+              <Sparkles size={20} /> Generate {variantCount > 1 ? `${variantCount} Variants` : 'Copy'}
             </>
           )}
         </button>
       </div>
 
-      {result && (
-        <div className="mt-8 bg-zinc-900 border border-zinc-800 rounded-xl p-6 relative group">
-          <button 
-            onClick={copyToClipboard}
-            className="absolute top-4 right-4 p-2 text-zinc-400 hover:text-white bg-zinc-800 rounded hover:bg-zinc-700 transition-colors"
-          >
-            {copied ? <Check size={18} className="text-green-500"/> : <Copy size={18} />}
-          </button>
-          <h3 className="text-zinc-500 text-sm font-semibold uppercase tracking-wider mb-3">Result</h3>
-          <div className="prose prose-invert max-w-none">
-            <p className="whitespace-pre-wrap text-zinc-200">{result}</p>
+      {variants.length > 0 && (
+        <div className="mt-8">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-zinc-500 text-sm font-semibold uppercase tracking-wider">{variants.length > 1 ? 'Variants' : 'Result'}</h3>
+            {unsavedCount > 0 && (
+              <button onClick={handleSaveAll} className="flex items-center gap-2 text-xs text-indigo-400 hover:text-indigo-300">
+                <Save size={14} /> Save {variants.some(v => v.pinned) ? 'Pinned' : 'All'} to Library
+              </button>
+            )}
+          </div>
+          <div className={`grid gap-4 ${variants.length > 1 ? 'grid-cols-1 md:grid-cols-2' : 'grid-cols-1'}`}>
+            {variants.map((variant, index) => (
+              <div
+                key={variant.id}
+                className={`bg-zinc-900 border rounded-xl p-5 flex flex-col ${variant.pinned ? 'border-amber-500/50' : 'border-zinc-800'}`}
+              >
+                <div className="flex items-center gap-1 mb-3">
+                  <span className="text-xs font-semibold text-zinc-500 flex-1">
+                    {variants.length > 1 ? `Variant ${String.fromCharCode(65 + index)}` : 'Copy'}
+                    {variant.savedAssetId && <span className="ml-2 text-emerald-500">Saved</span>}
+                  </span>
+                  {variant.status === 'streaming' && <Loader2 size={14} className="animate-spin text-indigo-400 mr-1" />}
+                  <button
+                    onClick={() => patchVariant(variant.id, { pinned: !variant.pinned })}
+                    className={`p-1.5 rounded hover:bg-zinc-800 ${variant.pinned ? 'text-amber-400' : 'text-zinc-500 hover:text-white'}`}
+                    title={variant.pinned ? 'Unpin' : 'Pin (kept when generating again)'}
+                  >
+                    {variant.pinned ? <PinOff size={14} /> : <Pin size={14} />}
+                  </button>
+                  <button
+                    onClick={() => handleRegenerate(variant)}
+                    disabled={variant.status === 'streaming' || !topic}
+                    className="p-1.5 rounded text-zinc-500 hover:text-white hover:bg-zinc-800 disabled:opacity-30"
+                    title="Regenerate this variant"
+                  >
+                    <RefreshCw size={14} />
+                  </button>
+                  <button
+                    onClick={() => handleSave(variant)}
+                    disabled={variant.status !== 'done' || !!variant.savedAssetId}
+                    className="p-1.5 rounded text-zinc-500 hover:text-white hover:bg-zinc-800 disabled:opacity-30"
+                    title="Save to library"
+                  >
+                    <Save size={14} />
+                  </button>
+                  <button
+                    onClick={() => copyToClipboard(variant)}
+                    disabled={!variant.copy}
+                    className="p-1.5 rounded text-zinc-500 hover:text-white hover:bg-zinc-800 disabled:opacity-30"
+                    title="Copy to clipboard"
+                  >
+                    {copiedId === variant.id ? <Check size={14} className="text-green-500"/> : <Copy size={14} />}
+                  </button>
+                </div>
+                <div className="flex-1">
+                  {variant.status === 'error' && (
+                    <p className="text-red-400 text-sm">{variant.error} Try regenerating it.</p>
+                  )}
+                  {variant.status === 'streaming' && (
+                    <p className="whitespace-pre-wrap text-zinc-500 text-xs font-mono">
+                      {variant.raw}
+                      <span className="inline-block w-2 h-3 ml-0.5 bg-indigo-400 animate-pulse align-middle" />
+                    </p>
+                  )}
+                  {variant.status === 'done' && variant.copy && (
+                    <div className="space-y-3">
+                      {spec.fields.map(field => {
+                        const value = variant.copy![field.key] || '';
+                        const over = !!field.maxLength && value.trim().length > field.maxLength;
+                        return (
+                          <div key={field.key}>
+                            <div className="flex items-center justify-between text-[10px] uppercase tracking-wider mb-1">
+                              <span className={variant.violations.some(v => v.field === field.key) ? 'text-red-400' : 'text-zinc-500'}>{field.label}</span>
+                              {field.maxLength && (
+                                <span className={over ? 'text-red-400' : 'text-zinc-600'}>{value.trim().length}/{field.maxLength}</span>
+                              )}
+                            </div>
+                            <textarea
+                              value={value}
+                              onChange={(e) => handleFieldEdit(variant, field.key, e.target.value)}
+                              rows={field.multiline ? 4 : 1}
+                              className={`w-full bg-zinc-950 border rounded-lg px-3 py-2 text-sm text-zinc-200 resize-none focus:outline-none focus:ring-1 focus:ring-indigo-500 ${over ? 'border-red-500/60' : 'border-zinc-800'}`}
+                            />
+                          </div>
+                        );
+                      })}
+                      {variant.violations.length > 0 && (
+                        <div className="bg-red-950/30 border border-red-900/60 rounded-lg p-3">
+                          <ul className="space-y-1 mb-2">
+                            {variant.violations.map((violation, i) => (
+                              <li key={i} className="flex items-start gap-2 text-xs text-red-300">
+                                <AlertTriangle size={12} className="shrink-0 mt-0.5" /> {violation.message}
+                              </li>
+                            ))}
+                          </ul>
+                          <button
+                            onClick={() => handleFixToFit(variant)}
+                            disabled={!topic}
+                            className="flex items-center gap-2 text-xs font-semibold text-white bg-red-600/80 hover:bg-red-600 disabled:opacity-40 px-3 py-1.5 rounded"
+                          >
+                            <Wand2 size={12} /> Fix to Fit
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              </div>
+            ))}
           </div>
         </div>
       )}
@@ -133,4 +391,4 @@ const CopyGenerator: React.FC<CopyGeneratorProps> = ({ onAssetCreated }) => {
   );
 };
 
-export default CopyGenerator;
\ No newline at end of file
+export default CopyGenerator;
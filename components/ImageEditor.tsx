@@ -1,46 +1,129 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { editMarketingImage } from '../services/geminiService';
-import { GeneratedAsset } from '../types';
-import { Wand2, Upload, Download, ArrowRight } from 'lucide-react';
+import { inlineContent } from '../services/layoutStore';
+import { GeneratedAsset, ToolType } from '../types';
+import { PromptReuse } from '../services/promptLibrary';
+import { createProvenance } from '../services/provenance';
+import MaskEditor from './imageEdit/MaskEditor';
+import CompareSlider from './imageEdit/CompareSlider';
+import { EditNode, getEditPath, getEditRows, nodesFromLineage, newEditStepId, toLineage } from './imageEdit/editTree';
+import { Wand2, Upload, Download, ArrowRight, GitBranch, History, FolderOpen } from 'lucide-react';
 
 interface ImageEditorProps {
+  assets: GeneratedAsset[];
   onAssetCreated: (asset: GeneratedAsset) => void;
+  incomingImage?: string | null; // Sent from another tool; starts a new chain
+  onIncomingConsumed?: () => void;
+  reuse?: PromptReuse | null; // Reopens the reused asset's chain at the step before it
+  onReuseConsumed?: () => void;
 }
 
-const ImageEditor: React.FC<ImageEditorProps> = ({ onAssetCreated }) => {
+const ImageEditor: React.FC<ImageEditorProps> = ({ assets, onAssetCreated, incomingImage, onIncomingConsumed, reuse, onReuseConsumed }) => {
   const [prompt, setPrompt] = useState('');
-  const [image, setImage] = useState<string | null>(null);
-  const [resultImage, setResultImage] = useState<string | null>(null);
+  const [nodes, setNodes] = useState<EditNode[]>([]);
+  const [currentId, setCurrentId] = useState<string | null>(null); // Source for the next edit
   const [loading, setLoading] = useState(false);
+  const [mask, setMask] = useState<string | null>(null);
+  const [showLibrary, setShowLibrary] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  const current = nodes.find(n => n.id === currentId) || null;
+  const parent = current?.parentId ? nodes.find(n => n.id === current.parentId) : undefined;
+  const rows = getEditRows(nodes);
+  const libraryImages = assets.filter(a => a.type === 'image');
+
+  const startChain = (root: EditNode[], id: string) => {
+    setNodes(root);
+    setCurrentId(id);
+    setMask(null);
+  };
+
+  useEffect(() => {
+    if (!incomingImage) return;
+    const root: EditNode = { id: newEditStepId(), prompt: '', image: incomingImage, createdAt: Date.now() };
+    startChain([root], root.id);
+    onIncomingConsumed?.();
+  }, [incomingImage]);
+
+  useEffect(() => {
+    if (!reuse) return;
+    setPrompt(reuse.prompt);
+    const asset = assets.find(a => a.id === reuse.assetId);
+    if (asset?.lineage && asset.lineage.length > 1) {
+      const chain = nodesFromLineage(asset.lineage, asset.id);
+      startChain(chain, chain[chain.length - 2].id);
+    }
+    onReuseConsumed?.();
+  }, [reuse]);
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
       const reader = new FileReader();
       reader.onload = (ev) => {
         if (typeof ev.target?.result === 'string') {
-          setImage(ev.target.result);
-          setResultImage(null);
+          const root: EditNode = { id: newEditStepId(), prompt: '', image: ev.target.result, createdAt: Date.now() };
+          startChain([root], root.id);
         }
       };
       reader.readAsDataURL(file);
     }
+    e.target.value = '';
+  };
+
+  // Library images that came out of this editor bring their whole chain back
+  const handleOpenAsset = (asset: GeneratedAsset) => {
+    const chain = asset.lineage && asset.lineage.length > 0
+      ? nodesFromLineage(asset.lineage, asset.id)
+      : [{ id: newEditStepId(), prompt: '', image: asset.content, createdAt: asset.createdAt, assetId: asset.id }];
+    startChain(chain, chain[chain.length - 1].id);
+    setShowLibrary(false);
+  };
+
+  // Picks the step the next edit starts from; editing then adds a branch
+  const handleSelectStep = (id: string) => {
+    setCurrentId(id);
+    setMask(null);
   };
 
   const handleEdit = async () => {
-    if (!image || !prompt) return;
+    if (!current || !prompt) return;
     setLoading(true);
+    const startedAt = Date.now();
     try {
-      const editedUrl = await editMarketingImage(image, prompt);
-      setResultImage(editedUrl);
-      
+      const source = await inlineContent(current.image);
+      const editedUrl = await editMarketingImage(source, prompt, mask || undefined);
+      const assetId = `${Date.now()}-${Math.random().toString(36).substr(2, 5)}`;
+      const step: EditNode = {
+        id: newEditStepId(),
+        prompt,
+        image: editedUrl,
+        masked: mask ? true : undefined,
+        createdAt: Date.now(),
+        parentId: current.id,
+        assetId,
+      };
+      const nextNodes = [...nodes, step];
+      const path = getEditPath(nextNodes, step.id);
+      setNodes(nextNodes);
+      setCurrentId(step.id);
+      setMask(null);
+
       const newAsset: GeneratedAsset = {
-        id: Date.now().toString(),
+        id: assetId,
         type: 'image',
         content: editedUrl,
-        createdAt: Date.now(),
-        metadata: { prompt: `Edit: ${prompt}` }
+        createdAt: step.createdAt,
+        metadata: { prompt: `${mask ? 'Masked edit' : 'Edit'}: ${prompt}`, source: { tool: ToolType.IMAGE_EDIT, prompt } },
+        lineage: toLineage(path),
+        provenance: createProvenance({
+          tool: ToolType.IMAGE_EDIT,
+          origin: 'edited',
+          model: 'edit',
+          parameters: { masked: !!mask, editsInChain: path.length - 1 },
+          parentAssetIds: current.assetId ? [current.assetId] : [],
+          startedAt,
+        }),
       };
       onAssetCreated(newAsset);
     } catch (e) {
@@ -60,34 +143,63 @@ const ImageEditor: React.FC<ImageEditorProps> = ({ onAssetCreated }) => {
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
         {/* Source */}
         <div className="space-y-4">
+             {current ? (
+                <div className="bg-zinc-900 border border-zinc-800 rounded-xl p-3 relative">
+                    <MaskEditor key={current.id} image={current.image} onMaskChange={setMask} />
+                    <button 
+                        onClick={() => { setNodes([]); setCurrentId(null); setMask(null); }}
+                        className="absolute -top-3 right-3 bg-red-500/80 hover:bg-red-600 text-white text-xs px-2 py-1 rounded"
+                    >
+                        Remove
+                    </button>
+                </div>
+             ) : (
              <div 
-                className={`bg-zinc-900 border-2 border-dashed ${image ? 'border-zinc-700' : 'border-zinc-600 hover:border-zinc-400'} rounded-xl h-64 flex flex-col items-center justify-center relative cursor-pointer transition-colors`}
-                onClick={() => !image && fileInputRef.current?.click()}
+                className="bg-zinc-900 border-2 border-dashed border-zinc-600 hover:border-zinc-400 rounded-xl h-64 flex flex-col items-center justify-center relative cursor-pointer transition-colors"
+                onClick={() => fileInputRef.current?.click()}
              >
-                {image ? (
-                    <>
-                        <img src={image} alt="Source" className="w-full h-full object-contain p-2" />
-                        <button 
-                            onClick={(e) => { e.stopPropagation(); setImage(null); setResultImage(null); }}
-                            className="absolute top-2 right-2 bg-red-500/80 hover:bg-red-600 text-white text-xs px-2 py-1 rounded"
-                        >
-                            Remove
-                        </button>
-                    </>
-                ) : (
-                    <div className="text-center p-6">
-                        <Upload className="mx-auto text-zinc-500 mb-2" size={32} />
-                        <p className="text-zinc-400 text-sm">Click to upload base image</p>
-                    </div>
-                )}
-                <input 
-                    type="file" 
-                    ref={fileInputRef} 
-                    onChange={handleFileChange} 
-                    className="hidden" 
-                    accept="image/png, image/jpeg, image/webp"
-                />
+                <div className="text-center p-6">
+                    <Upload className="mx-auto text-zinc-500 mb-2" size={32} />
+                    <p className="text-zinc-400 text-sm">Click to upload base image</p>
+                </div>
              </div>
+             )}
+             <input 
+                 type="file" 
+                 ref={fileInputRef} 
+                 onChange={handleFileChange} 
+                 className="hidden" 
+                 accept="image/png, image/jpeg, image/webp"
+             />
+             {libraryImages.length > 0 && (
+                <div>
+                    <button
+                        onClick={() => setShowLibrary(!showLibrary)}
+                        className="flex items-center gap-2 text-sm text-zinc-400 hover:text-white"
+                    >
+                        <FolderOpen size={14} /> {showLibrary ? 'Hide library' : 'Open from library'}
+                    </button>
+                    {showLibrary && (
+                        <div className="grid grid-cols-4 gap-2 mt-2 max-h-48 overflow-y-auto">
+                            {libraryImages.map(asset => (
+                                <button
+                                    key={asset.id}
+                                    onClick={() => handleOpenAsset(asset)}
+                                    className="relative aspect-square rounded overflow-hidden border border-zinc-800 hover:border-indigo-500"
+                                    title={asset.metadata?.prompt}
+                                >
+                                    <img src={asset.content} alt="" className="w-full h-full object-cover" />
+                                    {asset.lineage && asset.lineage.length > 1 && (
+                                        <span className="absolute bottom-1 right-1 bg-black/70 text-[10px] text-white px-1 rounded">
+                                            {asset.lineage.length - 1} edits
+                                        </span>
+                                    )}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                </div>
+             )}
         </div>
 
         {/* Prompt & Action */}
@@ -102,7 +214,7 @@ const ImageEditor: React.FC<ImageEditorProps> = ({ onAssetCreated }) => {
                 />
                 <button
                     onClick={handleEdit}
-                    disabled={loading || !image || !prompt}
+                    disabled={loading || !current || !prompt}
                     className={`w-full py-3 rounded-lg font-bold flex items-center justify-center gap-2 transition-all ${
                         loading 
                         ? 'bg-zinc-800 text-zinc-500 cursor-not-allowed' 
@@ -111,28 +223,69 @@ const ImageEditor: React.FC<ImageEditorProps> = ({ onAssetCreated }) => {
                 >
                      {loading ? <span className="animate-pulse">Processing...</span> : <>Apply Edits <ArrowRight size={16} /></>}
                 </button>
+                {current && current.parentId && (
+                    <p className="text-[11px] text-zinc-500 mt-2">Edits apply to the selected step. Pick an earlier step below to branch from it.</p>
+                )}
              </div>
+
+             {/* History */}
+             {nodes.length > 1 && (
+                <div className="bg-zinc-900 p-4 rounded-xl border border-zinc-800">
+                    <h3 className="flex items-center gap-2 text-zinc-400 text-sm font-semibold mb-3">
+                        <History size={14} /> Edit History
+                    </h3>
+                    <div className="space-y-1 max-h-64 overflow-y-auto">
+                        {rows.map(({ node, depth }) => {
+                            const isCurrent = node.id === currentId;
+                            const hasChildren = nodes.some(n => n.parentId === node.id);
+                            return (
+                                <div
+                                    key={node.id}
+                                    className={`flex items-center gap-2 p-1.5 rounded ${isCurrent ? 'bg-indigo-500/20 border border-indigo-500/50' : 'border border-transparent hover:bg-zinc-800'}`}
+                                    style={{ marginLeft: depth * 16 }}
+                                >
+                                    {depth > 0 && <GitBranch size={12} className="text-zinc-600 shrink-0" />}
+                                    <img src={node.image} alt="" className="w-10 h-10 object-cover rounded shrink-0" />
+                                    <span className="flex-1 min-w-0 text-xs text-zinc-300 truncate" title={node.prompt}>
+                                        {node.parentId ? `${node.masked ? 'Masked: ' : ''}${node.prompt}` : 'Original'}
+                                    </span>
+                                    {!isCurrent && (
+                                        <button
+                                            onClick={() => handleSelectStep(node.id)}
+                                            className="text-[11px] text-indigo-300 hover:text-white shrink-0"
+                                            title={hasChildren ? 'Start a new branch from this step' : 'Continue editing from this step'}
+                                        >
+                                            {hasChildren ? 'Branch' : 'Edit from here'}
+                                        </button>
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+                </div>
+             )}
         </div>
       </div>
 
       {/* Result */}
-      {resultImage && (
+      {current && parent && (
         <div className="bg-zinc-900 border border-zinc-800 rounded-xl p-4 mt-8 animate-in fade-in slide-in-from-bottom-4">
-            <h3 className="text-zinc-400 text-sm font-semibold mb-3">Edited Result</h3>
+            <h3 className="text-zinc-400 text-sm font-semibold mb-3">Before / After</h3>
             <div className="flex justify-center bg-zinc-950 rounded-lg p-4 relative">
-                <img src={resultImage} alt="Edited" className="max-h-[500px] object-contain rounded shadow-lg" />
+                <CompareSlider before={parent.image} after={current.image} className="max-h-[500px] rounded shadow-lg" />
                  <a 
-                    href={resultImage} 
+                    href={current.image} 
                     download={`omni-edited-${Date.now()}.png`}
                     className="absolute bottom-6 right-6 bg-indigo-600 hover:bg-indigo-500 text-white p-2 rounded-full shadow-lg transition-colors"
                 >
                     <Download size={20} />
                 </a>
             </div>
+            <p className="text-xs text-zinc-500 mt-2 truncate">{current.prompt}</p>
         </div>
       )}
     </div>
   );
 };
 
-export default ImageEditor;
\ No newline at end of file
+export default ImageEditor;
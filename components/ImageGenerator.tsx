@@ -1,41 +1,170 @@
-import React, { useState, useRef } from 'react';
-import { generateMarketingImage } from '../services/geminiService';
-import { GeneratedAsset, AspectRatio } from '../types';
-import { Image as ImageIcon, Sparkles, Download, Upload } from 'lucide-react';
+import React, { useState, useRef, useEffect } from 'react';
+import { generateMarketingImage, randomImageSeed, upscaleMarketingImage } from '../services/geminiService';
+import { GeneratedAsset, AspectRatio, AssetProvenance, PromptSettings, PromptSource, ToolType } from '../types';
+import { useBrandKits } from '../services/brandKitStore';
+import BrandKitPicker from './BrandKitPicker';
+import PromptLibraryMenu from './PromptLibraryMenu';
+import { PromptReuse, recordPrompt } from '../services/promptLibrary';
+import { useRouteParams } from '../services/router';
+import { createProvenance, importProvenance } from '../services/provenance';
+import { getProvider } from '../services/providers';
+import { Image as ImageIcon, Sparkles, Download, Upload, Save, Check, Maximize2, Wand2, Loader2, AlertTriangle, Dices } from 'lucide-react';
 
 interface ImageGeneratorProps {
   onAssetCreated: (asset: GeneratedAsset) => void;
+  onSendToEditor: (image: string) => void;
+  reuse?: PromptReuse | null; // Prompt and settings to prefill, e.g. from a library asset
+  onReuseConsumed?: () => void;
 }
 
-const ImageGenerator: React.FC<ImageGeneratorProps> = ({ onAssetCreated }) => {
+interface ImageVariant {
+  id: string;
+  seed: number;
+  status: 'rendering' | 'done' | 'error';
+  image?: string;
+  upscaling?: boolean;
+  upscaled?: boolean;
+  savedAssetId?: string;
+  provenance?: AssetProvenance;
+}
+
+const MAX_VARIANTS = 8;
+const ASPECT_RATIOS = Object.values(AspectRatio);
+
+const newVariantId = () => `variant-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`;
+
+// Renders a batch of variants from consecutive seeds. Nothing is saved until the
+// user picks the variants worth keeping; saved siblings share a variantGroupId.
+const ImageGenerator: React.FC<ImageGeneratorProps> = ({ onAssetCreated, onSendToEditor, reuse, onReuseConsumed }) => {
   const [prompt, setPrompt] = useState('');
+  const [negativePrompt, setNegativePrompt] = useState('');
+  const [seedInput, setSeedInput] = useState('');
   const [aspectRatio, setAspectRatio] = useState<string>(AspectRatio.SQUARE);
-  const [loading, setLoading] = useState(false);
-  const [generatedImage, setGeneratedImage] = useState<string | null>(null);
+  const [variantCount, setVariantCount] = useState(4);
+  const [variants, setVariants] = useState<ImageVariant[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [batch, setBatch] = useState<{ id: string, prompt: string, negativePrompt: string, aspectRatio: string, source: PromptSource } | null>(null);
+  const { activeKit } = useBrandKits();
+  // Results from a superseded batch are dropped
+  const batchToken = useRef(0);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const handleGenerate = async () => {
+  const loading = variants.some(v => v.status === 'rendering');
+
+  const patchVariant = (id: string, patch: Partial<ImageVariant>) =>
+    setVariants(prev => prev.map(v => v.id === id ? { ...v, ...patch } : v));
+
+  const applyPrompt = (text: string, settings?: PromptSettings) => {
+    setPrompt(text);
+    if (!settings) return;
+    // Only ratios and batch sizes the controls offer are taken
+    if (ASPECT_RATIOS.includes(settings.aspectRatio as AspectRatio)) setAspectRatio(settings.aspectRatio as AspectRatio);
+    if (typeof settings.negativePrompt === 'string') setNegativePrompt(settings.negativePrompt);
+    if (typeof settings.seed === 'number') setSeedInput(String(settings.seed));
+    if (Number.isInteger(settings.variantCount)) {
+      setVariantCount(Math.max(1, Math.min(MAX_VARIANTS, settings.variantCount as number)));
+    }
+  };
+
+  useEffect(() => {
+    if (!reuse) return;
+    applyPrompt(reuse.prompt, reuse.settings);
+    onReuseConsumed?.();
+  }, [reuse]);
+
+  const urlSettings: PromptSettings = { aspectRatio, negativePrompt, variantCount };
+  if (Number.isFinite(parseInt(seedInput, 10))) urlSettings.seed = parseInt(seedInput, 10);
+  useRouteParams(ToolType.IMAGE_GEN, prompt, urlSettings);
+
+  const handleGenerate = () => {
     if (!prompt) return;
-    setLoading(true);
-    setGeneratedImage(null);
+    const parsedSeed = parseInt(seedInput, 10);
+    const baseSeed = Number.isFinite(parsedSeed) ? parsedSeed : randomImageSeed();
+    const token = ++batchToken.current;
+    const fresh: ImageVariant[] = Array.from({ length: variantCount }, (_, i) => ({
+      id: newVariantId(), seed: baseSeed + i, status: 'rendering',
+    }));
+    setVariants(fresh);
+    setSelected(new Set());
+    const settings: PromptSettings = { aspectRatio, negativePrompt, variantCount };
+    if (Number.isFinite(parsedSeed)) settings.seed = parsedSeed;
+    const source: PromptSource = { tool: ToolType.IMAGE_GEN, prompt, settings };
+    setBatch({ id: newVariantId(), prompt, negativePrompt, aspectRatio, source });
+    recordPrompt(source).catch(e => console.error(e));
+
+    fresh.forEach(async (variant, index) => {
+      const startedAt = Date.now();
+      try {
+        const image = await generateMarketingImage(prompt, aspectRatio, activeKit, { negativePrompt, seed: variant.seed });
+        const provenance = createProvenance({
+          tool: ToolType.IMAGE_GEN,
+          model: 'image',
+          parameters: { aspectRatio, negativePrompt, seed: variant.seed, variantIndex: index + 1, variantCount: fresh.length },
+          brandKit: activeKit,
+          startedAt,
+        });
+        if (batchToken.current === token) patchVariant(variant.id, { image, status: 'done', provenance });
+      } catch (e) {
+        console.error(e);
+        if (batchToken.current === token) patchVariant(variant.id, { status: 'error' });
+      }
+    });
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const handleSave = (variant: ImageVariant) => {
+    if (!batch || !variant.image || variant.savedAssetId) return;
+    const assetId = `${Date.now()}-${Math.random().toString(36).substr(2, 5)}`;
+    onAssetCreated({
+      id: assetId,
+      type: 'image',
+      content: variant.image,
+      createdAt: Date.now(),
+      metadata: {
+        prompt: batch.prompt,
+        aspectRatio: batch.aspectRatio,
+        negativePrompt: batch.negativePrompt.trim() || undefined,
+        seed: variant.seed,
+        // Reusing a saved variant reproduces that one image
+        source: { ...batch.source, settings: { ...batch.source.settings, seed: variant.seed, variantCount: 1 } },
+      },
+      variantGroupId: variants.length > 1 ? batch.id : undefined,
+      provenance: variant.provenance,
+    });
+    patchVariant(variant.id, { savedAssetId: assetId });
+  };
+
+  const handleSaveSelected = () => {
+    variants.filter(v => selected.has(v.id)).forEach(handleSave);
+    setSelected(new Set());
+  };
+
+  // The upscaled image replaces the variant; it has to be saved again to keep it,
+  // and records the saved original (if any) as its parent
+  const handleUpscale = async (variant: ImageVariant) => {
+    if (!variant.image || variant.upscaling) return;
+    patchVariant(variant.id, { upscaling: true });
     try {
-      const imageUrl = await generateMarketingImage(prompt, aspectRatio);
-      setGeneratedImage(imageUrl);
-      
-      const newAsset: GeneratedAsset = {
-        id: Date.now().toString(),
-        type: 'image',
-        content: imageUrl,
-        createdAt: Date.now(),
-        metadata: { prompt, aspectRatio }
+      const image = await upscaleMarketingImage(variant.image);
+      const provenance = variant.provenance && {
+        ...variant.provenance,
+        parameters: { ...variant.provenance.parameters, upscale: 2, upscaleModel: getProvider().models.edit },
+        parentAssetIds: variant.savedAssetId ? [variant.savedAssetId] : variant.provenance.parentAssetIds,
+        completedAt: Date.now(),
       };
-      onAssetCreated(newAsset);
+      patchVariant(variant.id, { image, upscaling: false, upscaled: true, savedAssetId: undefined, provenance });
     } catch (e) {
       console.error(e);
-      alert('Failed to generate image. Please try again.');
-    } finally {
-      setLoading(false);
+      patchVariant(variant.id, { upscaling: false });
+      alert('Failed to upscale image. Please try again.');
     }
   };
 
@@ -50,7 +179,8 @@ const ImageGenerator: React.FC<ImageGeneratorProps> = ({ onAssetCreated }) => {
               type: 'image',
               content: ev.target.result,
               createdAt: Date.now(),
-              metadata: { prompt: 'Imported via Image Gen' }
+              metadata: { prompt: 'Imported via Image Gen' },
+              provenance: importProvenance(ToolType.IMAGE_GEN, file)
             };
             onAssetCreated(newAsset);
             alert("Image imported to Asset Library!");
@@ -60,8 +190,10 @@ const ImageGenerator: React.FC<ImageGeneratorProps> = ({ onAssetCreated }) => {
       }
   };
 
+  const selectedUnsaved = variants.filter(v => selected.has(v.id) && v.image && !v.savedAssetId).length;
+
   return (
-    <div className="max-w-4xl mx-auto p-8 h-full flex flex-col">
+    <div className="max-w-6xl mx-auto p-8 h-full flex flex-col">
       <div className="flex justify-between items-center mb-6">
         <h2 className="text-3xl font-bold text-white">Marketing Image Studio</h2>
         <div>
@@ -86,7 +218,10 @@ const ImageGenerator: React.FC<ImageGeneratorProps> = ({ onAssetCreated }) => {
         <div className="lg:col-span-1 space-y-6">
             <div className="bg-zinc-900 p-6 rounded-xl border border-zinc-800 shadow-xl">
                 <div className="mb-4">
-                    <label className="block text-sm font-medium text-zinc-400 mb-2">Prompt</label>
+                    <div className="flex items-center justify-between mb-2">
+                        <label className="block text-sm font-medium text-zinc-400">Prompt</label>
+                        <PromptLibraryMenu tool={ToolType.IMAGE_GEN} prompt={prompt} onApply={applyPrompt} />
+                    </div>
                     <textarea
                         value={prompt}
                         onChange={(e) => setPrompt(e.target.value)}
@@ -95,7 +230,20 @@ const ImageGenerator: React.FC<ImageGeneratorProps> = ({ onAssetCreated }) => {
                     />
                 </div>
 
-                <div className="mb-6">
+                <div className="mb-4">
+                    <label className="block text-sm font-medium text-zinc-400 mb-2">Negative Prompt <span className="text-zinc-600 font-normal">(optional)</span></label>
+                    <input
+                        type="text"
+                        value={negativePrompt}
+                        onChange={(e) => setNegativePrompt(e.target.value)}
+                        className="w-full bg-zinc-950 border border-zinc-800 rounded-lg p-2 text-sm text-white focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                        placeholder="e.g. text, watermarks, people"
+                    />
+                </div>
+
+                <BrandKitPicker />
+
+                <div className="mb-4">
                     <label className="block text-sm font-medium text-zinc-400 mb-2">Aspect Ratio</label>
                     <div className="grid grid-cols-3 gap-2">
                         {Object.entries(AspectRatio).map(([key, value]) => (
@@ -114,6 +262,39 @@ const ImageGenerator: React.FC<ImageGeneratorProps> = ({ onAssetCreated }) => {
                     </div>
                 </div>
 
+                <div className="grid grid-cols-2 gap-3 mb-6">
+                    <div>
+                        <label className="block text-sm font-medium text-zinc-400 mb-2">Variants</label>
+                        <select
+                            value={variantCount}
+                            onChange={(e) => setVariantCount(Number(e.target.value))}
+                            className="w-full bg-zinc-950 border border-zinc-800 rounded-lg p-2 text-sm text-white focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                        >
+                            {Array.from({ length: MAX_VARIANTS }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-zinc-400 mb-2">Seed</label>
+                        <div className="flex gap-1">
+                            <input
+                                type="number"
+                                min={0}
+                                value={seedInput}
+                                onChange={(e) => setSeedInput(e.target.value)}
+                                className="w-full min-w-0 bg-zinc-950 border border-zinc-800 rounded-lg p-2 text-sm text-white focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                                placeholder="Random"
+                            />
+                            <button
+                                onClick={() => setSeedInput(String(randomImageSeed()))}
+                                className="px-2 rounded-lg bg-zinc-800 hover:bg-zinc-700 text-zinc-300"
+                                title="Pick a random seed"
+                            >
+                                <Dices size={14} />
+                            </button>
+                        </div>
+                    </div>
+                </div>
+
                 <button
                     onClick={handleGenerate}
                     disabled={loading || !prompt}
@@ -123,45 +304,115 @@ const ImageGenerator: React.FC<ImageGeneratorProps> = ({ onAssetCreated }) => {
                         : 'bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-500 hover:to-purple-500 text-white'
                     }`}
                 >
-                    {loading ? <span className="animate-pulse">Rendering...</span> : <><Sparkles size={18} /> Generate</>}
+                    {loading ? <span className="animate-pulse">Rendering...</span> : <><Sparkles size={18} /> Generate{variantCount > 1 ? ` ${variantCount} Variants` : ''}</>}
                 </button>
             </div>
             
             <div className="bg-zinc-900/50 p-4 rounded-lg border border-zinc-800 text-zinc-400 text-xs">
-                <p><strong>Pro Tip:</strong> Be specific about lighting, style, and mood for best results.</p>
+                <p><strong>Pro Tip:</strong> Be specific about lighting, style, and mood for best results. Reuse a variant's seed to get the same image from the same prompt, where the model supports it.</p>
             </div>
         </div>
 
-        {/* Preview */}
-        <div className="lg:col-span-2 bg-zinc-900 rounded-xl border border-zinc-800 flex items-center justify-center relative overflow-hidden min-h-[400px]">
-            {generatedImage ? (
-                <div className="relative w-full h-full flex items-center justify-center p-4">
-                    <img 
-                        src={generatedImage} 
-                        alt="Generated" 
-                        className="max-w-full max-h-full rounded-lg shadow-2xl object-contain"
-                    />
-                    <a 
-                        href={generatedImage} 
-                        download={`omni-generated-${Date.now()}.png`}
-                        className="absolute bottom-6 right-6 bg-black/70 hover:bg-black text-white p-2 rounded-full backdrop-blur-sm transition-colors"
+        {/* Variants */}
+        <div className="lg:col-span-2 bg-zinc-900 rounded-xl border border-zinc-800 relative overflow-hidden min-h-[400px] flex flex-col">
+            {variants.length > 0 ? (
+                <>
+                <div className="flex items-center justify-between px-4 pt-4">
+                    <p className="text-xs text-zinc-500">Click a variant to select it.</p>
+                    <button
+                        onClick={handleSaveSelected}
+                        disabled={selectedUnsaved === 0}
+                        className="flex items-center gap-2 text-sm px-3 py-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white disabled:bg-zinc-800 disabled:text-zinc-500"
                     >
-                        <Download size={20} />
-                    </a>
+                        <Save size={14} /> Save Selected{selectedUnsaved > 0 ? ` (${selectedUnsaved})` : ''}
+                    </button>
                 </div>
-            ) : (
-                <div className="text-center text-zinc-600">
-                    {loading ? (
-                         <div className="flex flex-col items-center gap-4">
-                            <div className="w-12 h-12 border-4 border-indigo-500/30 border-t-indigo-500 rounded-full animate-spin"></div>
-                            <p className="animate-pulse">Gemini 3 Pro is dreaming...</p>
-                         </div>
-                    ) : (
-                        <div className="flex flex-col items-center gap-2">
-                             <ImageIcon size={48} className="opacity-20"/>
-                             <p>Your masterpiece will appear here</p>
+                <div className={`grid gap-3 p-4 ${variants.length === 1 ? 'grid-cols-1' : variants.length <= 4 ? 'grid-cols-2' : 'grid-cols-2 md:grid-cols-4'}`}>
+                    {variants.map(variant => (
+                        <div
+                            key={variant.id}
+                            className={`relative group rounded-lg overflow-hidden bg-zinc-950 border-2 aspect-square flex items-center justify-center ${
+                                selected.has(variant.id) ? 'border-indigo-500' : 'border-zinc-800'
+                            }`}
+                        >
+                            {variant.status === 'rendering' && (
+                                <div className="w-8 h-8 border-4 border-indigo-500/30 border-t-indigo-500 rounded-full animate-spin"></div>
+                            )}
+                            {variant.status === 'error' && (
+                                <div className="text-center text-red-400 text-xs p-2">
+                                    <AlertTriangle size={20} className="mx-auto mb-1" />
+                                    Failed to render
+                                </div>
+                            )}
+                            {variant.image && (
+                                <>
+                                <img
+                                    src={variant.image}
+                                    alt={`Variant seed ${variant.seed}`}
+                                    onClick={() => toggleSelected(variant.id)}
+                                    className="w-full h-full object-contain cursor-pointer"
+                                />
+                                {variant.upscaling && (
+                                    <div className="absolute inset-0 bg-black/60 flex items-center justify-center text-white text-xs gap-2">
+                                        <Loader2 size={16} className="animate-spin" /> Upscaling...
+                                    </div>
+                                )}
+                                <div className="absolute top-2 left-2 flex gap-1">
+                                    <button
+                                        onClick={() => setSeedInput(String(variant.seed))}
+                                        className="bg-black/70 text-white text-[10px] px-1.5 py-0.5 rounded font-mono hover:bg-black"
+                                        title="Use this seed"
+                                    >
+                                        #{variant.seed}
+                                    </button>
+                                    {variant.upscaled && <span className="bg-black/70 text-white text-[10px] px-1.5 py-0.5 rounded">2×</span>}
+                                    {variant.savedAssetId && <span className="bg-green-600/90 text-white text-[10px] px-1.5 py-0.5 rounded flex items-center gap-1"><Check size={10} /> Saved</span>}
+                                </div>
+                                <div className="absolute bottom-2 right-2 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                                    <button
+                                        onClick={() => handleSave(variant)}
+                                        disabled={!!variant.savedAssetId}
+                                        className="bg-black/70 hover:bg-black text-white p-1.5 rounded-full disabled:opacity-50"
+                                        title="Save to library"
+                                    >
+                                        <Save size={14} />
+                                    </button>
+                                    <button
+                                        onClick={() => handleUpscale(variant)}
+                                        disabled={variant.upscaling || variant.upscaled}
+                                        className="bg-black/70 hover:bg-black text-white p-1.5 rounded-full disabled:opacity-50"
+                                        title="Upscale 2×"
+                                    >
+                                        <Maximize2 size={14} />
+                                    </button>
+                                    <button
+                                        onClick={() => onSendToEditor(variant.image!)}
+                                        className="bg-black/70 hover:bg-black text-white p-1.5 rounded-full"
+                                        title="Open in Magic Editor"
+                                    >
+                                        <Wand2 size={14} />
+                                    </button>
+                                    <a 
+                                        href={variant.image} 
+                                        download={`omni-generated-${variant.seed}.png`}
+                                        className="bg-black/70 hover:bg-black text-white p-1.5 rounded-full"
+                                        title="Download"
+                                    >
+                                        <Download size={14} />
+                                    </a>
+                                </div>
+                                </>
+                            )}
                         </div>
-                    )}
+                    ))}
+                </div>
+                </>
+            ) : (
+                <div className="flex-1 flex items-center justify-center text-center text-zinc-600">
+                    <div className="flex flex-col items-center gap-2">
+                         <ImageIcon size={48} className="opacity-20"/>
+                         <p>Your masterpieces will appear here</p>
+                    </div>
                 </div>
             )}
         </div>
@@ -170,4 +421,4 @@ const ImageGenerator: React.FC<ImageGeneratorProps> = ({ onAssetCreated }) => {
   );
 };
 
-export default ImageGenerator;
\ No newline at end of file
+export default ImageGenerator;
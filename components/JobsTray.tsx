@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { useJobs, cancelJob, retryJob, dismissJob, clearFinishedJobs, VideoJob } from '../services/jobManager';
+import { Loader2, X, RotateCcw, Check, AlertCircle, ChevronDown, ChevronUp, Video } from 'lucide-react';
+
+const statusIcon = (job: VideoJob) => {
+  switch (job.status) {
+    case 'running':
+      return <Loader2 size={14} className="animate-spin text-indigo-400 shrink-0" />;
+    case 'succeeded':
+      return <Check size={14} className="text-green-500 shrink-0" />;
+    case 'failed':
+      return <AlertCircle size={14} className="text-red-400 shrink-0" />;
+    case 'cancelled':
+    default:
+      return <X size={14} className="text-zinc-500 shrink-0" />;
+  }
+};
+
+// Global tray for background video jobs, rendered once by App
+const JobsTray: React.FC = () => {
+  const jobs = useJobs();
+  const [expanded, setExpanded] = useState(true);
+
+  if (jobs.length === 0) return null;
+
+  const running = jobs.filter(job => job.status === 'running').length;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 w-80 bg-zinc-900 border border-zinc-800 rounded-xl shadow-2xl overflow-hidden">
+      <div className="flex items-center justify-between px-4 py-2 border-b border-zinc-800">
+        <button onClick={() => setExpanded(!expanded)} className="flex items-center gap-2 text-sm font-semibold text-zinc-200">
+          <Video size={16} className="text-pink-500" />
+          {running > 0 ? `${running} video${running > 1 ? 's' : ''} rendering` : 'Video jobs'}
+          {expanded ? <ChevronDown size={14} /> : <ChevronUp size={14} />}
+        </button>
+        {jobs.length > running && (
+          <button onClick={clearFinishedJobs} className="text-xs text-zinc-500 hover:text-zinc-300">Clear</button>
+        )}
+      </div>
+
+      {expanded && (
+        <div className="max-h-72 overflow-y-auto divide-y divide-zinc-800">
+          {jobs.map(job => (
+            <div key={job.id} className="px-4 py-3">
+              <div className="flex items-center gap-2">
+                {statusIcon(job)}
+                <p className="flex-1 text-xs text-zinc-300 truncate" title={job.label}>{job.label}</p>
+                {job.status === 'running' && (
+                  <button onClick={() => cancelJob(job.id)} className="text-zinc-500 hover:text-red-400" title="Cancel">
+                    <X size={14} />
+                  </button>
+                )}
+                {(job.status === 'failed' || job.status === 'cancelled') && (
+                  <button onClick={() => retryJob(job.id)} className="text-zinc-500 hover:text-white" title="Retry">
+                    <RotateCcw size={14} />
+                  </button>
+                )}
+                {job.status !== 'running' && (
+                  <button onClick={() => dismissJob(job.id)} className="text-zinc-600 hover:text-zinc-300" title="Dismiss">
+                    <X size={12} />
+                  </button>
+                )}
+              </div>
+              {job.status === 'running' && (
+                <div className="mt-2 h-1 bg-zinc-800 rounded-full overflow-hidden">
+                  <div className="h-full bg-gradient-to-r from-pink-600 to-purple-600 transition-all duration-500" style={{ width: `${Math.round(job.progress * 100)}%` }} />
+                </div>
+              )}
+              {job.status === 'succeeded' && <p className="mt-1 text-[10px] text-zinc-500">Saved to asset library</p>}
+              {job.status === 'failed' && <p className="mt-1 text-[10px] text-red-400 line-clamp-2">{job.error}</p>}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default JobsTray;
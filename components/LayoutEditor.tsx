@@ -1,125 +1,478 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { LayoutItem, GeneratedAsset } from '../types';
+import {
+    LayoutItem, GeneratedAsset, TextRun, TextStyle, LayoutDocument, LayoutSnapshot, LayoutVersion, Artboard, ToolType, VideoClip
+} from '../types';
 import { 
-    Move, Trash2, type LucideIcon, Download, Plus, Type, RotateCw, Layers, 
+    Move, Trash2, type LucideIcon, Plus, Type, RotateCw, Layers, 
     Undo, Redo, Magnet, Upload, Crop, Scissors, Square, MousePointer2,
-    Circle, Minus, Save
+    Circle, Minus, Save, Group, Ungroup, FolderOpen,
+    ArrowUp, ArrowDown, ArrowUpToLine, ArrowDownToLine, History, Loader2, ZoomIn, ZoomOut, Maximize, AlignLeft, AlignCenter, AlignRight, AlignJustify,
+    AlignStartVertical, AlignCenterVertical, AlignEndVertical,
+    AlignStartHorizontal, AlignCenterHorizontal, AlignEndHorizontal, Film
 } from 'lucide-react';
 import html2canvas from 'html2canvas';
+import {
+    Point, Rect, getCenter, getItemBounds, unionRects, rectsIntersect, normalizeRect, getChildren,
+    getDescendantIds, getTopLevelAncestor, getTopLevelItems, expandToLeaves,
+    transformItem, translateItems, groupItems, ungroupItems,
+    ResizeHandle, HANDLE_DIRECTIONS, resizeFrame, angleFromCenter, normalizeAngle
+} from './layout/geometry';
+import RichTextItem from './layout/RichTextItem';
+import VideoItem from './layout/VideoItem';
+import TimelinePanel from './layout/TimelinePanel';
+import AnimationPanel from './layout/AnimationPanel';
+import VideoClipPanel from './layout/VideoClipPanel';
+import ExportMenu from './layout/ExportMenu';
+import ArtboardsPanel from './layout/ArtboardsPanel';
+import { usePlayback } from './layout/usePlayback';
+import { useLayoutExport } from './layout/useLayoutExport';
+import { getVideoClip, getClipTime, clampVideoClip, probeVideoClip, captureVideoFrame } from './layout/videoClips';
+import {
+    removeKeyframe, moveKeyframe, recordKeyframes, poseItems, isAnimated, getTimelineLength, getPresetEffect
+} from './layout/animation';
+import {
+    FONT_FAMILIES, FONT_WEIGHTS, createRichText, getRichText, getPlainText, hasRunFormatting
+} from './layout/richText';
+import DocumentsPanel from './layout/DocumentsPanel';
+import LayersPanel from './layout/LayersPanel';
+import BrandSwatches from './layout/BrandSwatches';
+import RegionOverlay from './regions/RegionOverlay';
+import InsetSliders from './regions/InsetSliders';
+import { RegionTool, InsetRect, PercentPoint, EMPTY_INSET, toPercentPoint, insetClipPath, polygonClipPath } from './regions/regions';
+import { useBrandKits } from '../services/brandKitStore';
+import { useProjects, setActiveProject, getActiveProjectId } from '../services/projectStore';
+import { createProvenance } from '../services/provenance';
+import { DropPosition, normalizeZOrder, nextZIndex, shiftLayer, moveLayer, isHidden, isLocked } from './layout/layers';
+import {
+    MIN_ZOOM, MAX_ZOOM, findPreset, createArtboard, updateArtboard, removeArtboard,
+    getArtboardAt, getArtboardItems, fitToViewport
+} from './layout/artboards';
+import {
+    DEFAULT_LAYOUT_SNAPSHOT, listLayouts, getLayout, saveLayout, createLayoutDocument, createVersion,
+    getCurrentLayoutId, setCurrentLayoutId
+} from '../services/layoutStore';
+
+type AlignMode = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+
+// Resize/rotate gestures keep the item snapshot from the mouse-down so they never drift
+type TransformGesture =
+  | { kind: 'resize', handle: ResizeHandle, start: Point, items: LayoutItem[] }
+  | { kind: 'rotate', startAngle: number, items: LayoutItem[] };
+
+const SNAP_THRESHOLD = 10;
+const ROTATION_STEP = 15; // Degrees, with Shift held
+const HANDLE_CURSORS: Record<ResizeHandle, string> = {
+  nw: 'nwse-resize', se: 'nwse-resize', ne: 'nesw-resize', sw: 'nesw-resize',
+  n: 'ns-resize', s: 'ns-resize', e: 'ew-resize', w: 'ew-resize',
+};
+
+const GEOMETRY_PROPS: (keyof LayoutItem)[] = ['x', 'y', 'width', 'height', 'rotation'];
+
+const newItemId = () => Math.random().toString(36).substr(2, 9);
+
+const AUTOSAVE_DELAY_MS = 800;
+const ZOOM_STEP = 1.25;
+const GUIDE_EXTENT = 100000; // Snap guides span the whole pasteboard
 
 interface LayoutEditorProps {
   assets: GeneratedAsset[];
   onAssetCreated?: (asset: GeneratedAsset) => void;
+  documentId?: string; // Document to open, e.g. from a link
+  onDocumentOpen?: (id: string, replace: boolean) => void; // Replace when the editor picked the document itself
 }
 
-const LayoutEditor: React.FC<LayoutEditorProps> = ({ assets, onAssetCreated }) => {
+const LayoutEditor: React.FC<LayoutEditorProps> = ({ assets, onAssetCreated, documentId, onDocumentOpen }) => {
+  const { projects } = useProjects();
+  // Document State (items are kept separately so gestures can update them without recording history)
+  const [doc, setDoc] = useState<LayoutDocument | null>(null);
+  const [saveState, setSaveState] = useState<'saved' | 'saving' | 'error'>('saved');
+  const [showDocuments, setShowDocuments] = useState(false);
+  const [sidebarTab, setSidebarTab] = useState<'assets' | 'layers'>('assets');
+  const { activeKit } = useBrandKits();
+  const [activeArtboardId, setActiveArtboardId] = useState<string | null>(null);
+  const pendingSave = useRef<LayoutDocument | null>(null);
+  const skipAutosave = useRef(false);
+
   // Main Canvas State
-  const [items, setItems] = useState<LayoutItem[]>([]);
-  const [selectedItemId, setSelectedItemId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
   
-  // History State
-  const [history, setHistory] = useState<LayoutItem[][]>([[]]);
+  // History State: each entry is the whole canvas, so undo keeps items and artboards in step
+  const [history, setHistory] = useState<LayoutSnapshot[]>([DEFAULT_LAYOUT_SNAPSHOT]);
   const [historyIndex, setHistoryIndex] = useState(0);
 
   // Interaction State
   const [isDragging, setIsDragging] = useState(false);
-  const [dragOffset, setDragOffset] = useState({ x: 0, y: 0 });
+  // Mouse position and item snapshot at drag start; moves are applied relative to it
+  const [dragOrigin, setDragOrigin] = useState<{ x: number, y: number, items: LayoutItem[] } | null>(null);
+  const [marquee, setMarquee] = useState<{ start: Point, end: Point } | null>(null);
+  const [gesture, setGesture] = useState<TransformGesture | null>(null);
+  const [editingTextId, setEditingTextId] = useState<string | null>(null);
+
+  // baseItems is the document; the canvas and panels work on `items`, the same
+  // items posed at the playhead. Edits to keyframed properties become keyframes.
+  const [baseItems, setBaseItems] = useState<LayoutItem[]>([]);
+  const timelineLength = getTimelineLength(baseItems.filter(i => !isHidden(baseItems, i)), doc?.duration);
+  // One clock, in seconds, drives every video item and keyframe
+  const { playhead, playing, togglePlay, seek, rewind, pause } = usePlayback(timelineLength);
+  const [timelineExpanded, setTimelineExpanded] = useState(false);
+  const items = poseItems(baseItems, playhead);
+  const setItems = (next: LayoutItem[]) => setBaseItems(recordKeyframes(items, next, playhead));
+
+  // Viewport State (zoom and pan are view-only and not saved with the document)
+  const [view, setView] = useState<{ zoom: number, pan: Point }>({ zoom: 1, pan: { x: 0, y: 0 } });
+  const [panOrigin, setPanOrigin] = useState<{ x: number, y: number, pan: Point } | null>(null);
+  const [spaceHeld, setSpaceHeld] = useState(false);
   const [snappingEnabled, setSnappingEnabled] = useState(true);
   const [snapGuides, setSnapGuides] = useState<{ type: 'x' | 'y', pos: number }[]>([]);
 
   // Crop State
   const [cropModeItem, setCropModeItem] = useState<string | null>(null);
-  const [cropToolType, setCropToolType] = useState<'rect' | 'lasso'>('rect');
-  const [cropRect, setCropRect] = useState({ t: 0, r: 0, b: 0, l: 0 }); // Insets %
-  const [lassoPoints, setLassoPoints] = useState<{x: number, y: number}[]>([]);
+  const [cropToolType, setCropToolType] = useState<RegionTool>('rect');
+  const [cropRect, setCropRect] = useState<InsetRect>(EMPTY_INSET);
+  const [lassoPoints, setLassoPoints] = useState<PercentPoint[]>([]);
 
   // Local Assets (Imports)
   const [importedAssets, setImportedAssets] = useState<GeneratedAsset[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const canvasRef = useRef<HTMLDivElement>(null);
+  const viewportRef = useRef<HTMLDivElement>(null);
+
+  const artboards = doc?.artboards ?? [];
+  const activeArtboard = artboards.find(a => a.id === activeArtboardId) || artboards[0];
+  // New items are placed relative to the active artboard
+  const origin: Point = activeArtboard ? { x: activeArtboard.x, y: activeArtboard.y } : { x: 0, y: 0 };
 
-  const selectedItem = items.find(i => i.id === selectedItemId);
+  const selectedItems = items.filter(i => selectedIds.includes(i.id));
+  // Single-item tools (crop, text content) only apply when exactly one item is selected
+  const selectedItem = selectedItems.length === 1 ? selectedItems[0] : undefined;
+  // The property panel shows the first selected item; edits apply to the whole selection
+  const primaryItem = selectedItems[0];
+  // Typography edits reach every text item in the selection, including inside groups
+  const textTargets = expandToLeaves(items, selectedIds).filter(i => i.type === 'text');
   const allAssets = [...importedAssets, ...assets];
+  const activeArtboardAnimated = !!activeArtboard && isAnimated(getArtboardItems(baseItems, activeArtboard));
 
   // --- History Management ---
-  const recordHistory = (newItems: LayoutItem[]) => {
+  // Artboards and timeline length default to the current ones, for edits that only touch items
+  const recordHistory = (newItems: LayoutItem[], canvas: Omit<LayoutSnapshot, 'items'> = { artboards, duration: doc?.duration }) => {
     const newHistory = history.slice(0, historyIndex + 1);
-    newHistory.push(newItems);
+    newHistory.push({ ...canvas, items: newItems });
     setHistory(newHistory);
     setHistoryIndex(newHistory.length - 1);
   };
 
+  const applyHistoryEntry = (index: number) => {
+    const entry = history[index];
+    setHistoryIndex(index);
+    setBaseItems(entry.items);
+    setDoc(current => current ? { ...current, artboards: entry.artboards, duration: entry.duration } : current);
+    setSelectedIds(ids => ids.filter(id => entry.items.some(i => i.id === id)));
+    setCropModeItem(null); // Exit crop mode on undo
+  };
+
   const handleUndo = () => {
-    if (historyIndex > 0) {
-      setHistoryIndex(historyIndex - 1);
-      setItems(history[historyIndex - 1]);
-      setCropModeItem(null); // Exit crop mode on undo
-    }
+    if (historyIndex > 0) applyHistoryEntry(historyIndex - 1);
   };
 
   const handleRedo = () => {
-    if (historyIndex < history.length - 1) {
-      setHistoryIndex(historyIndex + 1);
-      setItems(history[historyIndex + 1]);
-      setCropModeItem(null);
-    }
+    if (historyIndex < history.length - 1) applyHistoryEntry(historyIndex + 1);
   };
 
+  // Every multi-item operation builds the full next array and commits it once,
+  // so it is a single undo step
   const updateItems = (newItems: LayoutItem[], record = true) => {
-    setItems(newItems);
-    if (record) recordHistory(newItems);
+    const keyed = recordKeyframes(items, newItems, playhead);
+    setBaseItems(keyed);
+    if (record) recordHistory(keyed);
+  };
+
+  // For edits made on the document itself (keyframes, presets, restores) rather than the pose
+  const replaceItems = (newItems: LayoutItem[]) => {
+    setBaseItems(newItems);
+    recordHistory(newItems);
+  };
+
+  // Artboard and timeline edits, with any item changes they carry, as one undo step
+  const updateCanvas = (patch: Partial<LayoutSnapshot>) => {
+    if (!doc) return;
+    const next: LayoutSnapshot = { artboards: doc.artboards, items: baseItems, duration: doc.duration, ...patch };
+    setBaseItems(next.items);
+    setDoc({ ...doc, artboards: next.artboards, duration: next.duration });
+    recordHistory(next.items, { artboards: next.artboards, duration: next.duration });
+  };
+
+  // --- Documents ---
+  const loadDocument = (next: LayoutDocument) => {
+    skipAutosave.current = true;
+    setDoc(next);
+    setBaseItems(next.items);
+    setHistory([{ artboards: next.artboards, items: next.items, duration: next.duration }]);
+    setHistoryIndex(0);
+    setSelectedIds([]);
+    setCropModeItem(null);
+    setEditingTextId(null);
+    rewind();
+    setActiveArtboardId(next.artboards[0]?.id ?? null);
+    setCurrentLayoutId(next.id);
+  };
+
+  // Open the linked document, else reopen the last one, falling back to the most
+  // recent or a fresh one. Back and forward change the link while mounted.
+  useEffect(() => {
+    if (doc && (!documentId || documentId === doc.id)) {
+      if (!documentId) onDocumentOpen?.(doc.id, true);
+      return;
+    }
+    const open = async () => {
+      try {
+        const linked = documentId ? await getLayout(documentId) : undefined;
+        if (linked && linked.projectId !== getActiveProjectId()) {
+          // In another of the user's projects: switch there, which remounts the editor
+          if (linked.projectId && projects.some(p => p.id === linked.projectId)) {
+            setActiveProject(linked.projectId);
+            return;
+          }
+        } else if (linked) {
+          if (doc) await persist();
+          loadDocument(linked);
+          return;
+        }
+        if (doc) {
+          onDocumentOpen?.(doc.id, true);
+          return;
+        }
+        const currentId = getCurrentLayoutId();
+        const current = currentId ? await getLayout(currentId) : undefined;
+        const next = current || (await listLayouts())[0] || await saveLayout(createLayoutDocument());
+        loadDocument(next);
+        onDocumentOpen?.(next.id, true);
+      } catch (e: any) {
+        console.error(e);
+        // Still allow editing; autosave will surface the error again
+        loadDocument(createLayoutDocument());
+        setSaveState('error');
+      }
+    };
+    open();
+  }, [documentId]);
+
+  const persist = async () => {
+    const next = pendingSave.current;
+    if (!next) return;
+    pendingSave.current = null;
+    setSaveState('saving');
+    try {
+      await saveLayout(next);
+      setSaveState(pendingSave.current ? 'saving' : 'saved');
+    } catch (e) {
+      console.error(e);
+      setSaveState('error');
+    }
+  };
+
+  // Autosave the working copy; explicit versions are only made by Save Version
+  useEffect(() => {
+    if (!doc) return;
+    if (skipAutosave.current) {
+      skipAutosave.current = false;
+      return;
+    }
+    pendingSave.current = { ...doc, items: baseItems, updatedAt: Date.now() };
+    setSaveState('saving');
+    const timer = setTimeout(persist, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [doc, baseItems]);
+
+  // Flush on unmount so switching tools never drops the last edit
+  useEffect(() => () => { persist(); }, []);
+
+  const handleDocumentChange = (patch: Partial<LayoutDocument>) => {
+    setDoc(current => current ? { ...current, ...patch } : current);
+  };
+
+  const handleOpenDocument = async (next: LayoutDocument) => {
+    await persist();
+    loadDocument(next);
+    onDocumentOpen?.(next.id, false);
+    setShowDocuments(false);
+  };
+
+  const handleSaveVersion = async () => {
+    if (!doc) return;
+    const label = prompt("Version name", `Version ${new Date().toLocaleString()}`);
+    if (label === null) return;
+    try {
+      await createVersion({ ...doc, items: baseItems }, label.trim() || 'Untitled version');
+    } catch (e: any) {
+      console.error(e);
+      alert(e.message);
+    }
+  };
+
+  // Restoring is a normal edit, so it can be undone
+  const handleRestoreVersion = (version: LayoutVersion) => {
+    const { artboards: restoredArtboards, items: restored, duration } = version.snapshot;
+    updateCanvas({ artboards: restoredArtboards, items: restored, duration });
+    setSelectedIds([]);
+  };
+
+  // --- Artboards ---
+  const handleAddArtboard = () => {
+    if (!doc) return;
+    const artboard = createArtboard(doc.artboards, activeArtboard ? findPreset(activeArtboard) : undefined);
+    updateCanvas({ artboards: [...doc.artboards, artboard] });
+    setActiveArtboardId(artboard.id);
+  };
+
+  const handleArtboardChange = (id: string, patch: Partial<Artboard>) => {
+    if (doc) updateCanvas(updateArtboard(doc.artboards, baseItems, id, patch));
+  };
+
+  const handleDeleteArtboard = (artboard: Artboard) => {
+    if (!doc || doc.artboards.length < 2) return;
+    if (!confirm(`Delete "${artboard.name}" and everything on it?`)) return;
+    updateCanvas(removeArtboard(doc.artboards, baseItems, artboard, items));
+    setSelectedIds([]);
+  };
+
+  // --- Zoom & Pan ---
+  const fitView = (area: Rect | null) => {
+    const viewport = viewportRef.current;
+    if (!area || !viewport) return;
+    setView(fitToViewport(area, { width: viewport.clientWidth, height: viewport.clientHeight }));
+  };
+
+  const handleFitAll = () => fitView(unionRects(artboards));
+
+  // Keeps the pasteboard point under `anchor` (viewport pixels) fixed while zooming
+  const zoomAt = (factor: number, anchor?: Point) => {
+    const viewport = viewportRef.current;
+    const center = anchor || { x: (viewport?.clientWidth || 0) / 2, y: (viewport?.clientHeight || 0) / 2 };
+    setView(current => {
+      const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, current.zoom * factor));
+      const ratio = zoom / current.zoom;
+      return {
+        zoom,
+        pan: { x: center.x - (center.x - current.pan.x) * ratio, y: center.y - (center.y - current.pan.y) * ratio },
+      };
+    });
+  };
+
+  // Fit the whole document whenever a different one is opened
+  useEffect(() => {
+    if (doc) handleFitAll();
+  }, [doc?.id]);
+
+  // Wheel pans; Ctrl/Cmd + wheel (and trackpad pinch) zooms. Registered natively
+  // because React's wheel listener is passive and cannot stop page zoom.
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      if (e.ctrlKey || e.metaKey) {
+        const rect = viewport.getBoundingClientRect();
+        zoomAt(Math.exp(-e.deltaY * 0.01), { x: e.clientX - rect.left, y: e.clientY - rect.top });
+      } else {
+        setView(current => ({ ...current, pan: { x: current.pan.x - e.deltaX, y: current.pan.y - e.deltaY } }));
+      }
+    };
+    viewport.addEventListener('wheel', handleWheel, { passive: false });
+    return () => viewport.removeEventListener('wheel', handleWheel);
+  }, [doc !== null]);
+
+  // Middle mouse or Space + drag pans from anywhere, including over items
+  const handleViewportMouseDownCapture = (e: React.MouseEvent) => {
+    if (e.button !== 1 && !spaceHeld) return;
+    e.preventDefault();
+    e.stopPropagation();
+    setPanOrigin({ x: e.clientX, y: e.clientY, pan: view.pan });
   };
 
   // --- Item Management ---
   const addToCanvas = (asset: GeneratedAsset) => {
+    if (asset.type === 'video') {
+      addVideo(asset);
+      return;
+    }
     const newItem: LayoutItem = {
-      id: Math.random().toString(36).substr(2, 9),
+      id: newItemId(),
       type: asset.type === 'text' ? 'text' : 'image',
       content: asset.content,
-      x: 50,
-      y: 50,
+      x: origin.x + 50,
+      y: origin.y + 50,
       width: asset.type === 'image' ? 300 : 200,
       height: asset.type === 'image' ? 300 : 100,
-      zIndex: items.length + 1,
+      zIndex: nextZIndex(items),
       rotation: 0,
       borderRadius: 0,
-      style: {}
+      style: {},
+      assetId: asset.id,
+      ...(asset.type === 'text' ? { text: createRichText(asset.content) } : {})
     };
     const newItems = [...items, newItem];
     updateItems(newItems);
-    setSelectedItemId(newItem.id);
+    setSelectedIds([newItem.id]);
+  };
+
+  // Clips are probed first for their length, size and a poster frame
+  const addVideo = async (asset: GeneratedAsset) => {
+    try {
+      const { clip, width, height } = await probeVideoClip(asset.content);
+      const newItem: LayoutItem = {
+        id: newItemId(),
+        type: 'video',
+        content: asset.content,
+        x: origin.x + 50,
+        y: origin.y + 50,
+        width,
+        height,
+        zIndex: nextZIndex(items),
+        rotation: 0,
+        borderRadius: 0,
+        style: {},
+        assetId: asset.id,
+        video: clip,
+      };
+      updateItems([...items, newItem]);
+      setSelectedIds([newItem.id]);
+    } catch (e: any) {
+      console.error(e);
+      alert(e.message);
+    }
   };
 
   const addText = () => {
     const newItem: LayoutItem = {
-        id: Math.random().toString(36).substr(2, 9),
+        id: newItemId(),
         type: 'text',
         content: 'Double click to edit',
-        x: 100,
-        y: 100,
+        x: origin.x + 100,
+        y: origin.y + 100,
         width: 200,
         height: 60,
-        zIndex: items.length + 1,
+        zIndex: nextZIndex(items),
         rotation: 0,
         borderRadius: 0,
-        style: {}
+        style: {},
+        text: createRichText('Double click to edit')
     }
     const newItems = [...items, newItem];
     updateItems(newItems);
-    setSelectedItemId(newItem.id);
+    setSelectedIds([newItem.id]);
   }
 
   const addShape = (shapeType: 'rectangle' | 'circle' | 'line') => {
       const newItem: LayoutItem = {
-        id: Math.random().toString(36).substr(2, 9),
+        id: newItemId(),
         type: 'shape',
         shapeType: shapeType,
         content: '',
-        x: 150,
-        y: 150,
+        x: origin.x + 150,
+        y: origin.y + 150,
         width: shapeType === 'line' ? 200 : 100,
         height: shapeType === 'line' ? 4 : 100,
-        zIndex: items.length + 1,
+        zIndex: nextZIndex(items),
         rotation: 0,
         borderRadius: shapeType === 'circle' ? 50 : 0,
         color: '#4f46e5', // Default Indigo
@@ -127,24 +480,195 @@ const LayoutEditor: React.FC<LayoutEditorProps> = ({ assets, onAssetCreated }) =
       };
       const newItems = [...items, newItem];
       updateItems(newItems);
-      setSelectedItemId(newItem.id);
+      setSelectedIds([newItem.id]);
   }
 
   const handleDelete = () => {
-    if (selectedItemId) {
-      const newItems = items.filter(i => i.id !== selectedItemId);
-      updateItems(newItems);
-      setSelectedItemId(null);
+    if (selectedIds.length > 0) {
+      const removed = new Set(selectedIds.flatMap(id => [id, ...getDescendantIds(items, id)]));
+      const newItems = items.filter(i => !removed.has(i.id));
+      updateItems(normalizeZOrder(newItems));
+      setSelectedIds([]);
     }
   };
 
   const handlePropertyChange = (prop: keyof LayoutItem, value: any) => {
-    if (selectedItemId) {
-        const newItems = items.map(item => 
-            item.id === selectedItemId ? { ...item, [prop]: value } : item
-        );
-        updateItems(newItems, true); // Record history for property changes
+    if (selectedIds.length === 0) return;
+    let newItems = items;
+    selectedIds.forEach(id => {
+        const item = newItems.find(i => i.id === id);
+        if (!item) return;
+        if (GEOMETRY_PROPS.includes(prop)) {
+            // Groups carry their children along
+            newItems = transformItem(newItems, id, { [prop]: value });
+        } else if (item.type === 'group') {
+            const leafIds = new Set(expandToLeaves(newItems, [id]).map(l => l.id));
+            newItems = newItems.map(i => leafIds.has(i.id) ? { ...i, [prop]: value } : i);
+        } else {
+            newItems = newItems.map(i => i.id === id ? { ...i, [prop]: value } : i);
+        }
+    });
+    updateItems(newItems, true); // Record history for property changes
+  };
+
+  // --- Text ---
+  const handleTextStyleChange = (patch: Partial<TextStyle>) => {
+    if (textTargets.length === 0) return;
+    const targetIds = new Set(textTargets.map(t => t.id));
+    const newItems = items.map(item => {
+        if (!targetIds.has(item.id)) return item;
+        const text = getRichText(item);
+        return { ...item, text: { ...text, style: { ...text.style, ...patch } } };
+    });
+    updateItems(newItems);
+  };
+
+  // Brand swatches recolor text and shape fills in the selection,
+  // or the active artboard's background when nothing is selected
+  const handleBrandColor = (hex: string) => {
+    if (selectedIds.length === 0) {
+      if (activeArtboard) handleArtboardChange(activeArtboard.id, { background: hex });
+      return;
+    }
+    const targetIds = new Set(expandToLeaves(items, selectedIds).map(l => l.id));
+    updateItems(items.map(item => {
+        if (!targetIds.has(item.id)) return item;
+        if (item.type === 'shape') return { ...item, color: hex };
+        if (item.type !== 'text') return item;
+        const text = getRichText(item);
+        return { ...item, text: { ...text, style: { ...text.style, color: hex } } };
+    }));
+  };
+
+  const commitTextRuns = (id: string, runs: TextRun[]) => {
+    const item = items.find(i => i.id === id);
+    if (!item) return;
+    const text = getRichText(item);
+    if (JSON.stringify(text.runs) === JSON.stringify(runs)) return;
+    updateItems(items.map(i => i.id === id ? { ...i, content: getPlainText(runs), text: { ...text, runs } } : i));
+  };
+
+  // Plain-text edits from the property panel replace the runs with a single one
+  const handleTextContentChange = (value: string) => {
+    if (!selectedItem) return;
+    const text = getRichText(selectedItem);
+    updateItems(items.map(i => i.id === selectedItem.id ? { ...i, content: value, text: { ...text, runs: [{ text: value }] } } : i));
+  };
+
+  const startTextEditing = (e: React.MouseEvent, item: LayoutItem) => {
+    if (item.type !== 'text' || cropModeItem) return;
+    e.stopPropagation();
+    setSelectedIds([item.id]);
+    setEditingTextId(item.id);
+  };
+
+  // --- Video ---
+  const handleVideoChange = (patch: Partial<VideoClip>) => {
+    if (selectedItem?.type !== 'video') return;
+    const video = clampVideoClip({ ...getVideoClip(selectedItem), ...patch });
+    updateItems(items.map(i => i.id === selectedItem.id ? { ...i, video } : i));
+  };
+
+  // The poster is the frame the selected clip shows at the playhead
+  const handleSetPoster = async () => {
+    if (selectedItem?.type !== 'video') return;
+    const id = selectedItem.id;
+    const posterTime = getClipTime(getVideoClip(selectedItem), playhead);
+    try {
+      const poster = await captureVideoFrame(selectedItem.content, posterTime);
+      updateItems(items.map(i => i.id === id ? { ...i, video: { ...getVideoClip(i), posterTime, poster } } : i));
+    } catch (e: any) {
+      console.error(e);
+      alert(e.message);
+    }
+  };
+
+  // --- Animation ---
+  const handleOpacityChange = (opacity: number) => {
+    const targetIds = new Set(expandToLeaves(items, selectedIds).map(l => l.id));
+    updateItems(items.map(i => targetIds.has(i.id) ? { ...i, style: { ...i.style, opacity } } : i));
+  };
+
+  // Keyframe and preset edits work on the stored item, not its pose
+  const updateKeyframes = (id: string, edit: (item: LayoutItem) => LayoutItem) => {
+    replaceItems(baseItems.map(i => i.id === id ? edit(i) : i));
+  };
+
+  // --- Layers ---
+  const handleLayerSelect = (id: string, additive: boolean) => {
+    if (!additive) {
+      setSelectedIds([id]);
+      return;
     }
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]);
+  };
+
+  const handleLayerMove = (id: string, targetId: string, position: DropPosition) => {
+    const newItems = moveLayer(items, id, targetId, position);
+    if (newItems !== items) updateItems(newItems);
+  };
+
+  const toggleLayerFlag = (id: string, flag: 'hidden' | 'locked') => {
+    updateItems(items.map(i => i.id === id ? { ...i, [flag]: !i[flag] } : i));
+    // Hidden layers cannot be manipulated on the canvas, so drop them from the selection
+    if (flag === 'hidden') setSelectedIds(ids => ids.filter(s => s !== id));
+  };
+
+  const handleLayerRename = (id: string, name: string) => {
+    const item = items.find(i => i.id === id);
+    if (!item || (item.name || '') === name) return;
+    updateItems(items.map(i => i.id === id ? { ...i, name: name || undefined } : i));
+  };
+
+  // Positive steps bring the selection forward; +/-Infinity go to the front/back.
+  // Items are shifted starting from the side they move towards so they don't swap with each other.
+  const handleArrange = (steps: number) => {
+    if (selectedIds.length === 0) return;
+    const ordered = [...selectedItems].sort((a, b) => steps > 0 ? b.zIndex - a.zIndex : a.zIndex - b.zIndex);
+    let newItems = items;
+    ordered.forEach(item => {
+      newItems = shiftLayer(newItems, item.id, steps);
+    });
+    updateItems(newItems);
+  };
+
+  // --- Grouping & Alignment ---
+  const handleGroup = () => {
+    if (selectedIds.length < 2) return;
+    const groupId = newItemId();
+    updateItems(normalizeZOrder(groupItems(items, selectedIds, groupId)));
+    setSelectedIds([groupId]);
+  };
+
+  const handleUngroup = () => {
+    const groups = selectedItems.filter(i => i.type === 'group');
+    if (groups.length === 0) return;
+    let newItems = items;
+    const released: string[] = [];
+    groups.forEach(group => {
+        released.push(...getChildren(newItems, group.id).map(c => c.id));
+        newItems = ungroupItems(newItems, group.id);
+    });
+    updateItems(normalizeZOrder(newItems));
+    setSelectedIds([...selectedIds.filter(id => !groups.some(g => g.id === id)), ...released]);
+  };
+
+  const handleAlign = (mode: AlignMode) => {
+    const bounds = unionRects(selectedItems.map(getItemBounds));
+    if (!bounds || selectedItems.length < 2) return;
+    let newItems = items;
+    selectedItems.forEach(item => {
+        const b = getItemBounds(item);
+        let dx = 0, dy = 0;
+        if (mode === 'left') dx = bounds.x - b.x;
+        if (mode === 'center') dx = bounds.x + bounds.width / 2 - (b.x + b.width / 2);
+        if (mode === 'right') dx = bounds.x + bounds.width - (b.x + b.width);
+        if (mode === 'top') dy = bounds.y - b.y;
+        if (mode === 'middle') dy = bounds.y + bounds.height / 2 - (b.y + b.height / 2);
+        if (mode === 'bottom') dy = bounds.y + bounds.height - (b.y + b.height);
+        newItems = translateItems(newItems, [item.id], dx, dy);
+    });
+    updateItems(newItems);
   };
 
   // --- Import ---
@@ -172,38 +696,27 @@ const LayoutEditor: React.FC<LayoutEditorProps> = ({ assets, onAssetCreated }) =
   };
 
   // --- Export & Save ---
-  const getCanvasImage = async (): Promise<string | null> => {
-      if (canvasRef.current) {
-          // Temporarily hide guides and tools if any are visible inside canvas
-          // (Current impl renders guides inside canvasRef)
-          const canvas = await html2canvas(canvasRef.current, {
-              backgroundColor: '#09090b', // Keep background color
-              scale: 2 // High res
-          });
-          return canvas.toDataURL('image/png');
-      }
-      return null;
-  }
-
-  const handleExport = async () => {
-      const dataUrl = await getCanvasImage();
-      if (dataUrl) {
-          const link = document.createElement('a');
-          link.download = `envisage-layout-${Date.now()}.png`;
-          link.href = dataUrl;
-          link.click();
-      }
-  };
+  const { exporting, exportProgress, getCanvasImage, runExport, exportAll } = useLayoutExport({
+    canvasRef, documentName: doc?.name, artboards, activeArtboard, items, baseItems, length: timelineLength, onStart: pause,
+  });
 
   const handleSaveToProject = async () => {
       const dataUrl = await getCanvasImage();
-      if (dataUrl && onAssetCreated) {
+      if (dataUrl && onAssetCreated && activeArtboard) {
           const newAsset: GeneratedAsset = {
               id: `layout-${Date.now()}`,
               type: 'image',
               content: dataUrl,
               createdAt: Date.now(),
-              metadata: { prompt: 'Saved Layout' }
+              metadata: { prompt: 'Saved Layout', aspectRatio: `${activeArtboard.width}:${activeArtboard.height}` },
+              provenance: createProvenance({
+                  tool: ToolType.LAYOUT_EDITOR,
+                  origin: 'composed',
+                  parameters: { layout: doc?.name, artboard: activeArtboard.name, width: activeArtboard.width, height: activeArtboard.height },
+                  parentAssetIds: getArtboardItems(items, activeArtboard)
+                      .flatMap(item => item.assetId && assets.some(a => a.id === item.assetId) ? [item.assetId] : []),
+                  brandKit: activeKit,
+              })
           };
           onAssetCreated(newAsset);
           alert("Layout saved to project assets!");
@@ -211,83 +724,189 @@ const LayoutEditor: React.FC<LayoutEditorProps> = ({ assets, onAssetCreated }) =
   };
 
   // --- Snapping & Dragging ---
+  // Converts a mouse position to pasteboard coordinates
+  const toCanvasPoint = (e: React.MouseEvent): Point => {
+    const rect = viewportRef.current?.getBoundingClientRect();
+    return {
+      x: (e.clientX - (rect?.left || 0) - view.pan.x) / view.zoom,
+      y: (e.clientY - (rect?.top || 0) - view.pan.y) / view.zoom,
+    };
+  };
+
   const handleMouseDown = (e: React.MouseEvent, id: string) => {
     if (cropModeItem) return; // Disable dragging during crop
     e.stopPropagation();
-    const item = items.find((i) => i.id === id);
-    if (item) {
-      setSelectedItemId(id);
-      setIsDragging(true);
-      setDragOffset({
-        x: e.clientX - item.x,
-        y: e.clientY - item.y,
-      });
+    if (editingTextId === id) return; // Mouse selects text while editing
+    // Clicking inside a group selects the outermost group
+    const target = getTopLevelAncestor(items, id);
+    if (!target) return;
+    const board = getArtboardAt(artboards, getCenter(getItemBounds(target)));
+    if (board) setActiveArtboardId(board.id);
+
+    let nextSelection: string[];
+    if (e.shiftKey) {
+      nextSelection = selectedIds.includes(target.id)
+        ? selectedIds.filter(s => s !== target.id)
+        : [...selectedIds, target.id];
+    } else {
+      nextSelection = selectedIds.includes(target.id) ? selectedIds : [target.id];
     }
+    setSelectedIds(nextSelection);
+    if (!nextSelection.includes(target.id)) return; // Shift-click deselected it
+
+    setIsDragging(true);
+    setDragOrigin({ x: e.clientX, y: e.clientY, items });
+  };
+
+  // Artboard edges plus the edges of every item that is not being moved
+  const getSnapTargets = (axis: 'x' | 'y', exclude: Set<string>, source: LayoutItem[]): number[] => {
+    const targets = artboards.flatMap(a => axis === 'x' ? [a.x, a.x + a.width] : [a.y, a.y + a.height]);
+    source.forEach(other => {
+        if (exclude.has(other.id) || other.type === 'group') return;
+        targets.push(axis === 'x' ? other.x : other.y);
+        targets.push(axis === 'x' ? other.x + other.width : other.y + other.height);
+    });
+    return targets;
+  };
+
+  const snapTo = (value: number, targets: number[]): number | null => {
+    // The threshold is in screen pixels, so it stays usable at any zoom
+    const hit = targets.find(t => Math.abs(value - t) < SNAP_THRESHOLD / view.zoom);
+    return hit === undefined ? null : hit;
+  };
+
+  const startResize = (e: React.MouseEvent, handle: ResizeHandle) => {
+    e.stopPropagation();
+    setGesture({ kind: 'resize', handle, start: toCanvasPoint(e), items });
+  };
+
+  const startRotate = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (!selectedItem) return;
+    setGesture({ kind: 'rotate', startAngle: angleFromCenter(selectedItem, toCanvasPoint(e)), items });
+  };
+
+  const handleGestureMove = (e: React.MouseEvent, active: TransformGesture) => {
+    const target = selectedItem && active.items.find(i => i.id === selectedItem.id);
+    if (!target) return;
+    const point = toCanvasPoint(e);
+
+    if (active.kind === 'rotate') {
+      let rotation = target.rotation + angleFromCenter(target, point) - active.startAngle;
+      if (e.shiftKey) rotation = Math.round(rotation / ROTATION_STEP) * ROTATION_STEP;
+      setItems(transformItem(active.items, target.id, { rotation: Math.round(normalizeAngle(rotation)) }));
+      return;
+    }
+
+    const delta = { x: point.x - active.start.x, y: point.y - active.start.y };
+    const frame = resizeFrame(target, active.handle, delta, e.shiftKey);
+    const guides: { type: 'x' | 'y', pos: number }[] = [];
+
+    // Snap the moving edges; skipped for rotated items and aspect-locked resizes
+    if (snappingEnabled && !target.rotation && !e.shiftKey) {
+      const dir = HANDLE_DIRECTIONS[active.handle];
+      const exclude = new Set([target.id, ...getDescendantIds(active.items, target.id)]);
+      if (dir.x !== 0) {
+        const edge = dir.x > 0 ? frame.x + frame.width : frame.x;
+        const snapped = snapTo(edge, getSnapTargets('x', exclude, active.items));
+        if (snapped !== null) {
+          if (dir.x > 0) frame.width = snapped - frame.x; else { frame.width += frame.x - snapped; frame.x = snapped; }
+          guides.push({ type: 'x', pos: snapped });
+        }
+      }
+      if (dir.y !== 0) {
+        const edge = dir.y > 0 ? frame.y + frame.height : frame.y;
+        const snapped = snapTo(edge, getSnapTargets('y', exclude, active.items));
+        if (snapped !== null) {
+          if (dir.y > 0) frame.height = snapped - frame.y; else { frame.height += frame.y - snapped; frame.y = snapped; }
+          guides.push({ type: 'y', pos: snapped });
+        }
+      }
+    }
+
+    setSnapGuides(guides);
+    setItems(transformItem(active.items, target.id, frame));
   };
 
   const handleMouseMove = (e: React.MouseEvent) => {
-    if (isDragging && selectedItemId && !cropModeItem) {
-      let newX = e.clientX - dragOffset.x;
-      let newY = e.clientY - dragOffset.y;
+    if (panOrigin) {
+      setView(current => ({ ...current, pan: { x: panOrigin.pan.x + e.clientX - panOrigin.x, y: panOrigin.pan.y + e.clientY - panOrigin.y } }));
+      return;
+    }
+    if (gesture) {
+      handleGestureMove(e, gesture);
+      return;
+    }
+    if (marquee) {
+      setMarquee({ ...marquee, end: toCanvasPoint(e) });
+      return;
+    }
+    if (isDragging && dragOrigin && selectedIds.length > 0 && !cropModeItem) {
+      // Locked layers stay put even when they are part of the selection
+      const dragIds = selectedIds.filter(id => {
+        const item = dragOrigin.items.find(i => i.id === id);
+        return item && !isLocked(dragOrigin.items, item);
+      });
+      const movingIds = new Set(dragIds.flatMap(id => [id, ...getDescendantIds(dragOrigin.items, id)]));
+      const startBounds = unionRects(dragOrigin.items.filter(i => dragIds.includes(i.id)).map(getItemBounds));
+      if (!startBounds) return;
+
+      let newX = startBounds.x + (e.clientX - dragOrigin.x) / view.zoom;
+      let newY = startBounds.y + (e.clientY - dragOrigin.y) / view.zoom;
       
       const guides: { type: 'x' | 'y', pos: number }[] = [];
 
-      if (snappingEnabled && canvasRef.current) {
-        const SNAP_THRESHOLD = 10;
-        const rect = canvasRef.current.getBoundingClientRect();
-        
-        // Snap X
-        if (Math.abs(newX) < SNAP_THRESHOLD) { newX = 0; guides.push({type: 'x', pos: 0}); }
-        
-        // Snap Y
-        if (Math.abs(newY) < SNAP_THRESHOLD) { newY = 0; guides.push({type: 'y', pos: 0}); }
-
-        // Snap to other items
-        const currentItem = items.find(i => i.id === selectedItemId);
-        if (currentItem) {
-            items.forEach(other => {
-                if (other.id === selectedItemId) return;
-                
-                // Left-Left
-                if (Math.abs(newX - other.x) < SNAP_THRESHOLD) { 
-                    newX = other.x; 
-                    guides.push({type: 'x', pos: other.x});
-                }
-                // Top-Top
-                if (Math.abs(newY - other.y) < SNAP_THRESHOLD) { 
-                    newY = other.y; 
-                    guides.push({type: 'y', pos: other.y});
-                }
-            });
-        }
+      if (snappingEnabled) {
+        // Snap the selection's top-left to artboard and other items' edges
+        const snappedX = snapTo(newX, getSnapTargets('x', movingIds, dragOrigin.items));
+        if (snappedX !== null) { newX = snappedX; guides.push({type: 'x', pos: snappedX}); }
+
+        const snappedY = snapTo(newY, getSnapTargets('y', movingIds, dragOrigin.items));
+        if (snappedY !== null) { newY = snappedY; guides.push({type: 'y', pos: snappedY}); }
       }
 
       setSnapGuides(guides);
 
-      setItems((prev) =>
-        prev.map((item) =>
-          item.id === selectedItemId
-            ? { ...item, x: newX, y: newY }
-            : item
-        )
-      );
+      setItems(translateItems(dragOrigin.items, dragIds, newX - startBounds.x, newY - startBounds.y));
     }
   };
 
   const handleMouseUp = () => {
+    if (panOrigin) {
+      setPanOrigin(null);
+      return;
+    }
+    if (gesture) {
+      setGesture(null);
+      setSnapGuides([]);
+      recordHistory(baseItems); // One undo step per resize/rotate gesture
+      return;
+    }
+    if (marquee) {
+      const area = normalizeRect(marquee.start, marquee.end);
+      // Ignore plain clicks on the background
+      if (area.width > 3 || area.height > 3) {
+        const hits = getTopLevelItems(items)
+          .filter(item => !item.hidden && !item.locked && rectsIntersect(area, getItemBounds(item)))
+          .map(item => item.id);
+        setSelectedIds(prev => Array.from(new Set([...prev, ...hits])));
+      }
+      setMarquee(null);
+    }
     if (isDragging) {
         setIsDragging(false);
+        setDragOrigin(null);
         setSnapGuides([]);
-        recordHistory(items); // Commit drag to history
+        recordHistory(baseItems); // Commit drag to history
     }
   };
 
   // --- Crop Logic ---
   const startCrop = () => {
-    if (selectedItemId) {
-        setCropModeItem(selectedItemId);
+    if (selectedItem) {
+        setCropModeItem(selectedItem.id);
         setCropToolType('rect');
-        setCropRect({ t: 0, r: 0, b: 0, l: 0 });
+        setCropRect(EMPTY_INSET);
         setLassoPoints([]);
     }
   };
@@ -296,10 +915,9 @@ const LayoutEditor: React.FC<LayoutEditorProps> = ({ assets, onAssetCreated }) =
     if (cropModeItem) {
         let clipPath = '';
         if (cropToolType === 'rect') {
-            clipPath = `inset(${cropRect.t}% ${cropRect.r}% ${cropRect.b}% ${cropRect.l}%)`;
+            clipPath = insetClipPath(cropRect);
         } else if (cropToolType === 'lasso' && lassoPoints.length > 2) {
-            const pointsStr = lassoPoints.map(p => `${p.x}% ${p.y}%`).join(', ');
-            clipPath = `polygon(${pointsStr})`;
+            clipPath = polygonClipPath(lassoPoints);
         }
 
         if (clipPath) {
@@ -316,27 +934,104 @@ const LayoutEditor: React.FC<LayoutEditorProps> = ({ assets, onAssetCreated }) =
 
   const handleCropClick = (e: React.MouseEvent<HTMLDivElement>) => {
       if (cropModeItem && cropToolType === 'lasso') {
-          // Calculate click position as percentage of element
-          const rect = e.currentTarget.getBoundingClientRect();
-          const x = ((e.clientX - rect.left) / rect.width) * 100;
-          const y = ((e.clientY - rect.top) / rect.height) * 100;
-          setLassoPoints([...lassoPoints, { x, y }]);
+          setLassoPoints([...lassoPoints, toPercentPoint(e, e.currentTarget.getBoundingClientRect())]);
       }
   };
 
-  const handleCanvasClick = (e: React.MouseEvent) => {
-    if (e.target === e.currentTarget) {
-      setSelectedItemId(null);
+  // Background press clears the selection (unless Shift) and starts a marquee.
+  // Pressing an artboard's background also makes it the active one.
+  const handleCanvasMouseDown = (e: React.MouseEvent, artboardId?: string) => {
+    if (e.target !== e.currentTarget) return;
+    if (artboardId) setActiveArtboardId(artboardId);
+    if (cropModeItem) {
       setCropModeItem(null);
+      return;
     }
+    if (!e.shiftKey) setSelectedIds([]);
+    const start = toCanvasPoint(e);
+    setMarquee({ start, end: start });
   };
 
+  // --- Keyboard Shortcuts ---
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) return;
+      if (e.code === 'Space') {
+        e.preventDefault();
+        setSpaceHeld(true);
+      } else if ((e.metaKey || e.ctrlKey) && (e.key === '=' || e.key === '+')) {
+        e.preventDefault();
+        zoomAt(ZOOM_STEP);
+      } else if ((e.metaKey || e.ctrlKey) && e.key === '-') {
+        e.preventDefault();
+        zoomAt(1 / ZOOM_STEP);
+      } else if ((e.metaKey || e.ctrlKey) && e.key === '0') {
+        e.preventDefault();
+        handleFitAll();
+      } else if ((e.key === 'Delete' || e.key === 'Backspace') && selectedIds.length > 0) {
+        e.preventDefault();
+        handleDelete();
+      } else if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 's') {
+        e.preventDefault();
+        handleSaveVersion();
+      } else if ((e.metaKey || e.ctrlKey) && (e.key === ']' || e.key === '}')) {
+        e.preventDefault();
+        handleArrange(e.shiftKey ? Infinity : 1);
+      } else if ((e.metaKey || e.ctrlKey) && (e.key === '[' || e.key === '{')) {
+        e.preventDefault();
+        handleArrange(e.shiftKey ? -Infinity : -1);
+      } else if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'g') {
+        e.preventDefault();
+        if (e.shiftKey) handleUngroup(); else handleGroup();
+      }
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code === 'Space') setSpaceHeld(false);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+    };
+  });
+
   // --- Rendering ---
+  if (!doc) {
+    return (
+      <div className="flex h-full items-center justify-center text-zinc-500">
+        <Loader2 size={20} className="animate-spin" />
+      </div>
+    );
+  }
+
   return (
     <div className="flex h-full" onMouseUp={handleMouseUp} onMouseMove={handleMouseMove}>
       {/* Sidebar of Available Assets */}
       <div className="w-64 bg-zinc-900 border-r border-zinc-800 p-4 overflow-y-auto shrink-0">
-        <h3 className="text-zinc-400 font-semibold mb-4 text-sm uppercase tracking-wider">Asset Library</h3>
+        <div className="flex gap-4 mb-4">
+            {([['assets', 'Asset Library'], ['layers', 'Layers']] as const).map(([tab, label]) => (
+                <button
+                    key={tab}
+                    onClick={() => setSidebarTab(tab)}
+                    className={`font-semibold text-sm uppercase tracking-wider ${sidebarTab === tab ? 'text-zinc-200' : 'text-zinc-600 hover:text-zinc-400'}`}
+                >
+                    {label}
+                </button>
+            ))}
+        </div>
+        {sidebarTab === 'layers' ? (
+            <LayersPanel
+                items={items}
+                selectedIds={selectedIds}
+                onSelect={handleLayerSelect}
+                onMove={handleLayerMove}
+                onToggleHidden={(id) => toggleLayerFlag(id, 'hidden')}
+                onToggleLocked={(id) => toggleLayerFlag(id, 'locked')}
+                onRename={handleLayerRename}
+            />
+        ) : (
         <div className="space-y-3">
            <div className="flex gap-2">
                 <button onClick={handleImportClick} className="flex-1 py-2 bg-zinc-800 hover:bg-zinc-700 rounded text-sm text-zinc-300 flex items-center justify-center gap-2">
@@ -368,9 +1063,10 @@ const LayoutEditor: React.FC<LayoutEditorProps> = ({ assets, onAssetCreated }) =
               {asset.type === 'image' && (
                 <img src={asset.content} alt="Asset" className="w-full h-24 object-cover" />
               )}
-               {asset.type === 'video' && (
-                <div className="w-full h-24 bg-zinc-950 flex items-center justify-center text-zinc-500 text-xs">
-                    VIDEO (Preview Only)
+              {asset.type === 'video' && (
+                <div className="w-full h-24 bg-zinc-950 relative">
+                    <video src={asset.content} muted preload="metadata" className="w-full h-full object-cover" />
+                    <Film size={14} className="absolute bottom-1.5 left-1.5 text-white drop-shadow" />
                 </div>
               )}
               {asset.type === 'text' && (
@@ -384,6 +1080,7 @@ const LayoutEditor: React.FC<LayoutEditorProps> = ({ assets, onAssetCreated }) =
             </div>
           ))}
         </div>
+        )}
       </div>
 
       {/* Main Canvas Area */}
@@ -405,69 +1102,240 @@ const LayoutEditor: React.FC<LayoutEditorProps> = ({ assets, onAssetCreated }) =
                 >
                     <Magnet size={18} />
                 </button>
+                <div className="w-px h-4 bg-zinc-700 mx-2"></div>
+                <button onClick={() => zoomAt(1 / ZOOM_STEP)} className="p-1.5 text-zinc-400 hover:text-white" title="Zoom Out (Ctrl+-)">
+                    <ZoomOut size={18} />
+                </button>
+                <button onClick={() => zoomAt(1 / view.zoom)} className="text-xs text-zinc-400 hover:text-white w-12 text-center" title="Reset to 100%">
+                    {Math.round(view.zoom * 100)}%
+                </button>
+                <button onClick={() => zoomAt(ZOOM_STEP)} className="p-1.5 text-zinc-400 hover:text-white" title="Zoom In (Ctrl+=)">
+                    <ZoomIn size={18} />
+                </button>
+                <button onClick={handleFitAll} className="p-1.5 text-zinc-400 hover:text-white" title="Fit Artboards (Ctrl+0)">
+                    <Maximize size={18} />
+                </button>
+                <div className="w-px h-4 bg-zinc-700 mx-2"></div>
+                <button onClick={() => setShowDocuments(true)} className="p-1.5 text-zinc-400 hover:text-white" title="Documents">
+                    <FolderOpen size={18} />
+                </button>
+                <input
+                    value={doc.name}
+                    onChange={(e) => handleDocumentChange({ name: e.target.value })}
+                    className="bg-transparent border border-transparent hover:border-zinc-700 focus:border-indigo-500 rounded px-2 py-1 text-sm text-zinc-200 w-44 focus:outline-none"
+                    title="Rename layout"
+                />
+                <span className={`text-[10px] ${saveState === 'error' ? 'text-red-400' : 'text-zinc-500'}`}>
+                    {saveState === 'saving' ? 'Saving…' : saveState === 'error' ? 'Not saved' : 'Saved'}
+                </span>
              </div>
              
              <div className="flex items-center gap-2">
-                {selectedItemId && !cropModeItem && selectedItem?.type === 'image' && (
+                {selectedItems.length > 1 && (
+                    <div className="flex items-center gap-0.5 mr-1">
+                        {([
+                            ['left', AlignStartVertical, 'Align Left'],
+                            ['center', AlignCenterVertical, 'Align Center'],
+                            ['right', AlignEndVertical, 'Align Right'],
+                            ['top', AlignStartHorizontal, 'Align Top'],
+                            ['middle', AlignCenterHorizontal, 'Align Middle'],
+                            ['bottom', AlignEndHorizontal, 'Align Bottom'],
+                        ] as [AlignMode, LucideIcon, string][]).map(([mode, Icon, label]) => (
+                            <button key={mode} onClick={() => handleAlign(mode)} className="p-1.5 text-zinc-400 hover:text-white rounded hover:bg-zinc-800" title={label}>
+                                <Icon size={16} />
+                            </button>
+                        ))}
+                    </div>
+                )}
+                {selectedItems.length > 1 && (
+                    <button onClick={handleGroup} className="flex items-center gap-2 bg-zinc-800 hover:bg-zinc-700 text-zinc-200 px-3 py-1.5 rounded text-sm" title="Group (Ctrl+G)">
+                        <Group size={14} /> Group
+                    </button>
+                )}
+                {selectedItems.some(i => i.type === 'group') && (
+                    <button onClick={handleUngroup} className="flex items-center gap-2 bg-zinc-800 hover:bg-zinc-700 text-zinc-200 px-3 py-1.5 rounded text-sm" title="Ungroup (Ctrl+Shift+G)">
+                        <Ungroup size={14} /> Ungroup
+                    </button>
+                )}
+                {selectedItem && !cropModeItem && selectedItem.type === 'image' && (
                      <button onClick={startCrop} className="flex items-center gap-2 bg-zinc-800 hover:bg-zinc-700 text-zinc-200 px-3 py-1.5 rounded text-sm">
                         <Crop size={14} /> Crop
                     </button>
                 )}
-                {selectedItemId && (
+                {selectedIds.length > 0 && (
                     <button onClick={handleDelete} className="p-1.5 text-red-400 hover:bg-red-900/30 rounded">
                         <Trash2 size={18} />
                     </button>
                 )}
                 <div className="w-px h-4 bg-zinc-700 mx-2"></div>
+                <button onClick={handleSaveVersion} className="flex items-center gap-2 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 px-3 py-1.5 rounded text-sm" title="Save Version (Ctrl+S)">
+                    <History size={16} /> Save Version
+                </button>
                 {onAssetCreated && (
                     <button onClick={handleSaveToProject} className="flex items-center gap-2 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 px-3 py-1.5 rounded text-sm">
                         <Save size={16} /> Save to Project
                     </button>
                 )}
-                <button onClick={handleExport} className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white px-3 py-1.5 rounded text-sm">
-                    <Download size={16} /> Export
-                </button>
+                <ExportMenu
+                    artboard={activeArtboard}
+                    artboardCount={artboards.length}
+                    animated={activeArtboardAnimated}
+                    length={timelineLength}
+                    exporting={exporting}
+                    progress={exportProgress}
+                    onExport={runExport}
+                />
              </div>
         </div>
 
-        {/* Canvas */}
-        <div 
-            ref={canvasRef}
-            className="flex-1 relative cursor-default overflow-hidden"
-            onClick={handleCanvasClick}
+        {/* Canvas: a zoomable pasteboard holding the artboards */}
+        <div
+            ref={viewportRef}
+            className="flex-1 relative overflow-hidden"
+            onMouseDownCapture={handleViewportMouseDownCapture}
+            onMouseDown={(e) => handleCanvasMouseDown(e)}
             style={{ 
                 backgroundImage: 'radial-gradient(#27272a 1px, transparent 1px)', 
-                backgroundSize: '20px 20px' 
+                backgroundSize: `${20 * view.zoom}px ${20 * view.zoom}px`,
+                backgroundPosition: `${view.pan.x}px ${view.pan.y}px`,
+                cursor: panOrigin ? 'grabbing' : spaceHeld ? 'grab' : 'default'
             }}
         >
+        <div 
+            ref={canvasRef}
+            className="absolute left-0 top-0"
+            style={{ transform: `translate(${view.pan.x}px, ${view.pan.y}px) scale(${view.zoom})`, transformOrigin: '0 0' }}
+        >
+          {/* Artboards */}
+          {artboards.map(artboard => (
+              <React.Fragment key={artboard.id}>
+                  <div
+                    data-html2canvas-ignore
+                    onMouseDown={(e) => { e.stopPropagation(); setActiveArtboardId(artboard.id); }}
+                    className={`absolute whitespace-nowrap text-xs cursor-pointer ${artboard.id === activeArtboard?.id ? 'text-indigo-400' : 'text-zinc-500'}`}
+                    style={{ left: artboard.x, top: artboard.y, transform: `translateY(-100%) scale(${1 / view.zoom})`, transformOrigin: '0 100%', paddingBottom: 4 }}
+                  >
+                      {artboard.name} <span className="text-zinc-600">{artboard.width}×{artboard.height}</span>
+                  </div>
+                  <div
+                    onMouseDown={(e) => handleCanvasMouseDown(e, artboard.id)}
+                    className="absolute shadow-2xl"
+                    style={{
+                        left: artboard.x,
+                        top: artboard.y,
+                        width: artboard.width,
+                        height: artboard.height,
+                        backgroundColor: artboard.background,
+                        outline: artboard.id === activeArtboard?.id && artboards.length > 1 ? `${2 / view.zoom}px solid #6366f1` : undefined
+                    }}
+                  />
+              </React.Fragment>
+          ))}
+
           {/* Snap Guides */}
           {snapGuides.map((guide, i) => (
               <div 
                 key={i} 
-                className={`absolute bg-indigo-500 z-50 ${guide.type === 'x' ? 'w-px h-full top-0' : 'h-px w-full left-0'}`}
-                style={guide.type === 'x' ? { left: guide.pos } : { top: guide.pos }}
+                data-html2canvas-ignore
+                className="absolute bg-indigo-500 z-50"
+                style={guide.type === 'x'
+                    ? { left: guide.pos, top: -GUIDE_EXTENT, width: 1 / view.zoom, height: GUIDE_EXTENT * 2 }
+                    : { top: guide.pos, left: -GUIDE_EXTENT, height: 1 / view.zoom, width: GUIDE_EXTENT * 2 }}
               />
           ))}
 
-          {items.map((item) => {
+          {/* Marquee Selection */}
+          {marquee && (() => {
+              const area = normalizeRect(marquee.start, marquee.end);
+              return (
+                  <div
+                    data-html2canvas-ignore
+                    className="absolute border border-indigo-400 bg-indigo-500/10 z-50 pointer-events-none"
+                    style={{ left: area.x, top: area.y, width: area.width, height: area.height }}
+                  />
+              );
+          })()}
+
+          {/* Group frames are only drawn while selected; children render on their own */}
+          {selectedItems.filter(i => i.type === 'group').map(group => (
+              <div
+                key={group.id}
+                data-html2canvas-ignore
+                className="absolute border-2 border-dashed border-indigo-500 pointer-events-none"
+                style={{
+                    left: group.x,
+                    top: group.y,
+                    width: group.width,
+                    height: group.height,
+                    zIndex: 1000,
+                    transform: `rotate(${group.rotation}deg)`
+                }}
+              />
+          ))}
+
+          {/* Resize & Rotate Handles */}
+          {selectedItem && !cropModeItem && !marquee && editingTextId !== selectedItem.id && !isLocked(items, selectedItem) && !isHidden(items, selectedItem) && (
+              <div
+                data-html2canvas-ignore
+                className="absolute pointer-events-none"
+                style={{
+                    left: selectedItem.x,
+                    top: selectedItem.y,
+                    width: selectedItem.width,
+                    height: selectedItem.height,
+                    zIndex: 1001,
+                    transform: `rotate(${selectedItem.rotation}deg)`
+                }}
+              >
+                  {(Object.keys(HANDLE_DIRECTIONS) as ResizeHandle[]).map(handle => (
+                      <div
+                        key={handle}
+                        onMouseDown={(e) => startResize(e, handle)}
+                        className="absolute w-2.5 h-2.5 bg-white border border-indigo-500 rounded-sm pointer-events-auto"
+                        style={{
+                            left: `${(HANDLE_DIRECTIONS[handle].x + 1) * 50}%`,
+                            top: `${(HANDLE_DIRECTIONS[handle].y + 1) * 50}%`,
+                            transform: `translate(-50%, -50%) scale(${1 / view.zoom})`,
+                            cursor: HANDLE_CURSORS[handle]
+                        }}
+                      />
+                  ))}
+                  <div className="absolute left-1/2 bg-indigo-500" style={{ top: -24 / view.zoom, height: 24 / view.zoom, width: 1 / view.zoom }} />
+                  <div
+                    onMouseDown={startRotate}
+                    className="absolute left-1/2 w-3 h-3 bg-white border border-indigo-500 rounded-full pointer-events-auto cursor-grab"
+                    style={{ top: -24 / view.zoom, transform: `translate(-50%, -50%) scale(${1 / view.zoom})` }}
+                    title="Rotate (Shift snaps to 15°)"
+                  />
+              </div>
+          )}
+
+          {items.filter(item => item.type !== 'group' && !isHidden(items, item)).map((item) => {
             const isCroppingThis = cropModeItem === item.id;
+            const isSelected = selectedIds.includes(item.id);
+            const locked = isLocked(items, item);
+            const effect = getPresetEffect(item, playhead, timelineLength);
             
             return (
             <div
               key={item.id}
               style={{
                 position: 'absolute',
-                left: item.x,
-                top: item.y,
+                left: item.x + effect.dx,
+                top: item.y + effect.dy,
                 width: item.width,
                 height: item.height,
                 zIndex: item.zIndex,
-                transform: `rotate(${item.rotation}deg)`,
-                cursor: isDragging && selectedItemId === item.id ? 'grabbing' : isCroppingThis ? 'crosshair' : 'grab',
-                ...(isCroppingThis ? {} : item.style) // Apply clip-path if NOT cropping (to show full image during crop)
+                transform: `rotate(${item.rotation}deg)${effect.scale !== 1 ? ` scale(${effect.scale})` : ''}`,
+                cursor: isDragging && isSelected ? 'grabbing' : isCroppingThis ? 'crosshair' : 'grab',
+                pointerEvents: locked ? 'none' : undefined, // Clicks fall through to the artboard
+                ...(isCroppingThis ? {} : item.style), // Apply clip-path if NOT cropping (to show full image during crop)
+                opacity: Number(item.style?.opacity ?? 1) * effect.opacity
               }}
-              className={`group ${selectedItemId === item.id && !isCroppingThis ? 'ring-2 ring-indigo-500' : ''}`}
+              data-layout-item={item.id}
+              className={`group ${isSelected && !isCroppingThis && editingTextId !== item.id ? 'ring-2 ring-indigo-500' : ''}`}
               onMouseDown={(e) => handleMouseDown(e, item.id)}
+              onDoubleClick={(e) => startTextEditing(e, item)}
             >
               {item.type === 'image' && (
                 <div className="w-full h-full relative" onClick={isCroppingThis ? handleCropClick : undefined}>
@@ -482,7 +1350,7 @@ const LayoutEditor: React.FC<LayoutEditorProps> = ({ assets, onAssetCreated }) =
                     />
                     
                     {isCroppingThis && (
-                        <div className="absolute inset-0 z-50">
+                        <div className="absolute inset-0 z-50" data-html2canvas-ignore>
                             {/* Toolbar for Crop */}
                             <div className="absolute -top-12 left-0 bg-zinc-800 rounded flex items-center p-1 shadow-xl border border-zinc-700 gap-1 pointer-events-auto" onMouseDown={e => e.stopPropagation()}>
                                 <button onClick={() => setCropToolType('rect')} className={`p-1 rounded ${cropToolType === 'rect' ? 'bg-indigo-600' : 'hover:bg-zinc-700'}`}><Square size={16}/></button>
@@ -492,41 +1360,32 @@ const LayoutEditor: React.FC<LayoutEditorProps> = ({ assets, onAssetCreated }) =
                                 <button onClick={() => setCropModeItem(null)} className="px-2 py-0.5 bg-red-600 rounded text-xs text-white font-medium">Cancel</button>
                             </div>
 
-                            {/* Rect Crop UI */}
-                            {cropToolType === 'rect' && (
-                                <div 
-                                    className="absolute inset-0 border-2 border-indigo-500 bg-indigo-500/10"
-                                    style={{
-                                        top: `${cropRect.t}%`, right: `${cropRect.r}%`, bottom: `${cropRect.b}%`, left: `${cropRect.l}%`
-                                    }}
-                                >
-                                </div>
-                            )}
-
-                            {/* Lasso Crop UI */}
-                            {cropToolType === 'lasso' && (
-                                <svg className="absolute inset-0 w-full h-full pointer-events-none">
-                                    <polygon 
-                                        points={lassoPoints.map(p => `${p.x}%,${p.y}%`).join(' ')} 
-                                        fill="rgba(79, 70, 229, 0.3)" 
-                                        stroke="#6366f1" 
-                                        strokeWidth="2"
-                                    />
-                                    {lassoPoints.map((p, i) => (
-                                        <circle key={i} cx={`${p.x}%`} cy={`${p.y}%`} r="3" fill="white" stroke="#6366f1" />
-                                    ))}
-                                </svg>
-                            )}
+                            <RegionOverlay tool={cropToolType} inset={cropRect} points={lassoPoints} />
                         </div>
                     )}
                 </div>
               )}
+              {item.type === 'video' && (
+                <VideoItem item={item} time={playhead} playing={playing} />
+              )}
               {item.type === 'text' && (
                 <div 
-                    className="w-full h-full bg-transparent text-white p-2 border border-dashed border-zinc-600 hover:border-zinc-400 overflow-hidden"
+                    className="w-full h-full bg-transparent relative"
                     style={{ borderRadius: `${item.borderRadius}px` }}
                 >
-                  {item.content}
+                  {editingTextId !== item.id && (
+                      <div
+                        data-html2canvas-ignore
+                        className="absolute inset-0 border border-dashed border-zinc-600 group-hover:border-zinc-400 pointer-events-none"
+                        style={{ borderRadius: `${item.borderRadius}px` }}
+                      />
+                  )}
+                  <RichTextItem
+                    item={item}
+                    editing={editingTextId === item.id}
+                    onCommit={(runs) => commitTextRuns(item.id, runs)}
+                    onExit={() => setEditingTextId(null)}
+                  />
                 </div>
               )}
               {item.type === 'shape' && (
@@ -541,13 +1400,43 @@ const LayoutEditor: React.FC<LayoutEditorProps> = ({ assets, onAssetCreated }) =
             </div>
           )})}
         </div>
+        </div>
+
+        <TimelinePanel
+            items={baseItems}
+            selectedIds={selectedIds}
+            time={playhead}
+            length={timelineLength}
+            duration={doc?.duration}
+            playing={playing}
+            expanded={timelineExpanded}
+            onToggleExpanded={() => setTimelineExpanded(!timelineExpanded)}
+            onTogglePlay={togglePlay}
+            onSeek={seek}
+            onDurationChange={(duration) => updateCanvas({ duration })}
+            onSelect={handleLayerSelect}
+            onMoveKeyframe={(itemId, property, keyframeId, time) =>
+                updateKeyframes(itemId, item => moveKeyframe(item, property, keyframeId, time))}
+            onRemoveKeyframe={(itemId, property, keyframeId) =>
+                updateKeyframes(itemId, item => removeKeyframe(item, property, keyframeId))}
+        />
       </div>
 
       {/* Right Property Panel */}
       <div className="w-64 bg-zinc-900 border-l border-zinc-800 p-4 shrink-0 overflow-y-auto">
          <h3 className="text-zinc-400 font-semibold mb-4 text-sm uppercase tracking-wider">Properties</h3>
-         {selectedItem ? (
+         {primaryItem ? (
             <div className="space-y-4">
+                {selectedItems.length > 1 && (
+                    <p className="text-xs text-indigo-400 bg-indigo-900/20 border border-indigo-500/30 rounded px-2 py-1">
+                        {selectedItems.length} items selected. Changes apply to all.
+                    </p>
+                )}
+                {selectedItems.length === 1 && primaryItem.type === 'group' && (
+                    <p className="text-xs text-zinc-400 bg-zinc-950 border border-zinc-800 rounded px-2 py-1">
+                        Group of {getChildren(items, primaryItem.id).length} items
+                    </p>
+                )}
                 {/* Position */}
                 <div>
                     <label className="text-xs text-zinc-500 font-medium mb-1 block">Position</label>
@@ -556,7 +1445,7 @@ const LayoutEditor: React.FC<LayoutEditorProps> = ({ assets, onAssetCreated }) =
                             <span className="text-zinc-500 text-xs w-4">X</span>
                             <input 
                                 type="number" 
-                                value={Math.round(selectedItem.x)} 
+                                value={Math.round(primaryItem.x)} 
                                 onChange={(e) => handlePropertyChange('x', Number(e.target.value))}
                                 className="w-full bg-transparent border-none text-white text-sm py-1 focus:ring-0"
                             />
@@ -565,7 +1454,7 @@ const LayoutEditor: React.FC<LayoutEditorProps> = ({ assets, onAssetCreated }) =
                             <span className="text-zinc-500 text-xs w-4">Y</span>
                              <input 
                                 type="number" 
-                                value={Math.round(selectedItem.y)} 
+                                value={Math.round(primaryItem.y)} 
                                 onChange={(e) => handlePropertyChange('y', Number(e.target.value))}
                                 className="w-full bg-transparent border-none text-white text-sm py-1 focus:ring-0"
                             />
@@ -581,7 +1470,7 @@ const LayoutEditor: React.FC<LayoutEditorProps> = ({ assets, onAssetCreated }) =
                             <span className="text-zinc-500 text-xs w-4">W</span>
                              <input 
                                 type="number" 
-                                value={Math.round(selectedItem.width)} 
+                                value={Math.round(primaryItem.width)} 
                                 onChange={(e) => handlePropertyChange('width', Number(e.target.value))}
                                 className="w-full bg-transparent border-none text-white text-sm py-1 focus:ring-0"
                             />
@@ -590,7 +1479,7 @@ const LayoutEditor: React.FC<LayoutEditorProps> = ({ assets, onAssetCreated }) =
                             <span className="text-zinc-500 text-xs w-4">H</span>
                              <input 
                                 type="number" 
-                                value={Math.round(selectedItem.height)} 
+                                value={Math.round(primaryItem.height)} 
                                 onChange={(e) => handlePropertyChange('height', Number(e.target.value))}
                                 className="w-full bg-transparent border-none text-white text-sm py-1 focus:ring-0"
                             />
@@ -606,22 +1495,25 @@ const LayoutEditor: React.FC<LayoutEditorProps> = ({ assets, onAssetCreated }) =
                              <RotateCw size={12} className="text-zinc-500 mr-2" />
                              <input 
                                 type="number" 
-                                value={selectedItem.rotation} 
+                                value={primaryItem.rotation} 
                                 onChange={(e) => handlePropertyChange('rotation', Number(e.target.value))}
                                 className="w-full bg-transparent border-none text-white text-sm py-1 focus:ring-0"
                             />
                         </div>
                     </div>
                     <div>
-                        <label className="text-xs text-zinc-500 font-medium mb-1 block">Layer</label>
-                        <div className="bg-zinc-950 rounded border border-zinc-800 flex items-center px-2">
-                             <Layers size={12} className="text-zinc-500 mr-2" />
-                             <input 
-                                type="number" 
-                                value={selectedItem.zIndex} 
-                                onChange={(e) => handlePropertyChange('zIndex', Number(e.target.value))}
-                                className="w-full bg-transparent border-none text-white text-sm py-1 focus:ring-0"
-                            />
+                        <label className="text-xs text-zinc-500 font-medium mb-1 block">Arrange</label>
+                        <div className="bg-zinc-950 rounded border border-zinc-800 flex items-center justify-between px-1">
+                            {([
+                                [Infinity, ArrowUpToLine, 'Bring to Front (Ctrl+Shift+])'],
+                                [1, ArrowUp, 'Bring Forward (Ctrl+])'],
+                                [-1, ArrowDown, 'Send Backward (Ctrl+[)'],
+                                [-Infinity, ArrowDownToLine, 'Send to Back (Ctrl+Shift+[)'],
+                            ] as [number, LucideIcon, string][]).map(([steps, Icon, label]) => (
+                                <button key={label} onClick={() => handleArrange(steps)} className="p-1.5 text-zinc-400 hover:text-white" title={label}>
+                                    <Icon size={12} />
+                                </button>
+                            ))}
                         </div>
                     </div>
                 </div>
@@ -636,20 +1528,33 @@ const LayoutEditor: React.FC<LayoutEditorProps> = ({ assets, onAssetCreated }) =
                              <input 
                                 type="range" 
                                 min="0" max="100"
-                                value={selectedItem.borderRadius || 0} 
+                                value={primaryItem.borderRadius || 0} 
                                 onChange={(e) => handlePropertyChange('borderRadius', Number(e.target.value))}
                                 className="flex-1 mr-2"
                             />
-                            <span className="text-xs w-6 text-right">{selectedItem.borderRadius || 0}</span>
+                            <span className="text-xs w-6 text-right">{primaryItem.borderRadius || 0}</span>
+                        </div>
+
+                        {/* Opacity */}
+                        <div className="bg-zinc-950 rounded border border-zinc-800 flex items-center px-2">
+                             <span className="text-zinc-500 text-[10px] w-8">Alpha</span>
+                             <input
+                                type="range"
+                                min="0" max="100"
+                                value={Math.round(Number(primaryItem.style?.opacity ?? 1) * 100)}
+                                onChange={(e) => handleOpacityChange(Number(e.target.value) / 100)}
+                                className="flex-1 mr-2"
+                            />
+                            <span className="text-xs w-6 text-right">{Math.round(Number(primaryItem.style?.opacity ?? 1) * 100)}</span>
                         </div>
                         
                         {/* Shape Color */}
-                        {selectedItem.type === 'shape' && (
+                        {primaryItem.type === 'shape' && (
                              <div className="bg-zinc-950 rounded border border-zinc-800 flex items-center px-2 py-1">
                                 <span className="text-zinc-500 text-[10px] w-8">Color</span>
                                 <input 
                                     type="color"
-                                    value={selectedItem.color || '#ffffff'}
+                                    value={primaryItem.color || '#ffffff'}
                                     onChange={(e) => handlePropertyChange('color', e.target.value)}
                                     className="w-full h-6 bg-transparent border-none cursor-pointer"
                                 />
@@ -660,43 +1565,188 @@ const LayoutEditor: React.FC<LayoutEditorProps> = ({ assets, onAssetCreated }) =
 
 
                 {/* Crop Fine Tuning */}
-                {cropModeItem === selectedItem.id && cropToolType === 'rect' && (
+                {cropModeItem === primaryItem.id && cropToolType === 'rect' && (
                     <div className="p-3 bg-indigo-900/20 border border-indigo-500/50 rounded">
                         <h4 className="text-xs font-bold text-indigo-400 mb-2">Crop Adjustments</h4>
+                        <InsetSliders inset={cropRect} onChange={setCropRect} />
+                    </div>
+                )}
+
+                {/* Video Playback */}
+                {selectedItem?.type === 'video' && (
+                    <VideoClipPanel item={selectedItem} time={playhead} onChange={handleVideoChange} onSetPoster={handleSetPoster} />
+                )}
+
+                {/* Animation: keyframes at the playhead and enter/exit presets */}
+                {selectedItem && selectedItem.type !== 'group' && (
+                    <AnimationPanel
+                        item={selectedItem}
+                        time={playhead}
+                        onEdit={(edit) => updateKeyframes(selectedItem.id, edit)}
+                        onSeek={seek}
+                    />
+                )}
+
+                {/* Typography */}
+                {textTargets.length > 0 && (() => {
+                    const textStyle = getRichText(textTargets[0]).style;
+                    const shadow = textStyle.textShadow;
+                    return (
+                    <div>
+                        <label className="text-xs text-zinc-500 font-medium mb-1 block">Typography</label>
                         <div className="space-y-2">
-                            {['t', 'r', 'b', 'l'].map((side) => (
-                                <div key={side} className="flex items-center text-xs">
-                                    <span className="w-4 uppercase text-zinc-500">{side}</span>
+                            <select
+                                value={textStyle.fontFamily}
+                                onChange={(e) => handleTextStyleChange({ fontFamily: e.target.value })}
+                                className="w-full bg-zinc-950 border border-zinc-800 rounded px-2 py-1 text-white text-sm focus:outline-none"
+                            >
+                                {[...new Set([...(activeKit?.fonts || []), ...FONT_FAMILIES, textStyle.fontFamily])].map(f => <option key={f} value={f}>{f}</option>)}
+                            </select>
+                            <div className="grid grid-cols-2 gap-2">
+                                <div className="bg-zinc-950 rounded border border-zinc-800 flex items-center px-2">
+                                    <span className="text-zinc-500 text-[10px] w-8">Size</span>
                                     <input 
-                                        type="range" min="0" max="50" 
-                                        value={(cropRect as any)[side]} 
-                                        onChange={(e) => setCropRect({...cropRect, [side]: Number(e.target.value)})}
-                                        className="flex-1"
+                                        type="number" min="4"
+                                        value={textStyle.fontSize} 
+                                        onChange={(e) => handleTextStyleChange({ fontSize: Number(e.target.value) })}
+                                        className="w-full bg-transparent border-none text-white text-sm py-1 focus:ring-0"
                                     />
                                 </div>
-                            ))}
+                                <select
+                                    value={textStyle.fontWeight}
+                                    onChange={(e) => handleTextStyleChange({ fontWeight: Number(e.target.value) })}
+                                    className="bg-zinc-950 border border-zinc-800 rounded px-2 py-1 text-white text-sm focus:outline-none"
+                                >
+                                    {FONT_WEIGHTS.map(w => <option key={w} value={w}>{w}</option>)}
+                                </select>
+                            </div>
+                            <div className="flex items-center gap-2">
+                                <div className="bg-zinc-950 rounded border border-zinc-800 flex items-center px-2 py-1 flex-1">
+                                    <span className="text-zinc-500 text-[10px] w-8">Color</span>
+                                    <input 
+                                        type="color"
+                                        value={textStyle.color}
+                                        onChange={(e) => handleTextStyleChange({ color: e.target.value })}
+                                        className="w-full h-6 bg-transparent border-none cursor-pointer"
+                                    />
+                                </div>
+                                <div className="flex bg-zinc-950 rounded border border-zinc-800">
+                                    {([
+                                        ['left', AlignLeft], ['center', AlignCenter], ['right', AlignRight], ['justify', AlignJustify]
+                                    ] as [TextStyle['align'], LucideIcon][]).map(([align, Icon]) => (
+                                        <button
+                                            key={align}
+                                            onClick={() => handleTextStyleChange({ align })}
+                                            className={`p-1.5 ${textStyle.align === align ? 'text-indigo-400' : 'text-zinc-500 hover:text-white'}`}
+                                            title={`Align ${align}`}
+                                        >
+                                            <Icon size={12} />
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                            <div className="grid grid-cols-2 gap-2">
+                                <div className="bg-zinc-950 rounded border border-zinc-800 flex items-center px-2">
+                                    <span className="text-zinc-500 text-[10px] w-10">Line</span>
+                                    <input 
+                                        type="number" step="0.1" min="0.5"
+                                        value={textStyle.lineHeight} 
+                                        onChange={(e) => handleTextStyleChange({ lineHeight: Number(e.target.value) })}
+                                        className="w-full bg-transparent border-none text-white text-sm py-1 focus:ring-0"
+                                    />
+                                </div>
+                                <div className="bg-zinc-950 rounded border border-zinc-800 flex items-center px-2">
+                                    <span className="text-zinc-500 text-[10px] w-10">Spacing</span>
+                                    <input 
+                                        type="number" step="0.5"
+                                        value={textStyle.letterSpacing} 
+                                        onChange={(e) => handleTextStyleChange({ letterSpacing: Number(e.target.value) })}
+                                        className="w-full bg-transparent border-none text-white text-sm py-1 focus:ring-0"
+                                    />
+                                </div>
+                            </div>
+                            {/* Text Shadow */}
+                            <div className="bg-zinc-950 rounded border border-zinc-800 p-2 space-y-2">
+                                <label className="flex items-center gap-2 text-[10px] text-zinc-500">
+                                    <input
+                                        type="checkbox"
+                                        checked={!!shadow}
+                                        onChange={(e) => handleTextStyleChange({ textShadow: e.target.checked ? { x: 2, y: 2, blur: 4, color: '#000000' } : undefined })}
+                                    />
+                                    Text Shadow
+                                </label>
+                                {shadow && (
+                                    <div className="grid grid-cols-4 gap-1 items-center">
+                                        {(['x', 'y', 'blur'] as const).map(key => (
+                                            <input
+                                                key={key}
+                                                type="number"
+                                                title={key}
+                                                value={shadow[key]}
+                                                onChange={(e) => handleTextStyleChange({ textShadow: { ...shadow, [key]: Number(e.target.value) } })}
+                                                className="w-full bg-zinc-900 border border-zinc-800 rounded text-white text-xs px-1 py-0.5"
+                                            />
+                                        ))}
+                                        <input
+                                            type="color"
+                                            value={shadow.color}
+                                            onChange={(e) => handleTextStyleChange({ textShadow: { ...shadow, color: e.target.value } })}
+                                            className="w-full h-5 bg-transparent border-none cursor-pointer"
+                                        />
+                                    </div>
+                                )}
+                            </div>
                         </div>
                     </div>
-                )}
+                    );
+                })()}
 
                 {/* Content Edit for Text */}
-                 {selectedItem.type === 'text' && (
+                 {selectedItem?.type === 'text' && (
                     <div>
                         <label className="text-xs text-zinc-500 font-medium mb-1 block">Text Content</label>
-                        <textarea
-                            value={selectedItem.content}
-                            onChange={(e) => handlePropertyChange('content', e.target.value)}
-                            className="w-full bg-zinc-950 border border-zinc-800 rounded p-2 text-white text-sm focus:outline-none focus:border-indigo-500 min-h-[80px]"
-                        />
+                        {hasRunFormatting(getRichText(selectedItem).runs) ? (
+                            <p className="text-xs text-zinc-500">Double-click the text on the canvas to edit formatted content.</p>
+                        ) : (
+                            <textarea
+                                value={selectedItem.content}
+                                onChange={(e) => handleTextContentChange(e.target.value)}
+                                className="w-full bg-zinc-950 border border-zinc-800 rounded p-2 text-white text-sm focus:outline-none focus:border-indigo-500 min-h-[80px]"
+                            />
+                        )}
                     </div>
                 )}
             </div>
          ) : (
-            <div className="flex flex-col items-center justify-center h-40 text-zinc-600">
-                <p className="text-sm">Select an element to edit properties</p>
+            <div className="space-y-4">
+                <p className="text-sm text-zinc-600">Select an element to edit properties</p>
+                <ArtboardsPanel
+                    artboards={artboards}
+                    activeArtboard={activeArtboard}
+                    onSelect={setActiveArtboardId}
+                    onZoomTo={fitView}
+                    onAdd={handleAddArtboard}
+                    onChange={handleArtboardChange}
+                    onDelete={handleDeleteArtboard}
+                    onExportAll={exportAll}
+                />
             </div>
          )}
+         <BrandSwatches
+            colorTarget={selectedIds.length ? 'the selection' : 'the artboard background'}
+            onColor={handleBrandColor}
+            onFont={textTargets.length ? (fontFamily) => handleTextStyleChange({ fontFamily }) : undefined}
+         />
       </div>
+
+      {showDocuments && (
+          <DocumentsPanel
+            current={{ ...doc, items: baseItems }}
+            onOpen={handleOpenDocument}
+            onRestoreVersion={handleRestoreVersion}
+            onClose={() => setShowDocuments(false)}
+          />
+      )}
     </div>
   );
 };
@@ -0,0 +1,458 @@
+import React, { useMemo, useState } from 'react';
+import { GeneratedAsset, Project, ToolType } from '../types';
+import { AssetLibraryFields } from '../services/assetStore';
+import { useAssetFolders, createFolder, saveFolder, deleteFolder } from '../services/folderStore';
+import { useProjects } from '../services/projectStore';
+import { exportAssetsZip } from '../services/assetExport';
+import { getPromptReuse } from '../services/promptLibrary';
+import {
+  LibraryFilters, LibraryScope, DEFAULT_FILTERS, DATE_RANGES, TOOL_LABELS,
+  filterAssets, hasActiveFilters, collectTags, collectAspectRatios, normalizeTag
+} from './library/libraryFilters';
+import {
+  Search, LayoutGrid, List, Star, Folder, FolderPlus, Inbox, Images, Tag, Trash2,
+  Download, Pencil, X, CheckSquare, Square, RotateCcw, Loader2
+} from 'lucide-react';
+
+interface LibraryProps {
+  assets: GeneratedAsset[];
+  onOpenAsset: (asset: GeneratedAsset) => void;
+  onReusePrompt: (asset: GeneratedAsset) => void;
+  onUpdateAssets: (ids: string[], update: (current: AssetLibraryFields) => AssetLibraryFields) => Promise<void>;
+  onDeleteAssets: (ids: string[]) => Promise<void>;
+  onMoveToProject: (ids: string[], projectId: string) => Promise<void>;
+  onCopyToProject: (ids: string[], projectId: string) => Promise<void>;
+  onFolderDeleted: (folderId: string) => void; // The store has already unfiled its assets
+}
+
+type ViewMode = 'grid' | 'list';
+
+const VIEW_MODE_KEY = 'envisage_library_view';
+
+const sameScope = (a: LibraryScope, b: LibraryScope) =>
+  a.kind === b.kind && (a.kind !== 'folder' || a.folderId === (b as { folderId: string }).folderId);
+
+const AssetPreview: React.FC<{ asset: GeneratedAsset, className?: string }> = ({ asset, className = '' }) => (
+  <div className={`bg-zinc-950 overflow-hidden flex items-center justify-center ${className}`}>
+    {asset.type === 'image' && <img src={asset.content} alt="" className="w-full h-full object-cover" loading="lazy" />}
+    {asset.type === 'video' && <video src={asset.content} className="w-full h-full object-cover" muted preload="metadata" />}
+    {asset.type === 'text' && <p className="p-2 text-[10px] text-zinc-400 leading-relaxed overflow-hidden h-full w-full">{asset.content}</p>}
+  </div>
+);
+
+// Browses the whole asset library: search, filters, folders, tags, favorites and bulk actions
+const Library: React.FC<LibraryProps> = ({ assets, onOpenAsset, onReusePrompt, onUpdateAssets, onDeleteAssets, onMoveToProject, onCopyToProject, onFolderDeleted }) => {
+  const { folders } = useAssetFolders();
+  const { workspaces, projects, activeProject } = useProjects();
+  const [filters, setFilters] = useState<LibraryFilters>(DEFAULT_FILTERS);
+  const [viewMode, setViewMode] = useState<ViewMode>(() => (localStorage.getItem(VIEW_MODE_KEY) as ViewMode) || 'grid');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [lastClickedId, setLastClickedId] = useState<string | null>(null); // Anchor for shift-click ranges
+  const [exporting, setExporting] = useState(false);
+
+  const visible = useMemo(() => filterAssets(assets, filters), [assets, filters]);
+  const tags = useMemo(() => collectTags(assets), [assets]);
+  const aspectRatios = useMemo(() => collectAspectRatios(assets), [assets]);
+  const selectedAssets = assets.filter(a => selected.has(a.id));
+  const allVisibleSelected = visible.length > 0 && visible.every(a => selected.has(a.id));
+  const folderName = (id?: string) => folders.find(f => f.id === id)?.name;
+  const otherProjects = projects.filter(p => p.id !== activeProject?.id);
+  const projectLabel = (project: Project) =>
+    workspaces.length > 1 ? `${workspaces.find(w => w.id === project.workspaceId)?.name} / ${project.name}` : project.name;
+
+  const patchFilters = (patch: Partial<LibraryFilters>) => setFilters(prev => ({ ...prev, ...patch }));
+
+  const changeViewMode = (mode: ViewMode) => {
+    setViewMode(mode);
+    localStorage.setItem(VIEW_MODE_KEY, mode);
+  };
+
+  const toggleSelected = (asset: GeneratedAsset, range: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      const anchor = range && lastClickedId ? visible.findIndex(a => a.id === lastClickedId) : -1;
+      if (anchor >= 0) {
+        const index = visible.findIndex(a => a.id === asset.id);
+        visible.slice(Math.min(anchor, index), Math.max(anchor, index) + 1).forEach(a => next.add(a.id));
+      } else if (next.has(asset.id)) {
+        next.delete(asset.id);
+      } else {
+        next.add(asset.id);
+      }
+      return next;
+    });
+    setLastClickedId(asset.id);
+  };
+
+  const toggleSelectAll = () =>
+    setSelected(allVisibleSelected ? new Set() : new Set(visible.map(a => a.id)));
+
+  const toggleFavorite = (asset: GeneratedAsset) =>
+    onUpdateAssets([asset.id], current => ({ ...current, favorite: !current.favorite }));
+
+  // --- Bulk Actions ---
+  const selectedIds = () => selectedAssets.map(a => a.id);
+
+  const handleBulkFavorite = () => {
+    const favorite = !selectedAssets.every(a => a.favorite);
+    onUpdateAssets(selectedIds(), current => ({ ...current, favorite }));
+  };
+
+  const handleBulkTag = () => {
+    const input = prompt("Add tags to the selected assets (comma separated):");
+    const added = (input || '').split(',').map(normalizeTag).filter(Boolean);
+    if (added.length === 0) return;
+    onUpdateAssets(selectedIds(), current => ({ ...current, tags: Array.from(new Set([...(current.tags || []), ...added])) }));
+  };
+
+  const handleBulkUntag = (tag: string) =>
+    onUpdateAssets(selectedIds(), current => ({ ...current, tags: (current.tags || []).filter(t => t !== tag) }));
+
+  const handleBulkMove = (folderId: string) =>
+    onUpdateAssets(selectedIds(), current => ({ ...current, folderId: folderId || undefined }));
+
+  const handleBulkMoveToProject = async (projectId: string) => {
+    await onMoveToProject(selectedIds(), projectId);
+    setSelected(new Set());
+  };
+
+  const handleBulkCopyToProject = (projectId: string) => onCopyToProject(selectedIds(), projectId);
+
+  const handleBulkExport = async () => {
+    setExporting(true);
+    try {
+      const blob = await exportAssetsZip(selectedAssets);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `envisage-assets-${new Date().toISOString().slice(0, 10)}.zip`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (e: any) {
+      console.error(e);
+      alert(`Export failed: ${e.message}`);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleBulkDelete = async () => {
+    if (!confirm(`Delete ${selectedAssets.length} asset${selectedAssets.length > 1 ? 's' : ''}? This cannot be undone.`)) return;
+    await onDeleteAssets(selectedIds());
+    setSelected(new Set());
+  };
+
+  // --- Folders ---
+  const handleNewFolder = async () => {
+    const name = prompt("Folder name:");
+    if (!name?.trim()) return;
+    try {
+      const folder = await createFolder(name.trim());
+      // Filing the current selection is the usual reason to make a folder
+      if (selected.size > 0) await handleBulkMove(folder.id);
+      patchFilters({ scope: { kind: 'folder', folderId: folder.id } });
+    } catch (e: any) {
+      alert(e.message);
+    }
+  };
+
+  const handleRenameFolder = async (id: string) => {
+    const folder = folders.find(f => f.id === id);
+    const name = folder && prompt("Rename folder:", folder.name);
+    if (!folder || !name?.trim()) return;
+    try {
+      await saveFolder({ ...folder, name: name.trim() });
+    } catch (e: any) {
+      alert(e.message);
+    }
+  };
+
+  const handleDeleteFolder = async (id: string) => {
+    const filed = assets.filter(a => a.folderId === id).length;
+    if (!confirm(`Delete folder "${folderName(id)}"?${filed ? ` Its ${filed} assets stay in the library.` : ''}`)) return;
+    try {
+      await deleteFolder(id);
+      onFolderDeleted(id);
+      if (sameScope(filters.scope, { kind: 'folder', folderId: id })) patchFilters({ scope: { kind: 'all' } });
+    } catch (e: any) {
+      alert(e.message);
+    }
+  };
+
+  const scopeButton = (scope: LibraryScope, icon: React.ReactNode, label: string, count: number, actions?: React.ReactNode) => (
+    <div
+      key={scope.kind === 'folder' ? scope.folderId : scope.kind}
+      className={`group flex items-center gap-2 px-2 py-1.5 rounded text-sm cursor-pointer ${
+        sameScope(filters.scope, scope) ? 'bg-indigo-500/20 text-white' : 'text-zinc-400 hover:bg-zinc-800 hover:text-white'
+      }`}
+      onClick={() => patchFilters({ scope })}
+    >
+      {icon}
+      <span className="flex-1 truncate">{label}</span>
+      {actions && <span className="hidden group-hover:flex items-center gap-1" onClick={e => e.stopPropagation()}>{actions}</span>}
+      <span className="text-[10px] text-zinc-600">{count}</span>
+    </div>
+  );
+
+  const selectControl = (asset: GeneratedAsset) => (
+    <button
+      onClick={(e) => { e.stopPropagation(); toggleSelected(asset, e.shiftKey); }}
+      className={selected.has(asset.id) ? 'text-indigo-400' : 'text-zinc-400 hover:text-white'}
+      title="Select (Shift+click for a range)"
+    >
+      {selected.has(asset.id) ? <CheckSquare size={16} /> : <Square size={16} />}
+    </button>
+  );
+
+  const favoriteControl = (asset: GeneratedAsset) => (
+    <button
+      onClick={(e) => { e.stopPropagation(); toggleFavorite(asset); }}
+      className={asset.favorite ? 'text-yellow-400' : 'text-zinc-400 hover:text-white'}
+      title={asset.favorite ? 'Remove from favorites' : 'Add to favorites'}
+    >
+      <Star size={14} fill={asset.favorite ? 'currentColor' : 'none'} />
+    </button>
+  );
+
+  const selectClass = "bg-zinc-950 border border-zinc-800 rounded-lg px-2 py-1.5 text-sm text-zinc-200 focus:outline-none focus:border-indigo-500";
+
+  return (
+    <div className="flex h-full">
+      {/* Scopes, folders and tags */}
+      <aside className="w-56 shrink-0 border-r border-zinc-800 bg-zinc-950/50 p-3 overflow-y-auto hidden md:block">
+        <div className="space-y-0.5 mb-6">
+          {scopeButton({ kind: 'all' }, <Images size={14} />, 'All Assets', assets.length)}
+          {scopeButton({ kind: 'favorites' }, <Star size={14} />, 'Favorites', assets.filter(a => a.favorite).length)}
+          {scopeButton({ kind: 'unfiled' }, <Inbox size={14} />, 'Unfiled', assets.filter(a => !a.folderId).length)}
+        </div>
+
+        <div className="flex items-center justify-between mb-1 px-2">
+          <span className="text-xs font-medium text-zinc-500">Folders</span>
+          <button onClick={handleNewFolder} className="text-zinc-500 hover:text-white" title="New folder"><FolderPlus size={14} /></button>
+        </div>
+        <div className="space-y-0.5 mb-6">
+          {folders.map(folder => scopeButton(
+            { kind: 'folder', folderId: folder.id },
+            <Folder size={14} />,
+            folder.name,
+            assets.filter(a => a.folderId === folder.id).length,
+            <>
+              <button onClick={() => handleRenameFolder(folder.id)} className="text-zinc-500 hover:text-white" title="Rename"><Pencil size={12} /></button>
+              <button onClick={() => handleDeleteFolder(folder.id)} className="text-zinc-500 hover:text-red-400" title="Delete folder"><Trash2 size={12} /></button>
+            </>
+          ))}
+          {folders.length === 0 && <p className="text-[11px] text-zinc-600 px-2">No folders yet.</p>}
+        </div>
+
+        <span className="block text-xs font-medium text-zinc-500 mb-1 px-2">Tags</span>
+        <div className="flex flex-wrap gap-1 px-2">
+          {tags.map(({ tag, count }) => (
+            <button
+              key={tag}
+              onClick={() => patchFilters({ tag: filters.tag === tag ? null : tag })}
+              className={`text-[11px] px-2 py-0.5 rounded-full border ${
+                filters.tag === tag ? 'bg-indigo-600 border-indigo-600 text-white' : 'border-zinc-800 text-zinc-400 hover:text-white'
+              }`}
+            >
+              #{tag} <span className="opacity-60">{count}</span>
+            </button>
+          ))}
+          {tags.length === 0 && <p className="text-[11px] text-zinc-600">Tag assets from their details or in bulk.</p>}
+        </div>
+      </aside>
+
+      <div className="flex-1 min-w-0 flex flex-col">
+        {/* Search & Filters */}
+        <div className="p-4 border-b border-zinc-800 space-y-3">
+          <div className="flex items-center gap-3">
+            <h2 className="text-2xl font-bold text-white mr-2">Library</h2>
+            <div className="flex-1 flex items-center gap-2 bg-zinc-900 border border-zinc-800 rounded-lg px-3">
+              <Search size={16} className="text-zinc-500" />
+              <input
+                value={filters.query}
+                onChange={(e) => patchFilters({ query: e.target.value })}
+                placeholder="Search prompts, copy and tags"
+                className="flex-1 min-w-0 bg-transparent py-2 text-sm text-white focus:outline-none"
+              />
+              {filters.query && <button onClick={() => patchFilters({ query: '' })} className="text-zinc-500 hover:text-white"><X size={14} /></button>}
+            </div>
+            <div className="flex bg-zinc-900 border border-zinc-800 rounded-lg p-0.5">
+              <button onClick={() => changeViewMode('grid')} className={`p-1.5 rounded ${viewMode === 'grid' ? 'bg-zinc-700 text-white' : 'text-zinc-500'}`} title="Grid"><LayoutGrid size={16} /></button>
+              <button onClick={() => changeViewMode('list')} className={`p-1.5 rounded ${viewMode === 'list' ? 'bg-zinc-700 text-white' : 'text-zinc-500'}`} title="List"><List size={16} /></button>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <select value={filters.type} onChange={(e) => patchFilters({ type: e.target.value as LibraryFilters['type'] })} className={selectClass}>
+              <option value="all">All types</option>
+              <option value="image">Images</option>
+              <option value="video">Videos</option>
+              <option value="text">Copy</option>
+            </select>
+            <select value={filters.tool} onChange={(e) => patchFilters({ tool: e.target.value as LibraryFilters['tool'] })} className={selectClass}>
+              <option value="all">All tools</option>
+              {[ToolType.IMAGE_GEN, ToolType.IMAGE_EDIT, ToolType.VIDEO_GEN, ToolType.THREE_D_GEN, ToolType.COPY_WRITER, ToolType.LAYOUT_EDITOR].map(tool => (
+                <option key={tool} value={tool}>{TOOL_LABELS[tool]}</option>
+              ))}
+            </select>
+            <select value={filters.dateRange} onChange={(e) => patchFilters({ dateRange: e.target.value as LibraryFilters['dateRange'] })} className={selectClass}>
+              {DATE_RANGES.map(range => <option key={range.id} value={range.id}>{range.label}</option>)}
+            </select>
+            <select value={filters.aspectRatio} onChange={(e) => patchFilters({ aspectRatio: e.target.value })} className={selectClass}>
+              <option value="all">Any aspect ratio</option>
+              {aspectRatios.map(ratio => <option key={ratio} value={ratio}>{ratio}</option>)}
+            </select>
+            <select value={filters.sort} onChange={(e) => patchFilters({ sort: e.target.value as LibraryFilters['sort'] })} className={selectClass}>
+              <option value="newest">Newest first</option>
+              <option value="oldest">Oldest first</option>
+            </select>
+            {hasActiveFilters(filters) && (
+              <button onClick={() => setFilters({ ...DEFAULT_FILTERS, scope: filters.scope })} className="text-xs text-indigo-400 hover:text-indigo-300">
+                Clear filters
+              </button>
+            )}
+            <span className="ml-auto text-xs text-zinc-500">{visible.length} of {assets.length}</span>
+          </div>
+        </div>
+
+        {/* Bulk Actions */}
+        {selected.size > 0 && (
+          <div className="flex flex-wrap items-center gap-2 px-4 py-2 bg-indigo-500/10 border-b border-indigo-500/30 text-sm">
+            <span className="text-white font-medium mr-2">{selected.size} selected</span>
+            <button onClick={handleBulkFavorite} className="flex items-center gap-1 px-2 py-1 rounded bg-zinc-800 hover:bg-zinc-700 text-zinc-200">
+              <Star size={14} /> {selectedAssets.every(a => a.favorite) ? 'Unfavorite' : 'Favorite'}
+            </button>
+            <button onClick={handleBulkTag} className="flex items-center gap-1 px-2 py-1 rounded bg-zinc-800 hover:bg-zinc-700 text-zinc-200">
+              <Tag size={14} /> Add Tags
+            </button>
+            {filters.tag && (
+              <button onClick={() => handleBulkUntag(filters.tag!)} className="flex items-center gap-1 px-2 py-1 rounded bg-zinc-800 hover:bg-zinc-700 text-zinc-200">
+                <X size={14} /> Remove #{filters.tag}
+              </button>
+            )}
+            <select value="" onChange={(e) => e.target.value !== '' && handleBulkMove(e.target.value === 'none' ? '' : e.target.value)} className={selectClass}>
+              <option value="">Move to folder…</option>
+              <option value="none">No folder</option>
+              {folders.map(folder => <option key={folder.id} value={folder.id}>{folder.name}</option>)}
+            </select>
+            {otherProjects.length > 0 && (
+              <>
+                <select value="" onChange={(e) => e.target.value && handleBulkMoveToProject(e.target.value)} className={selectClass}>
+                  <option value="">Move to project…</option>
+                  {otherProjects.map(project => <option key={project.id} value={project.id}>{projectLabel(project)}</option>)}
+                </select>
+                <select value="" onChange={(e) => e.target.value && handleBulkCopyToProject(e.target.value)} className={selectClass}>
+                  <option value="">Copy to project…</option>
+                  {otherProjects.map(project => <option key={project.id} value={project.id}>{projectLabel(project)}</option>)}
+                </select>
+              </>
+            )}
+            <button onClick={handleBulkExport} disabled={exporting} className="flex items-center gap-1 px-2 py-1 rounded bg-zinc-800 hover:bg-zinc-700 text-zinc-200 disabled:opacity-50">
+              {exporting ? <Loader2 size={14} className="animate-spin" /> : <Download size={14} />} Export ZIP
+            </button>
+            <button onClick={handleBulkDelete} className="flex items-center gap-1 px-2 py-1 rounded bg-red-500/20 hover:bg-red-500/30 text-red-300">
+              <Trash2 size={14} /> Delete
+            </button>
+            <button onClick={() => setSelected(new Set())} className="ml-auto text-zinc-400 hover:text-white text-xs">Clear selection</button>
+          </div>
+        )}
+
+        {/* Assets */}
+        <div className="flex-1 overflow-y-auto p-4">
+          {visible.length > 0 && (
+            <button onClick={toggleSelectAll} className="flex items-center gap-2 text-xs text-zinc-400 hover:text-white mb-3">
+              {allVisibleSelected ? <CheckSquare size={14} /> : <Square size={14} />} Select all {visible.length}
+            </button>
+          )}
+
+          {visible.length === 0 ? (
+            <div className="py-16 text-center bg-zinc-900 rounded-lg border border-dashed border-zinc-800 text-zinc-500">
+              {assets.length === 0 ? 'No assets generated yet. Start creating!' : 'No assets match these filters.'}
+            </div>
+          ) : viewMode === 'grid' ? (
+            <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-6 gap-3">
+              {visible.map(asset => (
+                <div
+                  key={asset.id}
+                  onClick={(e) => selected.size > 0 ? toggleSelected(asset, e.shiftKey) : onOpenAsset(asset)}
+                  className={`relative group aspect-square rounded-lg overflow-hidden border-2 cursor-pointer ${
+                    selected.has(asset.id) ? 'border-indigo-500' : 'border-zinc-800 hover:border-zinc-600'
+                  }`}
+                >
+                  <AssetPreview asset={asset} className="w-full h-full" />
+                  <div className={`absolute top-1.5 left-1.5 bg-black/60 rounded p-0.5 ${selected.size > 0 ? '' : 'opacity-0 group-hover:opacity-100'}`}>
+                    {selectControl(asset)}
+                  </div>
+                  <div className={`absolute top-1.5 right-1.5 bg-black/60 rounded p-1 ${asset.favorite ? '' : 'opacity-0 group-hover:opacity-100'}`}>
+                    {favoriteControl(asset)}
+                  </div>
+                  <div className="absolute inset-x-0 bottom-0 bg-gradient-to-t from-black/80 to-transparent p-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <p className="text-[10px] text-white truncate">{asset.metadata?.prompt}</p>
+                    {asset.tags && asset.tags.length > 0 && (
+                      <p className="text-[9px] text-indigo-300 truncate">{asset.tags.map(t => `#${t}`).join(' ')}</p>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-zinc-500 border-b border-zinc-800">
+                  <th className="w-8 pb-2"></th>
+                  <th className="w-14 pb-2"></th>
+                  <th className="pb-2 font-medium">Prompt</th>
+                  <th className="pb-2 font-medium hidden lg:table-cell">Tool</th>
+                  <th className="pb-2 font-medium hidden lg:table-cell">Folder</th>
+                  <th className="pb-2 font-medium hidden md:table-cell">Tags</th>
+                  <th className="pb-2 font-medium">Created</th>
+                  <th className="w-16 pb-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {visible.map(asset => (
+                  <tr
+                    key={asset.id}
+                    onClick={() => onOpenAsset(asset)}
+                    className={`border-b border-zinc-900 cursor-pointer ${selected.has(asset.id) ? 'bg-indigo-500/10' : 'hover:bg-zinc-900'}`}
+                  >
+                    <td className="py-2">{selectControl(asset)}</td>
+                    <td className="py-2"><AssetPreview asset={asset} className="w-10 h-10 rounded" /></td>
+                    <td className="py-2 pr-4 max-w-xs">
+                      <p className="text-zinc-200 truncate">{asset.metadata?.prompt || <span className="text-zinc-600">No prompt</span>}</p>
+                      <p className="text-[10px] text-zinc-600 uppercase">{asset.type}{asset.metadata?.aspectRatio ? ` · ${asset.metadata.aspectRatio}` : ''}</p>
+                    </td>
+                    <td className="py-2 text-zinc-400 hidden lg:table-cell">{asset.provenance?.tool ? TOOL_LABELS[asset.provenance.tool] : '—'}</td>
+                    <td className="py-2 text-zinc-400 hidden lg:table-cell">{folderName(asset.folderId) || '—'}</td>
+                    <td className="py-2 hidden md:table-cell">
+                      <div className="flex flex-wrap gap-1">
+                        {(asset.tags || []).map(tag => <span key={tag} className="text-[10px] bg-zinc-800 text-zinc-300 px-1.5 py-0.5 rounded-full">#{tag}</span>)}
+                      </div>
+                    </td>
+                    <td className="py-2 text-zinc-400 whitespace-nowrap">{new Date(asset.createdAt).toLocaleDateString()}</td>
+                    <td className="py-2">
+                      <div className="flex items-center gap-2 justify-end pr-2">
+                        {getPromptReuse(asset) && (
+                          <button
+                            onClick={(e) => { e.stopPropagation(); onReusePrompt(asset); }}
+                            className="text-zinc-400 hover:text-white"
+                            title="Reuse prompt"
+                          >
+                            <RotateCcw size={14} />
+                          </button>
+                        )}
+                        {favoriteControl(asset)}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Library;
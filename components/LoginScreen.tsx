@@ -1,28 +1,18 @@
 import React, { useState } from 'react';
-import { User } from '../types';
-import { Sparkles, ArrowRight } from 'lucide-react';
+import { AlertTriangle } from 'lucide-react';
+import { useAuth, signIn, getAuthProvider } from '../services/auth';
 
-interface LoginScreenProps {
-  onLogin: (user: User) => void;
-}
-
-const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin }) => {
+const LoginScreen: React.FC = () => {
+  const { error } = useAuth();
   const [loading, setLoading] = useState(false);
+  const provider = getAuthProvider();
+  const configured = provider.isConfigured();
 
-  const handleGoogleLogin = () => {
+  // Leaves the page on success, so loading only ends if the provider could not be reached
+  const handleSignIn = async () => {
     setLoading(true);
-    // Simulate network delay for realism
-    setTimeout(() => {
-        // Mock User Data
-        const mockUser: User = {
-            id: 'google-user-123',
-            name: 'Demo User',
-            email: 'user@example.com',
-            avatar: 'https://api.dicebear.com/7.x/avataaars/svg?seed=Felix'
-        };
-        onLogin(mockUser);
-        setLoading(false);
-    }, 1500);
+    await signIn();
+    setLoading(false);
   };
 
   return (
@@ -41,42 +31,32 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin }) => {
             </div>
 
             <div className="space-y-4">
-                <button 
-                    onClick={handleGoogleLogin}
-                    disabled={loading}
-                    className="w-full bg-white hover:bg-zinc-100 text-zinc-900 font-medium py-3 px-4 rounded-lg flex items-center justify-center gap-3 transition-colors"
+                {error && (
+                    <div className="flex items-start gap-2 bg-red-950/50 border border-red-900 text-red-300 text-sm rounded-lg px-3 py-2">
+                        <AlertTriangle size={16} className="shrink-0 mt-0.5" />
+                        <span>{error}</span>
+                    </div>
+                )}
+                <button
+                    onClick={handleSignIn}
+                    disabled={loading || !configured}
+                    className="w-full bg-white hover:bg-zinc-100 disabled:opacity-50 disabled:hover:bg-white text-zinc-900 font-medium py-3 px-4 rounded-lg flex items-center justify-center gap-3 transition-colors"
                 >
                     {loading ? (
                         <div className="w-5 h-5 border-2 border-zinc-900 border-t-transparent rounded-full animate-spin"></div>
-                    ) : (
-                        <>
-                            <svg className="w-5 h-5" viewBox="0 0 24 24">
-                                <path
-                                    fill="currentColor"
-                                    d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z"
-                                />
-                                <path
-                                    fill="currentColor"
-                                    d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z"
-                                />
-                                <path
-                                    fill="currentColor"
-                                    d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z"
-                                />
-                                <path
-                                    fill="currentColor"
-                                    d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z"
-                                />
-                            </svg>
-                            Continue with Google
-                        </>
-                    )}
+                    ) : provider.label}
                 </button>
+                {!configured && (
+                    <p className="text-xs text-amber-400 text-center">
+                        Sign-in is not configured. Set OIDC_ISSUER and OIDC_CLIENT_ID in .env.local.
+                    </p>
+                )}
             </div>
 
             <div className="mt-8 pt-6 border-t border-zinc-800 text-center">
                 <p className="text-xs text-zinc-500">
                     By continuing, you agree to save your generated assets locally to this browser.
+                    Each account on this device has its own library.
                 </p>
             </div>
         </div>
@@ -84,4 +64,4 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin }) => {
   );
 };
 
-export default LoginScreen;
\ No newline at end of file
+export default LoginScreen;
@@ -0,0 +1,194 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  useProjects, setActiveProject, createProject, createWorkspace, renameProject, renameWorkspace, deleteProject
+} from '../services/projectStore';
+import { exportProjectBundle, importProjectBundle } from '../services/projectBundle';
+import { slugify } from '../services/assetExport';
+import { getRoute, navigate } from '../services/router';
+import { Briefcase, Check, ChevronDown, Download, FolderPlus, Loader2, Pencil, Plus, Trash2, Upload } from 'lucide-react';
+
+interface ProjectSwitcherProps {
+  isCollapsed: boolean;
+}
+
+// Picks the active project. Everything project-scoped (library, layouts, brand
+// kits, prompt history) follows the choice.
+const ProjectSwitcher: React.FC<ProjectSwitcherProps> = ({ isCollapsed }) => {
+  const { workspaces, projects, activeProject, activeWorkspace } = useProjects();
+  const [open, setOpen] = useState(false);
+  const [busy, setBusy] = useState(false); // Exporting or importing a bundle
+  const containerRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!open) return;
+    const handleMouseDown = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    window.addEventListener('mousedown', handleMouseDown);
+    return () => window.removeEventListener('mousedown', handleMouseDown);
+  }, [open]);
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+    } catch (e: any) {
+      console.error(e);
+      alert(e.message);
+    }
+  };
+
+  // Links to a layout or asset point into the project being left, which would switch straight back
+  const leaveProjectLinks = () => navigate({ tool: getRoute().tool }, true);
+
+  const handleSelect = (id: string) => {
+    if (id !== activeProject?.id) leaveProjectLinks();
+    setActiveProject(id);
+    setOpen(false);
+  };
+
+  const handleNewProject = (workspaceId: string) => {
+    const name = prompt("Project name:");
+    if (!name?.trim()) return;
+    leaveProjectLinks();
+    run(() => createProject(workspaceId, name.trim()));
+    setOpen(false);
+  };
+
+  const handleNewWorkspace = () => {
+    const name = prompt("Workspace name:");
+    if (!name?.trim()) return;
+    leaveProjectLinks();
+    run(() => createWorkspace(name.trim()));
+    setOpen(false);
+  };
+
+  const handleRenameProject = () => {
+    if (!activeProject) return;
+    const name = prompt("Rename project:", activeProject.name);
+    if (name?.trim()) run(() => renameProject(activeProject.id, name.trim()));
+  };
+
+  const handleRenameWorkspace = () => {
+    if (!activeWorkspace) return;
+    const name = prompt("Rename workspace:", activeWorkspace.name);
+    if (name?.trim()) run(() => renameWorkspace(activeWorkspace.id, name.trim()));
+  };
+
+  const handleDeleteProject = () => {
+    if (!activeProject) return;
+    if (!confirm(`Delete "${activeProject.name}" with all of its assets, layouts, brand kits and prompt history? This cannot be undone.`)) return;
+    leaveProjectLinks();
+    run(() => deleteProject(activeProject.id));
+    setOpen(false);
+  };
+
+  // --- Bundles ---
+  const handleExport = async () => {
+    if (!activeProject) return;
+    setOpen(false);
+    setBusy(true);
+    await run(async () => {
+      const blob = await exportProjectBundle(activeProject);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${slugify(activeProject.name)}.envisage-project.zip`;
+      link.click();
+      URL.revokeObjectURL(url);
+    });
+    setBusy(false);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !activeWorkspace) return;
+    leaveProjectLinks();
+    setBusy(true);
+    await run(async () => {
+      const result = await importProjectBundle(file, activeWorkspace.id);
+      const count = (n: number, noun: string) => `${n} ${noun}${n === 1 ? '' : 's'}`;
+      alert(
+        `Imported "${result.project.name}": ${count(result.assets, 'asset')}, ${count(result.layouts, 'layout')} and ${count(result.brandKits, 'brand kit')}.` +
+        (result.remapped > 0 ? ` ${count(result.remapped, 'item')} already existed on this device and were imported as copies.` : '')
+      );
+    });
+    setBusy(false);
+  };
+
+  if (!activeProject) return null;
+
+  return (
+    <div ref={containerRef} className="relative px-3 mb-3">
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={busy}
+        className={`w-full flex items-center gap-2 rounded-lg border border-zinc-800 bg-zinc-950/50 hover:bg-zinc-800 text-left transition-colors ${isCollapsed ? 'justify-center p-2' : 'px-3 py-2'}`}
+        title={isCollapsed ? `${activeWorkspace?.name} / ${activeProject.name}` : undefined}
+      >
+        {busy ? <Loader2 size={16} className="text-teal-400 shrink-0 animate-spin" /> : <Briefcase size={16} className="text-teal-400 shrink-0" />}
+        {!isCollapsed && (
+          <>
+            <div className="flex-1 min-w-0">
+              <p className="text-[10px] text-zinc-500 truncate">{activeWorkspace?.name}</p>
+              <p className="text-sm text-zinc-200 font-medium truncate">{activeProject.name}</p>
+            </div>
+            <ChevronDown size={14} className="text-zinc-500 shrink-0" />
+          </>
+        )}
+      </button>
+
+      {open && (
+        <div className={`absolute top-full mt-1 w-60 max-h-96 overflow-y-auto bg-zinc-900 border border-zinc-700 rounded-lg shadow-2xl z-50 py-1 ${isCollapsed ? 'left-full -ml-2' : 'left-3'}`}>
+          {workspaces.map(workspace => (
+            <div key={workspace.id} className="py-1">
+              <div className="flex items-center justify-between px-3 py-1">
+                <span className="text-[10px] uppercase tracking-wide text-zinc-500 truncate">{workspace.name}</span>
+                <button onClick={() => handleNewProject(workspace.id)} className="text-zinc-500 hover:text-white p-0.5" title="New project">
+                  <Plus size={12} />
+                </button>
+              </div>
+              {projects.filter(p => p.workspaceId === workspace.id).map(project => (
+                <button
+                  key={project.id}
+                  onClick={() => handleSelect(project.id)}
+                  className="w-full flex items-center gap-2 px-3 py-1.5 text-sm text-zinc-300 hover:bg-zinc-800 text-left"
+                >
+                  <span className="flex-1 truncate">{project.name}</span>
+                  {project.id === activeProject.id && <Check size={14} className="text-teal-400 shrink-0" />}
+                </button>
+              ))}
+            </div>
+          ))}
+          <div className="border-t border-zinc-800 mt-1 pt-1">
+            <button onClick={handleNewWorkspace} className="w-full flex items-center gap-2 px-3 py-1.5 text-sm text-zinc-300 hover:bg-zinc-800">
+              <FolderPlus size={14} /> New workspace
+            </button>
+            <button onClick={handleExport} className="w-full flex items-center gap-2 px-3 py-1.5 text-sm text-zinc-300 hover:bg-zinc-800">
+              <Download size={14} /> Export project
+            </button>
+            <button onClick={() => { setOpen(false); fileInputRef.current?.click(); }} className="w-full flex items-center gap-2 px-3 py-1.5 text-sm text-zinc-300 hover:bg-zinc-800">
+              <Upload size={14} /> Import project…
+            </button>
+            <button onClick={handleRenameProject} className="w-full flex items-center gap-2 px-3 py-1.5 text-sm text-zinc-300 hover:bg-zinc-800">
+              <Pencil size={14} /> Rename project
+            </button>
+            <button onClick={handleRenameWorkspace} className="w-full flex items-center gap-2 px-3 py-1.5 text-sm text-zinc-300 hover:bg-zinc-800">
+              <Pencil size={14} /> Rename workspace
+            </button>
+            {projects.length > 1 && (
+              <button onClick={handleDeleteProject} className="w-full flex items-center gap-2 px-3 py-1.5 text-sm text-red-300 hover:bg-red-500/10">
+                <Trash2 size={14} /> Delete project
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+      <input ref={fileInputRef} type="file" accept=".zip,application/zip" className="hidden" onChange={handleImport} />
+    </div>
+  );
+};
+
+export default ProjectSwitcher;
@@ -0,0 +1,234 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { PromptSettings, PromptTemplate, ToolType } from '../types';
+import {
+  usePromptLibrary, createPromptTemplate, savePromptTemplate, deletePromptTemplate,
+  updateHistoryEntry, deleteHistoryEntry, getTemplateVariables, fillTemplate, matchesPromptSearch
+} from '../services/promptLibrary';
+import { BookMarked, BookmarkPlus, History, Search, Star, Trash2, X } from 'lucide-react';
+
+interface PromptLibraryMenuProps {
+  tool: ToolType;
+  prompt: string; // Current prompt, offered as a new template
+  onApply: (prompt: string, settings?: PromptSettings) => void;
+}
+
+type LibraryTab = 'templates' | 'history';
+
+// Dropdown next to a generator's prompt label: this tool's history and the
+// shared templates, with search and favorites.
+const PromptLibraryMenu: React.FC<PromptLibraryMenuProps> = ({ tool, prompt, onApply }) => {
+  const { templates, history } = usePromptLibrary();
+  const [open, setOpen] = useState(false);
+  const [tab, setTab] = useState<LibraryTab>('history');
+  const [query, setQuery] = useState('');
+  const [favoritesOnly, setFavoritesOnly] = useState(false);
+  const [filling, setFilling] = useState<PromptTemplate | null>(null); // Template awaiting variable values
+  const [values, setValues] = useState<Record<string, string>>({});
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handlePointerDown = (e: PointerEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('pointerdown', handlePointerDown);
+    return () => document.removeEventListener('pointerdown', handlePointerDown);
+  }, [open]);
+
+  const visibleTemplates = templates.filter(t =>
+    (!t.tool || t.tool === tool) && (!favoritesOnly || t.favorite) && matchesPromptSearch(query, t.name, t.text)
+  );
+  const visibleHistory = history.filter(h =>
+    h.tool === tool && (!favoritesOnly || h.favorite) && matchesPromptSearch(query, h.prompt)
+  );
+
+  const close = () => {
+    setOpen(false);
+    setFilling(null);
+  };
+
+  const handleTemplate = (template: PromptTemplate) => {
+    if (getTemplateVariables(template.text).length === 0) {
+      onApply(template.text);
+      close();
+      return;
+    }
+    setFilling(template);
+    setValues({});
+  };
+
+  const handleInsertFilled = () => {
+    if (!filling) return;
+    onApply(fillTemplate(filling.text, values));
+    close();
+  };
+
+  const handleSaveTemplate = async () => {
+    if (!prompt.trim()) return;
+    const name = window.prompt("Template name:", prompt.trim().slice(0, 40));
+    if (!name) return;
+    const sharedAcrossTools = confirm("Offer this template in every tool? Cancel to keep it for this tool only.");
+    try {
+      await savePromptTemplate(createPromptTemplate(name, prompt.trim(), sharedAcrossTools ? undefined : tool));
+      setTab('templates');
+    } catch (e: any) {
+      alert(e.message);
+    }
+  };
+
+  const handleDeleteTemplate = async (template: PromptTemplate) => {
+    if (!confirm(`Delete template "${template.name}"?`)) return;
+    try {
+      await deletePromptTemplate(template.id);
+    } catch (e: any) {
+      alert(e.message);
+    }
+  };
+
+  // Library writes are fire-and-forget from here; failures are only logged
+  const logError = (e: unknown) => console.error(e);
+
+  return (
+    <div ref={containerRef} className="relative">
+      <div className="flex items-center gap-1">
+        <button
+          onClick={handleSaveTemplate}
+          disabled={!prompt.trim()}
+          className="p-1 rounded text-zinc-500 hover:text-white disabled:opacity-40 disabled:hover:text-zinc-500"
+          title="Save prompt as template. Use {{product}}-style placeholders for parts that change."
+        >
+          <BookmarkPlus size={14} />
+        </button>
+        <button
+          onClick={() => open ? close() : setOpen(true)}
+          className={`flex items-center gap-1 text-xs px-2 py-1 rounded border ${open ? 'border-indigo-500 text-white' : 'border-zinc-800 text-zinc-400 hover:text-white'}`}
+        >
+          <BookMarked size={12} /> Prompts
+        </button>
+      </div>
+
+      {open && (
+        <div className="absolute right-0 top-full mt-1 w-80 bg-zinc-900 border border-zinc-700 rounded-lg shadow-2xl z-30">
+          {filling ? (
+            <div className="p-3 space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-white font-medium truncate">{filling.name}</span>
+                <button onClick={() => setFilling(null)} className="text-zinc-500 hover:text-white"><X size={14} /></button>
+              </div>
+              <p className="text-[11px] text-zinc-500 whitespace-pre-wrap max-h-20 overflow-y-auto">{filling.text}</p>
+              {getTemplateVariables(filling.text).map((name, i) => (
+                <div key={name}>
+                  <label className="block text-[11px] text-zinc-400 mb-0.5">{name}</label>
+                  <input
+                    autoFocus={i === 0}
+                    value={values[name] || ''}
+                    onChange={(e) => setValues({ ...values, [name]: e.target.value })}
+                    onKeyDown={(e) => e.key === 'Enter' && handleInsertFilled()}
+                    className="w-full bg-zinc-950 border border-zinc-800 rounded px-2 py-1 text-sm text-white focus:outline-none focus:border-indigo-500"
+                  />
+                </div>
+              ))}
+              <button
+                onClick={handleInsertFilled}
+                className="w-full py-1.5 rounded bg-indigo-600 hover:bg-indigo-500 text-white text-sm font-medium"
+              >
+                Use Prompt
+              </button>
+            </div>
+          ) : (
+            <>
+              <div className="flex border-b border-zinc-800">
+                {(['history', 'templates'] as LibraryTab[]).map(t => (
+                  <button
+                    key={t}
+                    onClick={() => setTab(t)}
+                    className={`flex-1 flex items-center justify-center gap-1 py-2 text-xs ${tab === t ? 'text-white border-b-2 border-indigo-500' : 'text-zinc-500 hover:text-zinc-300'}`}
+                  >
+                    {t === 'history' ? <><History size={12} /> History</> : <><BookMarked size={12} /> Templates</>}
+                  </button>
+                ))}
+              </div>
+              <div className="flex items-center gap-1 p-2">
+                <div className="flex-1 flex items-center gap-1 bg-zinc-950 border border-zinc-800 rounded px-2">
+                  <Search size={12} className="text-zinc-500" />
+                  <input
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    placeholder="Search prompts"
+                    className="flex-1 min-w-0 bg-transparent py-1 text-sm text-white focus:outline-none"
+                  />
+                </div>
+                <button
+                  onClick={() => setFavoritesOnly(!favoritesOnly)}
+                  className={`p-1.5 rounded ${favoritesOnly ? 'text-yellow-400' : 'text-zinc-500 hover:text-white'}`}
+                  title="Favorites only"
+                >
+                  <Star size={14} fill={favoritesOnly ? 'currentColor' : 'none'} />
+                </button>
+              </div>
+
+              <div className="max-h-72 overflow-y-auto px-2 pb-2 space-y-1">
+                {tab === 'history' && visibleHistory.map(entry => (
+                  <div key={entry.id} className="group flex items-start gap-1 p-2 rounded hover:bg-zinc-800">
+                    <button
+                      onClick={() => { onApply(entry.prompt, entry.settings); close(); }}
+                      className="flex-1 min-w-0 text-left"
+                    >
+                      <p className="text-xs text-zinc-200 line-clamp-2">{entry.prompt}</p>
+                      <p className="text-[10px] text-zinc-600 mt-0.5">{new Date(entry.createdAt).toLocaleString()}</p>
+                    </button>
+                    <button
+                      onClick={() => updateHistoryEntry({ ...entry, favorite: !entry.favorite }).catch(logError)}
+                      className={entry.favorite ? 'text-yellow-400' : 'text-zinc-600 hover:text-white'}
+                      title={entry.favorite ? 'Remove from favorites' : 'Add to favorites'}
+                    >
+                      <Star size={12} fill={entry.favorite ? 'currentColor' : 'none'} />
+                    </button>
+                    <button
+                      onClick={() => deleteHistoryEntry(entry.id).catch(logError)}
+                      className="text-zinc-600 hover:text-red-400 opacity-0 group-hover:opacity-100"
+                      title="Remove from history"
+                    >
+                      <Trash2 size={12} />
+                    </button>
+                  </div>
+                ))}
+                {tab === 'templates' && visibleTemplates.map(template => (
+                  <div key={template.id} className="group flex items-start gap-1 p-2 rounded hover:bg-zinc-800">
+                    <button onClick={() => handleTemplate(template)} className="flex-1 min-w-0 text-left">
+                      <p className="text-xs text-white font-medium truncate">{template.name}</p>
+                      <p className="text-[11px] text-zinc-500 line-clamp-2">{template.text}</p>
+                    </button>
+                    <button
+                      onClick={() => savePromptTemplate({ ...template, favorite: !template.favorite }).catch(logError)}
+                      className={template.favorite ? 'text-yellow-400' : 'text-zinc-600 hover:text-white'}
+                      title={template.favorite ? 'Remove from favorites' : 'Add to favorites'}
+                    >
+                      <Star size={12} fill={template.favorite ? 'currentColor' : 'none'} />
+                    </button>
+                    <button
+                      onClick={() => handleDeleteTemplate(template)}
+                      className="text-zinc-600 hover:text-red-400 opacity-0 group-hover:opacity-100"
+                      title="Delete template"
+                    >
+                      <Trash2 size={12} />
+                    </button>
+                  </div>
+                ))}
+                {(tab === 'history' ? visibleHistory : visibleTemplates).length === 0 && (
+                  <p className="text-xs text-zinc-600 text-center py-6">
+                    {query || favoritesOnly
+                      ? 'No matching prompts.'
+                      : tab === 'history' ? 'Prompts you generate with appear here.' : 'Save a prompt with the bookmark button to make a template.'}
+                  </p>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PromptLibraryMenu;
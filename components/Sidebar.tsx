@@ -11,8 +11,12 @@ import {
   ChevronLeft,
   ChevronRight,
   Box,
-  Hexagon
+  Hexagon,
+  Palette,
+  Library as LibraryIcon
 } from 'lucide-react';
+import { getProvider } from '../services/providers';
+import ProjectSwitcher from './ProjectSwitcher';
 
 interface SidebarProps {
   currentTool: ToolType;
@@ -73,6 +77,8 @@ const Sidebar: React.FC<SidebarProps> = ({ currentTool, setTool, user, onLogout
     }
   };
 
+  const provider = getProvider();
+
   const navItems = [
     { type: ToolType.DASHBOARD, label: "Dashboard", icon: <LayoutDashboard size={20} /> },
     { type: ToolType.COPY_WRITER, label: "Copywriter", icon: <Type size={20} /> },
@@ -81,6 +87,8 @@ const Sidebar: React.FC<SidebarProps> = ({ currentTool, setTool, user, onLogout
     { type: ToolType.VIDEO_GEN, label: "Video Gen", icon: <Video size={20} /> },
     { type: ToolType.THREE_D_GEN, label: "3D Animated", icon: <Box size={20} /> },
     { type: ToolType.LAYOUT_EDITOR, label: "Layout Editor", icon: <Layers size={20} /> },
+    { type: ToolType.LIBRARY, label: "Library", icon: <LibraryIcon size={20} /> },
+    { type: ToolType.BRAND_KIT, label: "Brand Kit", icon: <Palette size={20} /> },
   ];
 
   return (
@@ -111,6 +119,8 @@ const Sidebar: React.FC<SidebarProps> = ({ currentTool, setTool, user, onLogout
         </div>
         {!isCollapsed && <p className="text-xs text-zinc-500 mt-1 pl-11 whitespace-nowrap overflow-hidden transition-opacity duration-300">Branding Assistant</p>}
       </div>
+
+      <ProjectSwitcher isCollapsed={isCollapsed} />
       
       <nav className="flex-1 px-3 space-y-2 overflow-y-auto overflow-x-hidden no-scrollbar">
         {navItems.map((item) => (
@@ -146,19 +156,34 @@ const Sidebar: React.FC<SidebarProps> = ({ currentTool, setTool, user, onLogout
          {!isCollapsed ? (
             <div className="bg-zinc-800/50 rounded-lg p-3 text-xs text-zinc-500 mb-4 whitespace-nowrap overflow-hidden">
               <p className="font-semibold text-zinc-400 mb-1">System Status</p>
-              <div className="flex items-center gap-2">
-                <span className="w-2 h-2 rounded-full bg-green-500 animate-pulse"></span>
-                Gemini 2.5 Active
-              </div>
-              <div className="flex items-center gap-2 mt-1">
-                <span className="w-2 h-2 rounded-full bg-blue-500 animate-pulse"></span>
-                Veo 3.1 Active
-              </div>
+              {provider.id === 'gemini' ? (
+                <>
+                  <div className="flex items-center gap-2">
+                    <span className="w-2 h-2 rounded-full bg-green-500 animate-pulse"></span>
+                    Gemini 2.5 Active
+                  </div>
+                  <div className="flex items-center gap-2 mt-1">
+                    <span className="w-2 h-2 rounded-full bg-blue-500 animate-pulse"></span>
+                    Veo 3.1 Active
+                  </div>
+                </>
+              ) : (
+                <div className="flex items-center gap-2">
+                  <span className="w-2 h-2 rounded-full bg-amber-500 animate-pulse"></span>
+                  {provider.label} Active
+                </div>
+              )}
             </div>
          ) : (
              <div className="flex flex-col items-center gap-2 mb-4">
-                 <span className="w-2 h-2 rounded-full bg-green-500 animate-pulse" title="Gemini Active"></span>
-                 <span className="w-2 h-2 rounded-full bg-blue-500 animate-pulse" title="Veo Active"></span>
+                 {provider.id === 'gemini' ? (
+                   <>
+                     <span className="w-2 h-2 rounded-full bg-green-500 animate-pulse" title="Gemini Active"></span>
+                     <span className="w-2 h-2 rounded-full bg-blue-500 animate-pulse" title="Veo Active"></span>
+                   </>
+                 ) : (
+                   <span className="w-2 h-2 rounded-full bg-amber-500 animate-pulse" title={`${provider.label} Active`}></span>
+                 )}
              </div>
          )}
 
@@ -170,7 +195,7 @@ const Sidebar: React.FC<SidebarProps> = ({ currentTool, setTool, user, onLogout
                     {!isCollapsed && (
                         <div className="overflow-hidden">
                             <p className="text-sm font-medium text-zinc-200 truncate w-24">{user.name}</p>
-                            <p className="text-[10px] text-zinc-500 truncate w-24">Pro Plan</p>
+                            <p className="text-[10px] text-zinc-500 truncate w-24 capitalize" title={user.email}>{user.roles.join(', ') || 'Member'}</p>
                         </div>
                     )}
                 </div>
@@ -1,39 +1,68 @@
-import React, { useState } from 'react';
-import { generateThreeDAnimation } from '../services/geminiService';
-import { GeneratedAsset } from '../types';
+import React, { useState, useEffect } from 'react';
+import { buildThreeDAnimationRequest } from '../services/geminiService';
+import { enqueueVideoJob, useJobs, getJobResult } from '../services/jobManager';
+import { PromptSettings, PromptSource, ToolType } from '../types';
+import { useBrandKits } from '../services/brandKitStore';
+import BrandKitPicker from './BrandKitPicker';
+import PromptLibraryMenu from './PromptLibraryMenu';
+import { PromptReuse, recordPrompt } from '../services/promptLibrary';
+import { useRouteParams } from '../services/router';
+import { createProvenance } from '../services/provenance';
 import { Box, Cuboid, Loader2, Play } from 'lucide-react';
 
 interface ThreeDGeneratorProps {
-  onAssetCreated: (asset: GeneratedAsset) => void;
+  reuse?: PromptReuse | null; // Prompt and settings to prefill, e.g. from a library asset
+  onReuseConsumed?: () => void;
 }
 
-const ThreeDGenerator: React.FC<ThreeDGeneratorProps> = ({ onAssetCreated }) => {
+// Renders run as background video jobs; results reach the library through the job manager
+const ThreeDGenerator: React.FC<ThreeDGeneratorProps> = ({ reuse, onReuseConsumed }) => {
   const [prompt, setPrompt] = useState('');
   const [style, setStyle] = useState('Product Showcase');
-  const [loading, setLoading] = useState(false);
-  const [videoUrl, setVideoUrl] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const { activeKit } = useBrandKits();
+
+  const jobs = useJobs();
+  const latestJob = jobs.find(job => job.tool === ToolType.THREE_D_GEN);
+  const loading = latestJob?.status === 'running';
+  const videoUrl = latestJob?.status === 'succeeded' ? getJobResult(latestJob.id) || null : null;
+
+  const applyPrompt = (text: string, settings?: PromptSettings) => {
+    setPrompt(text);
+    if (typeof settings?.style === 'string') setStyle(settings.style);
+  };
+
+  useEffect(() => {
+    if (!reuse) return;
+    applyPrompt(reuse.prompt, reuse.settings);
+    onReuseConsumed?.();
+  }, [reuse]);
+
+  useRouteParams(ToolType.THREE_D_GEN, prompt, { style });
 
   const handleGenerate = async () => {
     if (!prompt) return;
-    setLoading(true);
-    setVideoUrl(null);
+    setSubmitting(true);
+    const source: PromptSource = { tool: ToolType.THREE_D_GEN, prompt, settings: { style } };
+    recordPrompt(source).catch(e => console.error(e));
     try {
-      const url = await generateThreeDAnimation(prompt, style);
-      setVideoUrl(url);
-
-      const newAsset: GeneratedAsset = {
-        id: Date.now().toString(),
-        type: 'video',
-        content: url,
-        createdAt: Date.now(),
-        metadata: { prompt: `3D Animation: ${prompt}` }
-      };
-      onAssetCreated(newAsset);
+      await enqueueVideoJob({
+        tool: ToolType.THREE_D_GEN,
+        label: `3D: ${prompt}`,
+        request: buildThreeDAnimationRequest(prompt, style, activeKit),
+        assetMetadata: { prompt, source },
+        assetProvenance: createProvenance({
+          tool: ToolType.THREE_D_GEN,
+          model: 'video',
+          parameters: { style },
+          brandKit: activeKit,
+        })
+      });
     } catch (e) {
       console.error(e);
-      alert('3D Generation failed. Please try again.');
+      alert('Could not queue the 3D render. Please try again.');
     } finally {
-      setLoading(false);
+      setSubmitting(false);
     }
   };
 
@@ -59,7 +88,10 @@ const ThreeDGenerator: React.FC<ThreeDGeneratorProps> = ({ onAssetCreated }) =>
             <div className="space-y-6">
                  <div className="bg-zinc-900 p-6 rounded-xl border border-zinc-800 shadow-xl">
                     <div className="mb-4">
-                        <label className="block text-sm font-medium text-zinc-400 mb-2">3D Concept</label>
+                        <div className="flex items-center justify-between mb-2">
+                            <label className="block text-sm font-medium text-zinc-400">3D Concept</label>
+                            <PromptLibraryMenu tool={ToolType.THREE_D_GEN} prompt={prompt} onApply={applyPrompt} />
+                        </div>
                         <textarea
                             value={prompt}
                             onChange={(e) => setPrompt(e.target.value)}
@@ -68,6 +100,8 @@ const ThreeDGenerator: React.FC<ThreeDGeneratorProps> = ({ onAssetCreated }) =>
                         />
                     </div>
 
+                    <BrandKitPicker />
+
                     <div className="mb-6">
                         <label className="block text-sm font-medium text-zinc-400 mb-2">Render Style</label>
                         <div className="grid grid-cols-2 gap-2">
@@ -89,21 +123,21 @@ const ThreeDGenerator: React.FC<ThreeDGeneratorProps> = ({ onAssetCreated }) =>
 
                     <button
                         onClick={handleGenerate}
-                        disabled={loading || !prompt}
+                        disabled={submitting || !prompt}
                         className={`w-full py-3 rounded-lg font-bold flex items-center justify-center gap-2 transition-all ${
-                            loading 
+                            submitting 
                             ? 'bg-zinc-800 text-zinc-500 cursor-not-allowed' 
                             : 'bg-gradient-to-r from-orange-600 to-red-600 hover:from-orange-500 hover:to-red-500 text-white'
                         }`}
                     >
-                         {loading ? <span className="animate-pulse">Rendering 3D Scene...</span> : <><Cuboid size={18} /> Generate 3D Asset</>}
+                         {submitting ? <span className="animate-pulse">Queuing...</span> : <><Cuboid size={18} /> Generate 3D Asset</>}
                     </button>
                  </div>
                  
                  {loading && (
                     <div className="bg-zinc-800/50 p-4 rounded-lg text-zinc-400 text-sm flex items-start gap-3">
                         <Loader2 className="animate-spin shrink-0 mt-0.5" size={16} />
-                        <p>Our render farm is processing your request. This typically takes 60-90 seconds using Veo 3.</p>
+                        <p>Our render farm is processing your request. This typically takes 60-90 seconds using Veo 3 and continues in the background if you leave.</p>
                     </div>
                  )}
             </div>
@@ -1,27 +1,56 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { generateMarketingVideo } from '../services/geminiService';
-import { GeneratedAsset } from '../types';
+import { buildMarketingVideoRequest } from '../services/geminiService';
+import { getProvider } from '../services/providers';
+import { enqueueVideoJob, useJobs, getJobResult } from '../services/jobManager';
+import { PromptSettings, PromptSource, ToolType } from '../types';
+import { useBrandKits } from '../services/brandKitStore';
+import BrandKitPicker from './BrandKitPicker';
+import PromptLibraryMenu from './PromptLibraryMenu';
+import { PromptReuse, recordPrompt } from '../services/promptLibrary';
+import { useRouteParams } from '../services/router';
+import { createProvenance } from '../services/provenance';
 import { Video, Key, Loader2, Play, Upload, Image as ImageIcon } from 'lucide-react';
 
 interface VideoGeneratorProps {
-  onAssetCreated: (asset: GeneratedAsset) => void;
+  reuse?: PromptReuse | null; // Prompt and settings to prefill, e.g. from a library asset
+  onReuseConsumed?: () => void;
 }
 
-const VideoGenerator: React.FC<VideoGeneratorProps> = ({ onAssetCreated }) => {
+// Generated videos reach the asset library through the job manager, not a callback
+const VideoGenerator: React.FC<VideoGeneratorProps> = ({ reuse, onReuseConsumed }) => {
   const [prompt, setPrompt] = useState('');
   const [aspectRatio, setAspectRatio] = useState<'16:9' | '9:16'>('16:9');
-  const [loading, setLoading] = useState(false);
-  const [videoUrl, setVideoUrl] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
   const [hasKey, setHasKey] = useState(false);
   const [checkingKey, setCheckingKey] = useState(true);
+  const { activeKit } = useBrandKits();
   
   // Image Input for Video
   const [inputImage, setInputImage] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  const applyPrompt = (text: string, settings?: PromptSettings) => {
+    setPrompt(text);
+    if (settings?.aspectRatio === '16:9' || settings?.aspectRatio === '9:16') setAspectRatio(settings.aspectRatio);
+  };
+
+  useEffect(() => {
+    if (!reuse) return;
+    applyPrompt(reuse.prompt, reuse.settings);
+    onReuseConsumed?.();
+  }, [reuse]);
+
+  useRouteParams(ToolType.VIDEO_GEN, prompt, { aspectRatio });
+
   // Check for API key on mount
   useEffect(() => {
     const checkKey = async () => {
+      // Offline providers need no key at all
+      if (!getProvider().requiresApiKey) {
+        setHasKey(true);
+        setCheckingKey(false);
+        return;
+      }
       // Access via any to avoid type conflicts with global AIStudio definition
       const aistudio = (window as any).aistudio;
       if (aistudio && aistudio.hasSelectedApiKey) {
@@ -63,39 +92,45 @@ const VideoGenerator: React.FC<VideoGeneratorProps> = ({ onAssetCreated }) => {
     }
   };
 
+  // The most recent job started from this tool drives the preview pane
+  const jobs = useJobs();
+  const latestJob = jobs.find(job => job.tool === ToolType.VIDEO_GEN);
+  const loading = latestJob?.status === 'running';
+  const videoUrl = latestJob?.status === 'succeeded' ? getJobResult(latestJob.id) || null : null;
+
+  useEffect(() => {
+    if (latestJob?.status !== 'failed' || !latestJob.error) return;
+    if (latestJob.error.includes("Requested entity was not found") && (window as any).aistudio) {
+      // Only force re-selection if we are in an environment that supports it
+      setHasKey(false);
+      alert("Session expired or key invalid. Please select your API Key again.");
+    }
+  }, [latestJob?.id, latestJob?.status]);
+
   const handleGenerate = async () => {
     // Prompt is optional if image is present
     if (!prompt && !inputImage) return;
-    setLoading(true);
-    setVideoUrl(null);
+    setSubmitting(true);
+    const source: PromptSource = { tool: ToolType.VIDEO_GEN, prompt, settings: { aspectRatio } };
+    recordPrompt(source).catch(e => console.error(e));
     try {
-      const url = await generateMarketingVideo(prompt, aspectRatio, inputImage || undefined);
-      setVideoUrl(url);
-
-      const newAsset: GeneratedAsset = {
-        id: Date.now().toString(),
-        type: 'video',
-        content: url,
-        createdAt: Date.now(),
-        metadata: { prompt: prompt || "Image Animation", aspectRatio }
-      };
-      onAssetCreated(newAsset);
-
+      await enqueueVideoJob({
+        tool: ToolType.VIDEO_GEN,
+        label: prompt || "Image Animation",
+        request: buildMarketingVideoRequest(prompt, aspectRatio, inputImage || undefined, activeKit),
+        assetMetadata: { prompt: prompt || "Image Animation", aspectRatio, source: prompt ? source : undefined },
+        assetProvenance: createProvenance({
+          tool: ToolType.VIDEO_GEN,
+          model: 'video',
+          parameters: { aspectRatio, startingImage: !!inputImage },
+          brandKit: activeKit,
+        })
+      });
     } catch (e: any) {
       console.error(e);
-      if (e.message && e.message.includes("Requested entity was not found")) {
-        // Only force re-selection if we are in an environment that supports it
-        if ((window as any).aistudio) {
-            setHasKey(false); 
-            alert("Session expired or key invalid. Please select your API Key again.");
-        } else {
-            alert("API Error: Please check your API_KEY environment variable.");
-        }
-      } else {
-        alert("Video generation failed. It can take a few minutes.");
-      }
+      alert("Could not queue the video. Please try again.");
     } finally {
-      setLoading(false);
+      setSubmitting(false);
     }
   };
 
@@ -170,7 +205,10 @@ const VideoGenerator: React.FC<VideoGeneratorProps> = ({ onAssetCreated }) => {
                     </div>
 
                     <div className="mb-4">
-                        <label className="block text-sm font-medium text-zinc-400 mb-2">Video Prompt</label>
+                        <div className="flex items-center justify-between mb-2">
+                            <label className="block text-sm font-medium text-zinc-400">Video Prompt</label>
+                            <PromptLibraryMenu tool={ToolType.VIDEO_GEN} prompt={prompt} onApply={applyPrompt} />
+                        </div>
                         <textarea
                             value={prompt}
                             onChange={(e) => setPrompt(e.target.value)}
@@ -179,6 +217,8 @@ const VideoGenerator: React.FC<VideoGeneratorProps> = ({ onAssetCreated }) => {
                         />
                     </div>
                     
+                    <BrandKitPicker />
+
                     <div className="mb-6">
                         <label className="block text-sm font-medium text-zinc-400 mb-2">Format</label>
                         <div className="flex gap-4">
@@ -207,20 +247,20 @@ const VideoGenerator: React.FC<VideoGeneratorProps> = ({ onAssetCreated }) => {
 
                     <button
                         onClick={handleGenerate}
-                        disabled={loading || (!prompt && !inputImage)}
+                        disabled={submitting || (!prompt && !inputImage)}
                         className={`w-full py-3 rounded-lg font-bold flex items-center justify-center gap-2 transition-all ${
-                            loading 
+                            submitting 
                             ? 'bg-zinc-800 text-zinc-500 cursor-not-allowed' 
                             : 'bg-gradient-to-r from-pink-600 to-purple-600 hover:from-pink-500 hover:to-purple-500 text-white'
                         }`}
                     >
-                         {loading ? <span className="animate-pulse">Generating (this takes a while)...</span> : <><Video size={18} /> Generate Video</>}
+                         {submitting ? <span className="animate-pulse">Queuing...</span> : <><Video size={18} /> Generate Video</>}
                     </button>
                  </div>
                  {loading && (
                     <div className="bg-zinc-800/50 p-4 rounded-lg text-zinc-400 text-sm flex items-start gap-3">
                         <Loader2 className="animate-spin shrink-0 mt-0.5" size={16} />
-                        <p>Video generation can take 1-2 minutes. Feel free to use other tools while you wait, but keep this tab open.</p>
+                        <p>Video generation can take 1-2 minutes. It keeps running in the background, even if you switch tools or reload; track it in the jobs tray.</p>
                     </div>
                  )}
             </div>
@@ -0,0 +1,65 @@
+import React, { useRef, useState } from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+
+interface CompareSliderProps {
+  before: string;
+  after: string;
+  className?: string;
+}
+
+// Before/after comparison: the "after" image is revealed left of a draggable divider
+const CompareSlider: React.FC<CompareSliderProps> = ({ before, after, className = '' }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [position, setPosition] = useState(50); // Percent from the left
+  const dragging = useRef(false);
+
+  const moveTo = (clientX: number) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    setPosition(Math.max(0, Math.min(100, ((clientX - rect.left) / rect.width) * 100)));
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className={`relative inline-block select-none touch-none cursor-ew-resize ${className}`}
+      onPointerDown={(e) => {
+        dragging.current = true;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        moveTo(e.clientX);
+      }}
+      onPointerMove={(e) => dragging.current && moveTo(e.clientX)}
+      onPointerUp={() => { dragging.current = false; }}
+      onPointerCancel={() => { dragging.current = false; }}
+      onKeyDown={(e) => {
+        if (e.key === 'ArrowLeft') setPosition(p => Math.max(0, p - 5));
+        if (e.key === 'ArrowRight') setPosition(p => Math.min(100, p + 5));
+      }}
+      tabIndex={0}
+      role="slider"
+      aria-label="Before and after comparison"
+      aria-valuenow={Math.round(position)}
+      aria-valuemin={0}
+      aria-valuemax={100}
+    >
+      {/* "Before" sets the frame size; the edit is stretched over it in case the model changed the size */}
+      <img src={before} alt="Before" className="block max-h-[500px] max-w-full rounded" draggable={false} />
+      <img
+        src={after}
+        alt="After"
+        className="absolute inset-0 w-full h-full rounded"
+        style={{ clipPath: `inset(0 ${100 - position}% 0 0)` }}
+        draggable={false}
+      />
+      <div className="absolute top-0 bottom-0 w-0.5 bg-white shadow-[0_0_4px_rgba(0,0,0,0.6)] pointer-events-none" style={{ left: `${position}%` }}>
+        <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-8 h-8 rounded-full bg-white text-zinc-900 flex items-center justify-center shadow-lg">
+          <ChevronLeft size={12} /><ChevronRight size={12} />
+        </div>
+      </div>
+      <span className="absolute top-2 left-2 bg-black/60 text-white text-[10px] px-2 py-0.5 rounded pointer-events-none">After</span>
+      <span className="absolute top-2 right-2 bg-black/60 text-white text-[10px] px-2 py-0.5 rounded pointer-events-none">Before</span>
+    </div>
+  );
+};
+
+export default CompareSlider;
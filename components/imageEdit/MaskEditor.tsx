@@ -0,0 +1,225 @@
+import React, { useEffect, useRef, useState } from 'react';
+import RegionOverlay from '../regions/RegionOverlay';
+import InsetSliders from '../regions/InsetSliders';
+import { RegionTool, InsetRect, PercentPoint, EMPTY_INSET, toPercentPoint, insetFromCorners, isEmptyInset, traceRegion } from '../regions/regions';
+import { Brush, Eraser, Square, Scissors, Trash2, Plus, Minus } from 'lucide-react';
+
+type MaskTool = 'brush' | 'eraser' | RegionTool;
+
+interface MaskEditorProps {
+  image: string;
+  onMaskChange: (mask: string | null) => void; // Black/white PNG at the image's size, null when empty
+}
+
+const MASK_COLOR = '#6366f1';
+const MAX_DISPLAY_HEIGHT = 384;
+
+const TOOLS: [MaskTool, React.ElementType, string][] = [
+  ['brush', Brush, 'Brush'],
+  ['eraser', Eraser, 'Eraser'],
+  ['rect', Square, 'Rectangle'],
+  ['lasso', Scissors, 'Lasso'],
+];
+
+// Paints an inpainting mask over the source image. The mask canvas has the
+// image's natural resolution; the rect and lasso tools are the same percent-based
+// regions the LayoutEditor crop uses, filled into (or cut out of) the mask.
+const MaskEditor: React.FC<MaskEditorProps> = ({ image, onMaskChange }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [size, setSize] = useState<{ width: number, height: number } | null>(null);
+  const [tool, setTool] = useState<MaskTool>('brush');
+  const [brushSize, setBrushSize] = useState(32); // Screen pixels
+  const [painted, setPainted] = useState(false);
+  const [inset, setInset] = useState<InsetRect>(EMPTY_INSET);
+  const [points, setPoints] = useState<PercentPoint[]>([]);
+  const stroke = useRef<{ x: number, y: number } | null>(null);
+  const rectStart = useRef<PercentPoint | null>(null);
+
+  useEffect(() => {
+    setSize(null);
+    setPainted(false);
+    setInset(EMPTY_INSET);
+    setPoints([]);
+    onMaskChange(null);
+    const img = new Image();
+    img.onload = () => setSize({ width: img.naturalWidth, height: img.naturalHeight });
+    img.src = image;
+  }, [image]);
+
+  const getContext = () => canvasRef.current?.getContext('2d') || null;
+
+  // Erasing or cutting can leave nothing behind, which would send an all-black mask
+  const hasPaint = () => {
+    const ctx = getContext();
+    if (!ctx || !size) return false;
+    const { data } = ctx.getImageData(0, 0, size.width, size.height);
+    for (let i = 3; i < data.length; i += 4) {
+      if (data[i] > 0) return true;
+    }
+    return false;
+  };
+
+  // The visible canvas is tinted; the exported mask is opaque white on black
+  const emitMask = (hasMask: boolean) => {
+    setPainted(hasMask);
+    const source = canvasRef.current;
+    if (!hasMask || !source) {
+      onMaskChange(null);
+      return;
+    }
+    const white = document.createElement('canvas');
+    white.width = source.width;
+    white.height = source.height;
+    const whiteCtx = white.getContext('2d')!;
+    whiteCtx.drawImage(source, 0, 0);
+    whiteCtx.globalCompositeOperation = 'source-in';
+    whiteCtx.fillStyle = '#ffffff';
+    whiteCtx.fillRect(0, 0, white.width, white.height);
+
+    const mask = document.createElement('canvas');
+    mask.width = source.width;
+    mask.height = source.height;
+    const maskCtx = mask.getContext('2d')!;
+    maskCtx.fillStyle = '#000000';
+    maskCtx.fillRect(0, 0, mask.width, mask.height);
+    maskCtx.drawImage(white, 0, 0);
+    onMaskChange(mask.toDataURL('image/png'));
+  };
+
+  const toCanvasPoint = (e: React.PointerEvent) => {
+    const canvas = canvasRef.current!;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * canvas.width / rect.width,
+      y: (e.clientY - rect.top) * canvas.height / rect.height,
+      scale: canvas.width / rect.width,
+    };
+  };
+
+  const paintTo = (e: React.PointerEvent) => {
+    const ctx = getContext();
+    if (!ctx || !stroke.current) return;
+    const { x, y, scale } = toCanvasPoint(e);
+    ctx.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = MASK_COLOR;
+    ctx.lineWidth = brushSize * scale;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(stroke.current.x, stroke.current.y);
+    ctx.lineTo(x, y);
+    ctx.stroke();
+    stroke.current = { x, y };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!size) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    if (tool === 'brush' || tool === 'eraser') {
+      const { x, y } = toCanvasPoint(e);
+      stroke.current = { x, y };
+      paintTo(e); // A click paints a dot
+    } else if (tool === 'rect') {
+      rectStart.current = toPercentPoint(e, e.currentTarget.getBoundingClientRect());
+      setInset(insetFromCorners(rectStart.current, rectStart.current));
+    } else {
+      setPoints([...points, toPercentPoint(e, e.currentTarget.getBoundingClientRect())]);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (stroke.current) paintTo(e);
+    if (rectStart.current) setInset(insetFromCorners(rectStart.current, toPercentPoint(e, e.currentTarget.getBoundingClientRect())));
+  };
+
+  const handlePointerUp = () => {
+    if (stroke.current) {
+      stroke.current = null;
+      emitMask(tool === 'brush' || (painted && hasPaint()));
+    }
+    rectStart.current = null;
+  };
+
+  const hasRegion = tool === 'rect' ? !isEmptyInset(inset) && inset !== EMPTY_INSET : points.length > 2;
+
+  const applyRegion = (mode: 'add' | 'subtract') => {
+    const ctx = getContext();
+    if (!ctx || !size || !hasRegion) return;
+    ctx.globalCompositeOperation = mode === 'add' ? 'source-over' : 'destination-out';
+    ctx.fillStyle = MASK_COLOR;
+    ctx.beginPath();
+    traceRegion(ctx, tool === 'rect' ? { tool: 'rect', inset } : { tool: 'lasso', points }, size.width, size.height);
+    ctx.fill();
+    setInset(EMPTY_INSET);
+    setPoints([]);
+    emitMask(mode === 'add' || (painted && hasPaint()));
+  };
+
+  const clearMask = () => {
+    const ctx = getContext();
+    if (ctx && size) ctx.clearRect(0, 0, size.width, size.height);
+    emitMask(false);
+  };
+
+  if (!size) {
+    return <div className="h-64 flex items-center justify-center text-zinc-500 text-sm">Loading image...</div>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-1 bg-zinc-900 border border-zinc-800 rounded-lg p-1">
+        {TOOLS.map(([id, Icon, label]) => (
+          <button
+            key={id}
+            onClick={() => { setTool(id); setInset(EMPTY_INSET); setPoints([]); }}
+            className={`p-1.5 rounded ${tool === id ? 'bg-indigo-600 text-white' : 'text-zinc-400 hover:bg-zinc-800 hover:text-white'}`}
+            title={label}
+          >
+            <Icon size={16} />
+          </button>
+        ))}
+        <div className="w-px h-5 bg-zinc-700 mx-1" />
+        {(tool === 'brush' || tool === 'eraser') ? (
+          <label className="flex items-center gap-2 text-xs text-zinc-500 flex-1">
+            Size
+            <input type="range" min="4" max="120" value={brushSize} onChange={(e) => setBrushSize(Number(e.target.value))} className="flex-1" />
+          </label>
+        ) : (
+          <div className="flex items-center gap-1 flex-1">
+            <button onClick={() => applyRegion('add')} disabled={!hasRegion} className="flex items-center gap-1 px-2 py-1 rounded text-xs text-zinc-300 hover:bg-zinc-800 disabled:opacity-30">
+              <Plus size={12} /> Add to mask
+            </button>
+            <button onClick={() => applyRegion('subtract')} disabled={!hasRegion} className="flex items-center gap-1 px-2 py-1 rounded text-xs text-zinc-300 hover:bg-zinc-800 disabled:opacity-30">
+              <Minus size={12} /> Cut from mask
+            </button>
+          </div>
+        )}
+        <button onClick={clearMask} disabled={!painted} className="p-1.5 rounded text-zinc-400 hover:text-red-400 hover:bg-zinc-800 disabled:opacity-30" title="Clear mask">
+          <Trash2 size={16} />
+        </button>
+      </div>
+
+      <div
+        className="relative mx-auto select-none touch-none bg-zinc-950 rounded-lg overflow-hidden cursor-crosshair"
+        style={{ aspectRatio: `${size.width} / ${size.height}`, width: `min(100%, ${MAX_DISPLAY_HEIGHT * size.width / size.height}px)` }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        <img src={image} alt="Source" className="absolute inset-0 w-full h-full pointer-events-none" draggable={false} />
+        <canvas ref={canvasRef} width={size.width} height={size.height} className="absolute inset-0 w-full h-full opacity-50 pointer-events-none" />
+        {(tool === 'rect' || tool === 'lasso') && <RegionOverlay tool={tool} inset={inset} points={points} />}
+      </div>
+
+      {tool === 'rect' && hasRegion && (
+        <InsetSliders inset={inset} onChange={setInset} max={100} />
+      )}
+      <p className="text-xs text-zinc-500">
+        {painted ? 'Edits will only change the highlighted area.' : 'Paint a mask to limit the edit to part of the image, or leave it empty to edit the whole image.'}
+      </p>
+    </div>
+  );
+};
+
+export default MaskEditor;
@@ -0,0 +1,54 @@
+import { EditStep } from '../../types';
+
+// Session edit history for the ImageEditor. Steps form a tree: editing from an
+// earlier step starts a branch. Each saved asset records the path that led to it.
+
+export interface EditNode extends EditStep {
+  parentId?: string;
+  assetId?: string; // Library asset holding this step's image
+}
+
+export interface EditRow {
+  node: EditNode;
+  depth: number;
+}
+
+export const newEditStepId = () => `step-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`;
+
+// Original first, `id` last
+export const getEditPath = (nodes: EditNode[], id: string): EditNode[] => {
+  const path: EditNode[] = [];
+  let current = nodes.find(n => n.id === id);
+  while (current) {
+    path.unshift(current);
+    const parentId = current.parentId;
+    current = parentId ? nodes.find(n => n.id === parentId) : undefined;
+  }
+  return path;
+};
+
+export const toLineage = (path: EditNode[]): EditStep[] =>
+  path.map(({ id, prompt, image, masked, createdAt }) => ({ id, prompt, image, masked, createdAt }));
+
+// Rebuilds a linear chain from a stored lineage so any step can be branched from
+export const nodesFromLineage = (lineage: EditStep[], assetId: string): EditNode[] =>
+  lineage.map((step, i) => ({
+    ...step,
+    parentId: i > 0 ? lineage[i - 1].id : undefined,
+    assetId: i === lineage.length - 1 ? assetId : undefined,
+  }));
+
+// Depth-first rows; the first child continues its parent's line and later
+// children (branches) are indented one level deeper
+export const getEditRows = (nodes: EditNode[]): EditRow[] => {
+  const rows: EditRow[] = [];
+  const visit = (node: EditNode, depth: number) => {
+    rows.push({ node, depth });
+    nodes
+      .filter(n => n.parentId === node.id)
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .forEach((child, i) => visit(child, i === 0 ? depth : depth + 1));
+  };
+  nodes.filter(n => !n.parentId).forEach(root => visit(root, 0));
+  return rows;
+};
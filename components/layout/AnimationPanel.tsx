@@ -0,0 +1,145 @@
+import React from 'react';
+import { LayoutItem, AnimatableProperty, AnimationPresetType, AnimationPreset, Easing } from '../../types';
+import {
+  EASINGS, EASING_LABELS, ANIMATABLE_PROPERTIES, PRESET_LABELS, createPreset, canAnimate, getPropertyValue,
+  getTrack, findKeyframeAt, setKeyframe, removeKeyframe, setKeyframeEasing, setPreset
+} from './animation';
+import { formatClipTime } from './videoClips';
+import { ChevronLeft, ChevronRight, Diamond } from 'lucide-react';
+
+interface AnimationPanelProps {
+  item: LayoutItem; // Posed at the playhead, so keyframes hold the values shown
+  time: number;
+  onEdit: (edit: (item: LayoutItem) => LayoutItem) => void; // Applied to the stored item, not its pose
+  onSeek: (time: number) => void;
+}
+
+// Keyframes at the playhead and enter/exit presets for the selected item
+const AnimationPanel: React.FC<AnimationPanelProps> = ({ item, time, onEdit, onSeek }) => {
+  // Adds a keyframe holding the current value, or removes the one at the playhead
+  const handleToggleKeyframe = (property: AnimatableProperty) => {
+    const existing = findKeyframeAt(item, property, time);
+    onEdit(stored => existing
+      ? removeKeyframe(stored, property, existing.id)
+      : setKeyframe(stored, property, time, getPropertyValue(item, property)));
+  };
+
+  const handleJumpToKeyframe = (property: AnimatableProperty, direction: -1 | 1) => {
+    const times = getTrack(item, property).map(k => k.time);
+    const target = direction < 0
+      ? [...times].reverse().find(t => t < time - 0.01)
+      : times.find(t => t > time + 0.01);
+    if (target !== undefined) onSeek(target);
+  };
+
+  const handlePresetChange = (kind: 'enter' | 'exit', type: AnimationPresetType | '') => {
+    // Switching preset keeps the timing already set up
+    const current = item.animation?.[kind];
+    onEdit(stored => setPreset(stored, kind, type ? { ...(current || createPreset(type)), type } : undefined));
+  };
+
+  const handlePresetPatch = (kind: 'enter' | 'exit', patch: Partial<AnimationPreset>) => {
+    const current = item.animation?.[kind];
+    if (!current) return;
+    onEdit(stored => setPreset(stored, kind, { ...current, ...patch }));
+  };
+
+  return (
+    <div>
+      <label className="text-xs text-zinc-500 font-medium mb-1 block">Animation · {formatClipTime(time)}</label>
+      <div className="space-y-1">
+        {ANIMATABLE_PROPERTIES.filter(p => canAnimate(item, p.id)).map(({ id: property, label }) => {
+          const track = getTrack(item, property);
+          const keyframe = findKeyframeAt(item, property, time);
+          return (
+            <div key={property} className="bg-zinc-950 rounded border border-zinc-800 flex items-center gap-1 px-2 py-1">
+              <button
+                onClick={() => handleJumpToKeyframe(property, -1)}
+                disabled={!track.some(k => k.time < time - 0.01)}
+                className="text-zinc-500 hover:text-white disabled:opacity-30"
+                title="Previous keyframe"
+              >
+                <ChevronLeft size={12} />
+              </button>
+              <button
+                onClick={() => handleToggleKeyframe(property)}
+                className={keyframe ? 'text-amber-400' : track.length ? 'text-amber-400/50 hover:text-amber-400' : 'text-zinc-600 hover:text-zinc-300'}
+                title={keyframe ? 'Remove keyframe at playhead' : 'Add keyframe at playhead'}
+              >
+                <Diamond size={12} fill={keyframe ? 'currentColor' : 'none'} />
+              </button>
+              <button
+                onClick={() => handleJumpToKeyframe(property, 1)}
+                disabled={!track.some(k => k.time > time + 0.01)}
+                className="text-zinc-500 hover:text-white disabled:opacity-30"
+                title="Next keyframe"
+              >
+                <ChevronRight size={12} />
+              </button>
+              <span className="text-xs text-zinc-300 flex-1 ml-1">{label}</span>
+              {keyframe ? (
+                <select
+                  value={keyframe.easing}
+                  onChange={(e) => onEdit(stored => setKeyframeEasing(stored, property, keyframe.id, e.target.value as Easing))}
+                  className="bg-zinc-900 border border-zinc-800 rounded text-[10px] text-zinc-300 py-0.5"
+                  title="Easing into the next keyframe"
+                >
+                  {(Object.keys(EASINGS) as Easing[]).map(easing => (
+                    <option key={easing} value={easing}>{EASING_LABELS[easing]}</option>
+                  ))}
+                </select>
+              ) : track.length > 0 && (
+                <span className="text-[10px] text-zinc-500">{track.length} key{track.length === 1 ? '' : 's'}</span>
+              )}
+            </div>
+          );
+        })}
+        {(['enter', 'exit'] as const).map(kind => {
+          const preset = item.animation?.[kind];
+          return (
+            <div key={kind} className="bg-zinc-950 rounded border border-zinc-800 px-2 py-1 space-y-1">
+              <div className="flex items-center gap-2">
+                <span className="text-zinc-500 text-[10px] w-8">{kind === 'enter' ? 'Enter' : 'Exit'}</span>
+                <select
+                  value={preset?.type || ''}
+                  onChange={(e) => handlePresetChange(kind, e.target.value as AnimationPresetType | '')}
+                  className="flex-1 bg-zinc-900 border border-zinc-800 rounded text-xs text-zinc-300 py-0.5"
+                >
+                  <option value="">None</option>
+                  {(Object.keys(PRESET_LABELS) as AnimationPresetType[]).map(type => (
+                    <option key={type} value={type}>{PRESET_LABELS[type]}</option>
+                  ))}
+                </select>
+              </div>
+              {preset && (
+                <div className="grid grid-cols-3 gap-1">
+                  {(['duration', 'delay'] as const).map(key => (
+                    <input
+                      key={key}
+                      type="number" min="0" step="0.1"
+                      value={preset[key]}
+                      onChange={(e) => handlePresetPatch(kind, { [key]: Math.max(0, Number(e.target.value)) })}
+                      className="bg-zinc-900 border border-zinc-800 rounded text-xs text-white px-1 py-0.5 focus:outline-none"
+                      title={key === 'duration' ? 'Duration (s)' : kind === 'enter' ? 'Delay from start (s)' : 'Ends this long before the end (s)'}
+                    />
+                  ))}
+                  <select
+                    value={preset.easing}
+                    onChange={(e) => handlePresetPatch(kind, { easing: e.target.value as Easing })}
+                    className="bg-zinc-900 border border-zinc-800 rounded text-[10px] text-zinc-300 py-0.5"
+                  >
+                    {(Object.keys(EASINGS) as Easing[]).map(easing => (
+                      <option key={easing} value={easing}>{EASING_LABELS[easing]}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default AnimationPanel;
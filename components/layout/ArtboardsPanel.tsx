@@ -0,0 +1,111 @@
+import React from 'react';
+import { Artboard } from '../../types';
+import { ARTBOARD_PRESETS, findPreset } from './artboards';
+import { Download, Frame, Plus, Trash2 } from 'lucide-react';
+
+interface ArtboardsPanelProps {
+  artboards: Artboard[];
+  activeArtboard?: Artboard;
+  onSelect: (id: string) => void;
+  onZoomTo: (artboard: Artboard) => void;
+  onAdd: () => void;
+  onChange: (id: string, patch: Partial<Artboard>) => void;
+  onDelete: (artboard: Artboard) => void;
+  onExportAll: () => void;
+}
+
+// The document's artboards, with size, position and background of the active one
+const ArtboardsPanel: React.FC<ArtboardsPanelProps> = ({
+  artboards, activeArtboard, onSelect, onZoomTo, onAdd, onChange, onDelete, onExportAll
+}) => (
+  <>
+    <div>
+      <div className="flex items-center justify-between mb-1">
+        <label className="text-xs text-zinc-500 font-medium">Artboards</label>
+        <button onClick={onAdd} className="text-zinc-500 hover:text-white p-0.5" title="Add Artboard">
+          <Plus size={14} />
+        </button>
+      </div>
+      <div className="space-y-1">
+        {artboards.map(artboard => (
+          <div
+            key={artboard.id}
+            onClick={() => onSelect(artboard.id)}
+            onDoubleClick={() => onZoomTo(artboard)}
+            className={`group flex items-center gap-2 px-2 py-1.5 rounded cursor-pointer text-xs ${artboard.id === activeArtboard?.id ? 'bg-indigo-600/20 text-indigo-300' : 'text-zinc-400 hover:bg-zinc-800'}`}
+            title="Double-click to zoom to this artboard"
+          >
+            <Frame size={12} className="shrink-0" />
+            <span className="flex-1 truncate">{artboard.name}</span>
+            <span className="text-[10px] text-zinc-600">{artboard.width}×{artboard.height}</span>
+            {artboards.length > 1 && (
+              <button
+                onClick={(e) => { e.stopPropagation(); onDelete(artboard); }}
+                className="text-zinc-600 hover:text-red-400 opacity-0 group-hover:opacity-100"
+                title="Delete Artboard"
+              >
+                <Trash2 size={12} />
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+
+    {activeArtboard && (
+      <div className="space-y-2">
+        <input
+          value={activeArtboard.name}
+          onChange={(e) => onChange(activeArtboard.id, { name: e.target.value })}
+          className="w-full bg-zinc-950 border border-zinc-800 rounded px-2 py-1 text-white text-sm focus:outline-none focus:border-indigo-500"
+        />
+        <select
+          value={findPreset(activeArtboard)?.id || ''}
+          onChange={(e) => {
+            const preset = ARTBOARD_PRESETS.find(p => p.id === e.target.value);
+            if (preset) onChange(activeArtboard.id, { width: preset.width, height: preset.height });
+          }}
+          className="w-full bg-zinc-950 border border-zinc-800 rounded px-2 py-1 text-white text-sm focus:outline-none"
+        >
+          <option value="" disabled>Custom</option>
+          {ARTBOARD_PRESETS.map(p => (
+            <option key={p.id} value={p.id}>{p.label} · {p.width}×{p.height}</option>
+          ))}
+        </select>
+        <div className="grid grid-cols-2 gap-2">
+          {(['width', 'height', 'x', 'y'] as const).map(key => (
+            <div key={key} className="bg-zinc-950 rounded border border-zinc-800 flex items-center px-2">
+              <span className="text-zinc-500 text-xs w-4 uppercase">{key === 'width' ? 'W' : key === 'height' ? 'H' : key}</span>
+              <input
+                type="number"
+                min={key === 'width' || key === 'height' ? 1 : undefined}
+                value={activeArtboard[key]}
+                onChange={(e) => {
+                  const value = Math.round(Number(e.target.value));
+                  onChange(activeArtboard.id, { [key]: key === 'width' || key === 'height' ? Math.max(1, value) : value });
+                }}
+                className="w-full bg-transparent border-none text-white text-sm py-1 focus:ring-0"
+              />
+            </div>
+          ))}
+        </div>
+        <div className="bg-zinc-950 rounded border border-zinc-800 flex items-center px-2 py-1 gap-2">
+          <input
+            type="color"
+            value={activeArtboard.background}
+            onChange={(e) => onChange(activeArtboard.id, { background: e.target.value })}
+            className="w-8 h-6 bg-transparent border-none cursor-pointer"
+          />
+          <span className="text-xs text-zinc-400 font-mono">{activeArtboard.background}</span>
+        </div>
+        {artboards.length > 1 && (
+          <button onClick={onExportAll} className="w-full py-1.5 bg-zinc-800 hover:bg-zinc-700 rounded text-xs text-zinc-300 flex items-center justify-center gap-2">
+            <Download size={12} /> Export All Artboards
+          </button>
+        )}
+      </div>
+    )}
+  </>
+);
+
+export default ArtboardsPanel;
@@ -0,0 +1,67 @@
+import React from 'react';
+import { useBrandKits, setActiveBrandKit } from '../../services/brandKitStore';
+import { Palette } from 'lucide-react';
+
+interface BrandSwatchesProps {
+  colorTarget: string; // Describes what a color click recolors, for the tooltip
+  onColor: (hex: string) => void;
+  onFont?: (family: string) => void; // Omitted when no text is selected
+}
+
+// The active brand kit's palette and fonts as one-click swatches
+const BrandSwatches: React.FC<BrandSwatchesProps> = ({ colorTarget, onColor, onFont }) => {
+  const { kits, activeKit } = useBrandKits();
+
+  if (kits.length === 0) return null;
+
+  return (
+    <div className="mt-6 pt-4 border-t border-zinc-800">
+      <label className="flex items-center gap-2 text-xs text-zinc-500 font-medium mb-2">
+        <Palette size={12} /> Brand Kit
+      </label>
+      <select
+        value={activeKit?.id || ''}
+        onChange={(e) => setActiveBrandKit(e.target.value || null)}
+        className="w-full bg-zinc-950 border border-zinc-800 rounded px-2 py-1 text-white text-sm focus:outline-none mb-3"
+      >
+        <option value="">No brand kit</option>
+        {kits.map(kit => <option key={kit.id} value={kit.id}>{kit.name}</option>)}
+      </select>
+      {activeKit && (
+        <div className="space-y-3">
+          {activeKit.colors.length > 0 && (
+            <div className="flex flex-wrap gap-1.5">
+              {activeKit.colors.map((color, i) => (
+                <button
+                  key={i}
+                  onClick={() => onColor(color.hex)}
+                  className="w-6 h-6 rounded border border-zinc-700 hover:scale-110 transition-transform"
+                  style={{ backgroundColor: color.hex }}
+                  title={`${color.name} ${color.hex} · apply to ${colorTarget}`}
+                />
+              ))}
+            </div>
+          )}
+          {activeKit.fonts.length > 0 && (
+            <div className="space-y-1">
+              {activeKit.fonts.map(font => (
+                <button
+                  key={font}
+                  onClick={() => onFont?.(font)}
+                  disabled={!onFont}
+                  className="w-full text-left px-2 py-1 rounded bg-zinc-950 border border-zinc-800 text-sm text-zinc-200 truncate enabled:hover:border-indigo-500 disabled:opacity-50"
+                  style={{ fontFamily: font }}
+                  title={onFont ? `Apply ${font} to selected text` : 'Select text to apply a brand font'}
+                >
+                  {font}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BrandSwatches;
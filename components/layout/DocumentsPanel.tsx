@@ -0,0 +1,170 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { LayoutDocument, LayoutVersion } from '../../types';
+import {
+  listLayouts, listVersions, saveLayout, createLayoutDocument, duplicateLayout,
+  deleteLayout, exportLayoutFile, importLayoutFile
+} from '../../services/layoutStore';
+import { X, FilePlus, Copy, Trash2, Download, Upload, History, FileText, Loader2 } from 'lucide-react';
+
+interface DocumentsPanelProps {
+  current: LayoutDocument; // Includes unsaved edits, so exports match the canvas
+  onOpen: (doc: LayoutDocument) => void;
+  onRestoreVersion: (version: LayoutVersion) => void;
+  onClose: () => void;
+}
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+// Modal for switching between saved layout documents and browsing versions
+const DocumentsPanel: React.FC<DocumentsPanelProps> = ({ current, onOpen, onRestoreVersion, onClose }) => {
+  const [documents, setDocuments] = useState<LayoutDocument[]>([]);
+  const [versions, setVersions] = useState<LayoutVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = async () => {
+    try {
+      const [docs, docVersions] = await Promise.all([listLayouts(), listVersions(current.id)]);
+      setDocuments(docs);
+      setVersions(docVersions);
+    } catch (e: any) {
+      console.error(e);
+      alert(e.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, [current.id]);
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      await action();
+    } catch (e: any) {
+      console.error(e);
+      alert(e.message);
+    }
+  };
+
+  const handleNew = () => run(async () => onOpen(await saveLayout(createLayoutDocument())));
+
+  const handleDuplicate = () => run(async () => onOpen(await duplicateLayout(current)));
+
+  const handleDelete = (doc: LayoutDocument) => run(async () => {
+    if (!confirm(`Delete "${doc.name}" and all of its versions?`)) return;
+    await deleteLayout(doc.id);
+    await refresh();
+  });
+
+  const handleExport = () => run(async () => {
+    const blob = await exportLayoutFile(current);
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.download = `${current.name.replace(/[^a-z0-9-_ ]/gi, '').trim() || 'layout'}.json`;
+    link.href = url;
+    link.click();
+    URL.revokeObjectURL(url);
+  });
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    run(async () => onOpen(await importLayoutFile(await file.text())));
+  };
+
+  const handleRestore = (version: LayoutVersion) => {
+    if (!confirm(`Restore "${version.label}"? Current changes stay available through undo.`)) return;
+    onRestoreVersion(version);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-6" onMouseDown={onClose}>
+      <div
+        className="bg-zinc-900 border border-zinc-800 rounded-xl shadow-2xl w-full max-w-3xl max-h-[80vh] flex flex-col"
+        onMouseDown={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-5 py-3 border-b border-zinc-800">
+          <h3 className="text-sm font-semibold text-zinc-200">Layout Documents</h3>
+          <button onClick={onClose} className="text-zinc-500 hover:text-white p-1"><X size={16} /></button>
+        </div>
+
+        <div className="flex items-center gap-2 px-5 py-3 border-b border-zinc-800">
+          <button onClick={handleNew} className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white px-3 py-1.5 rounded text-sm">
+            <FilePlus size={14} /> New
+          </button>
+          <button onClick={handleDuplicate} className="flex items-center gap-2 bg-zinc-800 hover:bg-zinc-700 text-zinc-200 px-3 py-1.5 rounded text-sm">
+            <Copy size={14} /> Duplicate
+          </button>
+          <div className="flex-1" />
+          <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-2 bg-zinc-800 hover:bg-zinc-700 text-zinc-200 px-3 py-1.5 rounded text-sm">
+            <Upload size={14} /> Import JSON
+          </button>
+          <input type="file" ref={fileInputRef} onChange={handleImport} className="hidden" accept="application/json,.json" />
+          <button onClick={handleExport} className="flex items-center gap-2 bg-zinc-800 hover:bg-zinc-700 text-zinc-200 px-3 py-1.5 rounded text-sm">
+            <Download size={14} /> Export JSON
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-16 text-zinc-500">
+            <Loader2 size={20} className="animate-spin" />
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 divide-x divide-zinc-800 min-h-0 flex-1">
+            <div className="overflow-y-auto p-3 space-y-1">
+              {documents.map(doc => (
+                <div
+                  key={doc.id}
+                  className={`group flex items-center gap-3 px-3 py-2 rounded cursor-pointer ${doc.id === current.id ? 'bg-indigo-600/20 border border-indigo-500/40' : 'hover:bg-zinc-800 border border-transparent'}`}
+                  onClick={() => doc.id !== current.id && onOpen(doc)}
+                >
+                  <FileText size={16} className="text-zinc-500 shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-zinc-200 truncate">{doc.id === current.id ? current.name : doc.name}</p>
+                    <p className="text-[10px] text-zinc-500">{doc.artboards.length} artboard{doc.artboards.length === 1 ? '' : 's'} · {formatDate(doc.updatedAt)}</p>
+                  </div>
+                  {doc.id !== current.id && (
+                    <button
+                      onClick={(e) => { e.stopPropagation(); handleDelete(doc); }}
+                      className="text-zinc-600 hover:text-red-400 opacity-0 group-hover:opacity-100 p-1"
+                      title="Delete"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <div className="overflow-y-auto p-3">
+              <p className="flex items-center gap-2 text-xs text-zinc-500 font-medium mb-2 px-1">
+                <History size={12} /> Versions of "{current.name}"
+              </p>
+              {versions.length === 0 ? (
+                <p className="text-xs text-zinc-600 italic px-1">No saved versions yet. Use Save Version (Ctrl+S) to keep a snapshot.</p>
+              ) : (
+                <div className="space-y-1">
+                  {versions.map(version => (
+                    <div key={version.id} className="flex items-center gap-3 px-3 py-2 rounded hover:bg-zinc-800">
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm text-zinc-200 truncate">{version.label}</p>
+                        <p className="text-[10px] text-zinc-500">{version.snapshot.items.length} items · {formatDate(version.createdAt)}</p>
+                      </div>
+                      <button onClick={() => handleRestore(version)} className="text-xs text-indigo-400 hover:text-indigo-300">Restore</button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DocumentsPanel;
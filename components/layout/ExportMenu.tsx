@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { Artboard } from '../../types';
+import { LayoutExportFormat } from './useLayoutExport';
+import { VideoFormat, getRecordingMimeType } from './videoExport';
+import { formatClipTime } from './videoClips';
+import { ChevronDown, Download, Loader2 } from 'lucide-react';
+
+interface ExportMenuProps {
+  artboard?: Artboard; // Active artboard; every format but PDF exports only this one
+  artboardCount: number;
+  animated: boolean; // Whether anything on the artboard moves, for GIF and video
+  length: number; // Timeline length in seconds
+  exporting: boolean;
+  progress: number | null; // 0-1 while an animated export renders
+  onExport: (format: LayoutExportFormat) => void;
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ artboard, artboardCount, animated, length, exporting, progress, onExport }) => {
+  const [open, setOpen] = useState(false);
+
+  const handleExport = (format: LayoutExportFormat) => {
+    setOpen(false);
+    onExport(format);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={exporting}
+        className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white px-3 py-1.5 rounded text-sm"
+      >
+        {exporting ? <Loader2 size={16} className="animate-spin" /> : <Download size={16} />}
+        {progress !== null ? `Rendering ${Math.round(progress * 100)}%` : 'Export'} <ChevronDown size={14} />
+      </button>
+      {open && artboard && (
+        <div className="absolute right-0 top-full mt-1 w-64 bg-zinc-900 border border-zinc-700 rounded-lg shadow-2xl z-50 py-1">
+          {([
+            ['png', 'PNG', `${artboard.name} · ${artboard.width}×${artboard.height}`],
+            ['svg', 'SVG (vector)', `${artboard.name}, text stays editable`],
+            ['pdf', 'PDF (vector)', `${artboardCount} page${artboardCount === 1 ? '' : 's'}, one per artboard`],
+          ] as ['png' | 'svg' | 'pdf', string, string][]).map(([format, label, hint]) => (
+            <button key={format} onClick={() => handleExport(format)} className="w-full text-left px-3 py-2 hover:bg-zinc-800">
+              <p className="text-sm text-zinc-200">{label}</p>
+              <p className="text-[10px] text-zinc-500">{hint}</p>
+            </button>
+          ))}
+          <div className="border-t border-zinc-800 my-1" />
+          {(['gif', 'mp4', 'webm'] as ('gif' | VideoFormat)[]).map(format => {
+            const supported = format === 'gif' || !!getRecordingMimeType(format);
+            return (
+              <button
+                key={format}
+                onClick={() => handleExport(format)}
+                disabled={!supported || !animated}
+                className="w-full text-left px-3 py-2 hover:bg-zinc-800 disabled:opacity-40 disabled:hover:bg-transparent"
+              >
+                <p className="text-sm text-zinc-200">{format.toUpperCase()} ({format === 'gif' ? 'animated' : 'video'})</p>
+                <p className="text-[10px] text-zinc-500">
+                  {!supported ? 'Not supported by this browser'
+                    : !animated ? `Nothing animates on ${artboard.name}`
+                    : `${artboard.name} · ${formatClipTime(length)}${format === 'gif' ? ', up to 800px' : ', renders in real time'}`}
+                </p>
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
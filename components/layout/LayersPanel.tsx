@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { LayoutItem } from '../../types';
+import { DropPosition, getLayerRows, getLayerName } from './layers';
+import { getRichText } from './richText';
+import { getVideoClip } from './videoClips';
+import { Eye, EyeOff, Lock, Unlock, Group, GripVertical, Film } from 'lucide-react';
+
+interface LayersPanelProps {
+  items: LayoutItem[];
+  selectedIds: string[];
+  onSelect: (id: string, additive: boolean) => void;
+  onMove: (id: string, targetId: string, position: DropPosition) => void;
+  onToggleHidden: (id: string) => void;
+  onToggleLocked: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+}
+
+const LayerThumbnail: React.FC<{ item: LayoutItem }> = ({ item }) => {
+  const base = 'w-7 h-7 rounded border border-zinc-700 shrink-0 overflow-hidden flex items-center justify-center bg-zinc-950';
+  switch (item.type) {
+    case 'image':
+      return <div className={base}><img src={item.content} alt="" className="w-full h-full object-cover" /></div>;
+    case 'video': {
+      const poster = getVideoClip(item).poster;
+      return <div className={base}>{poster ? <img src={poster} alt="" className="w-full h-full object-cover" /> : <Film size={14} className="text-zinc-400" />}</div>;
+    }
+    case 'text':
+      return (
+        <div className={base}>
+          <span className="text-xs font-bold" style={{ color: getRichText(item).style.color }}>T</span>
+        </div>
+      );
+    case 'shape':
+      return (
+        <div className={base}>
+          <div
+            className={item.shapeType === 'line' ? 'w-5 h-0.5' : 'w-4 h-4'}
+            style={{ backgroundColor: item.color, borderRadius: item.shapeType === 'circle' ? '50%' : undefined }}
+          />
+        </div>
+      );
+    case 'group':
+    default:
+      return <div className={base}><Group size={14} className="text-zinc-400" /></div>;
+  }
+};
+
+// Top of the stack is listed first. Rows are dragged with native drag and drop;
+// the drop position depends on which half of the target row the pointer is over.
+const LayersPanel: React.FC<LayersPanelProps> = ({
+  items, selectedIds, onSelect, onMove, onToggleHidden, onToggleLocked, onRename
+}) => {
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ id: string, position: DropPosition } | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+
+  const rows = getLayerRows(items);
+
+  const handleDragOver = (e: React.DragEvent, id: string) => {
+    if (!draggingId || draggingId === id) return;
+    e.preventDefault();
+    const rect = e.currentTarget.getBoundingClientRect();
+    // The list runs top-down, so the upper half means "above" in the stack
+    const position: DropPosition = e.clientY < rect.top + rect.height / 2 ? 'above' : 'below';
+    setDropTarget({ id, position });
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    if (draggingId && dropTarget) onMove(draggingId, dropTarget.id, dropTarget.position);
+    setDraggingId(null);
+    setDropTarget(null);
+  };
+
+  if (rows.length === 0) {
+    return <p className="text-zinc-600 text-sm italic">No layers yet. Add assets, text or shapes to the canvas.</p>;
+  }
+
+  return (
+    <div className="space-y-0.5" onDragLeave={(e) => { if (e.currentTarget === e.target) setDropTarget(null); }}>
+      {rows.map(({ item, depth }) => {
+        const isSelected = selectedIds.includes(item.id);
+        const isDropTarget = dropTarget?.id === item.id;
+        return (
+          <div
+            key={item.id}
+            draggable={renamingId !== item.id}
+            onDragStart={(e) => {
+              e.dataTransfer.effectAllowed = 'move';
+              setDraggingId(item.id);
+            }}
+            onDragEnd={() => { setDraggingId(null); setDropTarget(null); }}
+            onDragOver={(e) => handleDragOver(e, item.id)}
+            onDrop={handleDrop}
+            onClick={(e) => onSelect(item.id, e.shiftKey)}
+            className={`group relative flex items-center gap-2 pr-1 py-1 rounded cursor-pointer text-xs ${isSelected ? 'bg-indigo-600/20 text-indigo-200' : 'text-zinc-300 hover:bg-zinc-800'} ${draggingId === item.id ? 'opacity-40' : ''}`}
+            style={{ paddingLeft: 4 + depth * 14 }}
+          >
+            {isDropTarget && (
+              <div className={`absolute left-0 right-0 h-0.5 bg-indigo-500 ${dropTarget.position === 'above' ? 'top-0' : 'bottom-0'}`} />
+            )}
+            <GripVertical size={12} className="text-zinc-600 shrink-0 cursor-grab" />
+            <LayerThumbnail item={item} />
+            {renamingId === item.id ? (
+              <input
+                autoFocus
+                defaultValue={getLayerName(item)}
+                onClick={(e) => e.stopPropagation()}
+                onBlur={(e) => { onRename(item.id, e.target.value.trim()); setRenamingId(null); }}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') e.currentTarget.blur();
+                  if (e.key === 'Escape') setRenamingId(null);
+                }}
+                className="flex-1 min-w-0 bg-zinc-950 border border-indigo-500 rounded px-1 py-0.5 text-white focus:outline-none"
+              />
+            ) : (
+              <span
+                className={`flex-1 truncate ${item.hidden ? 'text-zinc-600' : ''}`}
+                onDoubleClick={(e) => { e.stopPropagation(); setRenamingId(item.id); }}
+                title="Double-click to rename"
+              >
+                {getLayerName(item)}
+              </span>
+            )}
+            <button
+              onClick={(e) => { e.stopPropagation(); onToggleLocked(item.id); }}
+              className={`p-0.5 ${item.locked ? 'text-amber-400' : 'text-zinc-600 opacity-0 group-hover:opacity-100 hover:text-white'}`}
+              title={item.locked ? 'Unlock' : 'Lock'}
+            >
+              {item.locked ? <Lock size={12} /> : <Unlock size={12} />}
+            </button>
+            <button
+              onClick={(e) => { e.stopPropagation(); onToggleHidden(item.id); }}
+              className={`p-0.5 ${item.hidden ? 'text-zinc-500' : 'text-zinc-600 opacity-0 group-hover:opacity-100 hover:text-white'}`}
+              title={item.hidden ? 'Show' : 'Hide'}
+            >
+              {item.hidden ? <EyeOff size={12} /> : <Eye size={12} />}
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default LayersPanel;
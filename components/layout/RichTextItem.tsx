@@ -0,0 +1,127 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { LayoutItem, TextRun } from '../../types';
+import { getRichText, textStyleToCss, runToCss, runsToHtml, parseEditableDom } from './richText';
+import { Bold, Italic } from 'lucide-react';
+
+interface RichTextItemProps {
+  item: LayoutItem;
+  editing: boolean;
+  onCommit: (runs: TextRun[]) => void;
+  onExit: () => void;
+}
+
+// Renders a text item's runs; while editing it becomes a contentEditable with a
+// small floating toolbar for per-run bold/italic/color.
+const RichTextItem: React.FC<RichTextItemProps> = ({ item, editing, onCommit, onExit }) => {
+  const { runs, style } = getRichText(item);
+  const editorRef = useRef<HTMLDivElement>(null);
+  const toolbarRef = useRef<HTMLDivElement>(null);
+  // The color picker takes focus, so the text selection is parked here meanwhile
+  const savedRange = useRef<Range | null>(null);
+  const [runColor, setRunColor] = useState('#ffffff');
+
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!editing || !editor) return;
+    editor.innerHTML = runsToHtml(runs);
+    editor.focus();
+    // Select everything so typing replaces placeholder text
+    const range = document.createRange();
+    range.selectNodeContents(editor);
+    const selection = window.getSelection();
+    selection?.removeAllRanges();
+    selection?.addRange(range);
+    // Seed once per editing session; later renders must not clobber the DOM
+  }, [editing]);
+
+  const applyFormat = (command: 'bold' | 'italic' | 'foreColor', value?: string) => {
+    editorRef.current?.focus();
+    if (savedRange.current) {
+      const selection = window.getSelection();
+      selection?.removeAllRanges();
+      selection?.addRange(savedRange.current);
+      savedRange.current = null;
+    }
+    document.execCommand('styleWithCSS', false, 'true');
+    document.execCommand(command, false, value);
+  };
+
+  const finishEditing = () => {
+    if (editorRef.current) onCommit(parseEditableDom(editorRef.current));
+    onExit();
+  };
+
+  const handleBlur = (e: React.FocusEvent) => {
+    if (toolbarRef.current?.contains(e.relatedTarget as Node)) {
+      const selection = window.getSelection();
+      savedRange.current = selection && selection.rangeCount ? selection.getRangeAt(0).cloneRange() : null;
+      return;
+    }
+    finishEditing();
+  };
+
+  const handleToolbarBlur = (e: React.FocusEvent) => {
+    const next = e.relatedTarget as Node | null;
+    if (next && (editorRef.current?.contains(next) || toolbarRef.current?.contains(next))) return;
+    finishEditing();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      editorRef.current?.blur();
+    }
+    // Keep canvas shortcuts (Delete, Ctrl+G) from firing while typing
+    e.stopPropagation();
+  };
+
+  const textCss = textStyleToCss(style);
+
+  if (editing) {
+    return (
+      <>
+        <div
+          ref={toolbarRef}
+          data-html2canvas-ignore
+          className="absolute -top-10 left-0 bg-zinc-800 rounded flex items-center p-1 shadow-xl border border-zinc-700 gap-1 z-50"
+          onMouseDown={e => {
+            e.stopPropagation();
+            // Buttons must not steal focus from the editor; the color input needs it to open
+            if (!(e.target instanceof HTMLInputElement)) e.preventDefault();
+          }}
+          onBlur={handleToolbarBlur}
+        >
+          <button onClick={() => applyFormat('bold')} className="p-1 rounded hover:bg-zinc-700 text-zinc-200" title="Bold"><Bold size={14} /></button>
+          <button onClick={() => applyFormat('italic')} className="p-1 rounded hover:bg-zinc-700 text-zinc-200" title="Italic"><Italic size={14} /></button>
+          <input
+            type="color"
+            value={runColor}
+            onChange={(e) => { setRunColor(e.target.value); applyFormat('foreColor', e.target.value); }}
+            className="w-6 h-6 bg-transparent border-none cursor-pointer"
+            title="Selection color"
+          />
+        </div>
+        <div
+          ref={editorRef}
+          contentEditable
+          suppressContentEditableWarning
+          onBlur={handleBlur}
+          onKeyDown={handleKeyDown}
+          onMouseDown={e => e.stopPropagation()}
+          className="w-full h-full p-2 outline-none cursor-text ring-2 ring-teal-400 overflow-hidden"
+          style={textCss}
+        />
+      </>
+    );
+  }
+
+  return (
+    <div className="w-full h-full p-2 overflow-hidden" style={textCss}>
+      {runs.map((run, i) => (
+        <span key={i} style={runToCss(run)}>{run.text}</span>
+      ))}
+    </div>
+  );
+};
+
+export default RichTextItem;
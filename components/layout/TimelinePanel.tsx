@@ -0,0 +1,215 @@
+import React, { useEffect, useState } from 'react';
+import { AnimatableProperty, LayoutItem } from '../../types';
+import { ANIMATABLE_PROPERTIES, getTrack } from './animation';
+import { getLayerRows, getLayerName } from './layers';
+import { getVideoClip, getClipLength, formatClipTime } from './videoClips';
+import { Play, Pause, SkipBack, ChevronUp, ChevronDown } from 'lucide-react';
+
+interface TimelinePanelProps {
+  items: LayoutItem[];
+  selectedIds: string[];
+  time: number;
+  length: number;
+  duration?: number; // The document's own length setting
+  playing: boolean;
+  expanded: boolean;
+  onToggleExpanded: () => void;
+  onTogglePlay: () => void;
+  onSeek: (time: number) => void;
+  onDurationChange: (duration: number) => void;
+  onSelect: (id: string, additive: boolean) => void;
+  onMoveKeyframe: (itemId: string, property: AnimatableProperty, keyframeId: string, time: number) => void;
+  onRemoveKeyframe: (itemId: string, property: AnimatableProperty, keyframeId: string) => void;
+}
+
+interface KeyframeDrag {
+  itemId: string;
+  property: AnimatableProperty;
+  keyframeId: string;
+  track: DOMRect;
+  time: number;
+}
+
+const KEYFRAME_SNAP = 0.05; // Seconds
+
+const percent = (time: number, length: number) => `${Math.min(100, (time / length) * 100)}%`;
+
+// Transport plus a track per layer: clip spans, enter/exit presets and keyframes.
+// The selected item's tracks are listed per property, where keyframes can be
+// dragged to retime them and double-clicked to delete them.
+const TimelinePanel: React.FC<TimelinePanelProps> = ({
+  items, selectedIds, time, length, duration, playing, expanded,
+  onToggleExpanded, onTogglePlay, onSeek, onDurationChange, onSelect, onMoveKeyframe, onRemoveKeyframe
+}) => {
+  const [scrubTrack, setScrubTrack] = useState<DOMRect | null>(null);
+  const [drag, setDrag] = useState<KeyframeDrag | null>(null);
+
+  const timeAt = (clientX: number, track: DOMRect) =>
+    Math.min(length, Math.max(0, ((clientX - track.left) / track.width) * length));
+
+  useEffect(() => {
+    if (!scrubTrack) return;
+    const handleMove = (e: MouseEvent) => onSeek(timeAt(e.clientX, scrubTrack));
+    const handleUp = () => setScrubTrack(null);
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+  }, [scrubTrack]);
+
+  // The keyframe only moves in the document on release, so a drag is one undo step
+  useEffect(() => {
+    if (!drag) return;
+    const handleMove = (e: MouseEvent) => {
+      const snapped = Math.round(timeAt(e.clientX, drag.track) / KEYFRAME_SNAP) * KEYFRAME_SNAP;
+      setDrag({ ...drag, time: snapped });
+    };
+    const handleUp = () => {
+      onMoveKeyframe(drag.itemId, drag.property, drag.keyframeId, drag.time);
+      setDrag(null);
+    };
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+  }, [drag]);
+
+  const startScrub = (e: React.MouseEvent<HTMLDivElement>) => {
+    const track = e.currentTarget.getBoundingClientRect();
+    onSeek(timeAt(e.clientX, track));
+    setScrubTrack(track);
+  };
+
+  const rows = getLayerRows(items).filter(row => row.item.type !== 'group');
+  const seconds = Array.from({ length: Math.floor(length) + 1 }, (_, i) => i);
+
+  const keyframeMarker = (item: LayoutItem, property: AnimatableProperty, id: string, at: number, editable: boolean) => {
+    const dragging = drag?.keyframeId === id;
+    return (
+      <div
+        key={`${property}-${id}`}
+        onMouseDown={editable ? (e) => {
+          e.stopPropagation();
+          const track = e.currentTarget.parentElement?.getBoundingClientRect();
+          if (track) setDrag({ itemId: item.id, property, keyframeId: id, track, time: at });
+          onSeek(at);
+        } : undefined}
+        onDoubleClick={editable ? () => onRemoveKeyframe(item.id, property, id) : undefined}
+        className={`absolute top-1/2 w-2.5 h-2.5 rotate-45 -translate-x-1/2 -translate-y-1/2 border ${
+          dragging ? 'bg-white border-white' : 'bg-amber-400 border-amber-600'
+        } ${editable ? 'cursor-ew-resize' : 'pointer-events-none'}`}
+        style={{ left: percent(dragging ? drag.time : at, length) }}
+        title={editable ? `${formatClipTime(at)} · drag to move, double-click to delete` : undefined}
+      />
+    );
+  };
+
+  return (
+    <div className="border-t border-zinc-800 bg-zinc-900 shrink-0">
+      <div className="h-11 flex items-center gap-3 px-4">
+        <button onClick={() => onSeek(0)} className="p-1 text-zinc-400 hover:text-white" title="Back to Start">
+          <SkipBack size={16} />
+        </button>
+        <button onClick={onTogglePlay} className="p-1.5 rounded-full bg-indigo-600 hover:bg-indigo-700 text-white" title={playing ? 'Pause' : 'Play'}>
+          {playing ? <Pause size={14} /> : <Play size={14} />}
+        </button>
+        <span className="text-xs text-zinc-400 font-mono">
+          {formatClipTime(Math.min(time, length))} / {formatClipTime(length)}
+        </span>
+        {!expanded && (
+          <div className="flex-1 h-1.5 bg-zinc-800 rounded-full relative cursor-pointer" onMouseDown={startScrub}>
+            <div className="absolute inset-y-0 left-0 bg-indigo-500 rounded-full" style={{ width: percent(time, length) }} />
+          </div>
+        )}
+        <label className={`flex items-center gap-1 text-[10px] text-zinc-500 ${expanded ? 'ml-auto' : ''}`} title="Timeline length; clips and keyframes can make it longer">
+          Length
+          <input
+            type="number" min="0.5" step="0.5"
+            value={duration ?? length}
+            onChange={(e) => onDurationChange(Math.max(0.5, Number(e.target.value)))}
+            className="w-14 bg-zinc-950 border border-zinc-800 rounded px-1 py-0.5 text-xs text-white focus:outline-none"
+          />
+          s
+        </label>
+        <button onClick={onToggleExpanded} className="flex items-center gap-1 text-xs text-zinc-400 hover:text-white">
+          Timeline {expanded ? <ChevronDown size={14} /> : <ChevronUp size={14} />}
+        </button>
+      </div>
+
+      {expanded && (
+        <div className="max-h-56 overflow-y-auto border-t border-zinc-800 text-xs">
+          {/* Ruler */}
+          <div className="flex sticky top-0 z-10 bg-zinc-900">
+            <div className="w-40 shrink-0 border-r border-zinc-800" />
+            <div className="flex-1 h-6 relative cursor-pointer border-b border-zinc-800 mr-4" onMouseDown={startScrub}>
+              {seconds.map(s => (
+                <span key={s} className="absolute top-1 text-[9px] text-zinc-600 -translate-x-1/2 select-none" style={{ left: percent(s, length) }}>{s}s</span>
+              ))}
+              <div className="absolute inset-y-0 w-px bg-red-500 pointer-events-none" style={{ left: percent(time, length) }} />
+            </div>
+          </div>
+
+          {rows.length === 0 && <p className="px-4 py-3 text-zinc-600">Add items to the layout to animate them.</p>}
+
+          {rows.map(({ item }) => {
+            const selected = selectedIds.includes(item.id);
+            const { enter, exit } = item.animation || {};
+            const clip = item.type === 'video' ? getVideoClip(item) : null;
+            const tracked = ANIMATABLE_PROPERTIES.filter(p => getTrack(item, p.id).length > 0);
+            return (
+              <React.Fragment key={item.id}>
+                <div className="flex">
+                  <div
+                    onClick={(e) => onSelect(item.id, e.shiftKey)}
+                    className={`w-40 shrink-0 border-r border-zinc-800 px-3 py-1 truncate cursor-pointer ${selected ? 'text-indigo-300 bg-indigo-500/10' : 'text-zinc-400 hover:text-white'}`}
+                  >
+                    {getLayerName(item)}
+                  </div>
+                  <div className="flex-1 relative h-6 mr-4">
+                    {clip && (
+                      <div
+                        className="absolute inset-y-1.5 bg-indigo-500/25 rounded-sm"
+                        style={{ left: 0, width: clip.loop ? '100%' : percent(getClipLength(clip), length) }}
+                      />
+                    )}
+                    {enter && (
+                      <div
+                        className="absolute inset-y-1 bg-emerald-500/40 rounded-sm"
+                        style={{ left: percent(enter.delay, length), width: percent(enter.duration, length) }}
+                        title={`Enter: ${enter.type}`}
+                      />
+                    )}
+                    {exit && (
+                      <div
+                        className="absolute inset-y-1 bg-rose-500/40 rounded-sm"
+                        style={{ left: percent(Math.max(0, length - exit.delay - exit.duration), length), width: percent(exit.duration, length) }}
+                        title={`Exit: ${exit.type}`}
+                      />
+                    )}
+                    {tracked.flatMap(({ id: property }) => getTrack(item, property).map(k => keyframeMarker(item, property, k.id, k.time, false)))}
+                    <div className="absolute inset-y-0 w-px bg-red-500 pointer-events-none" style={{ left: percent(time, length) }} />
+                  </div>
+                </div>
+                {selected && tracked.map(({ id: property, label }) => (
+                  <div key={property} className="flex bg-zinc-950/50">
+                    <div className="w-40 shrink-0 border-r border-zinc-800 pl-6 pr-3 py-1 text-zinc-500 truncate">{label}</div>
+                    <div className="flex-1 relative h-6 mr-4">
+                      {getTrack(item, property).map(k => keyframeMarker(item, property, k.id, k.time, true))}
+                      <div className="absolute inset-y-0 w-px bg-red-500 pointer-events-none" style={{ left: percent(time, length) }} />
+                    </div>
+                  </div>
+                ))}
+              </React.Fragment>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TimelinePanel;
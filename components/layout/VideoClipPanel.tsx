@@ -0,0 +1,78 @@
+import React from 'react';
+import { LayoutItem, VideoClip } from '../../types';
+import { getVideoClip, getClipLength, getClipTime, formatClipTime } from './videoClips';
+import { Image as ImageIcon } from 'lucide-react';
+
+interface VideoClipPanelProps {
+  item: LayoutItem; // A video item
+  time: number; // Playhead, for setting trims and the poster frame
+  onChange: (patch: Partial<VideoClip>) => void;
+  onSetPoster: () => void;
+}
+
+// Trim, audio, looping and poster frame of the selected video item
+const VideoClipPanel: React.FC<VideoClipPanelProps> = ({ item, time, onChange, onSetPoster }) => {
+  const clip = getVideoClip(item);
+  return (
+    <div>
+      <label className="text-xs text-zinc-500 font-medium mb-1 block">Video</label>
+      <div className="space-y-2">
+        <div className="grid grid-cols-2 gap-2">
+          {([['trimStart', 'In'], ['trimEnd', 'Out']] as const).map(([key, label]) => (
+            <div key={key} className="bg-zinc-950 rounded border border-zinc-800 flex items-center px-2">
+              <span className="text-zinc-500 text-[10px] w-8">{label}</span>
+              <input
+                type="number" step="0.1" min="0" max={clip.duration}
+                value={Number(clip[key].toFixed(2))}
+                onChange={(e) => onChange({ [key]: Number(e.target.value) })}
+                className="w-full bg-transparent border-none text-white text-sm py-1 focus:ring-0"
+              />
+            </div>
+          ))}
+        </div>
+        <div className="flex gap-1">
+          <button
+            onClick={() => onChange({ trimStart: getClipTime(clip, time) })}
+            className="flex-1 py-1 bg-zinc-800 hover:bg-zinc-700 rounded text-[10px] text-zinc-300"
+            title="Start the clip at the frame under the playhead"
+          >
+            Set In at Playhead
+          </button>
+          <button
+            onClick={() => onChange({ trimEnd: getClipTime(clip, time) })}
+            className="flex-1 py-1 bg-zinc-800 hover:bg-zinc-700 rounded text-[10px] text-zinc-300"
+            title="End the clip at the frame under the playhead"
+          >
+            Set Out at Playhead
+          </button>
+        </div>
+        <p className="text-[10px] text-zinc-500">
+          Plays {formatClipTime(getClipLength(clip))} of {formatClipTime(clip.duration)}
+        </p>
+        <div className="flex gap-4">
+          <label className="flex items-center gap-2 text-xs text-zinc-400">
+            <input type="checkbox" checked={clip.muted} onChange={(e) => onChange({ muted: e.target.checked })} />
+            Mute
+          </label>
+          <label className="flex items-center gap-2 text-xs text-zinc-400">
+            <input type="checkbox" checked={clip.loop} onChange={(e) => onChange({ loop: e.target.checked })} />
+            Loop
+          </label>
+        </div>
+        <div className="bg-zinc-950 rounded border border-zinc-800 p-2 flex items-center gap-2">
+          {clip.poster
+            ? <img src={clip.poster} alt="Poster frame" className="w-12 h-12 object-cover rounded shrink-0" />
+            : <div className="w-12 h-12 rounded bg-zinc-900 shrink-0" />}
+          <div className="flex-1 min-w-0">
+            <p className="text-[10px] text-zinc-500">Poster at {formatClipTime(clip.posterTime)}, used in still exports</p>
+            <button onClick={onSetPoster} className="mt-1 flex items-center gap-1 text-[10px] text-indigo-400 hover:text-indigo-300">
+              <ImageIcon size={10} /> Use Frame at Playhead
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VideoClipPanel;
@@ -0,0 +1,35 @@
+import React, { useEffect, useRef } from 'react';
+import { LayoutItem } from '../../types';
+import { getVideoClip, syncVideoElement } from './videoClips';
+
+interface VideoItemProps {
+  item: LayoutItem;
+  time: number; // Layout clock, in seconds
+  playing: boolean;
+}
+
+// A video layout item on the canvas, following the editor's playback clock
+const VideoItem: React.FC<VideoItemProps> = ({ item, time, playing }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const clip = getVideoClip(item);
+
+  useEffect(() => {
+    if (videoRef.current) syncVideoElement(videoRef.current, clip, time, playing);
+  });
+
+  return (
+    <video
+      ref={videoRef}
+      data-layout-video
+      src={item.content}
+      poster={clip.poster}
+      muted={clip.muted || !playing}
+      playsInline
+      preload="auto"
+      className="w-full h-full object-cover pointer-events-none select-none shadow-lg"
+      style={{ borderRadius: `${item.borderRadius}px` }}
+    />
+  );
+};
+
+export default VideoItem;
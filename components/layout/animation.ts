@@ -0,0 +1,263 @@
+import {
+  AnimatableProperty, AnimationPreset, AnimationPresetType, Easing, ItemAnimation, Keyframe, LayoutItem
+} from '../../types';
+import { getRichText } from './richText';
+import { getTimelineDuration } from './videoClips';
+
+// Keyframe animation for LayoutEditor items. A property with keyframes ignores
+// its static value: the editor shows, edits and exports the "posed" item, whose
+// tracked properties are interpolated at the playhead. Enter/exit presets are
+// applied on top of the pose as an offset, scale and opacity multiplier.
+
+export const DEFAULT_TIMELINE_LENGTH = 5;
+export const DEFAULT_EASING: Easing = 'ease-in-out';
+const DEFAULT_PRESET_DURATION = 0.6;
+const SAME_TIME = 0.005; // Keyframes closer than this (seconds) are the same keyframe
+const SLIDE_DISTANCE = 0.5; // Of the item's size along the slide
+const SCALE_FROM = 0.5;
+
+export const EASINGS: Record<Easing, (t: number) => number> = {
+  'linear': t => t,
+  'ease-in': t => t * t * t,
+  'ease-out': t => 1 - Math.pow(1 - t, 3),
+  'ease-in-out': t => t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2,
+  'hold': () => 0,
+};
+
+export const EASING_LABELS: Record<Easing, string> = {
+  'linear': 'Linear',
+  'ease-in': 'Ease In',
+  'ease-out': 'Ease Out',
+  'ease-in-out': 'Ease In-Out',
+  'hold': 'Hold',
+};
+
+export const ANIMATABLE_PROPERTIES: { id: AnimatableProperty, label: string }[] = [
+  { id: 'x', label: 'X' },
+  { id: 'y', label: 'Y' },
+  { id: 'width', label: 'Width' },
+  { id: 'height', label: 'Height' },
+  { id: 'rotation', label: 'Rotation' },
+  { id: 'opacity', label: 'Opacity' },
+  { id: 'color', label: 'Color' },
+];
+
+export const PRESET_LABELS: Record<AnimationPresetType, string> = {
+  'fade': 'Fade',
+  'slide-left': 'Slide Left',
+  'slide-right': 'Slide Right',
+  'slide-up': 'Slide Up',
+  'slide-down': 'Slide Down',
+  'scale': 'Scale',
+};
+
+const newKeyframeId = () => Math.random().toString(36).substr(2, 9);
+
+export const createPreset = (type: AnimationPresetType): AnimationPreset =>
+  ({ type, duration: DEFAULT_PRESET_DURATION, delay: 0, easing: DEFAULT_EASING });
+
+// --- Property Values ---
+
+// Color applies to shape fills and the item-wide text color
+export const canAnimate = (item: LayoutItem, property: AnimatableProperty): boolean =>
+  item.type !== 'group' && (property !== 'color' || item.type === 'shape' || item.type === 'text');
+
+export const getPropertyValue = (item: LayoutItem, property: AnimatableProperty): number | string => {
+  switch (property) {
+    case 'opacity': return Number(item.style?.opacity ?? 1);
+    case 'color': return item.type === 'text' ? getRichText(item).style.color : item.color || '#4f46e5';
+    default: return item[property];
+  }
+};
+
+export const setPropertyValue = (item: LayoutItem, property: AnimatableProperty, value: number | string): LayoutItem => {
+  switch (property) {
+    case 'opacity':
+      return { ...item, style: { ...item.style, opacity: Number(value) } };
+    case 'color': {
+      if (item.type !== 'text') return { ...item, color: String(value) };
+      const text = getRichText(item);
+      return { ...item, text: { ...text, style: { ...text.style, color: String(value) } } };
+    }
+    default:
+      return { ...item, [property]: Number(value) };
+  }
+};
+
+// --- Interpolation ---
+
+const parseHex = (hex: string): [number, number, number] | null => {
+  const match = hex.trim().match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  if (!match) return null;
+  const digits = match[1].length === 3 ? match[1].split('').map(d => d + d).join('') : match[1];
+  return [0, 2, 4].map(i => parseInt(digits.slice(i, i + 2), 16)) as [number, number, number];
+};
+
+const toHex = (rgb: number[]) => `#${rgb.map(c => Math.round(c).toString(16).padStart(2, '0')).join('')}`;
+
+const mix = (from: number | string, to: number | string, t: number): number | string => {
+  if (typeof from === 'number' && typeof to === 'number') return from + (to - from) * t;
+  const a = parseHex(String(from));
+  const b = parseHex(String(to));
+  // Colors that are not plain hex cannot be blended; they switch at the next keyframe
+  if (!a || !b) return t < 1 ? from : to;
+  return toHex(a.map((c, i) => c + (b[i] - c) * t));
+};
+
+export const interpolateTrack = (track: Keyframe[], time: number): number | string | undefined => {
+  if (track.length === 0) return undefined;
+  if (time <= track[0].time) return track[0].value;
+  const last = track[track.length - 1];
+  if (time >= last.time) return last.value;
+  const index = track.findIndex(k => k.time > time);
+  const from = track[index - 1];
+  const to = track[index];
+  return mix(from.value, to.value, EASINGS[from.easing]((time - from.time) / (to.time - from.time)));
+};
+
+const getTracks = (item: LayoutItem) =>
+  Object.entries(item.animation?.tracks || {}) as [AnimatableProperty, Keyframe[]][];
+
+export const getTrack = (item: LayoutItem, property: AnimatableProperty): Keyframe[] =>
+  item.animation?.tracks[property] || [];
+
+export const hasKeyframes = (item: LayoutItem): boolean => getTracks(item).some(([, track]) => track.length > 0);
+
+// Keyframes, presets or video clips: anything that changes over time
+export const isAnimated = (items: LayoutItem[]): boolean =>
+  items.some(item => hasKeyframes(item) || !!item.animation?.enter || !!item.animation?.exit || item.type === 'video');
+
+export const poseItem = (item: LayoutItem, time: number): LayoutItem =>
+  getTracks(item).reduce((posed, [property, track]) => {
+    const value = interpolateTrack(track, time);
+    return value === undefined ? posed : setPropertyValue(posed, property, value);
+  }, item);
+
+// Returns `items` itself when nothing is keyframed, so it can stand in for the state array
+export const poseItems = (items: LayoutItem[], time: number): LayoutItem[] =>
+  items.some(hasKeyframes) ? items.map(item => hasKeyframes(item) ? poseItem(item, time) : item) : items;
+
+// --- Keyframe Editing ---
+
+const withTrack = (item: LayoutItem, property: AnimatableProperty, track: Keyframe[]): LayoutItem => {
+  const tracks = { ...item.animation?.tracks };
+  if (track.length) tracks[property] = track; else delete tracks[property];
+  return { ...item, animation: { ...item.animation, tracks } };
+};
+
+export const findKeyframeAt = (item: LayoutItem, property: AnimatableProperty, time: number): Keyframe | undefined =>
+  getTrack(item, property).find(k => Math.abs(k.time - time) < SAME_TIME);
+
+// Adds a keyframe or updates the one already at `time`. New keyframes take the
+// easing of the keyframe before them.
+export const setKeyframe = (item: LayoutItem, property: AnimatableProperty, time: number, value: number | string): LayoutItem => {
+  const track = getTrack(item, property);
+  const existing = findKeyframeAt(item, property, time);
+  if (existing) return withTrack(item, property, track.map(k => k === existing ? { ...k, value } : k));
+  const previous = [...track].reverse().find(k => k.time < time);
+  const keyframe: Keyframe = { id: newKeyframeId(), time, value, easing: previous?.easing || DEFAULT_EASING };
+  return withTrack(item, property, [...track, keyframe].sort((a, b) => a.time - b.time));
+};
+
+// Removing the last keyframe keeps its value as the static one, so nothing jumps
+export const removeKeyframe = (item: LayoutItem, property: AnimatableProperty, id: string): LayoutItem => {
+  const track = getTrack(item, property);
+  const removed = track.find(k => k.id === id);
+  if (!removed) return item;
+  const next = withTrack(item, property, track.filter(k => k !== removed));
+  return track.length === 1 ? setPropertyValue(next, property, removed.value) : next;
+};
+
+export const moveKeyframe = (item: LayoutItem, property: AnimatableProperty, id: string, time: number): LayoutItem => {
+  const track = getTrack(item, property);
+  // Dropping onto another keyframe replaces it
+  const moved = track
+    .filter(k => k.id === id || Math.abs(k.time - time) >= SAME_TIME)
+    .map(k => k.id === id ? { ...k, time: Math.max(0, time) } : k);
+  return withTrack(item, property, moved.sort((a, b) => a.time - b.time));
+};
+
+export const setKeyframeEasing = (item: LayoutItem, property: AnimatableProperty, id: string, easing: Easing): LayoutItem =>
+  withTrack(item, property, getTrack(item, property).map(k => k.id === id ? { ...k, easing } : k));
+
+// Moves a whole x/y path, for when the item moves with its artboard
+export const shiftPositionTracks = (item: LayoutItem, dx: number, dy: number): LayoutItem =>
+  ([['x', dx], ['y', dy]] as const).reduce((shifted, [property, delta]) => {
+    const track = getTrack(shifted, property);
+    return track.length && delta ? withTrack(shifted, property, track.map(k => ({ ...k, value: Number(k.value) + delta }))) : shifted;
+  }, item);
+
+export const setPreset = (item: LayoutItem, kind: 'enter' | 'exit', preset: AnimationPreset | undefined): LayoutItem => {
+  const animation: ItemAnimation = { tracks: {}, ...item.animation, [kind]: preset };
+  if (!preset) delete animation[kind];
+  return { ...item, animation };
+};
+
+// Turns edits of keyframed properties into keyframes at `time`. `posed` is what
+// the edit started from; untracked properties keep their new static values.
+export const recordKeyframes = (posed: LayoutItem[], next: LayoutItem[], time: number): LayoutItem[] =>
+  next.map(item => {
+    const before = posed.find(p => p.id === item.id);
+    if (!before || !hasKeyframes(item)) return item;
+    return getTracks(item).reduce((keyed, [property]) => {
+      const value = getPropertyValue(item, property);
+      return value === getPropertyValue(before, property) ? keyed : setKeyframe(keyed, property, time, value);
+    }, item);
+  });
+
+// --- Timeline ---
+
+export const getLastKeyframeTime = (items: LayoutItem[]): number =>
+  items.reduce((latest, item) => getTracks(item).reduce((t, [, track]) => Math.max(t, ...track.map(k => k.time)), latest), 0);
+
+export const getTimelineLength = (items: LayoutItem[], duration?: number): number =>
+  Math.max(duration ?? DEFAULT_TIMELINE_LENGTH, getTimelineDuration(items), getLastKeyframeTime(items));
+
+// --- Presets ---
+
+export interface PresetEffect {
+  dx: number;
+  dy: number;
+  scale: number;
+  opacity: number;
+}
+
+const NO_EFFECT: PresetEffect = { dx: 0, dy: 0, scale: 1, opacity: 1 };
+
+// `hidden` runs from 1 (fully out) to 0 (in place). Slides and scales fade too,
+// so items never pop in or out.
+const presetEffect = (preset: AnimationPreset, item: LayoutItem, hidden: number): PresetEffect => {
+  const visible = 1 - hidden;
+  switch (preset.type) {
+    case 'fade': return { ...NO_EFFECT, opacity: visible };
+    case 'slide-left': return { ...NO_EFFECT, dx: item.width * SLIDE_DISTANCE * hidden, opacity: visible };
+    case 'slide-right': return { ...NO_EFFECT, dx: -item.width * SLIDE_DISTANCE * hidden, opacity: visible };
+    case 'slide-up': return { ...NO_EFFECT, dy: item.height * SLIDE_DISTANCE * hidden, opacity: visible };
+    case 'slide-down': return { ...NO_EFFECT, dy: -item.height * SLIDE_DISTANCE * hidden, opacity: visible };
+    case 'scale': return { ...NO_EFFECT, scale: SCALE_FROM + (1 - SCALE_FROM) * visible, opacity: visible };
+    default: return NO_EFFECT;
+  }
+};
+
+const progress = (time: number, start: number, duration: number) =>
+  duration <= 0 ? (time >= start ? 1 : 0) : Math.min(1, Math.max(0, (time - start) / duration));
+
+// Enter runs forwards from its delay; exit runs so that it finishes `delay` before the end.
+// Exits mirror the preset direction: slide-left leaves towards the left.
+export const getPresetEffect = (item: LayoutItem, time: number, length: number): PresetEffect => {
+  const { enter, exit } = item.animation || {};
+  let effect = NO_EFFECT;
+  if (enter) {
+    const t = EASINGS[enter.easing](progress(time, enter.delay, enter.duration));
+    effect = presetEffect(enter, item, 1 - t);
+  }
+  if (exit) {
+    const start = length - exit.delay - exit.duration;
+    const t = EASINGS[exit.easing](progress(time, start, exit.duration));
+    if (t > 0) {
+      const out = presetEffect(exit, item, t);
+      effect = { dx: effect.dx - out.dx, dy: effect.dy - out.dy, scale: effect.scale * out.scale, opacity: effect.opacity * out.opacity };
+    }
+  }
+  return effect;
+};
@@ -0,0 +1,121 @@
+import { Artboard, AspectRatio, LayoutItem } from '../../types';
+import {
+  Point, Rect, getCenter, getItemBounds, getTopLevelItems, getDescendantIds, translateItems, refreshGroupBounds
+} from './geometry';
+import { shiftPositionTracks } from './animation';
+
+// Artboards are fixed-size frames on the layout pasteboard. Items keep absolute
+// pasteboard coordinates; an item belongs to the artboard its centre falls in.
+
+export interface ArtboardPreset {
+  id: string;
+  label: string;
+  width: number;
+  height: number;
+}
+
+// Short side of the generic aspect-ratio presets
+const RATIO_BASE_SIZE = 1080;
+// Horizontal gap when a new artboard is placed next to the existing ones
+const ARTBOARD_GAP = 100;
+
+export const MIN_ZOOM = 0.05;
+export const MAX_ZOOM = 4;
+
+const ratioPreset = (ratio: AspectRatio): ArtboardPreset => {
+  const [w, h] = ratio.split(':').map(Number);
+  const width = w >= h ? Math.round(RATIO_BASE_SIZE * w / h) : RATIO_BASE_SIZE;
+  const height = w >= h ? RATIO_BASE_SIZE : Math.round(RATIO_BASE_SIZE * h / w);
+  return { id: `ratio-${ratio}`, label: `Aspect ${ratio}`, width, height };
+};
+
+export const ARTBOARD_PRESETS: ArtboardPreset[] = [
+  ...Object.values(AspectRatio).map(ratioPreset),
+  { id: 'instagram-post', label: 'Instagram Post', width: 1080, height: 1080 },
+  { id: 'instagram-portrait', label: 'Instagram Portrait', width: 1080, height: 1350 },
+  { id: 'instagram-story', label: 'Instagram Story', width: 1080, height: 1920 },
+  { id: 'facebook-post', label: 'Facebook Post', width: 1200, height: 630 },
+  { id: 'linkedin-post', label: 'LinkedIn Post', width: 1200, height: 627 },
+  { id: 'linkedin-banner', label: 'LinkedIn Banner', width: 1584, height: 396 },
+  { id: 'x-header', label: 'X Header', width: 1500, height: 500 },
+  { id: 'youtube-thumbnail', label: 'YouTube Thumbnail', width: 1280, height: 720 },
+];
+
+export const DEFAULT_ARTBOARD_PRESET = ARTBOARD_PRESETS.find(p => p.id === 'instagram-post')!;
+
+export const findPreset = (artboard: Pick<Artboard, 'width' | 'height'>): ArtboardPreset | undefined =>
+  ARTBOARD_PRESETS.find(p => p.width === artboard.width && p.height === artboard.height);
+
+export const newArtboardId = () => `artboard-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`;
+
+// New artboards go to the right of everything already on the pasteboard
+export const createArtboard = (existing: Artboard[], preset: ArtboardPreset = DEFAULT_ARTBOARD_PRESET): Artboard => {
+  const right = existing.length ? Math.max(...existing.map(a => a.x + a.width)) + ARTBOARD_GAP : 0;
+  const top = existing.length ? Math.min(...existing.map(a => a.y)) : 0;
+  return {
+    id: newArtboardId(),
+    name: `Artboard ${existing.length + 1}`,
+    x: right,
+    y: top,
+    width: preset.width,
+    height: preset.height,
+    background: '#09090b',
+  };
+};
+
+const containsPoint = (rect: Rect, p: Point) =>
+  p.x >= rect.x && p.x <= rect.x + rect.width && p.y >= rect.y && p.y <= rect.y + rect.height;
+
+export const getArtboardAt = (artboards: Artboard[], p: Point): Artboard | undefined =>
+  artboards.find(a => containsPoint(a, p));
+
+export const getArtboardItems = (items: LayoutItem[], artboard: Artboard): LayoutItem[] =>
+  items.filter(item => containsPoint(artboard, getCenter(getItemBounds(item))));
+
+// An artboard edit with the item changes it carries, applied together as one undo step
+export interface ArtboardEdit {
+  artboards: Artboard[];
+  items: LayoutItem[];
+}
+
+// Moving an artboard carries the items sitting on it, motion paths included
+export const updateArtboard = (artboards: Artboard[], items: LayoutItem[], id: string, patch: Partial<Artboard>): ArtboardEdit => {
+  const artboard = artboards.find(a => a.id === id);
+  if (!artboard) return { artboards, items };
+  const next = artboards.map(a => a.id === id ? { ...a, ...patch } : a);
+  const dx = (patch.x ?? artboard.x) - artboard.x;
+  const dy = (patch.y ?? artboard.y) - artboard.y;
+  if (!dx && !dy) return { artboards: next, items };
+  const onBoard = getTopLevelItems(getArtboardItems(items, artboard)).map(i => i.id);
+  const moved = new Set(onBoard.flatMap(boardId => [boardId, ...getDescendantIds(items, boardId)]));
+  return {
+    artboards: next,
+    items: translateItems(items, onBoard, dx, dy).map(i => moved.has(i.id) ? shiftPositionTracks(i, dx, dy) : i),
+  };
+};
+
+// Removes the artboard and everything on it. `shown` decides what is on it, e.g.
+// the items posed at the playhead, so what disappears is what the user sees there.
+export const removeArtboard = (artboards: Artboard[], items: LayoutItem[], artboard: Artboard, shown = items): ArtboardEdit => {
+  const removed = new Set(getArtboardItems(shown, artboard).flatMap(i => [i.id, ...getDescendantIds(shown, i.id)]));
+  return {
+    artboards: artboards.filter(a => a.id !== artboard.id),
+    items: refreshGroupBounds(items.filter(i => !removed.has(i.id))),
+  };
+};
+
+// Scale and pan that fit the given area into the viewport with some padding
+export const fitToViewport = (area: Rect, viewport: { width: number, height: number }, padding = 60) => {
+  const zoom = Math.max(MIN_ZOOM, Math.min(
+    (viewport.width - padding * 2) / area.width,
+    (viewport.height - padding * 2) / area.height,
+    1
+  ));
+  return {
+    zoom,
+    pan: {
+      x: (viewport.width - area.width * zoom) / 2 - area.x * zoom,
+      y: (viewport.height - area.height * zoom) / 2 - area.y * zoom,
+    },
+  };
+};
@@ -0,0 +1,108 @@
+import { Artboard, LayoutItem } from '../../types';
+import { getArtboardItems } from './artboards';
+import { isHidden } from './layers';
+import { getTrack, getPresetEffect, getPropertyValue, poseItem } from './animation';
+import { coverCrop, loadVideo } from './videoClips';
+
+// Draws artboard frames for the animated exports. Images and text are rasterised
+// once up front (by the editor, through the DOM) and then moved, scaled and faded
+// per frame; shapes are drawn natively and videos straight from their elements.
+// Keyframed text color recolors the whole raster, so per-run colors and shadows
+// take on the animated color.
+
+// Renders one item unrotated at its own size, or null to leave it out
+export type RasterizeItem = (item: LayoutItem) => Promise<HTMLCanvasElement | null>;
+
+export type FrameSource =
+  | { item: LayoutItem, kind: 'video', video: HTMLVideoElement }
+  | { item: LayoutItem, kind: 'shape' }
+  | { item: LayoutItem, kind: 'still', image: HTMLCanvasElement, tint?: HTMLCanvasElement };
+
+// Every visible item on the artboard, bottom of the stack first
+export const prepareFrameSources = async (artboard: Artboard, items: LayoutItem[], rasterize: RasterizeItem): Promise<FrameSource[]> => {
+  const layers = getArtboardItems(items, artboard)
+    .filter(item => item.type !== 'group' && !isHidden(items, item))
+    .sort((a, b) => a.zIndex - b.zIndex);
+  const sources: FrameSource[] = [];
+  for (const item of layers) {
+    if (item.type === 'video') {
+      sources.push({ item, kind: 'video', video: await loadVideo(item.content) });
+    } else if (item.type === 'shape') {
+      sources.push({ item, kind: 'shape' });
+    } else {
+      const image = await rasterize(item);
+      if (!image) continue;
+      const tinted = item.type === 'text' && getTrack(item, 'color').length > 0;
+      sources.push({ item, kind: 'still', image, tint: tinted ? document.createElement('canvas') : undefined });
+    }
+  }
+  return sources;
+};
+
+export const releaseFrameSources = (sources: FrameSource[]) => {
+  sources.forEach(source => {
+    if (source.kind !== 'video') return;
+    source.video.pause();
+    source.video.removeAttribute('src');
+    source.video.load();
+  });
+};
+
+const tintImage = (image: HTMLCanvasElement, canvas: HTMLCanvasElement, color: string): HTMLCanvasElement => {
+  canvas.width = image.width;
+  canvas.height = image.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return image;
+  ctx.drawImage(image, 0, 0);
+  ctx.globalCompositeOperation = 'source-in';
+  ctx.fillStyle = color;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+// Shape radii are percentages of the box, as in the editor's CSS
+const drawShape = (ctx: CanvasRenderingContext2D, item: LayoutItem) => {
+  const radius = item.borderRadius || 0;
+  ctx.fillStyle = item.color || '#4f46e5';
+  ctx.beginPath();
+  ctx.roundRect(-item.width / 2, -item.height / 2, item.width, item.height,
+    radius ? { x: item.width * radius / 100, y: item.height * radius / 100 } : 0);
+  ctx.fill();
+};
+
+const drawVideo = (ctx: CanvasRenderingContext2D, item: LayoutItem, video: HTMLVideoElement) => {
+  if (video.videoWidth === 0) return;
+  if (item.borderRadius) {
+    ctx.beginPath();
+    ctx.roundRect(-item.width / 2, -item.height / 2, item.width, item.height, item.borderRadius);
+    ctx.clip();
+  }
+  const { sx, sy, sw, sh } = coverCrop(video.videoWidth, video.videoHeight, item.width, item.height);
+  ctx.drawImage(video, sx, sy, sw, sh, -item.width / 2, -item.height / 2, item.width, item.height);
+};
+
+// Videos must already show the right frame; callers sync or seek them first
+export const drawFrame = (ctx: CanvasRenderingContext2D, artboard: Artboard, sources: FrameSource[], time: number, length: number) => {
+  ctx.fillStyle = artboard.background;
+  ctx.fillRect(0, 0, artboard.width, artboard.height);
+  sources.forEach(source => {
+    const item = poseItem(source.item, time);
+    const effect = getPresetEffect(item, time, length);
+    const opacity = Number(item.style?.opacity ?? 1) * effect.opacity;
+    if (opacity <= 0) return;
+    ctx.save();
+    ctx.globalAlpha = opacity;
+    ctx.translate(item.x + effect.dx - artboard.x + item.width / 2, item.y + effect.dy - artboard.y + item.height / 2);
+    if (item.rotation) ctx.rotate(item.rotation * Math.PI / 180);
+    if (effect.scale !== 1) ctx.scale(effect.scale, effect.scale);
+    if (source.kind === 'shape') {
+      drawShape(ctx, item);
+    } else if (source.kind === 'video') {
+      drawVideo(ctx, item, source.video);
+    } else {
+      const image = source.tint ? tintImage(source.image, source.tint, String(getPropertyValue(item, 'color'))) : source.image;
+      ctx.drawImage(image, -item.width / 2, -item.height / 2, item.width, item.height);
+    }
+    ctx.restore();
+  });
+};
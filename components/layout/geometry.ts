@@ -0,0 +1,247 @@
+import { LayoutItem } from '../../types';
+
+// Pure helpers for the LayoutEditor's item tree. Groups are stored flat: a child
+// points at its group through `parentId` and keeps absolute canvas coordinates.
+
+export interface Point { x: number; y: number; }
+export interface Rect { x: number; y: number; width: number; height: number; }
+export type Frame = Rect & { rotation: number };
+
+export const rotatePoint = (p: Point, center: Point, degrees: number): Point => {
+  const rad = (degrees * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  const dx = p.x - center.x;
+  const dy = p.y - center.y;
+  return { x: center.x + dx * cos - dy * sin, y: center.y + dx * sin + dy * cos };
+};
+
+export const getCenter = (r: Rect): Point => ({ x: r.x + r.width / 2, y: r.y + r.height / 2 });
+
+// Axis-aligned box around an item, taking its rotation into account
+export const getItemBounds = (item: LayoutItem): Rect => {
+  if (!item.rotation) return { x: item.x, y: item.y, width: item.width, height: item.height };
+  const center = getCenter(item);
+  const corners = [
+    { x: item.x, y: item.y },
+    { x: item.x + item.width, y: item.y },
+    { x: item.x + item.width, y: item.y + item.height },
+    { x: item.x, y: item.y + item.height },
+  ].map(p => rotatePoint(p, center, item.rotation));
+  const xs = corners.map(p => p.x);
+  const ys = corners.map(p => p.y);
+  return { x: Math.min(...xs), y: Math.min(...ys), width: Math.max(...xs) - Math.min(...xs), height: Math.max(...ys) - Math.min(...ys) };
+};
+
+export const unionRects = (rects: Rect[]): Rect | null => {
+  if (rects.length === 0) return null;
+  const left = Math.min(...rects.map(r => r.x));
+  const top = Math.min(...rects.map(r => r.y));
+  const right = Math.max(...rects.map(r => r.x + r.width));
+  const bottom = Math.max(...rects.map(r => r.y + r.height));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
+
+export const rectsIntersect = (a: Rect, b: Rect): boolean =>
+  a.x < b.x + b.width && a.x + a.width > b.x && a.y < b.y + b.height && a.y + a.height > b.y;
+
+// Normalizes a drag rectangle that may have negative width/height
+export const normalizeRect = (start: Point, end: Point): Rect => ({
+  x: Math.min(start.x, end.x),
+  y: Math.min(start.y, end.y),
+  width: Math.abs(end.x - start.x),
+  height: Math.abs(end.y - start.y),
+});
+
+// --- Tree helpers ---
+
+export const getChildren = (items: LayoutItem[], parentId: string) =>
+  items.filter(i => i.parentId === parentId);
+
+export const getDescendantIds = (items: LayoutItem[], id: string): string[] => {
+  const children = getChildren(items, id);
+  return children.flatMap(child => [child.id, ...getDescendantIds(items, child.id)]);
+};
+
+// Walks up to the outermost group, which is what a canvas click selects
+export const getTopLevelAncestor = (items: LayoutItem[], id: string): LayoutItem | undefined => {
+  let current = items.find(i => i.id === id);
+  while (current?.parentId) {
+    const parent = items.find(i => i.id === current!.parentId);
+    if (!parent) break;
+    current = parent;
+  }
+  return current;
+};
+
+export const getTopLevelItems = (items: LayoutItem[]) => items.filter(i => !i.parentId);
+
+// Leaf items (non-groups) covered by the given ids, expanding groups
+export const expandToLeaves = (items: LayoutItem[], ids: string[]): LayoutItem[] => {
+  const leafIds = new Set<string>();
+  ids.forEach(id => {
+    const item = items.find(i => i.id === id);
+    if (!item) return;
+    if (item.type === 'group') {
+      getDescendantIds(items, id).forEach(d => leafIds.add(d));
+    } else {
+      leafIds.add(id);
+    }
+  });
+  return items.filter(i => leafIds.has(i.id) && i.type !== 'group');
+};
+
+// --- Transforms ---
+
+// Maps an item from one frame to another (move, scale and rotate around the frame).
+// Used to carry a group's children along when the group itself is transformed.
+const mapIntoFrame = (item: LayoutItem, from: Frame, to: Frame): LayoutItem => {
+  const fromCenter = getCenter(from);
+  const toCenter = getCenter(to);
+  const scaleX = from.width ? to.width / from.width : 1;
+  const scaleY = from.height ? to.height / from.height : 1;
+
+  // Child centre in the source frame's unrotated local space
+  const local = rotatePoint(getCenter(item), fromCenter, -from.rotation);
+  const mapped = {
+    x: to.x + (local.x - from.x) * scaleX,
+    y: to.y + (local.y - from.y) * scaleY,
+  };
+  const center = rotatePoint(mapped, toCenter, to.rotation);
+  const width = item.width * scaleX;
+  const height = item.height * scaleY;
+
+  return {
+    ...item,
+    x: center.x - width / 2,
+    y: center.y - height / 2,
+    width,
+    height,
+    rotation: item.rotation + (to.rotation - from.rotation),
+  };
+};
+
+// Sets a new frame on an item; for groups every descendant follows
+export const transformItem = (items: LayoutItem[], id: string, next: Partial<Frame>): LayoutItem[] => {
+  const target = items.find(i => i.id === id);
+  if (!target) return items;
+  const from: Frame = { x: target.x, y: target.y, width: target.width, height: target.height, rotation: target.rotation };
+  const to: Frame = { ...from, ...next };
+
+  const descendants = target.type === 'group' ? new Set(getDescendantIds(items, id)) : new Set<string>();
+  return items.map(item => {
+    if (item.id === id) return { ...item, ...to };
+    if (descendants.has(item.id)) return mapIntoFrame(item, from, to);
+    return item;
+  });
+};
+
+export const translateItems = (items: LayoutItem[], ids: string[], dx: number, dy: number): LayoutItem[] => {
+  const moving = new Set<string>();
+  ids.forEach(id => {
+    moving.add(id);
+    getDescendantIds(items, id).forEach(d => moving.add(d));
+  });
+  return items.map(item => moving.has(item.id) ? { ...item, x: item.x + dx, y: item.y + dy } : item);
+};
+
+// --- Grouping ---
+
+export const groupItems = (items: LayoutItem[], ids: string[], groupId: string): LayoutItem[] => {
+  const members = items.filter(i => ids.includes(i.id));
+  const bounds = unionRects(members.map(getItemBounds));
+  if (!bounds || members.length < 2) return items;
+
+  // New groups share the parent of their members so nesting is preserved
+  const parentId = members[0].parentId;
+  const group: LayoutItem = {
+    id: groupId,
+    type: 'group',
+    content: '',
+    ...bounds,
+    zIndex: Math.max(...members.map(m => m.zIndex)),
+    rotation: 0,
+    parentId,
+  };
+  return [...items.map(i => ids.includes(i.id) ? { ...i, parentId: groupId } : i), group];
+};
+
+export const ungroupItems = (items: LayoutItem[], groupId: string): LayoutItem[] => {
+  const group = items.find(i => i.id === groupId);
+  if (!group || group.type !== 'group') return items;
+  return items
+    .filter(i => i.id !== groupId)
+    .map(i => i.parentId === groupId ? { ...i, parentId: group.parentId } : i);
+};
+
+// Keeps group frames in sync after their children were edited directly
+export const refreshGroupBounds = (items: LayoutItem[]): LayoutItem[] => {
+  let result = items;
+  // Deepest groups first so parents see updated child bounds
+  const depth = (item: LayoutItem): number => {
+    const parent = item.parentId ? result.find(i => i.id === item.parentId) : undefined;
+    return parent ? 1 + depth(parent) : 0;
+  };
+  const groups = result.filter(i => i.type === 'group' && !i.rotation).sort((a, b) => depth(b) - depth(a));
+  groups.forEach(group => {
+    const bounds = unionRects(getChildren(result, group.id).map(getItemBounds));
+    if (bounds) {
+      result = result.map(i => i.id === group.id ? { ...i, ...bounds } : i);
+    }
+  });
+  // Groups left empty (all children deleted) are dropped
+  return result.filter(i => i.type !== 'group' || getChildren(result, i.id).length > 0);
+};
+
+// --- Direct manipulation ---
+
+export type ResizeHandle = 'nw' | 'n' | 'ne' | 'e' | 'se' | 's' | 'sw' | 'w';
+
+// Direction each handle moves along the item's local axes
+export const HANDLE_DIRECTIONS: Record<ResizeHandle, { x: -1 | 0 | 1, y: -1 | 0 | 1 }> = {
+  nw: { x: -1, y: -1 }, n: { x: 0, y: -1 }, ne: { x: 1, y: -1 }, e: { x: 1, y: 0 },
+  se: { x: 1, y: 1 }, s: { x: 0, y: 1 }, sw: { x: -1, y: 1 }, w: { x: -1, y: 0 },
+};
+
+const MIN_ITEM_SIZE = 10;
+
+// Resizes a frame by dragging one handle, keeping the opposite side fixed.
+// `delta` is in canvas space; rotation is handled by projecting onto local axes.
+export const resizeFrame = (frame: Frame, handle: ResizeHandle, delta: Point, keepAspect: boolean): Frame => {
+  const dir = HANDLE_DIRECTIONS[handle];
+  const local = rotatePoint(delta, { x: 0, y: 0 }, -frame.rotation);
+
+  let width = Math.max(MIN_ITEM_SIZE, frame.width + dir.x * local.x);
+  let height = Math.max(MIN_ITEM_SIZE, frame.height + dir.y * local.y);
+
+  if (keepAspect && frame.width > 0 && frame.height > 0) {
+    const ratio = frame.width / frame.height;
+    if (dir.x !== 0 && dir.y !== 0) {
+      // Corner: follow whichever axis moved further
+      if (width / frame.width > height / frame.height) height = width / ratio; else width = height * ratio;
+    } else if (dir.x !== 0) {
+      height = width / ratio;
+    } else {
+      width = height * ratio;
+    }
+  }
+
+  // Keep the anchor (opposite handle) in place in canvas space
+  const center = getCenter(frame);
+  const anchor = rotatePoint({ x: center.x - dir.x * frame.width / 2, y: center.y - dir.y * frame.height / 2 }, center, frame.rotation);
+  const offset = rotatePoint({ x: dir.x * width / 2, y: dir.y * height / 2 }, { x: 0, y: 0 }, frame.rotation);
+  const newCenter = { x: anchor.x + offset.x, y: anchor.y + offset.y };
+
+  return { x: newCenter.x - width / 2, y: newCenter.y - height / 2, width, height, rotation: frame.rotation };
+};
+
+// Angle from the frame centre to a point, with 0° pointing up to match the rotation knob
+export const angleFromCenter = (frame: Rect, p: Point): number => {
+  const center = getCenter(frame);
+  return (Math.atan2(p.y - center.y, p.x - center.x) * 180) / Math.PI + 90;
+};
+
+export const normalizeAngle = (degrees: number): number => {
+  const wrapped = ((degrees % 360) + 360) % 360;
+  return wrapped > 180 ? wrapped - 360 : wrapped;
+};
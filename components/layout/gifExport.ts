@@ -0,0 +1,55 @@
+import { GIFEncoder, quantize, applyPalette } from 'gifenc';
+import { Artboard, LayoutItem } from '../../types';
+import { RasterizeItem, prepareFrameSources, releaseFrameSources, drawFrame } from './frameRenderer';
+import { getVideoClip, getClipTime, seekVideo } from './videoClips';
+
+// Animated GIF export. Unlike the video export this steps through the timeline
+// frame by frame, seeking clips to each frame, so it does not depend on playback
+// speed. Frames are downscaled to keep file sizes reasonable for banners.
+
+const DEFAULT_FPS = 15;
+const GIF_MAX_SIZE = 800;
+
+interface GifExportOptions {
+  rasterize: RasterizeItem;
+  length: number; // Timeline length in seconds
+  fps?: number;
+  onProgress?: (fraction: number) => void;
+}
+
+// Lets the progress indicator repaint between frames
+const yieldToBrowser = () => new Promise(resolve => setTimeout(resolve, 0));
+
+export const exportArtboardGif = async (artboard: Artboard, items: LayoutItem[], options: GifExportOptions): Promise<Blob> => {
+  const { rasterize, length, fps = DEFAULT_FPS, onProgress } = options;
+  const scale = Math.min(1, GIF_MAX_SIZE / Math.max(artboard.width, artboard.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(artboard.width * scale);
+  canvas.height = Math.round(artboard.height * scale);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("GIF export needs canvas support.");
+  ctx.scale(scale, scale);
+
+  const sources = await prepareFrameSources(artboard, items, rasterize);
+  try {
+    const gif = GIFEncoder();
+    const frameCount = Math.max(1, Math.round(length * fps));
+    for (let frame = 0; frame < frameCount; frame++) {
+      const time = frame / fps;
+      for (const source of sources) {
+        if (source.kind === 'video') await seekVideo(source.video, getClipTime(getVideoClip(source.item), time));
+      }
+      drawFrame(ctx, artboard, sources, time, length);
+      const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      const palette = quantize(data, 256);
+      gif.writeFrame(applyPalette(data, palette), canvas.width, canvas.height, { palette, delay: 1000 / fps });
+      onProgress?.((frame + 1) / frameCount);
+      await yieldToBrowser();
+    }
+    gif.finish();
+    // Copied so the Blob gets an ArrayBuffer-backed view, which newer DOM typings require
+    return new Blob([new Uint8Array(gif.bytes())], { type: 'image/gif' });
+  } finally {
+    releaseFrameSources(sources);
+  }
+};
@@ -0,0 +1,136 @@
+import { LayoutItem } from '../../types';
+import { getDescendantIds, getChildren, refreshGroupBounds } from './geometry';
+import { getPlainText, getRichText } from './richText';
+
+// Stacking order for the layers panel. zIndex is always rewritten as a dense
+// 1..n sequence over the leaves, walking the group tree so every group's
+// children stay contiguous; a group's own zIndex is its topmost child's.
+
+export type DropPosition = 'above' | 'below';
+
+// Stack key for sorting siblings; groups stack by their topmost leaf
+const stackKey = (items: LayoutItem[], item: LayoutItem): number => {
+  if (item.type !== 'group') return item.zIndex;
+  const leaves = getDescendantIds(items, item.id)
+    .map(id => items.find(i => i.id === id))
+    .filter((i): i is LayoutItem => !!i && i.type !== 'group');
+  return leaves.length ? Math.max(...leaves.map(l => l.zIndex)) : item.zIndex;
+};
+
+// Siblings under `parentId`, bottom of the stack first
+export const getSortedSiblings = (items: LayoutItem[], parentId?: string): LayoutItem[] =>
+  items
+    .map((item, index) => ({ item, index }))
+    .filter(({ item }) => item.parentId === parentId)
+    .sort((a, b) => stackKey(items, a.item) - stackKey(items, b.item) || a.index - b.index)
+    .map(({ item }) => item);
+
+// Rewrites zIndex from an explicit sibling order (bottom first) for every level
+const assignZOrder = (items: LayoutItem[], orderFor: (parentId?: string) => LayoutItem[]): LayoutItem[] => {
+  const zIndexes = new Map<string, number>();
+  let next = 1;
+  const visit = (parentId?: string) => {
+    orderFor(parentId).forEach(item => {
+      if (item.type === 'group') {
+        visit(item.id);
+        zIndexes.set(item.id, next - 1);
+      } else {
+        zIndexes.set(item.id, next++);
+      }
+    });
+  };
+  visit(undefined);
+  return items.map(item => zIndexes.has(item.id) ? { ...item, zIndex: zIndexes.get(item.id)! } : item);
+};
+
+export const normalizeZOrder = (items: LayoutItem[]): LayoutItem[] =>
+  assignZOrder(items, parentId => getSortedSiblings(items, parentId));
+
+export const nextZIndex = (items: LayoutItem[]): number =>
+  items.length ? Math.max(...items.map(i => i.zIndex)) + 1 : 1;
+
+// Moves an item `steps` places up (positive) or down among its siblings;
+// Infinity / -Infinity send it to the front or back
+export const shiftLayer = (items: LayoutItem[], id: string, steps: number): LayoutItem[] => {
+  const item = items.find(i => i.id === id);
+  if (!item) return items;
+  const siblings = getSortedSiblings(items, item.parentId);
+  const from = siblings.findIndex(s => s.id === id);
+  const to = Math.max(0, Math.min(siblings.length - 1, from + steps));
+  if (from === to) return normalizeZOrder(items);
+  const reordered = siblings.filter(s => s.id !== id);
+  reordered.splice(to, 0, item);
+  return assignZOrder(items, parentId => parentId === item.parentId ? reordered : getSortedSiblings(items, parentId));
+};
+
+// Drag-and-drop: places `id` directly above or below `targetId`, adopting the
+// target's parent group (so layers can be dragged into and out of groups)
+export const moveLayer = (items: LayoutItem[], id: string, targetId: string, position: DropPosition): LayoutItem[] => {
+  const item = items.find(i => i.id === id);
+  const target = items.find(i => i.id === targetId);
+  if (!item || !target || id === targetId) return items;
+  // A group cannot be dropped inside itself
+  if (getDescendantIds(items, id).includes(targetId)) return items;
+
+  const parentId = target.parentId;
+  const moved = items.map(i => i.id === id ? { ...i, parentId } : i);
+  const siblings = getSortedSiblings(items, parentId).filter(s => s.id !== id);
+  const targetIndex = siblings.findIndex(s => s.id === targetId);
+  siblings.splice(position === 'above' ? targetIndex + 1 : targetIndex, 0, { ...item, parentId });
+
+  const ordered = assignZOrder(moved, p => p === parentId ? siblings : getSortedSiblings(moved, p));
+  return refreshGroupBounds(ordered);
+};
+
+// --- Visibility & locking (inherited from enclosing groups) ---
+
+const someAncestor = (items: LayoutItem[], item: LayoutItem, test: (i: LayoutItem) => boolean): boolean => {
+  let current: LayoutItem | undefined = item;
+  while (current) {
+    if (test(current)) return true;
+    const parentId: string | undefined = current.parentId;
+    current = parentId ? items.find(i => i.id === parentId) : undefined;
+  }
+  return false;
+};
+
+export const isHidden = (items: LayoutItem[], item: LayoutItem) => someAncestor(items, item, i => !!i.hidden);
+
+export const isLocked = (items: LayoutItem[], item: LayoutItem) => someAncestor(items, item, i => !!i.locked);
+
+// --- Naming ---
+
+export const getLayerName = (item: LayoutItem): string => {
+  if (item.name) return item.name;
+  switch (item.type) {
+    case 'text':
+      return getPlainText(getRichText(item).runs).trim().slice(0, 40) || 'Text';
+    case 'shape':
+      return item.shapeType ? item.shapeType.charAt(0).toUpperCase() + item.shapeType.slice(1) : 'Shape';
+    case 'group':
+      return 'Group';
+    case 'video':
+      return 'Video';
+    case 'image':
+    default:
+      return 'Image';
+  }
+};
+
+// Rows for the layers panel: top of the stack first, children indented under groups
+export interface LayerRow {
+  item: LayoutItem;
+  depth: number;
+}
+
+export const getLayerRows = (items: LayoutItem[]): LayerRow[] => {
+  const rows: LayerRow[] = [];
+  const visit = (parentId: string | undefined, depth: number) => {
+    getSortedSiblings(items, parentId).reverse().forEach(item => {
+      rows.push({ item, depth });
+      if (item.type === 'group' && getChildren(items, item.id).length) visit(item.id, depth + 1);
+    });
+  };
+  visit(undefined, 0);
+  return rows;
+};
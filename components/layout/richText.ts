@@ -0,0 +1,132 @@
+import type { CSSProperties } from 'react';
+import { LayoutItem, RichText, TextRun, TextStyle } from '../../types';
+
+// Structured text model for LayoutEditor text items: item-wide TextStyle plus
+// runs that override bold/italic/color. Rendered as styled spans, so html2canvas
+// exports pick the formatting up from the DOM.
+
+export const FONT_FAMILIES = [
+  'Inter', 'Arial', 'Helvetica', 'Georgia', 'Times New Roman',
+  'Courier New', 'Verdana', 'Trebuchet MS', 'Impact'
+];
+
+export const FONT_WEIGHTS = [300, 400, 500, 600, 700, 800];
+
+export const DEFAULT_TEXT_STYLE: TextStyle = {
+  fontFamily: 'Inter',
+  fontSize: 16,
+  fontWeight: 400,
+  color: '#ffffff',
+  align: 'left',
+  lineHeight: 1.3,
+  letterSpacing: 0,
+};
+
+export const createRichText = (content: string, style: Partial<TextStyle> = {}): RichText => ({
+  runs: [{ text: content }],
+  style: { ...DEFAULT_TEXT_STYLE, ...style },
+});
+
+// Older items only have `content`; treat it as a single unformatted run
+export const getRichText = (item: LayoutItem): RichText => item.text || createRichText(item.content);
+
+export const getPlainText = (runs: TextRun[]): string => runs.map(r => r.text).join('');
+
+export const hasRunFormatting = (runs: TextRun[]): boolean =>
+  runs.some(r => r.bold || r.italic || r.color);
+
+export const textStyleToCss = (style: TextStyle): CSSProperties => ({
+  fontFamily: style.fontFamily,
+  fontSize: style.fontSize,
+  fontWeight: style.fontWeight,
+  color: style.color,
+  textAlign: style.align,
+  lineHeight: style.lineHeight,
+  letterSpacing: style.letterSpacing,
+  textShadow: style.textShadow
+    ? `${style.textShadow.x}px ${style.textShadow.y}px ${style.textShadow.blur}px ${style.textShadow.color}`
+    : undefined,
+  whiteSpace: 'pre-wrap',
+  wordBreak: 'break-word',
+});
+
+export const runToCss = (run: TextRun): CSSProperties => ({
+  fontWeight: run.bold ? 700 : undefined,
+  fontStyle: run.italic ? 'italic' : undefined,
+  color: run.color,
+});
+
+const sameFormatting = (a: TextRun, b: TextRun) =>
+  !!a.bold === !!b.bold && !!a.italic === !!b.italic && a.color === b.color;
+
+// Joins neighbouring runs with identical formatting and drops empty ones
+export const normalizeRuns = (runs: TextRun[]): TextRun[] => {
+  const merged: TextRun[] = [];
+  runs.forEach(run => {
+    if (!run.text) return;
+    const last = merged[merged.length - 1];
+    if (last && sameFormatting(last, run)) {
+      last.text += run.text;
+    } else {
+      const clean: TextRun = { text: run.text };
+      if (run.bold) clean.bold = true;
+      if (run.italic) clean.italic = true;
+      if (run.color) clean.color = run.color;
+      merged.push(clean);
+    }
+  });
+  return merged.length ? merged : [{ text: '' }];
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// Seed markup for the contentEditable editor
+export const runsToHtml = (runs: TextRun[]): string =>
+  runs.map(run => {
+    const styles: string[] = [];
+    if (run.bold) styles.push('font-weight: 700');
+    if (run.italic) styles.push('font-style: italic');
+    if (run.color) styles.push(`color: ${run.color}`);
+    const html = escapeHtml(run.text).replace(/\n/g, '<br>');
+    return styles.length ? `<span style="${styles.join('; ')}">${html}</span>` : html;
+  }).join('');
+
+const BLOCK_TAGS = new Set(['DIV', 'P', 'LI']);
+
+// Reads the edited DOM back into runs. Browsers emit a mix of <b>/<i>/<font>
+// and inline styles depending on execCommand mode, so all of them are accepted.
+export const parseEditableDom = (root: HTMLElement): TextRun[] => {
+  const runs: TextRun[] = [];
+
+  const walk = (node: Node, inherited: Omit<TextRun, 'text'>) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      runs.push({ ...inherited, text: node.textContent || '' });
+      return;
+    }
+    if (!(node instanceof HTMLElement)) return;
+    if (node.tagName === 'BR') {
+      runs.push({ ...inherited, text: '\n' });
+      return;
+    }
+
+    const format = { ...inherited };
+    const weight = node.style.fontWeight;
+    if (node.tagName === 'B' || node.tagName === 'STRONG' || weight === 'bold' || Number(weight) >= 600) format.bold = true;
+    if (weight === 'normal' || (weight && Number(weight) < 600)) format.bold = false;
+    if (node.tagName === 'I' || node.tagName === 'EM' || node.style.fontStyle === 'italic') format.italic = true;
+    if (node.style.fontStyle === 'normal') format.italic = false;
+    const color = node.getAttribute('color') || node.style.color;
+    if (color) format.color = color;
+
+    // Block elements start on a new line (Chrome wraps new lines in <div>)
+    const isBlock = BLOCK_TAGS.has(node.tagName) && node !== root;
+    if (isBlock && runs.length && !getPlainText(runs).endsWith('\n')) {
+      runs.push({ ...inherited, text: '\n' });
+    }
+    node.childNodes.forEach(child => walk(child, format));
+  };
+
+  walk(root, {});
+  return normalizeRuns(runs);
+};
@@ -0,0 +1,140 @@
+import { RefObject, useState } from 'react';
+import html2canvas from 'html2canvas';
+import { Artboard, LayoutItem } from '../../types';
+import { poseItem } from './animation';
+import { replaceVideosWithPosters } from './videoClips';
+import { VideoFormat, exportArtboardVideo } from './videoExport';
+import { exportArtboardGif } from './gifExport';
+import { exportArtboardSvg, exportArtboardsPdf } from './vectorExport';
+
+export type LayoutExportFormat = 'png' | 'svg' | 'pdf' | 'gif' | VideoFormat;
+
+interface LayoutExportOptions {
+  canvasRef: RefObject<HTMLDivElement>; // The pasteboard, rendered by html2canvas for raster exports
+  documentName?: string;
+  artboards: Artboard[];
+  activeArtboard?: Artboard;
+  items: LayoutItem[]; // Posed at the playhead; stills show that moment
+  baseItems: LayoutItem[]; // Animated exports pose them frame by frame
+  length: number; // Timeline length in seconds
+  onStart?: () => void;
+}
+
+const toFileName = (text: string) => text.replace(/[^a-z0-9-_ ]/gi, '').trim().replace(/\s+/g, '-');
+
+const downloadUrl = (url: string, fileName: string) => {
+  const link = document.createElement('a');
+  link.download = fileName;
+  link.href = url;
+  link.click();
+};
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  downloadUrl(url, fileName);
+  URL.revokeObjectURL(url);
+};
+
+// Raster, vector and animated exports of the layout editor's artboards
+export const useLayoutExport = ({
+  canvasRef, documentName, artboards, activeArtboard, items, baseItems, length, onStart
+}: LayoutExportOptions) => {
+  const [exporting, setExporting] = useState(false);
+  const [exportProgress, setExportProgress] = useState<number | null>(null); // Video exports render in real time
+
+  // Renders one artboard at exactly its pixel size, regardless of zoom and pan
+  const getCanvasImage = async (artboard: Artboard | undefined = activeArtboard): Promise<string | null> => {
+    if (!canvasRef.current || !artboard) return null;
+    // Overlays are tagged data-html2canvas-ignore; selection rings are stripped from the clone
+    const canvas = await html2canvas(canvasRef.current, {
+      backgroundColor: artboard.background,
+      scale: 1,
+      x: artboard.x,
+      y: artboard.y,
+      width: artboard.width,
+      height: artboard.height,
+      onclone: (doc, pasteboard) => {
+        // Unzoomed, pasteboard coordinates map 1:1 to output pixels
+        pasteboard.style.transform = 'none';
+        doc.querySelectorAll('[data-layout-item]').forEach(el => el.classList.remove('ring-2', 'ring-indigo-500'));
+        replaceVideosWithPosters(pasteboard);
+      }
+    });
+    return canvas.toDataURL('image/png');
+  };
+
+  // Renders a single item unrotated at its own size, for compositing animation frames.
+  // The frame renderer moves and fades it, so the clone drops the playhead's pose.
+  const rasterizeItem = async (item: LayoutItem): Promise<HTMLCanvasElement | null> => {
+    if (!canvasRef.current) return null;
+    const frame = poseItem(item, 0);
+    return html2canvas(canvasRef.current, {
+      backgroundColor: null,
+      scale: 1,
+      x: frame.x,
+      y: frame.y,
+      width: frame.width,
+      height: frame.height,
+      onclone: (_doc, pasteboard) => {
+        pasteboard.style.transform = 'none';
+        Array.from(pasteboard.children).forEach(child => {
+          const el = child as HTMLElement;
+          if (el.dataset.layoutItem !== item.id) {
+            el.style.display = 'none';
+            return;
+          }
+          Object.assign(el.style, {
+            left: `${frame.x}px`, top: `${frame.y}px`, width: `${frame.width}px`, height: `${frame.height}px`,
+            transform: 'none', opacity: '1'
+          });
+          el.classList.remove('ring-2', 'ring-indigo-500');
+        });
+      }
+    });
+  };
+
+  const fileNameFor = (artboard: Artboard) =>
+    toFileName(`${documentName || 'layout'}-${artboard.name}`) || `envisage-layout-${Date.now()}`;
+
+  const downloadArtboard = async (artboard: Artboard) => {
+    const dataUrl = await getCanvasImage(artboard);
+    if (dataUrl) downloadUrl(dataUrl, `${fileNameFor(artboard)}.png`);
+  };
+
+  // Vector exports render from the item model, so they do not depend on the view
+  const runExport = async (format: LayoutExportFormat) => {
+    if (!activeArtboard) return;
+    setExporting(true);
+    onStart?.();
+    try {
+      if (format === 'gif' || format === 'mp4' || format === 'webm') {
+        setExportProgress(0);
+        const options = { rasterize: rasterizeItem, length, onProgress: setExportProgress };
+        const blob = format === 'gif'
+          ? await exportArtboardGif(activeArtboard, baseItems, options)
+          : await exportArtboardVideo(activeArtboard, baseItems, { ...options, format });
+        downloadBlob(blob, `${fileNameFor(activeArtboard)}.${format}`);
+      } else if (format === 'png') {
+        await downloadArtboard(activeArtboard);
+      } else if (format === 'svg') {
+        downloadBlob(await exportArtboardSvg(activeArtboard, items), `${fileNameFor(activeArtboard)}.svg`);
+      } else {
+        downloadBlob(await exportArtboardsPdf(artboards, items), `${toFileName(documentName || 'layout') || 'layout'}.pdf`);
+      }
+    } catch (e: any) {
+      console.error(e);
+      alert(`Export failed: ${e.message}`);
+    } finally {
+      setExporting(false);
+      setExportProgress(null);
+    }
+  };
+
+  const exportAll = async () => {
+    for (const artboard of artboards) {
+      await downloadArtboard(artboard);
+    }
+  };
+
+  return { exporting, exportProgress, getCanvasImage, runExport, exportAll };
+};
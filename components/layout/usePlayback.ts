@@ -0,0 +1,42 @@
+import { useEffect, useState } from 'react';
+
+// The layout editor's clock, in seconds. One playhead drives every video item
+// and keyframe; playing advances it once per animation frame and stops at the
+// end of the timeline.
+export const usePlayback = (length: number) => {
+  const [playhead, setPlayhead] = useState(0);
+  const [playing, setPlaying] = useState(false);
+
+  const togglePlay = () => {
+    if (!playing && playhead >= length) setPlayhead(0);
+    setPlaying(!playing);
+  };
+
+  const seek = (time: number) => {
+    setPlaying(false);
+    setPlayhead(time);
+  };
+
+  // Back to the start, stopped, e.g. when another document opens
+  const rewind = () => seek(0);
+
+  useEffect(() => {
+    if (!playing) return;
+    const startedAt = performance.now() - playhead * 1000;
+    let frame = 0;
+    const tick = (now: number) => {
+      const time = (now - startedAt) / 1000;
+      if (time >= length) {
+        setPlayhead(length);
+        setPlaying(false);
+        return;
+      }
+      setPlayhead(time);
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [playing]);
+
+  return { playhead, playing, togglePlay, seek, rewind, pause: () => setPlaying(false) };
+};
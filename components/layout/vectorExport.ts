@@ -0,0 +1,239 @@
+import { jsPDF } from 'jspdf';
+import 'svg2pdf.js';
+import { Artboard, LayoutItem, TextRun, TextStyle } from '../../types';
+import { getRichText } from './richText';
+import { getArtboardItems } from './artboards';
+import { isHidden } from './layers';
+import { toStillItem } from './videoClips';
+import { inlineItems } from '../../services/layoutStore';
+
+// Vector export: renders the LayoutItem model straight to SVG instead of
+// rasterising the DOM. Text stays text (wrapped here, since SVG has no text flow),
+// shapes become rects and crop clip-paths become <clipPath> elements. Videos are
+// drawn as their poster frame. PDFs are built from the same SVG, one page per artboard.
+
+const TEXT_PADDING = 8; // Matches the p-2 padding of RichTextItem
+const ASCENT_RATIO = 0.8; // Approximate baseline position within the em box
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const attrs = (values: Record<string, string | number | undefined>) =>
+  Object.entries(values)
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([key, value]) => `${key}="${escapeXml(String(value))}"`)
+    .join(' ');
+
+// --- Clip paths ---
+
+// Turns the crop tool's CSS clip-path (percent based) into a shape in item space
+const clipShape = (clipPath: string, width: number, height: number): string | null => {
+  const inset = clipPath.match(/^inset\(([^)]+)\)$/);
+  if (inset) {
+    // CSS shorthand: missing right/bottom/left values mirror the given ones
+    const values: number[] = inset[1].trim().split(/\s+/).map(parseFloat);
+    const [t, r = t, b = t, l = r] = values;
+    return `<rect ${attrs({
+      x: width * l / 100,
+      y: height * t / 100,
+      width: width * (100 - l - r) / 100,
+      height: height * (100 - t - b) / 100,
+    })}/>`;
+  }
+  const polygon = clipPath.match(/^polygon\(([^)]+)\)$/);
+  if (polygon) {
+    const points = polygon[1].split(',').map(pair => {
+      const [x, y] = pair.trim().split(/\s+/).map(parseFloat);
+      return `${width * x / 100},${height * y / 100}`;
+    });
+    return `<polygon points="${points.join(' ')}"/>`;
+  }
+  return null;
+};
+
+// --- Text layout ---
+
+interface TextSegment {
+  text: string;
+  run: TextRun;
+}
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+const fontFor = (style: TextStyle, run: TextRun) =>
+  `${run.italic ? 'italic ' : ''}${run.bold ? 700 : style.fontWeight} ${style.fontSize}px ${style.fontFamily}`;
+
+const measure = (text: string, style: TextStyle, run: TextRun): number => {
+  measureContext = measureContext || document.createElement('canvas').getContext('2d');
+  if (!measureContext) return text.length * style.fontSize * 0.5;
+  measureContext.font = fontFor(style, run);
+  return measureContext.measureText(text).width + style.letterSpacing * text.length;
+};
+
+// Greedy word wrap matching the editor's pre-wrap/break-word rendering closely enough
+const wrapRuns = (runs: TextRun[], style: TextStyle, maxWidth: number): TextSegment[][] => {
+  const lines: TextSegment[][] = [[]];
+  let lineWidth = 0;
+  let wrapped = false; // Current line started at a soft wrap rather than a '\n'
+
+  const append = (text: string, run: TextRun) => {
+    const line = lines[lines.length - 1];
+    const last = line[line.length - 1];
+    if (last && last.run === run) last.text += text; else line.push({ text, run });
+  };
+
+  runs.forEach(run => {
+    run.text.split(/(\n|\s+)/).forEach(token => {
+      if (!token) return;
+      if (token === '\n') {
+        lines.push([]);
+        lineWidth = 0;
+        wrapped = false;
+        return;
+      }
+      const width = measure(token, style, run);
+      const isSpace = /^\s+$/.test(token);
+      if (!isSpace && lineWidth > 0 && lineWidth + width > maxWidth) {
+        lines.push([]);
+        lineWidth = 0;
+        wrapped = true;
+      }
+      if (isSpace && lineWidth === 0 && wrapped) return; // No leading space after a wrap
+      append(token, run);
+      lineWidth += width;
+    });
+  });
+  return lines;
+};
+
+const ANCHORS: Record<TextStyle['align'], { anchor: string, x: (width: number) => number }> = {
+  left: { anchor: 'start', x: () => TEXT_PADDING },
+  justify: { anchor: 'start', x: () => TEXT_PADDING }, // SVG 1.1 has no justification
+  center: { anchor: 'middle', x: width => width / 2 },
+  right: { anchor: 'end', x: width => width - TEXT_PADDING },
+};
+
+const renderText = (item: LayoutItem, defs: string[]): string => {
+  const { runs, style } = getRichText(item);
+  const lines = wrapRuns(runs, style, item.width - TEXT_PADDING * 2);
+  const lineBox = style.fontSize * style.lineHeight;
+  const { anchor, x } = ANCHORS[style.align];
+
+  let filter: string | undefined;
+  if (style.textShadow) {
+    const id = `shadow-${item.id}`;
+    const { x: dx, y: dy, blur, color } = style.textShadow;
+    defs.push(`<filter id="${id}" x="-50%" y="-50%" width="200%" height="200%"><feDropShadow ${attrs({ dx, dy, stdDeviation: blur / 2, 'flood-color': color })}/></filter>`);
+    filter = `url(#${id})`;
+  }
+
+  const textLines = lines.map((line, i) => {
+    const y = TEXT_PADDING + i * lineBox + (lineBox - style.fontSize) / 2 + style.fontSize * ASCENT_RATIO;
+    const spans = line.map(({ text, run }) => `<tspan ${attrs({
+      'font-weight': run.bold ? 700 : undefined,
+      'font-style': run.italic ? 'italic' : undefined,
+      fill: run.color,
+    })}>${escapeXml(text)}</tspan>`).join('');
+    return `<text ${attrs({ x: x(item.width), y, 'text-anchor': anchor })} xml:space="preserve">${spans}</text>`;
+  }).join('');
+
+  return `<g ${attrs({
+    'font-family': `${style.fontFamily}, sans-serif`,
+    'font-size': style.fontSize,
+    'font-weight': style.fontWeight,
+    'letter-spacing': style.letterSpacing || undefined,
+    fill: style.color,
+    filter,
+  })}>${textLines}</g>`;
+};
+
+// --- Items ---
+
+const renderImage = (item: LayoutItem, defs: string[]): string => {
+  const image = `<image ${attrs({ href: item.content, width: item.width, height: item.height, preserveAspectRatio: 'xMidYMid slice' })}/>`;
+  if (!item.borderRadius) return image;
+  const id = `radius-${item.id}`;
+  defs.push(`<clipPath id="${id}"><rect ${attrs({ width: item.width, height: item.height, rx: item.borderRadius })}/></clipPath>`);
+  return `<g clip-path="url(#${id})">${image}</g>`;
+};
+
+// Shape radii are percentages of the box, as in the editor's CSS
+const renderShape = (item: LayoutItem): string => {
+  const radius = item.borderRadius || 0;
+  return `<rect ${attrs({
+    width: item.width,
+    height: item.height,
+    rx: radius ? item.width * radius / 100 : undefined,
+    ry: radius ? item.height * radius / 100 : undefined,
+    fill: item.color || '#4f46e5',
+  })}/>`;
+};
+
+const renderItem = (item: LayoutItem, artboard: Artboard, defs: string[]): string => {
+  let content = item.type === 'text' ? renderText(item, defs)
+    : item.type === 'image' ? renderImage(item, defs)
+    : renderShape(item);
+
+  const clipPath = item.style?.clipPath;
+  const shape = typeof clipPath === 'string' ? clipShape(clipPath, item.width, item.height) : null;
+  if (shape) {
+    const id = `crop-${item.id}`;
+    defs.push(`<clipPath id="${id}">${shape}</clipPath>`);
+    content = `<g clip-path="url(#${id})">${content}</g>`;
+  }
+
+  const transform = [
+    `translate(${item.x - artboard.x} ${item.y - artboard.y})`,
+    item.rotation ? `rotate(${item.rotation} ${item.width / 2} ${item.height / 2})` : '',
+  ].join(' ').trim();
+  return `<g ${attrs({ transform, opacity: item.style?.opacity })}>${content}</g>`;
+};
+
+// --- Public API ---
+
+// Items must already have inlined image content for the SVG to be self-contained
+export const renderArtboardSvg = (artboard: Artboard, items: LayoutItem[]): string => {
+  const defs: string[] = [];
+  const body = getArtboardItems(items, artboard)
+    .filter(item => item.type !== 'group' && !isHidden(items, item))
+    .sort((a, b) => a.zIndex - b.zIndex)
+    .map(item => renderItem(item, artboard, defs))
+    .join('');
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" ${attrs({
+    width: artboard.width,
+    height: artboard.height,
+    viewBox: `0 0 ${artboard.width} ${artboard.height}`,
+  })}><defs>${defs.join('')}</defs><rect ${attrs({ width: artboard.width, height: artboard.height, fill: artboard.background })}/>${body}</svg>`;
+};
+
+export const exportArtboardSvg = async (artboard: Artboard, items: LayoutItem[]): Promise<Blob> => {
+  const markup = renderArtboardSvg(artboard, await inlineItems(items.map(toStillItem)));
+  return new Blob([markup], { type: 'image/svg+xml' });
+};
+
+// One PDF page per artboard, each sized to the artboard in CSS pixels
+export const exportArtboardsPdf = async (artboards: Artboard[], items: LayoutItem[]): Promise<Blob> => {
+  if (artboards.length === 0) throw new Error("There are no artboards to export.");
+  const inlined = await inlineItems(items.map(toStillItem));
+  const orientation = (a: Artboard) => a.width > a.height ? 'landscape' : 'portrait';
+  const [first] = artboards;
+  const pdf = new jsPDF({ unit: 'px', format: [first.width, first.height], orientation: orientation(first), hotfixes: ['px_scaling'] });
+
+  // svg2pdf resolves styles through the DOM, so each page's SVG is mounted briefly
+  const host = document.createElement('div');
+  host.style.cssText = 'position: fixed; left: -100000px; top: 0;';
+  document.body.appendChild(host);
+  try {
+    for (const [index, artboard] of artboards.entries()) {
+      if (index > 0) pdf.addPage([artboard.width, artboard.height], orientation(artboard));
+      host.innerHTML = renderArtboardSvg(artboard, inlined);
+      const svg = host.firstElementChild;
+      if (!svg) continue;
+      await pdf.svg(svg, { x: 0, y: 0, width: artboard.width, height: artboard.height });
+    }
+  } finally {
+    host.remove();
+  }
+  return pdf.output('blob');
+};
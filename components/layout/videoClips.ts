@@ -0,0 +1,151 @@
+import { LayoutItem, VideoClip } from '../../types';
+
+// Playback model for LayoutEditor video items. Every clip runs on the layout's
+// shared clock: at layout time t a clip shows source time trimStart + t, wrapping
+// at trimEnd when it loops and holding its last frame when it does not.
+
+// Longest an item may be when a clip is first placed
+const MAX_PLACED_SIZE = 480;
+// A playing element may run this far (seconds) from the clock before it is re-seeked
+const DRIFT_TOLERANCE = 0.25;
+const POSTER_MAX_SIZE = 1280;
+const POSTER_QUALITY = 0.85;
+
+export const createVideoClip = (duration: number): VideoClip => ({
+  duration,
+  trimStart: 0,
+  trimEnd: duration,
+  muted: true,
+  loop: true,
+  posterTime: 0,
+});
+
+// Items imported without settings play nothing and show their poster, if any
+export const getVideoClip = (item: LayoutItem): VideoClip => item.video || createVideoClip(0);
+
+export const getClipLength = (clip: VideoClip): number => Math.max(0, clip.trimEnd - clip.trimStart);
+
+export const getClipTime = (clip: VideoClip, time: number): number => {
+  const length = getClipLength(clip);
+  if (length === 0) return clip.trimStart;
+  return clip.trimStart + (clip.loop ? time % length : Math.min(time, length));
+};
+
+// Non-looping clips stop on their last frame once the clock passes their length
+export const isClipRunning = (clip: VideoClip, time: number): boolean =>
+  getClipLength(clip) > 0 && (clip.loop || time < getClipLength(clip));
+
+// The timeline is as long as the longest clip in `items`
+export const getTimelineDuration = (items: LayoutItem[]): number =>
+  items.reduce((longest, item) => item.type === 'video' ? Math.max(longest, getClipLength(getVideoClip(item))) : longest, 0);
+
+// Keeps trim points inside the source and in order; the poster stays inside the trim
+export const clampVideoClip = (clip: VideoClip): VideoClip => {
+  const trimStart = Math.min(Math.max(0, clip.trimStart), clip.duration);
+  const trimEnd = Math.min(Math.max(trimStart, clip.trimEnd), clip.duration);
+  return { ...clip, trimStart, trimEnd, posterTime: Math.min(Math.max(trimStart, clip.posterTime), trimEnd) };
+};
+
+export const formatClipTime = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${(seconds - minutes * 60).toFixed(1).padStart(4, '0')}`;
+};
+
+// --- Elements ---
+
+// Brings a <video> in line with the clock. Small drift while playing is left alone
+// so playback stays smooth; paused elements are seeked to the exact frame.
+export const syncVideoElement = (video: HTMLVideoElement, clip: VideoClip, time: number, playing: boolean) => {
+  const target = getClipTime(clip, time);
+  const running = playing && isClipRunning(clip, time);
+  if (Math.abs(video.currentTime - target) > (running ? DRIFT_TOLERANCE : 0.01)) video.currentTime = target;
+  if (running && video.paused) {
+    video.play().catch(() => { /* Interrupted by a pause or seek; the next sync retries */ });
+  } else if (!running && !video.paused) {
+    video.pause();
+  }
+};
+
+export const loadVideo = (src: string): Promise<HTMLVideoElement> =>
+  new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+    video.onloadeddata = () => resolve(video);
+    video.onerror = () => reject(new Error("The video could not be loaded."));
+    video.src = src;
+  });
+
+export const seekVideo = (video: HTMLVideoElement, time: number): Promise<void> =>
+  new Promise(resolve => {
+    if (Math.abs(video.currentTime - time) < 0.001) {
+      resolve();
+      return;
+    }
+    video.addEventListener('seeked', () => resolve(), { once: true });
+    video.currentTime = time;
+  });
+
+// Source rectangle that covers a width x height box, like object-fit: cover
+export const coverCrop = (sourceWidth: number, sourceHeight: number, width: number, height: number) => {
+  const scale = Math.max(width / sourceWidth, height / sourceHeight);
+  const sw = width / scale;
+  const sh = height / scale;
+  return { sx: (sourceWidth - sw) / 2, sy: (sourceHeight - sh) / 2, sw, sh };
+};
+
+const frameToDataUrl = (video: HTMLVideoElement): string => {
+  const scale = Math.min(1, POSTER_MAX_SIZE / Math.max(video.videoWidth, video.videoHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(video.videoWidth * scale);
+  canvas.height = Math.round(video.videoHeight * scale);
+  canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', POSTER_QUALITY);
+};
+
+export const captureVideoFrame = async (src: string, time: number): Promise<string> => {
+  const video = await loadVideo(src);
+  try {
+    await seekVideo(video, time);
+    return frameToDataUrl(video);
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+  }
+};
+
+// Settings and on-canvas size for a newly placed clip, with its first frame as the poster
+export const probeVideoClip = async (src: string): Promise<{ clip: VideoClip, width: number, height: number }> => {
+  const video = await loadVideo(src);
+  try {
+    await seekVideo(video, 0);
+    const scale = MAX_PLACED_SIZE / Math.max(video.videoWidth, video.videoHeight, 1);
+    const duration = Number.isFinite(video.duration) ? video.duration : 0;
+    return {
+      clip: { ...createVideoClip(duration), poster: frameToDataUrl(video) },
+      width: Math.round(video.videoWidth * scale) || MAX_PLACED_SIZE,
+      height: Math.round(video.videoHeight * scale) || Math.round(MAX_PLACED_SIZE * 9 / 16),
+    };
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+  }
+};
+
+// --- Stills ---
+
+// Still exports show a video item as its poster frame
+export const toStillItem = (item: LayoutItem): LayoutItem =>
+  item.type === 'video' ? { ...item, type: 'image', content: getVideoClip(item).poster || '' } : item;
+
+// html2canvas does not paint <video>, so cloned documents get the poster images instead
+export const replaceVideosWithPosters = (root: ParentNode) => {
+  root.querySelectorAll<HTMLVideoElement>('video[data-layout-video]').forEach(video => {
+    const image = video.ownerDocument.createElement('img');
+    image.className = video.className;
+    image.style.cssText = video.style.cssText;
+    if (video.poster) image.src = video.poster;
+    video.replaceWith(image);
+  });
+};
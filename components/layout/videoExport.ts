@@ -0,0 +1,95 @@
+import { Artboard, LayoutItem } from '../../types';
+import { RasterizeItem, prepareFrameSources, releaseFrameSources, drawFrame } from './frameRenderer';
+import { getVideoClip, getClipTime, seekVideo, syncVideoElement } from './videoClips';
+
+// Animated video export: plays an artboard's timeline once, drawing every frame
+// onto a canvas that MediaRecorder captures together with the audio of unmuted
+// clips. Recording runs in real time, so the tab has to stay visible while it runs.
+
+export type VideoFormat = 'mp4' | 'webm';
+
+// Browsers choose the audio codec when only the video one is given
+const MIME_TYPES: Record<VideoFormat, string[]> = {
+  mp4: ['video/mp4;codecs=avc1', 'video/mp4'],
+  webm: ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'],
+};
+
+const DEFAULT_FPS = 30;
+const VIDEO_BITRATE = 8_000_000;
+
+export const getRecordingMimeType = (format: VideoFormat): string | undefined =>
+  typeof MediaRecorder === 'undefined' ? undefined : MIME_TYPES[format].find(type => MediaRecorder.isTypeSupported(type));
+
+interface VideoExportOptions {
+  format: VideoFormat;
+  rasterize: RasterizeItem;
+  length: number; // Timeline length in seconds
+  fps?: number;
+  onProgress?: (fraction: number) => void;
+}
+
+const nextFrame = () => new Promise<number>(resolve => requestAnimationFrame(resolve));
+
+export const exportArtboardVideo = async (artboard: Artboard, items: LayoutItem[], options: VideoExportOptions): Promise<Blob> => {
+  const { format, rasterize, length, fps = DEFAULT_FPS, onProgress } = options;
+  const mimeType = getRecordingMimeType(format);
+  if (!mimeType) throw new Error(`This browser cannot record ${format.toUpperCase()} video.`);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = artboard.width;
+  canvas.height = artboard.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Video export needs canvas support.");
+
+  const sources = await prepareFrameSources(artboard, items, rasterize);
+  const audio = new AudioContext();
+  const audioOut = audio.createMediaStreamDestination();
+  const stream = canvas.captureStream(fps);
+
+  try {
+    let hasAudio = false;
+    for (const source of sources) {
+      if (source.kind !== 'video') continue;
+      const clip = getVideoClip(source.item);
+      await seekVideo(source.video, getClipTime(clip, 0));
+      // Unmuted clips feed the recording only, not the speakers
+      if (!clip.muted) {
+        source.video.muted = false;
+        audio.createMediaElementSource(source.video).connect(audioOut);
+        hasAudio = true;
+      }
+    }
+    if (hasAudio) audioOut.stream.getAudioTracks().forEach(track => stream.addTrack(track));
+
+    const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: VIDEO_BITRATE });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+    const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+    const draw = (time: number) => {
+      sources.forEach(source => {
+        if (source.kind === 'video') syncVideoElement(source.video, getVideoClip(source.item), time, true);
+      });
+      drawFrame(ctx, artboard, sources, time, length);
+    };
+
+    await audio.resume();
+    draw(0);
+    recorder.start();
+    const startedAt = performance.now();
+    let time = 0;
+    while (time < length) {
+      draw(time);
+      onProgress?.(time / length);
+      time = (await nextFrame() - startedAt) / 1000;
+    }
+    recorder.stop();
+    await stopped;
+    onProgress?.(1);
+    return new Blob(chunks, { type: mimeType.split(';')[0] });
+  } finally {
+    releaseFrameSources(sources);
+    stream.getTracks().forEach(track => track.stop());
+    audio.close();
+  }
+};
@@ -0,0 +1,125 @@
+import { GeneratedAsset, ToolType } from '../../types';
+
+// Search and filtering for the Library tool. Pure functions over the asset list.
+
+export const TOOL_LABELS: Record<ToolType, string> = {
+  [ToolType.DASHBOARD]: 'Dashboard',
+  [ToolType.IMAGE_GEN]: 'Image Studio',
+  [ToolType.IMAGE_EDIT]: 'Magic Editor',
+  [ToolType.VIDEO_GEN]: 'Veo Studio',
+  [ToolType.THREE_D_GEN]: '3D Animation Studio',
+  [ToolType.COPY_WRITER]: 'Copywriter',
+  [ToolType.LAYOUT_EDITOR]: 'Layout Editor',
+  [ToolType.BRAND_KIT]: 'Brand Kit',
+  [ToolType.LIBRARY]: 'Library',
+};
+
+export type DateRange = 'any' | 'today' | 'week' | 'month' | 'year';
+export type LibraryScope = { kind: 'all' } | { kind: 'favorites' } | { kind: 'unfiled' } | { kind: 'folder', folderId: string };
+export type SortOrder = 'newest' | 'oldest';
+
+export interface LibraryFilters {
+  query: string;
+  type: GeneratedAsset['type'] | 'all';
+  tool: ToolType | 'all';
+  dateRange: DateRange;
+  aspectRatio: string | 'all';
+  tag: string | null;
+  scope: LibraryScope;
+  sort: SortOrder;
+}
+
+export const DEFAULT_FILTERS: LibraryFilters = {
+  query: '',
+  type: 'all',
+  tool: 'all',
+  dateRange: 'any',
+  aspectRatio: 'all',
+  tag: null,
+  scope: { kind: 'all' },
+  sort: 'newest',
+};
+
+export const DATE_RANGES: { id: DateRange, label: string }[] = [
+  { id: 'any', label: 'Any time' },
+  { id: 'today', label: 'Today' },
+  { id: 'week', label: 'Past 7 days' },
+  { id: 'month', label: 'Past 30 days' },
+  { id: 'year', label: 'Past year' },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const rangeStart = (range: DateRange): number => {
+  const now = Date.now();
+  switch (range) {
+    case 'today': {
+      const start = new Date();
+      start.setHours(0, 0, 0, 0);
+      return start.getTime();
+    }
+    case 'week': return now - 7 * DAY_MS;
+    case 'month': return now - 30 * DAY_MS;
+    case 'year': return now - 365 * DAY_MS;
+    default: return 0;
+  }
+};
+
+// Everything a search should match: prompts (including each edit in a chain),
+// text content and tags
+const searchableText = (asset: GeneratedAsset): string =>
+  [
+    asset.metadata?.prompt,
+    asset.metadata?.negativePrompt,
+    asset.type === 'text' ? asset.content : '',
+    ...(asset.lineage || []).map(step => step.prompt),
+    ...(asset.tags || []),
+  ].join('\n').toLowerCase();
+
+// Every word of the query must appear somewhere
+const matchesQuery = (asset: GeneratedAsset, query: string): boolean => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return true;
+  const text = searchableText(asset);
+  return words.every(word => text.includes(word));
+};
+
+const inScope = (asset: GeneratedAsset, scope: LibraryScope): boolean => {
+  switch (scope.kind) {
+    case 'favorites': return !!asset.favorite;
+    case 'unfiled': return !asset.folderId;
+    case 'folder': return asset.folderId === scope.folderId;
+    default: return true;
+  }
+};
+
+export const filterAssets = (assets: GeneratedAsset[], filters: LibraryFilters): GeneratedAsset[] => {
+  const since = rangeStart(filters.dateRange);
+  const result = assets.filter(asset =>
+    inScope(asset, filters.scope) &&
+    (filters.type === 'all' || asset.type === filters.type) &&
+    (filters.tool === 'all' || asset.provenance?.tool === filters.tool) &&
+    (filters.aspectRatio === 'all' || asset.metadata?.aspectRatio === filters.aspectRatio) &&
+    (!filters.tag || !!asset.tags?.includes(filters.tag)) &&
+    asset.createdAt >= since &&
+    matchesQuery(asset, filters.query)
+  );
+  return result.sort((a, b) => filters.sort === 'newest' ? b.createdAt - a.createdAt : a.createdAt - b.createdAt);
+};
+
+export const hasActiveFilters = (filters: LibraryFilters): boolean =>
+  !!filters.query.trim() || filters.type !== 'all' || filters.tool !== 'all' ||
+  filters.dateRange !== 'any' || filters.aspectRatio !== 'all' || !!filters.tag;
+
+// Tags in use, most used first
+export const collectTags = (assets: GeneratedAsset[]): { tag: string, count: number }[] => {
+  const counts = new Map<string, number>();
+  assets.forEach(asset => asset.tags?.forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1)));
+  return Array.from(counts, ([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+};
+
+export const collectAspectRatios = (assets: GeneratedAsset[]): string[] =>
+  Array.from(new Set(assets.flatMap(asset => asset.metadata?.aspectRatio ? [asset.metadata.aspectRatio] : []))).sort();
+
+export const normalizeTag = (tag: string) => tag.trim().toLowerCase().replace(/\s+/g, '-');
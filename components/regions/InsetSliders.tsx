@@ -0,0 +1,27 @@
+import React from 'react';
+import { InsetRect } from './regions';
+
+interface InsetSlidersProps {
+  inset: InsetRect;
+  onChange: (inset: InsetRect) => void;
+  max?: number; // Per side, in percent
+}
+
+// Fine tuning for a rect region, one slider per side
+const InsetSliders: React.FC<InsetSlidersProps> = ({ inset, onChange, max = 50 }) => (
+  <div className="space-y-2">
+    {(['t', 'r', 'b', 'l'] as const).map((side) => (
+      <div key={side} className="flex items-center text-xs">
+        <span className="w-4 uppercase text-zinc-500">{side}</span>
+        <input
+          type="range" min="0" max={max}
+          value={inset[side]}
+          onChange={(e) => onChange({ ...inset, [side]: Number(e.target.value) })}
+          className="flex-1"
+        />
+      </div>
+    ))}
+  </div>
+);
+
+export default InsetSliders;
@@ -0,0 +1,35 @@
+import React from 'react';
+import { InsetRect, PercentPoint, RegionTool } from './regions';
+
+interface RegionOverlayProps {
+  tool: RegionTool;
+  inset: InsetRect;
+  points: PercentPoint[];
+}
+
+// Outline of the region being drawn; sits absolutely over its target
+const RegionOverlay: React.FC<RegionOverlayProps> = ({ tool, inset, points }) => {
+  if (tool === 'rect') {
+    return (
+      <div
+        className="absolute border-2 border-indigo-500 bg-indigo-500/10 pointer-events-none"
+        style={{ top: `${inset.t}%`, right: `${inset.r}%`, bottom: `${inset.b}%`, left: `${inset.l}%` }}
+      />
+    );
+  }
+  return (
+    <svg className="absolute inset-0 w-full h-full pointer-events-none">
+      <polygon
+        points={points.map(p => `${p.x}%,${p.y}%`).join(' ')}
+        fill="rgba(79, 70, 229, 0.3)"
+        stroke="#6366f1"
+        strokeWidth="2"
+      />
+      {points.map((p, i) => (
+        <circle key={i} cx={`${p.x}%`} cy={`${p.y}%`} r="3" fill="white" stroke="#6366f1" />
+      ))}
+    </svg>
+  );
+};
+
+export default RegionOverlay;
@@ -0,0 +1,60 @@
+// Percent-based selection regions shared by the LayoutEditor crop tool and the
+// ImageEditor mask tool. Coordinates are percentages of the target's box, so a
+// region stays put however large the target is drawn.
+
+export type RegionTool = 'rect' | 'lasso';
+
+export interface InsetRect {
+  t: number;
+  r: number;
+  b: number;
+  l: number;
+}
+
+export interface PercentPoint {
+  x: number;
+  y: number;
+}
+
+export const EMPTY_INSET: InsetRect = { t: 0, r: 0, b: 0, l: 0 };
+
+const clampPercent = (value: number) => Math.max(0, Math.min(100, value));
+
+export const toPercentPoint = (e: { clientX: number, clientY: number }, rect: DOMRect): PercentPoint => ({
+  x: clampPercent(((e.clientX - rect.left) / rect.width) * 100),
+  y: clampPercent(((e.clientY - rect.top) / rect.height) * 100),
+});
+
+// Rect drawn by dragging between two corners, in any direction
+export const insetFromCorners = (a: PercentPoint, b: PercentPoint): InsetRect => ({
+  t: Math.min(a.y, b.y),
+  r: 100 - Math.max(a.x, b.x),
+  b: 100 - Math.max(a.y, b.y),
+  l: Math.min(a.x, b.x),
+});
+
+export const isEmptyInset = (inset: InsetRect) => inset.l + inset.r >= 100 || inset.t + inset.b >= 100;
+
+export const insetClipPath = (inset: InsetRect) => `inset(${inset.t}% ${inset.r}% ${inset.b}% ${inset.l}%)`;
+
+export const polygonClipPath = (points: PercentPoint[]) => `polygon(${points.map(p => `${p.x}% ${p.y}%`).join(', ')})`;
+
+// Adds the region as a closed sub-path in pixel space, ready to fill or clip
+export const traceRegion = (
+  ctx: CanvasRenderingContext2D,
+  region: { tool: 'rect', inset: InsetRect } | { tool: 'lasso', points: PercentPoint[] },
+  width: number,
+  height: number
+) => {
+  if (region.tool === 'rect') {
+    const { t, r, b, l } = region.inset;
+    ctx.rect(width * l / 100, height * t / 100, width * (100 - l - r) / 100, height * (100 - t - b) / 100);
+    return;
+  }
+  region.points.forEach((p, i) => {
+    const x = width * p.x / 100;
+    const y = height * p.y / 100;
+    if (i === 0) ctx.moveTo(x, y); else ctx.lineTo(x, y);
+  });
+  ctx.closePath();
+};
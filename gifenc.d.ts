@@ -0,0 +1,22 @@
+// gifenc ships without type declarations; these cover the parts the layout export uses
+declare module 'gifenc' {
+  export type Palette = number[][];
+
+  export interface WriteFrameOptions {
+    palette?: Palette;
+    delay?: number; // Milliseconds
+    repeat?: number; // 0 loops forever, -1 plays once
+    transparent?: boolean;
+    dispose?: number;
+  }
+
+  export interface Encoder {
+    writeFrame(index: Uint8Array, width: number, height: number, options?: WriteFrameOptions): void;
+    finish(): void;
+    bytes(): Uint8Array;
+  }
+
+  export function GIFEncoder(options?: { auto?: boolean, initialCapacity?: number }): Encoder;
+  export function quantize(rgba: Uint8Array | Uint8ClampedArray, maxColors: number, options?: { format?: 'rgb565' | 'rgb444' | 'rgba4444' }): Palette;
+  export function applyPalette(rgba: Uint8Array | Uint8ClampedArray, palette: Palette, format?: 'rgb565' | 'rgb444' | 'rgba4444'): Uint8Array;
+}
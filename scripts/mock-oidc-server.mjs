@@ -0,0 +1,227 @@
+// Local OpenID Connect provider for developing and testing sign-in without a
+// real identity provider. Implements discovery, the authorization code flow
+// with PKCE (S256 only), refresh token rotation, revocation and RP-initiated
+// logout. The consent page lets you pick one of the users below.
+//
+//   npm run mock-oidc
+//   OIDC_ISSUER=http://localhost:9400 OIDC_CLIENT_ID=envisage-studio   (in .env.local)
+//
+// Options (environment): PORT (9400), ACCESS_TOKEN_TTL in seconds (300; set it
+// low to watch the app refresh), REFRESH_TOKEN_TTL in seconds (86400).
+// State lives in memory, so restarting the server invalidates every session.
+
+import http from 'node:http';
+import crypto from 'node:crypto';
+
+const PORT = Number(process.env.PORT || 9400);
+const ISSUER = `http://localhost:${PORT}`;
+const ACCESS_TOKEN_TTL = Number(process.env.ACCESS_TOKEN_TTL || 300);
+const REFRESH_TOKEN_TTL = Number(process.env.REFRESH_TOKEN_TTL || 86400);
+const CODE_TTL = 60;
+
+const USERS = {
+  alice: { sub: 'mock-alice', name: 'Alice Admin', email: 'alice@example.com', roles: ['admin', 'editor'] },
+  bob: { sub: 'mock-bob', name: 'Bob Editor', email: 'bob@example.com', roles: ['editor'] },
+  carol: { sub: 'mock-carol', name: 'Carol Viewer', email: 'carol@example.com', roles: ['viewer'] },
+};
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const KEY_ID = crypto.randomUUID();
+
+const codes = new Map(); // code -> { clientId, redirectUri, challenge, nonce, scope, user, expiresAt }
+const refreshTokens = new Map(); // token -> { clientId, scope, user, expiresAt }
+const accessTokens = new Map(); // token -> { user, expiresAt }
+
+const now = () => Math.floor(Date.now() / 1000);
+const base64Url = (buffer) => Buffer.from(buffer).toString('base64url');
+const randomToken = () => base64Url(crypto.randomBytes(32));
+
+const signJwt = (claims) => {
+  const header = base64Url(JSON.stringify({ alg: 'RS256', typ: 'JWT', kid: KEY_ID }));
+  const payload = base64Url(JSON.stringify(claims));
+  const signature = crypto.sign('sha256', Buffer.from(`${header}.${payload}`), privateKey);
+  return `${header}.${payload}.${base64Url(signature)}`;
+};
+
+// --- Responses ---
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+};
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+  res.end(JSON.stringify(body));
+};
+
+const sendError = (res, status, error, description) => sendJson(res, status, { error, error_description: description });
+
+const redirect = (res, location) => {
+  res.writeHead(302, { Location: location });
+  res.end();
+};
+
+const escapeHtml = (value) => String(value).replace(/[&<>"']/g, c => `&#${c.charCodeAt(0)};`);
+
+const consentPage = (query) => {
+  const links = Object.entries(USERS).map(([id, user]) => {
+    const params = new URLSearchParams({ ...query, user: id });
+    return `<li><a href="/authorize/approve?${escapeHtml(params)}">${escapeHtml(user.name)}</a> <small>${escapeHtml(user.roles.join(', '))}</small></li>`;
+  }).join('');
+  const deny = new URL(query.redirect_uri);
+  deny.search = new URLSearchParams({ error: 'access_denied', error_description: 'Sign-in was cancelled.', state: query.state || '' }).toString();
+  return `<!doctype html><html><head><title>Mock OIDC sign-in</title>
+<style>body{font-family:system-ui;background:#09090b;color:#e4e4e7;max-width:420px;margin:80px auto}a{color:#818cf8}li{margin:8px 0}small{color:#71717a}</style>
+</head><body><h2>Mock OIDC</h2><p>Sign in to <b>${escapeHtml(query.client_id)}</b> as:</p><ul>${links}</ul>
+<p><a href="${escapeHtml(deny.href)}">Cancel</a></p></body></html>`;
+};
+
+const readForm = (req) => new Promise((resolve, reject) => {
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => resolve(Object.fromEntries(new URLSearchParams(body))));
+  req.on('error', reject);
+});
+
+// --- Endpoints ---
+
+const discovery = () => ({
+  issuer: ISSUER,
+  authorization_endpoint: `${ISSUER}/authorize`,
+  token_endpoint: `${ISSUER}/token`,
+  userinfo_endpoint: `${ISSUER}/userinfo`,
+  jwks_uri: `${ISSUER}/jwks`,
+  revocation_endpoint: `${ISSUER}/revoke`,
+  end_session_endpoint: `${ISSUER}/logout`,
+  response_types_supported: ['code'],
+  grant_types_supported: ['authorization_code', 'refresh_token'],
+  code_challenge_methods_supported: ['S256'],
+  subject_types_supported: ['public'],
+  id_token_signing_alg_values_supported: ['RS256'],
+  scopes_supported: ['openid', 'profile', 'email', 'offline_access'],
+  token_endpoint_auth_methods_supported: ['none'],
+});
+
+const authorize = (res, query, approve) => {
+  if (query.response_type !== 'code') return sendError(res, 400, 'unsupported_response_type', 'Only the code flow is supported.');
+  if (!query.client_id || !query.redirect_uri) return sendError(res, 400, 'invalid_request', 'client_id and redirect_uri are required.');
+  if (!query.code_challenge || query.code_challenge_method !== 'S256') {
+    return sendError(res, 400, 'invalid_request', 'PKCE with code_challenge_method=S256 is required.');
+  }
+  if (!approve) {
+    res.writeHead(200, { 'Content-Type': 'text/html' });
+    return res.end(consentPage(query));
+  }
+  const user = USERS[query.user];
+  if (!user) return sendError(res, 400, 'invalid_request', 'Unknown user.');
+  const code = randomToken();
+  codes.set(code, {
+    clientId: query.client_id,
+    redirectUri: query.redirect_uri,
+    challenge: query.code_challenge,
+    nonce: query.nonce,
+    scope: query.scope || 'openid',
+    user,
+    expiresAt: now() + CODE_TTL,
+  });
+  const target = new URL(query.redirect_uri);
+  target.searchParams.set('code', code);
+  if (query.state) target.searchParams.set('state', query.state);
+  target.searchParams.set('iss', ISSUER);
+  redirect(res, target.href);
+};
+
+const issueTokens = (clientId, scope, user, nonce) => {
+  const accessToken = signJwt({ iss: ISSUER, sub: user.sub, aud: clientId, scope, roles: user.roles, iat: now(), exp: now() + ACCESS_TOKEN_TTL });
+  accessTokens.set(accessToken, { user, expiresAt: now() + ACCESS_TOKEN_TTL });
+  const tokens = {
+    access_token: accessToken,
+    token_type: 'Bearer',
+    expires_in: ACCESS_TOKEN_TTL,
+    scope,
+    id_token: signJwt({ iss: ISSUER, aud: clientId, iat: now(), exp: now() + ACCESS_TOKEN_TTL, ...(nonce ? { nonce } : {}), ...user }),
+  };
+  if (scope.split(' ').includes('offline_access')) {
+    const refreshToken = randomToken();
+    refreshTokens.set(refreshToken, { clientId, scope, user, expiresAt: now() + REFRESH_TOKEN_TTL });
+    tokens.refresh_token = refreshToken;
+  }
+  return tokens;
+};
+
+const token = async (req, res) => {
+  const form = await readForm(req);
+  if (form.grant_type === 'authorization_code') {
+    const grant = codes.get(form.code);
+    codes.delete(form.code); // Codes are single-use
+    if (!grant || grant.expiresAt < now()) return sendError(res, 400, 'invalid_grant', 'The authorization code is invalid or expired.');
+    if (grant.clientId !== form.client_id || grant.redirectUri !== form.redirect_uri) {
+      return sendError(res, 400, 'invalid_grant', 'client_id or redirect_uri does not match the authorization request.');
+    }
+    const challenge = base64Url(crypto.createHash('sha256').update(form.code_verifier || '').digest());
+    if (challenge !== grant.challenge) return sendError(res, 400, 'invalid_grant', 'PKCE verification failed.');
+    return sendJson(res, 200, issueTokens(grant.clientId, grant.scope, grant.user, grant.nonce));
+  }
+  if (form.grant_type === 'refresh_token') {
+    const grant = refreshTokens.get(form.refresh_token);
+    refreshTokens.delete(form.refresh_token); // Rotated on every use
+    if (!grant || grant.expiresAt < now() || grant.clientId !== form.client_id) {
+      return sendError(res, 400, 'invalid_grant', 'The refresh token is invalid, expired or revoked.');
+    }
+    return sendJson(res, 200, issueTokens(grant.clientId, grant.scope, grant.user));
+  }
+  sendError(res, 400, 'unsupported_grant_type', `Unsupported grant_type "${form.grant_type}".`);
+};
+
+const userinfo = (req, res) => {
+  const bearer = (req.headers.authorization || '').replace(/^Bearer /, '');
+  const grant = accessTokens.get(bearer);
+  if (!grant || grant.expiresAt < now()) return sendError(res, 401, 'invalid_token', 'The access token is invalid or expired.');
+  sendJson(res, 200, grant.user);
+};
+
+const revoke = async (req, res) => {
+  const form = await readForm(req);
+  refreshTokens.delete(form.token);
+  accessTokens.delete(form.token);
+  res.writeHead(200, CORS_HEADERS);
+  res.end();
+};
+
+const logout = (res, query) => {
+  if (query.post_logout_redirect_uri) return redirect(res, query.post_logout_redirect_uri);
+  res.writeHead(200, { 'Content-Type': 'text/html' });
+  res.end('<!doctype html><p>Signed out.</p>');
+};
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, ISSUER);
+  const query = Object.fromEntries(url.searchParams);
+  try {
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, CORS_HEADERS);
+      return res.end();
+    }
+    switch (`${req.method} ${url.pathname}`) {
+      case 'GET /.well-known/openid-configuration': return sendJson(res, 200, discovery());
+      case 'GET /jwks': return sendJson(res, 200, { keys: [{ ...publicKey.export({ format: 'jwk' }), kid: KEY_ID, alg: 'RS256', use: 'sig' }] });
+      case 'GET /authorize': return authorize(res, query, false);
+      case 'GET /authorize/approve': return authorize(res, query, true);
+      case 'POST /token': return await token(req, res);
+      case 'GET /userinfo': return userinfo(req, res);
+      case 'POST /revoke': return await revoke(req, res);
+      case 'GET /logout': return logout(res, query);
+      default: return sendError(res, 404, 'not_found', `No route for ${req.method} ${url.pathname}`);
+    }
+  } catch (e) {
+    console.error(e);
+    sendError(res, 500, 'server_error', e.message);
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock OIDC provider at ${ISSUER} (access tokens last ${ACCESS_TOKEN_TTL}s)`);
+  console.log(`Users: ${Object.keys(USERS).join(', ')}`);
+});
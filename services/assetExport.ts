@@ -0,0 +1,44 @@
+import JSZip from 'jszip';
+import { GeneratedAsset } from '../types';
+import { getAssetBlob } from './assetStore';
+
+// Bulk export of library assets as a zip: one file per asset plus a
+// manifest.json with the metadata the files themselves cannot carry.
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/svg+xml': 'svg',
+  'video/mp4': 'mp4',
+  'video/webm': 'webm',
+  'text/plain': 'txt',
+};
+
+export const extensionFor = (asset: GeneratedAsset, blob: Blob) =>
+  EXTENSIONS[blob.type.split(';')[0]] || (asset.type === 'video' ? 'mp4' : asset.type === 'text' ? 'txt' : 'png');
+
+export const slugify = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40) || 'asset';
+
+export const exportAssetsZip = async (assets: GeneratedAsset[]): Promise<Blob> => {
+  const zip = new JSZip();
+  const manifest = await Promise.all(assets.map(async asset => {
+    const blob = await getAssetBlob(asset);
+    const fileName = `${slugify(asset.metadata?.prompt || asset.type)}-${asset.id}.${extensionFor(asset, blob)}`;
+    zip.file(fileName, blob);
+    return {
+      file: fileName,
+      id: asset.id,
+      type: asset.type,
+      createdAt: new Date(asset.createdAt).toISOString(),
+      metadata: asset.metadata,
+      provenance: asset.provenance,
+      tags: asset.tags,
+      favorite: asset.favorite,
+    };
+  }));
+  zip.file('manifest.json', JSON.stringify({ exportedAt: new Date().toISOString(), assets: manifest }, null, 2));
+  return zip.generateAsync({ type: 'blob' });
+};
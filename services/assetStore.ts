@@ -0,0 +1,360 @@
+import { EditStep, GeneratedAsset } from '../types';
+import { STORES, getAll, getOne, getAllByIndex, putOne, deleteOne, withStore, requestToPromise } from './db';
+import { upgradeProvenance } from './provenance';
+
+// Persistent asset library. Binary content (images, videos) is stored as Blobs in
+// IndexedDB and handed to the UI as object URLs; text assets are stored inline.
+// Each record belongs to the user who created it and to one of their projects,
+// so people sharing a device only ever load their own library.
+
+const LEGACY_STORAGE_KEY = 'envisage_assets';
+
+interface StoredAsset {
+  id: string;
+  type: GeneratedAsset['type'];
+  blob?: Blob;
+  text?: string; // Text content, or a remote URL we could not fetch
+  metadata?: GeneratedAsset['metadata'];
+  variantGroupId?: string;
+  lineage?: StoredEditStep[];
+  provenance?: GeneratedAsset['provenance'];
+  tags?: string[];
+  favorite?: boolean;
+  folderId?: string;
+  ownerId?: string; // User id; unset for assets saved before sign-in existed
+  projectId?: string; // Unset for assets saved before projects existed
+  createdAt: number;
+}
+
+// Lineage images are stored as Blobs too, rather than as data URLs inside the record
+interface StoredEditStep extends Omit<EditStep, 'image'> {
+  blob: Blob;
+}
+
+export class AssetStorageError extends Error {
+  constructor(message: string, public cause?: unknown) {
+    super(message);
+    this.name = 'AssetStorageError';
+  }
+}
+
+export class StorageQuotaError extends AssetStorageError {
+  constructor(cause?: unknown) {
+    super("Browser storage is full. Delete some assets (videos take the most space) and try again.", cause);
+    this.name = 'StorageQuotaError';
+  }
+}
+
+const isQuotaError = (error: unknown): boolean =>
+  error instanceof DOMException &&
+  (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+export const toStorageError = (error: unknown, action: string): AssetStorageError => {
+  if (error instanceof AssetStorageError) return error;
+  if (isQuotaError(error)) return new StorageQuotaError(error);
+  return new AssetStorageError(`Failed to ${action}.`, error);
+};
+
+// Object URLs live for the whole session; we track them so deletes can release memory
+const objectUrls = new Map<string, string>();
+
+const urlFor = (id: string, blob: Blob): string => {
+  const existing = objectUrls.get(id);
+  if (existing) return existing;
+  const url = URL.createObjectURL(blob);
+  objectUrls.set(id, url);
+  return url;
+};
+
+// Also releases the asset's lineage images, which are keyed "<assetId>/<stepId>"
+const releaseUrl = (id: string) => {
+  objectUrls.forEach((url, key) => {
+    if (key === id || key.startsWith(`${id}/`)) {
+      URL.revokeObjectURL(url);
+      objectUrls.delete(key);
+    }
+  });
+};
+
+const dataUrlToBlob = (dataUrl: string): Blob => {
+  const [header, data] = dataUrl.split(',');
+  const mimeType = header.match(/^data:([^;,]+)/)?.[1] || 'application/octet-stream';
+  if (!header.includes(';base64')) {
+    return new Blob([decodeURIComponent(data)], { type: mimeType });
+  }
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mimeType });
+};
+
+const contentToBlob = async (content: string): Promise<Blob> => {
+  if (content.startsWith('data:')) return dataUrlToBlob(content);
+  const response = await fetch(content);
+  return response.blob();
+};
+
+const toStoredLineage = (lineage?: EditStep[]): Promise<StoredEditStep[]> | undefined =>
+  lineage && Promise.all(lineage.map(async ({ image, ...step }) => ({ ...step, blob: await contentToBlob(image) })));
+
+const toStored = async (asset: GeneratedAsset): Promise<StoredAsset> => {
+  const base = {
+    id: asset.id,
+    type: asset.type,
+    metadata: asset.metadata,
+    variantGroupId: asset.variantGroupId,
+    lineage: await toStoredLineage(asset.lineage),
+    provenance: asset.provenance,
+    tags: asset.tags,
+    favorite: asset.favorite,
+    folderId: asset.folderId,
+    createdAt: asset.createdAt,
+  };
+  if (asset.type === 'text') {
+    return { ...base, text: asset.content };
+  }
+  if (asset.content.startsWith('data:')) {
+    return { ...base, blob: dataUrlToBlob(asset.content) };
+  }
+  if (asset.content.startsWith('blob:')) {
+    const response = await fetch(asset.content);
+    return { ...base, blob: await response.blob() };
+  }
+  return { ...base, text: asset.content };
+};
+
+const fromStored = (record: StoredAsset): GeneratedAsset => ({
+  id: record.id,
+  type: record.type,
+  content: record.blob ? urlFor(record.id, record.blob) : record.text || '',
+  metadata: record.metadata,
+  variantGroupId: record.variantGroupId,
+  lineage: record.lineage?.map(({ blob, ...step }) => ({ ...step, image: urlFor(`${record.id}/${step.id}`, blob) })),
+  provenance: record.provenance,
+  tags: record.tags,
+  favorite: record.favorite,
+  folderId: record.folderId,
+  createdAt: record.createdAt,
+});
+
+// --- Public API ---
+
+// Where a saved asset belongs
+export interface AssetOwner {
+  ownerId: string;
+  projectId: string;
+}
+
+export const loadAssets = async (projectId: string): Promise<GeneratedAsset[]> => {
+  try {
+    const records = await getAllByIndex<StoredAsset>(STORES.ASSETS, 'projectId', projectId);
+    return records.sort((a, b) => b.createdAt - a.createdAt).map(fromStored);
+  } catch (e) {
+    throw toStorageError(e, 'load the asset library');
+  }
+};
+
+// Which project an asset is in, e.g. to follow a link; undefined when it does not exist
+export const getAssetProjectId = async (id: string): Promise<string | undefined> => {
+  try {
+    return (await getOne<StoredAsset>(STORES.ASSETS, id))?.projectId;
+  } catch (e) {
+    throw toStorageError(e, 'find the asset');
+  }
+};
+
+// Persists the asset and returns it with binary content swapped for an object URL
+export const saveAsset = async (asset: GeneratedAsset, owner: AssetOwner): Promise<GeneratedAsset> => {
+  try {
+    const record: StoredAsset = { ...await toStored(asset), ...owner };
+    await putOne(STORES.ASSETS, record);
+    return fromStored(record);
+  } catch (e) {
+    throw toStorageError(e, 'save the asset');
+  }
+};
+
+// Persists several assets in one transaction, e.g. an imported project bundle
+export const saveAssets = async (assets: GeneratedAsset[], owner: AssetOwner): Promise<GeneratedAsset[]> => {
+  try {
+    const records: StoredAsset[] = await Promise.all(assets.map(async asset => ({ ...await toStored(asset), ...owner })));
+    await withStore(STORES.ASSETS, 'readwrite', tx => {
+      const store = tx.objectStore(STORES.ASSETS);
+      records.forEach(record => store.put(record));
+    });
+    return records.map(fromStored);
+  } catch (e) {
+    throw toStorageError(e, 'save the assets');
+  }
+};
+
+// Other assets generated side by side with this one, in creation order
+export const getVariantSiblings = (assets: GeneratedAsset[], asset: GeneratedAsset): GeneratedAsset[] =>
+  asset.variantGroupId
+    ? assets
+        .filter(a => a.variantGroupId === asset.variantGroupId && a.id !== asset.id)
+        .sort((a, b) => a.createdAt - b.createdAt)
+    : [];
+
+export const deleteAsset = async (id: string): Promise<void> => {
+  try {
+    await deleteOne(STORES.ASSETS, id);
+    releaseUrl(id);
+  } catch (e) {
+    throw toStorageError(e, 'delete the asset');
+  }
+};
+
+// Removes several assets in one transaction, so a failed bulk delete removes none
+export const deleteAssets = async (ids: string[]): Promise<void> => {
+  try {
+    await withStore(STORES.ASSETS, 'readwrite', tx => {
+      const store = tx.objectStore(STORES.ASSETS);
+      ids.forEach(id => store.delete(id));
+    });
+    ids.forEach(releaseUrl);
+  } catch (e) {
+    throw toStorageError(e, 'delete the assets');
+  }
+};
+
+// Library organisation fields; changing them never touches the asset's content
+export type AssetLibraryFields = Pick<GeneratedAsset, 'tags' | 'favorite' | 'folderId'>;
+
+// Applies `update` to each asset's library fields in one transaction and
+// returns the patches that were written, keyed by asset id
+export const updateAssetLibraryFields = async (
+  ids: string[],
+  update: (current: AssetLibraryFields) => AssetLibraryFields
+): Promise<Map<string, AssetLibraryFields>> => {
+  const patches = new Map<string, AssetLibraryFields>();
+  try {
+    await withStore(STORES.ASSETS, 'readwrite', async tx => {
+      const store = tx.objectStore(STORES.ASSETS);
+      const records = await Promise.all(ids.map(id => requestToPromise(store.get(id) as IDBRequest<StoredAsset | undefined>)));
+      records.forEach(record => {
+        if (!record) return;
+        const patch = update({ tags: record.tags, favorite: record.favorite, folderId: record.folderId });
+        store.put({ ...record, ...patch });
+        patches.set(record.id, patch);
+      });
+    });
+  } catch (e) {
+    throw toStorageError(e, 'update the assets');
+  }
+  return patches;
+};
+
+// Moves assets to another project in one transaction; they keep their ids
+export const moveAssetsToProject = async (ids: string[], projectId: string): Promise<void> => {
+  try {
+    await withStore(STORES.ASSETS, 'readwrite', async tx => {
+      const store = tx.objectStore(STORES.ASSETS);
+      const records = await Promise.all(ids.map(id => requestToPromise(store.get(id) as IDBRequest<StoredAsset | undefined>)));
+      records.forEach(record => {
+        if (record) store.put({ ...record, projectId });
+      });
+    });
+  } catch (e) {
+    throw toStorageError(e, 'move the assets');
+  }
+};
+
+// Copies assets into another project under new ids. Variant groups are kept
+// together by giving the copies a new shared group id.
+export const copyAssetsToProject = async (ids: string[], projectId: string): Promise<number> => {
+  try {
+    return await withStore(STORES.ASSETS, 'readwrite', async tx => {
+      const store = tx.objectStore(STORES.ASSETS);
+      const records = await Promise.all(ids.map(id => requestToPromise(store.get(id) as IDBRequest<StoredAsset | undefined>)));
+      const groups = new Map<string, string>();
+      const copies = records.flatMap(record => {
+        if (!record) return [];
+        const suffix = `${Date.now()}-${Math.random().toString(36).substr(2, 5)}`;
+        let variantGroupId = record.variantGroupId;
+        if (variantGroupId) {
+          if (!groups.has(variantGroupId)) groups.set(variantGroupId, `${variantGroupId}-${suffix}`);
+          variantGroupId = groups.get(variantGroupId);
+        }
+        return [{ ...record, id: `${record.id}-copy-${suffix}`, projectId, variantGroupId }];
+      });
+      copies.forEach(copy => store.put(copy));
+      return copies.length;
+    });
+  } catch (e) {
+    throw toStorageError(e, 'copy the assets');
+  }
+};
+
+// Returns the raw Blob behind an asset, e.g. for downloads or re-encoding
+export const getAssetBlob = async (asset: GeneratedAsset): Promise<Blob> => {
+  if (asset.type === 'text') return new Blob([asset.content], { type: 'text/plain' });
+  const response = await fetch(asset.content);
+  return response.blob();
+};
+
+// One-time move of the old localStorage library into IndexedDB.
+// The legacy key is only removed once every asset has been written.
+export const migrateFromLocalStorage = async (): Promise<number> => {
+  const raw = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!raw) return 0;
+
+  let legacy: GeneratedAsset[];
+  try {
+    legacy = JSON.parse(raw);
+  } catch {
+    console.warn('Discarding unreadable legacy asset data');
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    return 0;
+  }
+
+  try {
+    const records = await Promise.all(legacy.map(toStored));
+    await withStore(STORES.ASSETS, 'readwrite', tx => {
+      const store = tx.objectStore(STORES.ASSETS);
+      records.forEach(record => store.put(record));
+    });
+  } catch (e) {
+    throw toStorageError(e, 'migrate assets from local storage');
+  }
+
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+  return legacy.length;
+};
+
+// Brings every stored asset's provenance up to the current schema, inferring it
+// for assets saved before provenance existed. Safe to run on every start.
+export const migrateAssetProvenance = async (): Promise<number> => {
+  try {
+    const records = await getAll<StoredAsset>(STORES.ASSETS);
+    const upgraded = records.flatMap(record => {
+      const provenance = upgradeProvenance(record);
+      return provenance ? [{ ...record, provenance }] : [];
+    });
+    if (upgraded.length === 0) return 0;
+    await withStore(STORES.ASSETS, 'readwrite', tx => {
+      const store = tx.objectStore(STORES.ASSETS);
+      upgraded.forEach(record => store.put(record));
+    });
+    return upgraded.length;
+  } catch (e) {
+    throw toStorageError(e, 'upgrade asset metadata');
+  }
+};
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+}
+
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
+
+// Ask the browser not to evict our data under storage pressure
+export const requestPersistentStorage = async (): Promise<boolean> => {
+  if (!navigator.storage?.persist) return false;
+  return navigator.storage.persist();
+};
@@ -0,0 +1,220 @@
+import { useEffect, useState } from 'react';
+import { User } from '../../types';
+import { AuthProvider, AuthSession, AuthError } from './types';
+import { createOidcProvider, stripCallbackParams } from './oidcProvider';
+import { syncRoute } from '../router';
+
+export type { AuthProvider, AuthSession } from './types';
+export { AuthError } from './types';
+
+// The signed-in session, shared through useAuth(). The session is kept in
+// localStorage so it survives reloads and is renewed shortly before the access
+// token expires; signing out in one tab signs out every tab.
+
+type AuthStatus = 'loading' | 'signedOut' | 'signedIn';
+
+interface AuthState {
+  status: AuthStatus;
+  session: AuthSession | null;
+  error: string | null;
+}
+
+const SESSION_KEY = 'envisage_session';
+const LEGACY_USER_KEY = 'envisage_user'; // The pre-auth demo login
+const RETURN_ROUTE_KEY = 'envisage_return_route'; // The hash route to come back to after the redirect
+const REFRESH_MARGIN_MS = 60_000;
+const REFRESH_RETRY_MS = 30_000; // After a network failure, while the token is still valid
+const EXPIRED_MESSAGE = "Your session has expired. Please sign in again.";
+
+// OIDC_* values are injected by vite.config.ts
+let provider: AuthProvider = createOidcProvider({
+  issuer: process.env.OIDC_ISSUER || '',
+  clientId: process.env.OIDC_CLIENT_ID || '',
+  redirectUri: process.env.OIDC_REDIRECT_URI || `${window.location.origin}${window.location.pathname}`,
+  scope: process.env.OIDC_SCOPE || 'openid profile email offline_access',
+  rolesClaim: process.env.OIDC_ROLES_CLAIM || 'roles',
+});
+
+let status: AuthStatus = 'loading';
+let session: AuthSession | null = null;
+let error: string | null = null;
+let initializing: Promise<void> | null = null;
+let refreshing: Promise<AuthSession | null> | null = null;
+let refreshTimer: ReturnType<typeof setTimeout> | undefined;
+const listeners = new Set<(state: AuthState) => void>();
+
+const getState = (): AuthState => ({ status, session, error });
+
+const emit = () => {
+  const state = getState();
+  listeners.forEach(listener => listener(state));
+};
+
+export const getAuthProvider = (): AuthProvider => provider;
+
+// Swaps the backend, e.g. to point at a different identity provider
+export const setAuthProvider = (next: AuthProvider) => {
+  provider = next;
+};
+
+export const getCurrentUser = (): User | null => session?.user ?? null;
+
+export const hasRole = (user: User | null | undefined, role: string): boolean => !!user?.roles.includes(role);
+
+// --- Session ---
+
+const readStoredSession = (): AuthSession | null => {
+  try {
+    const raw = localStorage.getItem(SESSION_KEY);
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+};
+
+const setSession = (next: AuthSession | null, message: string | null = null) => {
+  clearTimeout(refreshTimer);
+  session = next;
+  status = next ? 'signedIn' : 'signedOut';
+  error = message;
+  if (next) localStorage.setItem(SESSION_KEY, JSON.stringify(next));
+  else localStorage.removeItem(SESSION_KEY);
+  if (next) scheduleRefresh(next);
+  emit();
+};
+
+const scheduleRefresh = (current: AuthSession) => {
+  const delay = Math.max(0, current.expiresAt - REFRESH_MARGIN_MS - Date.now());
+  refreshTimer = setTimeout(() => { refreshSession(); }, delay);
+};
+
+// Renews the access token once, however many callers ask at the same time.
+// A rejected refresh token ends the session; a network failure is retried
+// until the access token actually expires.
+export const refreshSession = (): Promise<AuthSession | null> => {
+  const current = session;
+  if (!current) return Promise.resolve(null);
+  if (!refreshing) {
+    // Another tab may already have renewed it; refresh tokens are often single-use
+    const stored = readStoredSession();
+    if (stored && stored.expiresAt > current.expiresAt) {
+      setSession(stored);
+      return Promise.resolve(stored);
+    }
+    refreshing = (async () => {
+      try {
+        const next = await provider.refresh(current);
+        setSession(next);
+        return next;
+      } catch (e: any) {
+        console.error(e);
+        const rejected = e instanceof AuthError && (e.code === 'invalid_grant' || !current.refreshToken);
+        if (rejected || Date.now() >= current.expiresAt) {
+          setSession(null, EXPIRED_MESSAGE);
+          return null;
+        }
+        clearTimeout(refreshTimer);
+        refreshTimer = setTimeout(() => { refreshSession(); }, REFRESH_RETRY_MS);
+        return current;
+      } finally {
+        refreshing = null;
+      }
+    })();
+  }
+  return refreshing;
+};
+
+// For API calls: a token that stays valid for at least the refresh margin, or null when signed out
+export const getAccessToken = async (): Promise<string | null> => {
+  const current = session && session.expiresAt - REFRESH_MARGIN_MS <= Date.now() ? await refreshSession() : session;
+  return current?.accessToken ?? null;
+};
+
+// Finishes a pending redirect sign-in, otherwise restores the stored session
+export const initAuth = (): Promise<void> => {
+  if (!initializing) {
+    initializing = (async () => {
+      localStorage.removeItem(LEGACY_USER_KEY);
+      const url = new URL(window.location.href);
+      try {
+        const redirected = await provider.handleRedirect(url);
+        if (redirected) {
+          const returnRoute = sessionStorage.getItem(RETURN_ROUTE_KEY) || '';
+          sessionStorage.removeItem(RETURN_ROUTE_KEY);
+          window.history.replaceState(window.history.state, '', stripCallbackParams(url) + returnRoute);
+          syncRoute();
+          setSession(redirected);
+          return;
+        }
+      } catch (e: any) {
+        console.error(e);
+        window.history.replaceState(window.history.state, '', stripCallbackParams(url));
+        setSession(null, e.message);
+        return;
+      }
+      const stored = readStoredSession();
+      if (!stored) {
+        setSession(null);
+        return;
+      }
+      session = stored;
+      if (stored.expiresAt - REFRESH_MARGIN_MS > Date.now()) {
+        setSession(stored);
+      } else {
+        await refreshSession();
+      }
+    })();
+  }
+  return initializing;
+};
+
+// The identity provider redirects back without the hash, so a deep link is kept across sign-in
+export const signIn = async (): Promise<void> => {
+  error = null;
+  emit();
+  sessionStorage.setItem(RETURN_ROUTE_KEY, window.location.hash);
+  try {
+    await provider.signIn();
+  } catch (e: any) {
+    console.error(e);
+    error = e.message;
+    emit();
+  }
+};
+
+// Ends the session here first, so a slow or unreachable provider never keeps anyone signed in
+export const signOut = async (): Promise<void> => {
+  const current = session;
+  setSession(null);
+  if (!current) return;
+  try {
+    const endSessionUrl = await provider.signOut(current);
+    if (endSessionUrl) window.location.assign(endSessionUrl);
+  } catch (e) {
+    console.warn('Provider sign-out failed', e);
+  }
+};
+
+// Another tab signed in, refreshed or signed out
+window.addEventListener('storage', (e) => {
+  if (e.key !== SESSION_KEY || status === 'loading') return;
+  const next = readStoredSession();
+  if (next?.accessToken === session?.accessToken) return;
+  clearTimeout(refreshTimer);
+  session = next;
+  status = next ? 'signedIn' : 'signedOut';
+  error = null;
+  if (next) scheduleRefresh(next);
+  emit();
+});
+
+export const useAuth = (): AuthState => {
+  const [state, setState] = useState<AuthState>(getState);
+  useEffect(() => {
+    listeners.add(setState);
+    setState(getState());
+    initAuth().catch(e => console.error(e));
+    return () => { listeners.delete(setState); };
+  }, []);
+  return state;
+};
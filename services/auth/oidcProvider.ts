@@ -0,0 +1,208 @@
+import { User } from '../../types';
+import { AuthProvider, AuthSession, AuthError } from './types';
+
+// OpenID Connect authorization code flow with PKCE, for a public client (no
+// secret). Tokens come straight from the token endpoint over TLS, so the ID
+// token's claims are checked (issuer, audience, nonce) but its signature is not.
+
+export interface OidcConfig {
+  issuer: string;
+  clientId: string;
+  redirectUri: string;
+  scope: string;
+  rolesClaim: string; // Dotted path into the ID token, e.g. "realm_access.roles"
+}
+
+interface Discovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  end_session_endpoint?: string;
+  revocation_endpoint?: string;
+}
+
+interface TokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  id_token?: string;
+  expires_in?: number;
+}
+
+// What signIn leaves behind for handleRedirect, in sessionStorage so it never outlives the tab
+interface PendingSignIn {
+  state: string;
+  nonce: string;
+  verifier: string;
+}
+
+const PENDING_KEY = 'envisage_oidc_pending';
+const DEFAULT_TOKEN_LIFETIME_S = 3600;
+const CALLBACK_PARAMS = ['code', 'state', 'session_state', 'iss', 'error', 'error_description'];
+
+// --- PKCE ---
+
+const base64Url = (bytes: Uint8Array): string =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const randomString = (byteLength = 32): string => base64Url(crypto.getRandomValues(new Uint8Array(byteLength)));
+
+const codeChallenge = async (verifier: string): Promise<string> =>
+  base64Url(new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier))));
+
+// --- Tokens ---
+
+const decodeJwt = (token: string): Record<string, any> => {
+  try {
+    const payload = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+    const bytes = Uint8Array.from(atob(payload), c => c.charCodeAt(0));
+    return JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    throw new AuthError("The identity provider returned an unreadable token.");
+  }
+};
+
+const readClaim = (claims: Record<string, any>, path: string): unknown =>
+  path.split('.').reduce<any>((value, key) => value?.[key], claims);
+
+const toUser = (claims: Record<string, any>, rolesClaim: string): User => {
+  const roles = readClaim(claims, rolesClaim);
+  return {
+    id: String(claims.sub),
+    name: claims.name || claims.preferred_username || claims.email || 'Signed-in user',
+    email: claims.email || '',
+    avatar: claims.picture || `https://api.dicebear.com/7.x/initials/svg?seed=${encodeURIComponent(claims.name || claims.sub)}`,
+    roles: Array.isArray(roles) ? roles.map(String) : typeof roles === 'string' ? roles.split(/[\s,]+/).filter(Boolean) : [],
+  };
+};
+
+// Strips the authorization response from the address bar, so a reload never replays it
+export const stripCallbackParams = (url: URL): string => {
+  const clean = new URL(url.href);
+  CALLBACK_PARAMS.forEach(param => clean.searchParams.delete(param));
+  return clean.href;
+};
+
+export const createOidcProvider = (config: OidcConfig): AuthProvider => {
+  let discovery: Promise<Discovery> | null = null;
+
+  const discover = (): Promise<Discovery> => {
+    if (!discovery) {
+      discovery = (async () => {
+        const response = await fetch(`${config.issuer.replace(/\/$/, '')}/.well-known/openid-configuration`);
+        if (!response.ok) throw new AuthError(`Could not reach the identity provider (${response.status}).`);
+        return response.json();
+      })();
+      // Allow a retry once the provider is reachable again
+      discovery.catch(() => { discovery = null; });
+    }
+    return discovery;
+  };
+
+  const requestTokens = async (params: Record<string, string>): Promise<TokenResponse> => {
+    const { token_endpoint } = await discover();
+    const response = await fetch(token_endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({ client_id: config.clientId, ...params }),
+    });
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new AuthError(body.error_description || body.error || `Token request failed (${response.status}).`, body.error);
+    }
+    return body;
+  };
+
+  const toSession = (tokens: TokenResponse, previous?: AuthSession, nonce?: string): AuthSession => {
+    let user = previous?.user;
+    if (tokens.id_token) {
+      const claims = decodeJwt(tokens.id_token);
+      const audience = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+      if (claims.iss !== config.issuer.replace(/\/$/, '') || !audience.includes(config.clientId)) {
+        throw new AuthError("The ID token was issued for a different application.");
+      }
+      if (nonce && claims.nonce !== nonce) throw new AuthError("The sign-in response was replayed or tampered with.");
+      user = toUser(claims, config.rolesClaim);
+    }
+    if (!user) throw new AuthError("The identity provider did not return an ID token.");
+    return {
+      user,
+      accessToken: tokens.access_token,
+      // Providers that do not rotate refresh tokens leave them out of refresh responses
+      refreshToken: tokens.refresh_token ?? previous?.refreshToken,
+      idToken: tokens.id_token ?? previous?.idToken,
+      expiresAt: Date.now() + (tokens.expires_in ?? DEFAULT_TOKEN_LIFETIME_S) * 1000,
+    };
+  };
+
+  return {
+    id: 'oidc',
+    label: 'Continue with Single Sign-On',
+
+    isConfigured: () => !!config.issuer && !!config.clientId,
+
+    signIn: async () => {
+      const { authorization_endpoint } = await discover();
+      const pending: PendingSignIn = { state: randomString(), nonce: randomString(), verifier: randomString(48) };
+      sessionStorage.setItem(PENDING_KEY, JSON.stringify(pending));
+      const url = new URL(authorization_endpoint);
+      url.search = new URLSearchParams({
+        response_type: 'code',
+        client_id: config.clientId,
+        redirect_uri: config.redirectUri,
+        scope: config.scope,
+        state: pending.state,
+        nonce: pending.nonce,
+        code_challenge: await codeChallenge(pending.verifier),
+        code_challenge_method: 'S256',
+      }).toString();
+      window.location.assign(url.href);
+    },
+
+    handleRedirect: async (url) => {
+      const params = url.searchParams;
+      if (!params.has('code') && !params.has('error')) return null;
+      const raw = sessionStorage.getItem(PENDING_KEY);
+      sessionStorage.removeItem(PENDING_KEY);
+      if (params.has('error')) {
+        throw new AuthError(params.get('error_description') || `Sign-in failed: ${params.get('error')}`, params.get('error') || undefined);
+      }
+      const pending: PendingSignIn | null = raw ? JSON.parse(raw) : null;
+      if (!pending || pending.state !== params.get('state')) {
+        throw new AuthError("This sign-in was started in another tab or has expired. Please try again.");
+      }
+      const tokens = await requestTokens({
+        grant_type: 'authorization_code',
+        code: params.get('code')!,
+        redirect_uri: config.redirectUri,
+        code_verifier: pending.verifier,
+      });
+      return toSession(tokens, undefined, pending.nonce);
+    },
+
+    refresh: async (session) => {
+      if (!session.refreshToken) throw new AuthError("The session cannot be renewed.", 'invalid_grant');
+      const tokens = await requestTokens({ grant_type: 'refresh_token', refresh_token: session.refreshToken });
+      return toSession(tokens, session);
+    },
+
+    signOut: async (session) => {
+      const { revocation_endpoint, end_session_endpoint } = await discover();
+      if (revocation_endpoint && session.refreshToken) {
+        // Best effort: the local session is gone either way
+        await fetch(revocation_endpoint, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+          body: new URLSearchParams({ client_id: config.clientId, token: session.refreshToken, token_type_hint: 'refresh_token' }),
+        }).catch(e => console.warn('Token revocation failed', e));
+      }
+      if (!end_session_endpoint) return null;
+      const url = new URL(end_session_endpoint);
+      url.search = new URLSearchParams({
+        client_id: config.clientId,
+        post_logout_redirect_uri: config.redirectUri,
+        ...(session.idToken ? { id_token_hint: session.idToken } : {}),
+      }).toString();
+      return url.href;
+    },
+  };
+};
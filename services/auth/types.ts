@@ -0,0 +1,31 @@
+import { User } from '../../types';
+
+// Contract for sign-in backends. The session store in ./index drives a provider
+// and owns persistence and refresh timing; providers only speak the protocol.
+
+export interface AuthSession {
+  user: User;
+  accessToken: string;
+  refreshToken?: string;
+  idToken?: string;
+  expiresAt: number; // Epoch ms after which the access token is no longer accepted
+}
+
+export interface AuthProvider {
+  id: string;
+  label: string; // Shown on the sign-in button
+  isConfigured(): boolean;
+  signIn(): Promise<void>; // Navigates away to the identity provider
+  // Finishes a sign-in if `url` is the redirect back from signIn, otherwise resolves null
+  handleRedirect(url: URL): Promise<AuthSession | null>;
+  refresh(session: AuthSession): Promise<AuthSession>;
+  // Revokes what it can and returns where to send the browser to end the provider's own session
+  signOut(session: AuthSession): Promise<string | null>;
+}
+
+export class AuthError extends Error {
+  constructor(message: string, public code?: string) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
@@ -0,0 +1,138 @@
+import { useEffect, useState } from 'react';
+import { BrandKit } from '../types';
+import { STORES, getAllByIndex, putOne, deleteOne } from './db';
+import { toStorageError } from './assetStore';
+import { getActiveProjectId, onProjectChange } from './projectStore';
+
+// Brand kits live in IndexedDB, one set per project; the selected kit is
+// remembered per project and shared by every generator and the LayoutEditor
+// through useBrandKits().
+
+const ACTIVE_BRAND_KIT_KEY = 'envisage_active_brand_kit'; // Suffixed with the project id
+
+interface BrandKitState {
+  kits: BrandKit[];
+  activeKit: BrandKit | null;
+  loaded: boolean;
+}
+
+let kits: BrandKit[] = [];
+let activeId: string | null = null;
+let loaded = false;
+let loading: Promise<void> | null = null;
+const listeners = new Set<(state: BrandKitState) => void>();
+
+const getState = (): BrandKitState => ({
+  kits,
+  activeKit: kits.find(kit => kit.id === activeId) || null,
+  loaded,
+});
+
+const emit = () => {
+  const state = getState();
+  listeners.forEach(listener => listener(state));
+};
+
+export const newBrandKitItemId = (prefix: string) => `${prefix}-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`;
+
+export const createBrandKit = (name = 'Untitled Brand'): BrandKit => {
+  const now = Date.now();
+  return {
+    id: newBrandKitItemId('brand'),
+    name,
+    logos: [],
+    colors: [],
+    fonts: [],
+    toneOfVoice: '',
+    bannedWords: [],
+    sampleCopy: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+const activeKey = (projectId: string) => `${ACTIVE_BRAND_KIT_KEY}:${projectId}`;
+
+export const loadBrandKits = (): Promise<void> => {
+  const projectId = getActiveProjectId();
+  if (!projectId) return Promise.resolve();
+  if (!loading) {
+    loading = (async () => {
+      try {
+        const stored = await getAllByIndex<BrandKit>(STORES.BRAND_KITS, 'projectId', projectId);
+        if (projectId !== getActiveProjectId()) return; // Switched projects while loading
+        kits = stored.sort((a, b) => a.name.localeCompare(b.name));
+        // Kits picked before projects existed were remembered under the bare key
+        activeId = localStorage.getItem(activeKey(projectId)) ?? localStorage.getItem(ACTIVE_BRAND_KIT_KEY);
+        loaded = true;
+        emit();
+      } catch (e) {
+        loading = null;
+        throw toStorageError(e, 'load brand kits');
+      }
+    })();
+  }
+  return loading;
+};
+
+// Kits in any project, without touching the shared state (e.g. for exports)
+export const listBrandKits = async (projectId: string): Promise<BrandKit[]> => {
+  try {
+    return await getAllByIndex<BrandKit>(STORES.BRAND_KITS, 'projectId', projectId);
+  } catch (e) {
+    throw toStorageError(e, 'load brand kits');
+  }
+};
+
+export const saveBrandKit = async (kit: BrandKit): Promise<BrandKit> => {
+  const stored = { ...kit, projectId: kit.projectId ?? getActiveProjectId() ?? undefined, updatedAt: Date.now() };
+  try {
+    await putOne(STORES.BRAND_KITS, stored);
+  } catch (e) {
+    throw toStorageError(e, 'save the brand kit');
+  }
+  kits = [...kits.filter(k => k.id !== stored.id), stored].sort((a, b) => a.name.localeCompare(b.name));
+  emit();
+  return stored;
+};
+
+export const deleteBrandKit = async (id: string): Promise<void> => {
+  try {
+    await deleteOne(STORES.BRAND_KITS, id);
+  } catch (e) {
+    throw toStorageError(e, 'delete the brand kit');
+  }
+  kits = kits.filter(k => k.id !== id);
+  if (activeId === id) setActiveBrandKit(null);
+  else emit();
+};
+
+export const setActiveBrandKit = (id: string | null) => {
+  activeId = id;
+  const projectId = getActiveProjectId();
+  if (projectId) {
+    if (id) localStorage.setItem(activeKey(projectId), id);
+    else localStorage.removeItem(activeKey(projectId));
+  }
+  emit();
+};
+
+onProjectChange(() => {
+  kits = [];
+  activeId = null;
+  loaded = false;
+  loading = null;
+  emit();
+  if (listeners.size > 0) loadBrandKits().catch(e => console.error(e));
+});
+
+export const useBrandKits = (): BrandKitState => {
+  const [state, setState] = useState<BrandKitState>(getState);
+  useEffect(() => {
+    listeners.add(setState);
+    setState(getState());
+    loadBrandKits().catch(e => console.error(e));
+    return () => { listeners.delete(setState); };
+  }, []);
+  return state;
+};
@@ -0,0 +1,211 @@
+// Per-format rules for generated copy. Each spec lists the structured fields the
+// model must return as JSON, plus platform limits we check after generation so
+// the CopyGenerator can flag violations and ask the model to fix them.
+
+export interface CopyFieldSpec {
+  key: string; // JSON property name
+  label: string;
+  maxLength?: number; // Characters
+  required?: boolean;
+  multiline?: boolean;
+}
+
+export type EmojiPolicy = 'none' | 'allowed' | 'encouraged';
+
+export interface CopyFormatSpec {
+  id: string;
+  label: string;
+  fields: CopyFieldSpec[];
+  hashtags: { min: number, max: number }; // Counted across all fields
+  requireCta: boolean; // The `cta` field must be filled
+  emoji: EmojiPolicy;
+  maxEmoji?: number;
+  guidance: string; // Extra instructions for the model
+}
+
+export type StructuredCopy = Record<string, string>;
+
+export interface CopyViolation {
+  field?: string; // Field key, or undefined for rules that span the whole copy
+  message: string;
+}
+
+export class CopyFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CopyFormatError';
+  }
+}
+
+export const COPY_FORMAT_SPECS: CopyFormatSpec[] = [
+  {
+    id: 'instagram-ad',
+    label: 'Instagram Ad',
+    fields: [
+      { key: 'headline', label: 'Headline', maxLength: 40, required: true },
+      { key: 'body', label: 'Primary Text', maxLength: 125, required: true, multiline: true },
+      { key: 'cta', label: 'Call to Action', maxLength: 25, required: true },
+      { key: 'hashtags', label: 'Hashtags', maxLength: 150 },
+    ],
+    hashtags: { min: 3, max: 10 },
+    requireCta: true,
+    emoji: 'allowed',
+    maxEmoji: 4,
+    guidance: 'Front-load the hook; only the first 125 characters of the primary text show before "more".',
+  },
+  {
+    id: 'linkedin-post',
+    label: 'LinkedIn Post',
+    fields: [
+      { key: 'hook', label: 'Hook', maxLength: 150, required: true },
+      { key: 'body', label: 'Body', maxLength: 2800, required: true, multiline: true },
+      { key: 'cta', label: 'Call to Action', maxLength: 80 },
+      { key: 'hashtags', label: 'Hashtags', maxLength: 100 },
+    ],
+    hashtags: { min: 0, max: 5 },
+    requireCta: false,
+    emoji: 'allowed',
+    maxEmoji: 3,
+    guidance: 'Professional but human. Short paragraphs separated by blank lines.',
+  },
+  {
+    id: 'blog-post-outline',
+    label: 'Blog Post Outline',
+    fields: [
+      { key: 'title', label: 'Title', maxLength: 70, required: true },
+      { key: 'metaDescription', label: 'Meta Description', maxLength: 160, required: true },
+      { key: 'outline', label: 'Outline', maxLength: 3000, required: true, multiline: true },
+    ],
+    hashtags: { min: 0, max: 0 },
+    requireCta: false,
+    emoji: 'none',
+    guidance: 'The outline uses one line per section heading, with indented bullet points beneath each.',
+  },
+  {
+    id: 'tagline',
+    label: 'Tagline',
+    fields: [
+      { key: 'tagline', label: 'Tagline', maxLength: 60, required: true },
+    ],
+    hashtags: { min: 0, max: 0 },
+    requireCta: false,
+    emoji: 'none',
+    guidance: 'One memorable line, no trailing period unless it is part of the style.',
+  },
+  {
+    id: 'email-subject-line',
+    label: 'Email Subject Line',
+    fields: [
+      { key: 'subject', label: 'Subject', maxLength: 50, required: true },
+      { key: 'preheader', label: 'Preheader', maxLength: 100, required: true },
+    ],
+    hashtags: { min: 0, max: 0 },
+    requireCta: false,
+    emoji: 'allowed',
+    maxEmoji: 1,
+    guidance: 'Avoid spam trigger words and ALL CAPS. The preheader complements the subject rather than repeating it.',
+  },
+  {
+    id: 'product-description',
+    label: 'Product Description',
+    fields: [
+      { key: 'headline', label: 'Headline', maxLength: 80, required: true },
+      { key: 'body', label: 'Description', maxLength: 600, required: true, multiline: true },
+      { key: 'cta', label: 'Call to Action', maxLength: 30, required: true },
+    ],
+    hashtags: { min: 0, max: 0 },
+    requireCta: true,
+    emoji: 'none',
+    guidance: 'Lead with the main benefit, then concrete features.',
+  },
+];
+
+export const DEFAULT_COPY_SPEC = COPY_FORMAT_SPECS[0];
+
+export const getCopySpec = (id: string): CopyFormatSpec =>
+  COPY_FORMAT_SPECS.find(spec => spec.id === id) || DEFAULT_COPY_SPEC;
+
+const HASHTAG_PATTERN = /#[\p{L}\p{N}_]+/gu;
+const EMOJI_PATTERN = /\p{Extended_Pictographic}/gu;
+
+const countMatches = (text: string, pattern: RegExp) => (text.match(pattern) || []).length;
+
+// Plain-text rendering used for the clipboard and saved assets
+export const formatStructuredCopy = (spec: CopyFormatSpec, copy: StructuredCopy): string =>
+  spec.fields
+    .map(field => copy[field.key]?.trim())
+    .filter(Boolean)
+    .join('\n\n');
+
+// Models sometimes wrap JSON in a markdown fence; accept that, reject anything else
+export const parseStructuredCopy = (spec: CopyFormatSpec, raw: string): StructuredCopy => {
+  const json = raw.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new CopyFormatError("The model did not return valid JSON.");
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new CopyFormatError("The model returned JSON in an unexpected shape.");
+  }
+  const values = parsed as Record<string, unknown>;
+  const copy: StructuredCopy = {};
+  spec.fields.forEach(field => {
+    const value = values[field.key];
+    copy[field.key] = Array.isArray(value) ? value.join(' ') : value == null ? '' : String(value);
+  });
+  return copy;
+};
+
+export const validateCopy = (spec: CopyFormatSpec, copy: StructuredCopy): CopyViolation[] => {
+  const violations: CopyViolation[] = [];
+
+  spec.fields.forEach(field => {
+    const value = (copy[field.key] || '').trim();
+    if (field.required && !value) {
+      violations.push({ field: field.key, message: `${field.label} is missing.` });
+    }
+    if (field.maxLength && value.length > field.maxLength) {
+      violations.push({ field: field.key, message: `${field.label} is ${value.length} characters; the limit is ${field.maxLength}.` });
+    }
+  });
+
+  if (spec.requireCta && !(copy.cta || '').trim() && !violations.some(v => v.field === 'cta')) {
+    violations.push({ field: 'cta', message: "A call to action is required." });
+  }
+
+  const allText = Object.values(copy).join('\n');
+  const hashtags = countMatches(allText, HASHTAG_PATTERN);
+  if (hashtags < spec.hashtags.min) {
+    violations.push({ message: `Needs at least ${spec.hashtags.min} hashtags (found ${hashtags}).` });
+  } else if (hashtags > spec.hashtags.max) {
+    violations.push({
+      message: spec.hashtags.max === 0 ? "Hashtags are not allowed in this format." : `Use at most ${spec.hashtags.max} hashtags (found ${hashtags}).`,
+    });
+  }
+
+  const emoji = countMatches(allText, EMOJI_PATTERN);
+  if (spec.emoji === 'none' && emoji > 0) {
+    violations.push({ message: "Emoji are not allowed in this format." });
+  } else if (spec.maxEmoji !== undefined && emoji > spec.maxEmoji) {
+    violations.push({ message: `Use at most ${spec.maxEmoji} emoji (found ${emoji}).` });
+  }
+
+  return violations;
+};
+
+// Human-readable rules for the prompt, derived from the same spec we validate against
+export const describeCopySpec = (spec: CopyFormatSpec): string => {
+  const rules = spec.fields.map(field =>
+    `- "${field.key}" (${field.label}): ${field.required ? 'required' : 'optional, use "" if not needed'}${field.maxLength ? `, at most ${field.maxLength} characters` : ''}`
+  );
+  rules.push(spec.hashtags.max === 0
+    ? '- No hashtags anywhere.'
+    : `- Between ${spec.hashtags.min} and ${spec.hashtags.max} hashtags in total${spec.fields.some(f => f.key === 'hashtags') ? ', all in "hashtags"' : ''}.`);
+  if (spec.requireCta) rules.push('- "cta" must be a clear, action-oriented call to action.');
+  rules.push(spec.emoji === 'none'
+    ? '- No emoji.'
+    : `- Emoji ${spec.emoji === 'encouraged' ? 'are encouraged' : 'are optional'}${spec.maxEmoji !== undefined ? `, at most ${spec.maxEmoji} in total` : ''}.`);
+  return rules.join('\n');
+};
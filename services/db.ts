@@ -0,0 +1,129 @@
+// Thin promise wrapper around the studio's single IndexedDB database.
+// Each object store is created in the upgrade step for the version that introduced it.
+
+const DB_NAME = 'envisage_studio';
+const DB_VERSION = 8;
+
+export const STORES = {
+  ASSETS: 'assets',
+  JOBS: 'jobs',
+  LAYOUTS: 'layouts',
+  LAYOUT_VERSIONS: 'layout_versions',
+  BRAND_KITS: 'brand_kits',
+  PROMPT_TEMPLATES: 'prompt_templates',
+  PROMPT_HISTORY: 'prompt_history',
+  ASSET_FOLDERS: 'asset_folders',
+  WORKSPACES: 'workspaces',
+  PROJECTS: 'projects',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const upgrade = (db: IDBDatabase, oldVersion: number, tx: IDBTransaction) => {
+  if (oldVersion < 1) {
+    const assets = db.createObjectStore(STORES.ASSETS, { keyPath: 'id' });
+    assets.createIndex('createdAt', 'createdAt');
+  }
+  if (oldVersion < 2) {
+    db.createObjectStore(STORES.JOBS, { keyPath: 'id' });
+  }
+  if (oldVersion < 3) {
+    const layouts = db.createObjectStore(STORES.LAYOUTS, { keyPath: 'id' });
+    layouts.createIndex('updatedAt', 'updatedAt');
+    const versions = db.createObjectStore(STORES.LAYOUT_VERSIONS, { keyPath: 'id' });
+    versions.createIndex('documentId', 'documentId');
+  }
+  if (oldVersion < 4) {
+    db.createObjectStore(STORES.BRAND_KITS, { keyPath: 'id' });
+  }
+  if (oldVersion < 5) {
+    db.createObjectStore(STORES.PROMPT_TEMPLATES, { keyPath: 'id' });
+    const history = db.createObjectStore(STORES.PROMPT_HISTORY, { keyPath: 'id' });
+    history.createIndex('tool', 'tool');
+  }
+  if (oldVersion < 6) {
+    db.createObjectStore(STORES.ASSET_FOLDERS, { keyPath: 'id' });
+  }
+  if (oldVersion < 7) {
+    tx.objectStore(STORES.ASSETS).createIndex('ownerId', 'ownerId');
+    tx.objectStore(STORES.ASSET_FOLDERS).createIndex('ownerId', 'ownerId');
+  }
+  if (oldVersion < 8) {
+    db.createObjectStore(STORES.WORKSPACES, { keyPath: 'id' }).createIndex('ownerId', 'ownerId');
+    db.createObjectStore(STORES.PROJECTS, { keyPath: 'id' }).createIndex('workspaceId', 'workspaceId');
+    [STORES.ASSETS, STORES.LAYOUTS, STORES.BRAND_KITS, STORES.PROMPT_HISTORY].forEach(name =>
+      tx.objectStore(name).createIndex('projectId', 'projectId'));
+  }
+};
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("IndexedDB is not available in this browser"));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion, request.transaction!);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a retry on the next call if opening failed
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Runs `work` inside a transaction and resolves once it has committed.
+// Quota errors surface on the transaction, not the request, so we reject with tx.error.
+export const withStore = async <T>(
+  storeNames: StoreName | StoreName[],
+  mode: IDBTransactionMode,
+  work: (tx: IDBTransaction) => T | Promise<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeNames, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onabort = () => reject(tx.error);
+    tx.onerror = () => reject(tx.error);
+  });
+  // If `work` fails, its error is the one to report; the abort it causes is expected
+  done.catch(() => {});
+  let result: T;
+  try {
+    result = await work(tx);
+  } catch (e) {
+    try {
+      tx.abort();
+    } catch {
+      // Already finished or aborted
+    }
+    throw e;
+  }
+  await done;
+  return result;
+};
+
+export const getAll = <T>(storeName: StoreName): Promise<T[]> =>
+  withStore(storeName, 'readonly', tx => requestToPromise(tx.objectStore(storeName).getAll() as IDBRequest<T[]>));
+
+export const getOne = <T>(storeName: StoreName, key: IDBValidKey): Promise<T | undefined> =>
+  withStore(storeName, 'readonly', tx => requestToPromise(tx.objectStore(storeName).get(key) as IDBRequest<T | undefined>));
+
+export const getAllByIndex = <T>(storeName: StoreName, indexName: string, key: IDBValidKey): Promise<T[]> =>
+  withStore(storeName, 'readonly', tx => requestToPromise(tx.objectStore(storeName).index(indexName).getAll(key) as IDBRequest<T[]>));
+
+export const putOne = <T>(storeName: StoreName, value: T): Promise<void> =>
+  withStore(storeName, 'readwrite', tx => { tx.objectStore(storeName).put(value); });
+
+export const deleteOne = (storeName: StoreName, key: IDBValidKey): Promise<void> =>
+  withStore(storeName, 'readwrite', tx => { tx.objectStore(storeName).delete(key); });
@@ -0,0 +1,121 @@
+import { useEffect, useState } from 'react';
+import { AssetFolder } from '../types';
+import { STORES, getAllByIndex, putOne, withStore, requestToPromise } from './db';
+import { toStorageError } from './assetStore';
+import { getCurrentUser } from './auth';
+
+// The signed-in user's library folders, shared through useAssetFolders(). They
+// span all of the user's projects. Assets point at their folder by id, so
+// deleting a folder leaves its assets unfiled, not deleted.
+
+interface FolderState {
+  folders: AssetFolder[];
+  loaded: boolean;
+}
+
+let ownerId: string | null = null; // Whose folders are loaded
+let folders: AssetFolder[] = [];
+let loaded = false;
+let loading: Promise<void> | null = null;
+const listeners = new Set<(state: FolderState) => void>();
+
+const getState = (): FolderState => ({ folders, loaded });
+
+const emit = () => {
+  const state = getState();
+  listeners.forEach(listener => listener(state));
+};
+
+const byName = (a: AssetFolder, b: AssetFolder) => a.name.localeCompare(b.name);
+
+// Folders made before folders had owners go to whoever signs in first, as unowned assets did
+const claimUnownedFolders = (userId: string) =>
+  withStore(STORES.ASSET_FOLDERS, 'readwrite', async tx => {
+    const store = tx.objectStore(STORES.ASSET_FOLDERS);
+    const records = await requestToPromise(store.getAll() as IDBRequest<AssetFolder[]>);
+    records.forEach(folder => {
+      if (!folder.ownerId) store.put({ ...folder, ownerId: userId });
+    });
+  });
+
+// Folders of any owner, without touching the shared state
+export const listFolders = (userId: string): Promise<AssetFolder[]> =>
+  getAllByIndex<AssetFolder>(STORES.ASSET_FOLDERS, 'ownerId', userId);
+
+export const loadFolders = (): Promise<void> => {
+  const userId = getCurrentUser()?.id;
+  if (!userId) return Promise.resolve();
+  // Whoever signed in before may still have folders loaded
+  if (userId !== ownerId) {
+    ownerId = userId;
+    folders = [];
+    loaded = false;
+    loading = null;
+    emit();
+  }
+  if (!loading) {
+    loading = (async () => {
+      try {
+        await claimUnownedFolders(userId);
+        const stored = await listFolders(userId);
+        if (userId !== ownerId) return; // Someone else signed in while loading
+        folders = stored.sort(byName);
+        loaded = true;
+        emit();
+      } catch (e) {
+        loading = null;
+        throw toStorageError(e, 'load folders');
+      }
+    })();
+  }
+  return loading;
+};
+
+export const saveFolder = async (folder: AssetFolder): Promise<AssetFolder> => {
+  try {
+    await putOne(STORES.ASSET_FOLDERS, folder);
+  } catch (e) {
+    throw toStorageError(e, 'save the folder');
+  }
+  folders = [...folders.filter(f => f.id !== folder.id), folder].sort(byName);
+  emit();
+  return folder;
+};
+
+export const createFolder = (name: string): Promise<AssetFolder> => {
+  const user = getCurrentUser();
+  if (!user) return Promise.reject(new Error("Sign in to create a folder."));
+  return saveFolder({ id: `folder-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`, name, ownerId: user.id, createdAt: Date.now() });
+};
+
+// Deletes the folder and unfiles its assets in every project, in one transaction
+export const deleteFolder = async (id: string): Promise<void> => {
+  try {
+    await withStore([STORES.ASSET_FOLDERS, STORES.ASSETS], 'readwrite', tx => new Promise<void>((resolve, reject) => {
+      tx.objectStore(STORES.ASSET_FOLDERS).delete(id);
+      const request = tx.objectStore(STORES.ASSETS).openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return resolve();
+        if (cursor.value.folderId === id) cursor.update({ ...cursor.value, folderId: undefined });
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    }));
+  } catch (e) {
+    throw toStorageError(e, 'delete the folder');
+  }
+  folders = folders.filter(f => f.id !== id);
+  emit();
+};
+
+export const useAssetFolders = (): FolderState => {
+  const [state, setState] = useState<FolderState>(getState);
+  useEffect(() => {
+    listeners.add(setState);
+    setState(getState());
+    loadFolders().catch(e => console.error(e));
+    return () => { listeners.delete(setState); };
+  }, []);
+  return state;
+};
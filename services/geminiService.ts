@@ -1,186 +1,176 @@
-import { GoogleGenAI, GenerateContentResponse, Part } from "@google/genai";
-
-// Helper to get API key safely
-const getClient = (): GoogleGenAI => {
-  const apiKey = process.env.API_KEY;
-  if (!apiKey) {
-    throw new Error("API Key not found in environment");
+import { getProvider, getProviderById, VideoRequest, VideoOperation, VideoOperationStatus } from './providers';
+import { BrandKit } from '../types';
+import { compositeMaskedEdit, resampleToScale } from './imageCompositing';
+import { CopyFormatSpec, CopyViolation, StructuredCopy, describeCopySpec, parseStructuredCopy } from './copySpecs';
+
+// Components call these helpers; the actual backend is whichever provider is
+// active (see services/providers). Prompt construction stays here so every
+// provider receives the same instructions.
+
+// --- Brand Kit ---
+// Copy prompts get the full writing guidelines; visual prompts only need the
+// brand's identity and palette.
+const brandCopyGuidelines = (kit: BrandKit): string => {
+  const lines = [`Write on behalf of the brand "${kit.name}".`];
+  if (kit.toneOfVoice.trim()) lines.push(`Tone of voice: ${kit.toneOfVoice.trim()}`);
+  if (kit.bannedWords.length) lines.push(`Never use these words: ${kit.bannedWords.join(', ')}.`);
+  if (kit.sampleCopy.length) {
+    lines.push(`Match the style of these examples:\n${kit.sampleCopy.map(sample => `- ${sample}`).join('\n')}`);
   }
-  return new GoogleGenAI({ apiKey });
+  return lines.join('\n');
+};
+
+const brandVisualGuidelines = (kit: BrandKit): string => {
+  const parts = [`Brand: ${kit.name}.`];
+  if (kit.colors.length) parts.push(`Use the brand color palette: ${kit.colors.map(c => `${c.name} (${c.hex})`).join(', ')}.`);
+  if (kit.toneOfVoice.trim()) parts.push(`The mood should reflect this brand personality: ${kit.toneOfVoice.trim()}`);
+  return parts.join(' ');
 };
 
+const withBrandVisuals = (prompt: string, brandKit?: BrandKit | null) =>
+  brandKit ? `${prompt}\n\n${brandVisualGuidelines(brandKit)}` : prompt;
+
 // --- Copy Generation ---
+// Position of a copy variant within an A/B set; steers the model away from its siblings
+export interface CopyVariantHint {
+  index: number;
+  total: number;
+}
+
+const buildCopyPrompt = (
+  topic: string,
+  type: string,
+  brandVoice: string,
+  brandKit?: BrandKit | null,
+  variant?: CopyVariantHint
+): string => {
+  let prompt = `Write a ${type} about ${topic}. The brand voice is ${brandVoice}. Keep it engaging and professional.`;
+  if (brandKit) prompt += `\n\n${brandCopyGuidelines(brandKit)}`;
+  if (variant && variant.total > 1) {
+    prompt += `\n\nThis is variation ${variant.index + 1} of ${variant.total} for an A/B test. Use a distinctly different angle, hook and structure from the other variations.`;
+  }
+  return prompt;
+};
+
 export const generateMarketingCopy = async (
   topic: string,
   type: string,
-  brandVoice: string
+  brandVoice: string,
+  brandKit?: BrandKit | null
 ): Promise<string> => {
-  const client = getClient();
-  const prompt = `Write a ${type} about ${topic}. The brand voice is ${brandVoice}. Keep it engaging and professional.`;
-  
-  const response: GenerateContentResponse = await client.models.generateContent({
-    model: 'gemini-2.5-flash',
-    contents: prompt,
-  });
+  return getProvider().generateCopy({ prompt: buildCopyPrompt(topic, type, brandVoice, brandKit) });
+};
+
+export interface StructuredCopyOptions {
+  topic: string;
+  spec: CopyFormatSpec;
+  brandVoice: string;
+  brandKit?: BrandKit | null;
+  variant?: CopyVariantHint;
+  // "Fix to fit": rewrite this earlier result so it satisfies the spec
+  revise?: { copy: StructuredCopy, violations: CopyViolation[] };
+}
+
+const buildStructuredCopyPrompt = ({ topic, spec, brandVoice, brandKit, variant, revise }: StructuredCopyOptions): string => {
+  let prompt = buildCopyPrompt(topic, spec.label, brandVoice, brandKit, variant);
+  prompt += `\n\n${spec.guidance}\nReply with a single JSON object and follow these rules exactly:\n${describeCopySpec(spec)}`;
+  if (revise) {
+    prompt += `\n\nRevise this earlier attempt, keeping its message and angle but fixing every problem listed.\nEarlier attempt:\n${JSON.stringify(revise.copy, null, 2)}\nProblems:\n${revise.violations.map(v => `- ${v.message}`).join('\n')}`;
+  }
+  return prompt;
+};
 
-  return response.text || "No content generated.";
+// Streams structured copy, reporting the raw text after every chunk, and resolves
+// with the parsed fields. Throws CopyFormatError if the reply is not usable JSON.
+export const streamStructuredCopy = async (
+  options: StructuredCopyOptions,
+  onText: (text: string) => void
+): Promise<StructuredCopy> => {
+  const request = {
+    prompt: buildStructuredCopyPrompt(options),
+    jsonFields: options.spec.fields.map(field => field.key),
+  };
+  let text = '';
+  for await (const chunk of getProvider().streamCopy(request)) {
+    text += chunk;
+    onText(text);
+  }
+  return parseStructuredCopy(options.spec, text);
 };
 
 // --- Image Generation ---
+export interface ImageGenerationOptions {
+  negativePrompt?: string; // Things to keep out of the image
+  seed?: number;
+}
+
+// The image models take no separate negative prompt, so it is spelled out in the prompt
 export const generateMarketingImage = async (
   prompt: string,
-  aspectRatio: string
+  aspectRatio: string,
+  brandKit?: BrandKit | null,
+  options: ImageGenerationOptions = {}
 ): Promise<string> => {
-  const client = getClient();
-  // We use gemini-2.5-flash-image which supports standard generation
-  const response = await client.models.generateContent({
-    model: 'gemini-2.5-flash-image',
-    contents: {
-      parts: [{ text: prompt }]
-    },
-    config: {
-      imageConfig: {
-        aspectRatio: aspectRatio,
-        // imageSize is only supported in pro-image
-      }
-    }
-  });
+  let fullPrompt = withBrandVisuals(prompt, brandKit);
+  if (options.negativePrompt?.trim()) fullPrompt += `\n\nDo not include any of the following: ${options.negativePrompt.trim()}.`;
+  return getProvider().generateImage({ prompt: fullPrompt, aspectRatio, seed: options.seed });
+};
 
-  // Extract image
-  if (response.candidates?.[0]?.content?.parts) {
-    for (const part of response.candidates[0].content.parts) {
-      if (part.inlineData && part.inlineData.data) {
-        return `data:image/png;base64,${part.inlineData.data}`;
-      }
-    }
-  }
-  
-  throw new Error("No image generated in response.");
+// Random seed for a batch; variant i of the batch uses seed + i
+export const randomImageSeed = () => Math.floor(Math.random() * 1000000000);
+
+// --- Upscaling ---
+// The model re-renders the image with finer detail, then the result is resampled
+// so the output is reliably `scale` times the input size.
+export const upscaleMarketingImage = async (image: string, scale = 2): Promise<string> => {
+  const refined = await getProvider().editImage({
+    base64Image: image,
+    prompt: 'Upscale this image: sharpen fine detail and textures and remove compression artifacts. Keep the composition, colors and content exactly the same.',
+  });
+  return resampleToScale(refined, image, scale);
 };
 
 // --- Image Editing ---
+// With a mask the model is told to confine the edit, and the result is composited
+// over the source so pixels outside the mask are guaranteed to be untouched.
 export const editMarketingImage = async (
   base64Image: string,
-  prompt: string
+  prompt: string,
+  mask?: string // PNG data URL; white = area to edit
 ): Promise<string> => {
-  const client = getClient();
-  // Remove data URL prefix if present for the API call
-  const base64Data = base64Image.replace(/^data:image\/\w+;base64,/, "");
-
-  const response = await client.models.generateContent({
-    model: 'gemini-2.5-flash-image',
-    contents: {
-      parts: [
-        {
-          inlineData: {
-            data: base64Data,
-            mimeType: 'image/png' // Assuming png or converts gracefully, usually safe for general base64
-          }
-        },
-        { text: prompt }
-      ]
-    }
-  });
-
-  if (response.candidates?.[0]?.content?.parts) {
-    for (const part of response.candidates[0].content.parts) {
-      if (part.inlineData && part.inlineData.data) {
-        return `data:image/png;base64,${part.inlineData.data}`;
-      }
-    }
-  }
-
-  throw new Error("Failed to edit image.");
+  if (!mask) return getProvider().editImage({ base64Image, prompt });
+  const maskedPrompt = `${prompt}\n\nThe second image is a black and white mask with the same framing as the first. Apply the edit only inside the white area and keep everything in the black area exactly as it is, blending naturally at the edges.`;
+  const edited = await getProvider().editImage({ base64Image, prompt: maskedPrompt, mask });
+  return compositeMaskedEdit(base64Image, edited, mask);
 };
 
 // --- Video Generation ---
-export const generateMarketingVideo = async (
+// Video runs as a long-lived operation. Generators build a request here and hand it
+// to the job manager (services/jobManager.ts), which starts, polls and resumes it.
+export const buildMarketingVideoRequest = (
   prompt: string,
   aspectRatio: '16:9' | '9:16',
-  imageInput?: string // Base64 Data URL
-): Promise<string> => {
-  // Ensure we use a fresh client to pick up any new keys if re-selected
-  const client = getClient();
-  const apiKey = process.env.API_KEY || '';
-  
-  let operation;
-  
-  if (imageInput) {
-    // Image-to-Video
-    const base64Data = imageInput.replace(/^data:image\/\w+;base64,/, "");
-    const mimeType = imageInput.match(/^data:(image\/\w+);base64,/)?.[1] || 'image/png';
-
-    operation = await client.models.generateVideos({
-      model: 'veo-3.1-fast-generate-preview',
-      prompt: prompt || "Animate this image", 
-      image: {
-        imageBytes: base64Data,
-        mimeType: mimeType
-      },
-      config: {
-        numberOfVideos: 1,
-        aspectRatio: aspectRatio,
-        resolution: '720p'
-      }
-    });
-  } else {
-    // Text-to-Video
-    operation = await client.models.generateVideos({
-      model: 'veo-3.1-fast-generate-preview',
-      prompt: prompt,
-      config: {
-        numberOfVideos: 1,
-        aspectRatio: aspectRatio,
-        resolution: '720p'
-      }
-    });
-  }
+  imageInput?: string, // Base64 Data URL
+  brandKit?: BrandKit | null
+): VideoRequest => ({ prompt: withBrandVisuals(prompt, brandKit), aspectRatio, imageInput });
 
-  // Polling loop
-  while (!operation.done) {
-    await new Promise(resolve => setTimeout(resolve, 5000)); // Poll every 5s
-    operation = await client.operations.getVideosOperation({ operation: operation });
-  }
-
-  const uri = operation.response?.generatedVideos?.[0]?.video?.uri;
-  if (!uri) throw new Error("Video generation failed or returned no URI.");
-
-  // Construct the download URL safely
-  const separator = uri.includes('?') ? '&' : '?';
-  const downloadUrl = `${uri}${separator}key=${encodeURIComponent(apiKey)}`;
-
-  // Fetch the actual video content
-  const response = await fetch(downloadUrl);
-  if (!response.ok) {
-    throw new Error(`Failed to download video: ${response.status} ${response.statusText}`);
-  }
+export const startVideoOperation = async (request: VideoRequest): Promise<VideoOperation> => {
+  return getProvider().startVideo(request);
+};
 
-  const rawBlob = await response.blob();
-  // Force mime type to video/mp4 to ensure data URI is correct for playback
-  const blob = new Blob([rawBlob], { type: 'video/mp4' });
-  
-  // Convert Blob to Base64 Data URL so it plays immediately in the video tag
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      if (typeof reader.result === 'string') {
-        resolve(reader.result);
-      } else {
-        reject(new Error("Failed to convert video to Data URL"));
-      }
-    };
-    reader.onerror = reject;
-    reader.readAsDataURL(blob);
-  });
+// Polls with the provider that started the operation, even if the active one changed since
+export const pollVideoOperation = async (operation: VideoOperation): Promise<VideoOperationStatus> => {
+  return getProviderById(operation.providerId).pollVideo(operation);
 };
 
 // --- 3D Animation Generation ---
-export const generateThreeDAnimation = async (
+export const buildThreeDAnimationRequest = (
   prompt: string,
-  style: string
-): Promise<string> => {
+  style: string,
+  brandKit?: BrandKit | null
+): VideoRequest => {
   // We use the video model but with specialized prompting for 3D styling
   const fullPrompt = `Create a high-quality 3D animated video. Style: ${style}. Details: ${prompt}. The output must look like a professional 3D render from Unreal Engine 5 or Blender. Cinematic lighting, high fidelity texture.`;
-  
-  return generateMarketingVideo(fullPrompt, '16:9');
-};
\ No newline at end of file
+
+  return buildMarketingVideoRequest(fullPrompt, '16:9', undefined, brandKit);
+};
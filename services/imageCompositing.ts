@@ -0,0 +1,61 @@
+// Canvas helpers for masked (inpainting) edits. Masks are opaque PNG data URLs:
+// white marks pixels the edit may change, black marks pixels to keep.
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to load image for compositing"));
+    img.src = src;
+  });
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  return { canvas, ctx };
+};
+
+// Turns the mask's luminance into alpha so it can be used with destination-in
+const maskToAlpha = (mask: HTMLImageElement, width: number, height: number): HTMLCanvasElement => {
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.drawImage(mask, 0, 0, width, height);
+  const data = ctx.getImageData(0, 0, width, height);
+  for (let i = 0; i < data.data.length; i += 4) {
+    data.data[i + 3] = data.data[i];
+    data.data[i] = data.data[i + 1] = data.data[i + 2] = 255;
+  }
+  ctx.putImageData(data, 0, 0);
+  return canvas;
+};
+
+// Places the edited pixels over the source inside the mask only. The result has
+// the source's dimensions and every pixel outside the mask is copied unchanged,
+// even if the model returned a different size or touched the whole frame.
+export const compositeMaskedEdit = async (source: string, edited: string, mask: string): Promise<string> => {
+  const [sourceImg, editedImg, maskImg] = await Promise.all([loadImage(source), loadImage(edited), loadImage(mask)]);
+  const width = sourceImg.naturalWidth;
+  const height = sourceImg.naturalHeight;
+
+  const { canvas: editLayer, ctx: editCtx } = createCanvas(width, height);
+  editCtx.drawImage(editedImg, 0, 0, width, height);
+  editCtx.globalCompositeOperation = 'destination-in';
+  editCtx.drawImage(maskToAlpha(maskImg, width, height), 0, 0);
+
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.drawImage(sourceImg, 0, 0);
+  ctx.drawImage(editLayer, 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+// Resamples `image` to `scale` times the size of `reference`. Used after a model
+// upscale pass, whose output size is fixed by the model rather than the request.
+export const resampleToScale = async (image: string, reference: string, scale: number): Promise<string> => {
+  const [img, referenceImg] = await Promise.all([loadImage(image), loadImage(reference)]);
+  const { canvas, ctx } = createCanvas(referenceImg.naturalWidth * scale, referenceImg.naturalHeight * scale);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/png');
+};
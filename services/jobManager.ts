@@ -0,0 +1,243 @@
+import { useEffect, useState } from 'react';
+import { AssetProvenance, GeneratedAsset, ToolType } from '../types';
+import { VideoRequest, VideoOperation, getProviderById } from './providers';
+import { startVideoOperation, pollVideoOperation } from './geminiService';
+import { STORES, getAll, putOne, deleteOne } from './db';
+import { getCurrentUser } from './auth';
+import { getActiveProjectId, onProjectChange } from './projectStore';
+import { AssetOwner } from './assetStore';
+
+// Background queue for video generation. Jobs are persisted to IndexedDB with
+// their operation name, so polling resumes after a reload or a tool switch.
+// Finished videos are handed to the completion handler (App's handleAssetCreated),
+// together with the user and project they were queued from. Every job keeps
+// running in the background, but only the signed-in user's jobs from the active
+// project are listed.
+
+export type JobStatus = 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface VideoJob {
+  id: string;
+  tool: ToolType;
+  label: string;
+  request: VideoRequest;
+  assetMetadata?: GeneratedAsset['metadata'];
+  assetProvenance?: AssetProvenance; // Completed with the finish time when the video lands
+  operation?: VideoOperation;
+  status: JobStatus;
+  progress: number; // 0-1
+  error?: string;
+  createdAt: number;
+  completedAt?: number;
+  assetId?: string;
+  ownerId?: string; // User who queued the job; the video lands in their library
+  projectId?: string; // Project the job was queued from, even if another is active by the time it finishes
+}
+
+type CompletionHandler = (asset: GeneratedAsset, owner?: AssetOwner) => void | Promise<void>;
+
+interface EnqueueOptions {
+  tool: ToolType;
+  label: string;
+  request: VideoRequest;
+  assetMetadata?: GeneratedAsset['metadata'];
+  assetProvenance?: AssetProvenance;
+}
+
+// Veo rarely reports progress, so we estimate from elapsed time
+const ESTIMATED_VIDEO_MS = 90000;
+const MAX_ESTIMATED_PROGRESS = 0.95;
+const MAX_CONSECUTIVE_POLL_ERRORS = 3;
+
+let jobs: VideoJob[] = [];
+let resumed = false;
+let completionHandler: CompletionHandler | null = null;
+const listeners = new Set<(jobs: VideoJob[]) => void>();
+const timers = new Map<string, ReturnType<typeof setTimeout>>();
+const pollErrors = new Map<string, number>();
+// Finished video content for this session, so the originating tool can preview it
+const results = new Map<string, string>();
+
+const visibleJobs = () => {
+  const ownerId = getCurrentUser()?.id;
+  const projectId = getActiveProjectId();
+  return jobs.filter(job => job.ownerId === ownerId && job.projectId === projectId);
+};
+
+const emit = () => {
+  const visible = visibleJobs();
+  listeners.forEach(listener => listener(visible));
+};
+
+// Signing in as someone else also changes the active project
+onProjectChange(emit);
+
+const getJob = (id: string) => jobs.find(job => job.id === id);
+
+const updateJob = (id: string, patch: Partial<VideoJob>) => {
+  jobs = jobs.map(job => job.id === id ? { ...job, ...patch } : job);
+  emit();
+  const job = getJob(id);
+  if (job) {
+    putOne(STORES.JOBS, job).catch(e => console.error('Failed to persist job', e));
+  }
+};
+
+const clearTimer = (id: string) => {
+  const timer = timers.get(id);
+  if (timer) clearTimeout(timer);
+  timers.delete(id);
+};
+
+const stopPolling = (id: string) => {
+  clearTimer(id);
+  pollErrors.delete(id);
+};
+
+const schedulePoll = (id: string, delayMs: number) => {
+  clearTimer(id);
+  timers.set(id, setTimeout(() => poll(id), delayMs));
+};
+
+const intervalFor = (operation: VideoOperation) =>
+  getProviderById(operation.providerId).videoPollIntervalMs;
+
+const poll = async (id: string) => {
+  const job = getJob(id);
+  if (!job || job.status !== 'running' || !job.operation) return;
+  const operation = job.operation;
+
+  try {
+    const status = await pollVideoOperation(operation);
+    // The user may have cancelled while the request was in flight
+    if (getJob(id)?.status !== 'running') return;
+    pollErrors.delete(id);
+
+    if (!status.done || !status.result) {
+      const estimate = Math.min(MAX_ESTIMATED_PROGRESS, (Date.now() - operation.startedAt) / ESTIMATED_VIDEO_MS);
+      updateJob(id, { progress: status.progress ?? estimate });
+      schedulePoll(id, intervalFor(operation));
+      return;
+    }
+
+    const asset: GeneratedAsset = {
+      id: `${Date.now()}-${Math.random().toString(36).substr(2, 5)}`,
+      type: 'video',
+      content: status.result,
+      createdAt: Date.now(),
+      metadata: job.assetMetadata,
+      provenance: job.assetProvenance && { ...job.assetProvenance, startedAt: job.createdAt, completedAt: Date.now() }
+    };
+    results.set(id, status.result);
+    updateJob(id, { status: 'succeeded', progress: 1, completedAt: Date.now(), assetId: asset.id });
+    stopPolling(id);
+    const owner = job.ownerId && job.projectId ? { ownerId: job.ownerId, projectId: job.projectId } : undefined;
+    await completionHandler?.(asset, owner);
+  } catch (e: any) {
+    console.error(e);
+    const errors = (pollErrors.get(id) || 0) + 1;
+    pollErrors.set(id, errors);
+    if (errors < MAX_CONSECUTIVE_POLL_ERRORS && !e?.message?.includes("Requested entity was not found")) {
+      schedulePoll(id, intervalFor(operation));
+      return;
+    }
+    stopPolling(id);
+    updateJob(id, { status: 'failed', error: e?.message || "Video generation failed.", completedAt: Date.now() });
+  }
+};
+
+const start = async (id: string) => {
+  const job = getJob(id);
+  if (!job) return;
+  try {
+    const operation = await startVideoOperation(job.request);
+    if (getJob(id)?.status !== 'running') return;
+    updateJob(id, { operation });
+    schedulePoll(id, intervalFor(operation));
+  } catch (e: any) {
+    console.error(e);
+    updateJob(id, { status: 'failed', error: e?.message || "Failed to start video generation.", completedAt: Date.now() });
+  }
+};
+
+// --- Public API ---
+
+export const setJobCompletionHandler = (handler: CompletionHandler | null) => {
+  completionHandler = handler;
+};
+
+// Loads persisted jobs once per session and picks up polling where it left off
+export const resumeJobs = async () => {
+  if (resumed) return;
+  resumed = true;
+  const stored = await getAll<VideoJob>(STORES.JOBS);
+  jobs = stored.sort((a, b) => b.createdAt - a.createdAt);
+  emit();
+
+  jobs.filter(job => job.status === 'running').forEach(job => {
+    if (job.operation) {
+      schedulePoll(job.id, 0);
+    } else {
+      // The page closed before the backend acknowledged the request
+      updateJob(job.id, { status: 'failed', error: "Interrupted before the job started.", completedAt: Date.now() });
+    }
+  });
+};
+
+export const enqueueVideoJob = async ({ tool, label, request, assetMetadata, assetProvenance }: EnqueueOptions): Promise<VideoJob> => {
+  const job: VideoJob = {
+    id: `job-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`,
+    tool,
+    label,
+    request,
+    assetMetadata,
+    assetProvenance,
+    status: 'running',
+    progress: 0,
+    createdAt: Date.now(),
+    ownerId: getCurrentUser()?.id,
+    projectId: getActiveProjectId() ?? undefined
+  };
+  jobs = [job, ...jobs];
+  emit();
+  await putOne(STORES.JOBS, job);
+  start(job.id);
+  return job;
+};
+
+// Stops tracking the job locally; Veo offers no server-side cancel
+export const cancelJob = (id: string) => {
+  stopPolling(id);
+  updateJob(id, { status: 'cancelled', completedAt: Date.now() });
+};
+
+export const retryJob = (id: string) => {
+  const job = getJob(id);
+  if (!job || job.status === 'running' || job.status === 'succeeded') return;
+  updateJob(id, { status: 'running', progress: 0, error: undefined, operation: undefined, completedAt: undefined, createdAt: Date.now() });
+  start(id);
+};
+
+export const dismissJob = (id: string) => {
+  stopPolling(id);
+  results.delete(id);
+  jobs = jobs.filter(job => job.id !== id);
+  emit();
+  deleteOne(STORES.JOBS, id).catch(e => console.error('Failed to remove job', e));
+};
+
+export const clearFinishedJobs = () => {
+  visibleJobs().filter(job => job.status !== 'running').forEach(job => dismissJob(job.id));
+};
+
+export const getJobResult = (id: string): string | undefined => results.get(id);
+
+export const useJobs = (): VideoJob[] => {
+  const [snapshot, setSnapshot] = useState<VideoJob[]>(visibleJobs);
+  useEffect(() => {
+    listeners.add(setSnapshot);
+    setSnapshot(visibleJobs());
+    return () => { listeners.delete(setSnapshot); };
+  }, []);
+  return snapshot;
+};
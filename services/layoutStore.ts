@@ -0,0 +1,271 @@
+import { Artboard, LayoutDocument, LayoutItem, LayoutSnapshot, LayoutVersion } from '../types';
+import { STORES, getOne, getAllByIndex, putOne, withStore } from './db';
+import { toStorageError } from './assetStore';
+import { getActiveProjectId } from './projectStore';
+
+// Editable layout documents and their saved versions. Images that point at
+// session object URLs are inlined as data URLs on save, so a stored (or exported)
+// document never depends on the asset library still holding the original.
+// Documents belong to the project that was active when they were created.
+
+export const LAYOUT_FILE_FORMAT = 'envisage-layout';
+export const LAYOUT_FILE_VERSION = 4;
+
+export const DEFAULT_LAYOUT_SNAPSHOT: LayoutSnapshot = {
+  artboards: [{ id: 'artboard-1', name: 'Artboard 1', x: 0, y: 0, width: 1080, height: 1080, background: '#09090b' }],
+  items: [],
+};
+
+// Oldest versions are pruned beyond this so documents with many images stay small
+const MAX_VERSIONS_PER_DOCUMENT = 30;
+const CURRENT_LAYOUT_KEY = 'envisage_current_layout'; // Suffixed with the project id
+
+const LAYOUT_ITEM_TYPES: LayoutItem['type'][] = ['image', 'video', 'text', 'shape', 'group'];
+
+export class LayoutImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LayoutImportError';
+  }
+}
+
+interface LayoutFile {
+  format: typeof LAYOUT_FILE_FORMAT;
+  formatVersion: number;
+  document: LayoutDocument;
+}
+
+const newLayoutId = (prefix: string) => `${prefix}-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`;
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// Object URLs are immutable, so each one only needs converting once per session
+const inlinedUrls = new Map<string, string>();
+
+export const inlineContent = async (content: string): Promise<string> => {
+  if (!content.startsWith('blob:')) return content;
+  const cached = inlinedUrls.get(content);
+  if (cached) return cached;
+  const response = await fetch(content);
+  const dataUrl = await blobToDataUrl(await response.blob());
+  inlinedUrls.set(content, dataUrl);
+  return dataUrl;
+};
+
+export const inlineItems = (items: LayoutItem[]): Promise<LayoutItem[]> =>
+  Promise.all(items.map(async item => ({ ...item, content: await inlineContent(item.content) })));
+
+const toSnapshot = (doc: LayoutSnapshot): LayoutSnapshot => ({
+  artboards: doc.artboards,
+  items: doc.items,
+  duration: doc.duration,
+});
+
+// Version 1 documents had a single canvas size and background instead of artboards
+type LegacySnapshot<T> = Omit<T, 'artboards'> & Pick<Artboard, 'width' | 'height' | 'background'>;
+
+const upgradeSnapshot = <T extends LayoutSnapshot>(snapshot: T): T => {
+  if (Array.isArray(snapshot.artboards)) return snapshot;
+  const { width, height, background, ...rest } = snapshot as unknown as LegacySnapshot<T>;
+  const artboard: Artboard = { id: 'artboard-1', name: 'Artboard 1', x: 0, y: 0, width, height, background };
+  return { ...rest, artboards: [artboard] } as unknown as T;
+};
+
+const upgradeVersion = (version: LayoutVersion): LayoutVersion =>
+  ({ ...version, snapshot: upgradeSnapshot(version.snapshot) });
+
+// --- Validation ---
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const validateItem = (item: unknown, index: number) => {
+  if (!isRecord(item)) throw new LayoutImportError(`Item ${index + 1} is not an object.`);
+  if (typeof item.id !== 'string' || typeof item.content !== 'string') {
+    throw new LayoutImportError(`Item ${index + 1} is missing an id or content.`);
+  }
+  if (!LAYOUT_ITEM_TYPES.some(type => type === item.type)) {
+    throw new LayoutImportError(`Item ${index + 1} has an unknown type "${item.type}".`);
+  }
+  const geometry = ['x', 'y', 'width', 'height', 'zIndex', 'rotation'];
+  const invalid = geometry.find(key => !isNumber(item[key]));
+  if (invalid) throw new LayoutImportError(`Item ${index + 1} has an invalid "${invalid}".`);
+  if (item.type === 'video') {
+    const clip = item.video;
+    const timing = ['duration', 'trimStart', 'trimEnd', 'posterTime'];
+    if (!isRecord(clip) || timing.some(key => !isNumber(clip[key]))) {
+      throw new LayoutImportError(`Video item ${index + 1} has invalid playback settings.`);
+    }
+  }
+  if (item.animation !== undefined) {
+    const tracks = isRecord(item.animation) ? item.animation.tracks : undefined;
+    const valid = isRecord(tracks) && Object.values(tracks).every(track =>
+      Array.isArray(track) && track.every((k: unknown) => isRecord(k) && typeof k.id === 'string' && isNumber(k.time) && k.value !== undefined));
+    if (!valid) throw new LayoutImportError(`Item ${index + 1} has invalid animation keyframes.`);
+  }
+};
+
+const validateArtboard = (artboard: unknown, index: number) => {
+  if (!isRecord(artboard) || typeof artboard.id !== 'string') {
+    throw new LayoutImportError(`Artboard ${index + 1} is missing its id.`);
+  }
+  const { x, y, width, height } = artboard;
+  if (!isNumber(x) || !isNumber(y) || !isNumber(width) || !isNumber(height) || width <= 0 || height <= 0) {
+    throw new LayoutImportError(`Artboard ${index + 1} has an invalid size or position.`);
+  }
+  if (typeof artboard.background !== 'string') throw new LayoutImportError(`Artboard ${index + 1} has an invalid background.`);
+};
+
+const validateDocument = (doc: unknown): LayoutDocument => {
+  if (!isRecord(doc)) throw new LayoutImportError("The file does not contain a layout document.");
+  if (typeof doc.id !== 'string' || typeof doc.name !== 'string') {
+    throw new LayoutImportError("The layout is missing its id or name.");
+  }
+  if (!Array.isArray(doc.artboards) || doc.artboards.length === 0) {
+    throw new LayoutImportError("The layout has no artboards.");
+  }
+  doc.artboards.forEach(validateArtboard);
+  if (!Array.isArray(doc.items)) throw new LayoutImportError("The layout has no items list.");
+  doc.items.forEach(validateItem);
+  if (doc.duration !== undefined && !(isNumber(doc.duration) && doc.duration > 0)) {
+    throw new LayoutImportError("The layout has an invalid timeline length.");
+  }
+  return doc as unknown as LayoutDocument;
+};
+
+// --- Documents ---
+
+export const createLayoutDocument = (name = 'Untitled Layout', snapshot: LayoutSnapshot = DEFAULT_LAYOUT_SNAPSHOT): LayoutDocument => {
+  const now = Date.now();
+  const projectId = getActiveProjectId() ?? undefined;
+  return { id: newLayoutId('layout'), name, projectId, ...toSnapshot(snapshot), createdAt: now, updatedAt: now };
+};
+
+// Documents in a project (the active one by default), most recently edited first
+export const listLayouts = async (projectId = getActiveProjectId()): Promise<LayoutDocument[]> => {
+  if (!projectId) return [];
+  try {
+    const docs = await getAllByIndex<LayoutDocument>(STORES.LAYOUTS, 'projectId', projectId);
+    return docs.map(upgradeSnapshot).sort((a, b) => b.updatedAt - a.updatedAt);
+  } catch (e) {
+    throw toStorageError(e, 'load saved layouts');
+  }
+};
+
+export const getLayout = async (id: string): Promise<LayoutDocument | undefined> => {
+  try {
+    const doc = await getOne<LayoutDocument>(STORES.LAYOUTS, id);
+    return doc && upgradeSnapshot(doc);
+  } catch (e) {
+    throw toStorageError(e, 'open the layout');
+  }
+};
+
+// Persists the document as-is (callers set updatedAt) and returns the stored copy
+export const saveLayout = async (doc: LayoutDocument): Promise<LayoutDocument> => {
+  try {
+    const stored = { ...doc, items: await inlineItems(doc.items) };
+    await putOne(STORES.LAYOUTS, stored);
+    return stored;
+  } catch (e) {
+    throw toStorageError(e, 'save the layout');
+  }
+};
+
+export const duplicateLayout = async (doc: LayoutDocument): Promise<LayoutDocument> =>
+  saveLayout(createLayoutDocument(`${doc.name} (copy)`, doc));
+
+export const deleteLayout = async (id: string): Promise<void> => {
+  try {
+    const versions = await getAllByIndex<LayoutVersion>(STORES.LAYOUT_VERSIONS, 'documentId', id);
+    await withStore([STORES.LAYOUTS, STORES.LAYOUT_VERSIONS], 'readwrite', tx => {
+      tx.objectStore(STORES.LAYOUTS).delete(id);
+      versions.forEach(v => tx.objectStore(STORES.LAYOUT_VERSIONS).delete(v.id));
+    });
+    if (getCurrentLayoutId() === id) localStorage.removeItem(currentLayoutKey());
+  } catch (e) {
+    throw toStorageError(e, 'delete the layout');
+  }
+};
+
+const currentLayoutKey = () => `${CURRENT_LAYOUT_KEY}:${getActiveProjectId()}`;
+
+export const getCurrentLayoutId = (): string | null => localStorage.getItem(currentLayoutKey());
+
+export const setCurrentLayoutId = (id: string) => localStorage.setItem(currentLayoutKey(), id);
+
+// --- Versions ---
+
+export const listVersions = async (documentId: string): Promise<LayoutVersion[]> => {
+  try {
+    const versions = await getAllByIndex<LayoutVersion>(STORES.LAYOUT_VERSIONS, 'documentId', documentId);
+    return versions.map(upgradeVersion).sort((a, b) => b.createdAt - a.createdAt);
+  } catch (e) {
+    throw toStorageError(e, 'load layout versions');
+  }
+};
+
+export const createVersion = async (doc: LayoutDocument, label: string): Promise<LayoutVersion> => {
+  try {
+    const version: LayoutVersion = {
+      id: newLayoutId('version'),
+      documentId: doc.id,
+      label,
+      snapshot: toSnapshot({ ...doc, items: await inlineItems(doc.items) }),
+      createdAt: Date.now(),
+    };
+    const existing = await listVersions(doc.id);
+    const pruned = existing.slice(MAX_VERSIONS_PER_DOCUMENT - 1);
+    await withStore(STORES.LAYOUT_VERSIONS, 'readwrite', tx => {
+      const store = tx.objectStore(STORES.LAYOUT_VERSIONS);
+      store.put(version);
+      pruned.forEach(v => store.delete(v.id));
+    });
+    return version;
+  } catch (e) {
+    throw toStorageError(e, 'save the layout version');
+  }
+};
+
+// --- JSON files ---
+
+export const exportLayoutFile = async (doc: LayoutDocument): Promise<Blob> => {
+  const file: LayoutFile = {
+    format: LAYOUT_FILE_FORMAT,
+    formatVersion: LAYOUT_FILE_VERSION,
+    document: { ...doc, items: await inlineItems(doc.items) },
+  };
+  return new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+};
+
+// Parses and validates an exported file without saving it
+export const parseLayoutFile = (text: string): LayoutDocument => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new LayoutImportError("The file is not valid JSON.");
+  }
+  if (!isRecord(parsed) || parsed.format !== LAYOUT_FILE_FORMAT) throw new LayoutImportError("This is not an Envisage layout file.");
+  if (!isNumber(parsed.formatVersion) || parsed.formatVersion > LAYOUT_FILE_VERSION) {
+    throw new LayoutImportError("This layout was exported by a newer version of Envisage.");
+  }
+  // Upgrading only reads the fields it replaces; validation checks the result
+  const { document } = parsed;
+  return validateDocument(isRecord(document) ? upgradeSnapshot(document as unknown as LayoutSnapshot) : document);
+};
+
+// Adds an exported file to the active project. The content is kept exactly;
+// only the id changes when a document with the same id already exists.
+export const importLayoutFile = async (text: string): Promise<LayoutDocument> => {
+  const doc = { ...parseLayoutFile(text), projectId: getActiveProjectId() ?? undefined };
+  const conflict = await getLayout(doc.id);
+  return saveLayout(conflict ? { ...doc, id: newLayoutId('layout') } : doc);
+};
@@ -0,0 +1,386 @@
+import JSZip from 'jszip';
+import { AssetFolder, AssetProvenance, BrandColor, BrandKit, BrandLogo, EditStep, GeneratedAsset, LayoutDocument, Project, PromptSource, ToolType } from '../types';
+import { STORES, StoreName, getAll, withStore, requestToPromise } from './db';
+import { loadAssets, saveAssets, getAssetBlob, toStorageError } from './assetStore';
+import { extensionFor, slugify } from './assetExport';
+import { listLayouts, exportLayoutFile, parseLayoutFile } from './layoutStore';
+import { listBrandKits } from './brandKitStore';
+import { createFolder, listFolders } from './folderStore';
+import { createProject, deleteProject, setActiveProject, uniqueProjectName } from './projectStore';
+import { getCurrentUser } from './auth';
+
+// A whole project as one zip, for handing work to someone else:
+//
+//   manifest.json              format, project name and an entry per asset
+//   assets/<name>.<ext>        asset content as real files; lineage images beside them
+//   layouts/<name>.json        layout documents in the single-layout file format
+//   brand-kits/<name>.json     brand kits, logos inline
+//
+// Importing always creates a new project. Ids are kept where they are free on
+// this device and remapped where they are not, along with every reference to
+// them (variant parents, layout items, brand kit provenance).
+
+export const PROJECT_BUNDLE_FORMAT = 'envisage-project';
+export const PROJECT_BUNDLE_VERSION = 1;
+
+export class ProjectBundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProjectBundleError';
+  }
+}
+
+interface BundleFile {
+  file: string;
+  mimeType: string;
+}
+
+interface BundleEditStep extends Omit<EditStep, 'image'>, BundleFile {}
+
+interface BundleAsset extends Omit<GeneratedAsset, 'content' | 'lineage' | 'folderId'>, BundleFile {
+  lineage?: BundleEditStep[];
+  folder?: string; // Folder name; folders are shared across projects, so they are matched by name
+}
+
+interface BundleManifest {
+  format: typeof PROJECT_BUNDLE_FORMAT;
+  formatVersion: number;
+  exportedAt: string;
+  exportedBy?: string;
+  project: { name: string };
+  assets: BundleAsset[];
+  layouts: { id: string; name: string; file: string }[];
+  brandKits: { id: string; name: string; file: string }[];
+}
+
+export interface ProjectBundleImport {
+  project: Project;
+  assets: number;
+  layouts: number;
+  brandKits: number;
+  remapped: number; // Ids that already existed on this device
+}
+
+// Remapped assets get the generators' id format; a prefix such as "imported-" would change how they are labelled
+const newAssetId = () => `${Date.now()}-${Math.random().toString(36).substr(2, 5)}`;
+
+const newBundleId = (prefix: string) => `${prefix}-${newAssetId()}`;
+
+const blobFromUrl = async (url: string): Promise<Blob> => (await fetch(url)).blob();
+
+// --- Export ---
+
+export const exportProjectBundle = async (project: Project): Promise<Blob> => {
+  const zip = new JSZip();
+  const [assets, layouts, kits, folders] = await Promise.all([
+    loadAssets(project.id),
+    listLayouts(project.id),
+    listBrandKits(project.id),
+    getAll<AssetFolder>(STORES.ASSET_FOLDERS),
+  ]);
+
+  const manifestAssets = await Promise.all(assets.map(async (asset): Promise<BundleAsset> => {
+    const { content, lineage, folderId, ...fields } = asset;
+    const blob = await getAssetBlob(asset);
+    const base = `assets/${slugify(asset.metadata?.prompt || asset.type)}-${asset.id}`;
+    const file = `${base}.${extensionFor(asset, blob)}`;
+    zip.file(file, blob);
+    const bundleLineage = lineage && await Promise.all(lineage.map(async ({ image, ...step }) => {
+      const stepBlob = await blobFromUrl(image);
+      const stepFile = `${base}/lineage-${step.id}.${extensionFor(asset, stepBlob)}`;
+      zip.file(stepFile, stepBlob);
+      return { ...step, file: stepFile, mimeType: stepBlob.type };
+    }));
+    return {
+      ...fields,
+      file,
+      mimeType: blob.type || (asset.type === 'text' ? 'text/plain' : ''),
+      lineage: bundleLineage,
+      folder: folders.find(f => f.id === folderId)?.name,
+    };
+  }));
+
+  const manifestLayouts = await Promise.all(layouts.map(async doc => {
+    const file = `layouts/${slugify(doc.name)}-${doc.id}.json`;
+    zip.file(file, await exportLayoutFile(doc));
+    return { id: doc.id, name: doc.name, file };
+  }));
+
+  const manifestKits = kits.map(kit => {
+    const file = `brand-kits/${slugify(kit.name)}-${kit.id}.json`;
+    zip.file(file, JSON.stringify(kit, null, 2));
+    return { id: kit.id, name: kit.name, file };
+  });
+
+  const manifest: BundleManifest = {
+    format: PROJECT_BUNDLE_FORMAT,
+    formatVersion: PROJECT_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    exportedBy: getCurrentUser()?.name,
+    project: { name: project.name },
+    assets: manifestAssets,
+    layouts: manifestLayouts,
+    brandKits: manifestKits,
+  };
+  zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+  return zip.generateAsync({ type: 'blob' });
+};
+
+// --- Import ---
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+
+const isStringList = (value: unknown): value is string[] => Array.isArray(value) && value.every(isString);
+
+const isOptional = <T>(value: unknown, check: (value: unknown) => value is T): value is T | undefined => value === undefined || check(value);
+
+const isBundleFile = (value: Record<string, unknown>): boolean => isString(value.file) && isString(value.mimeType);
+
+const ASSET_TYPES: GeneratedAsset['type'][] = ['image', 'video', 'text'];
+
+const isAssetType = (value: unknown): value is GeneratedAsset['type'] => ASSET_TYPES.some(type => type === value);
+
+const TOOL_TYPES = Object.values(ToolType);
+
+const isSettings = (value: unknown): value is Record<string, string | number | boolean> =>
+  isRecord(value) && Object.values(value).every(v => isString(v) || isNumber(v) || isBoolean(v));
+
+const isPromptSource = (value: unknown): value is PromptSource =>
+  isRecord(value) && TOOL_TYPES.some(tool => tool === value.tool) && isString(value.prompt) && isOptional(value.settings, isSettings);
+
+// The library filters and the detail view read these fields directly
+const isMetadata = (value: unknown): value is NonNullable<GeneratedAsset['metadata']> =>
+  isRecord(value) &&
+  isString(value.prompt) &&
+  isOptional(value.aspectRatio, isString) &&
+  isOptional(value.negativePrompt, isString) &&
+  isOptional(value.seed, isNumber) &&
+  isOptional(value.source, isPromptSource);
+
+const isProvenance = (value: unknown): value is AssetProvenance =>
+  isRecord(value) &&
+  isString(value.origin) &&
+  isSettings(value.parameters) &&
+  isStringList(value.parentAssetIds) &&
+  isOptional(value.brandKitId, isString);
+
+const isEditStep = (value: unknown): value is BundleEditStep =>
+  isRecord(value) && isString(value.id) && isString(value.prompt) && isNumber(value.createdAt) && isBundleFile(value);
+
+const isEditHistory = (value: unknown): value is BundleEditStep[] => Array.isArray(value) && value.every(isEditStep);
+
+const validateAsset = (asset: unknown, index: number): BundleAsset => {
+  const label = `Asset ${index + 1} in the manifest`;
+  if (!isRecord(asset) || !isString(asset.id) || !isAssetType(asset.type) || !isNumber(asset.createdAt)) {
+    throw new ProjectBundleError(`${label} is missing its id, type or creation time.`);
+  }
+  if (!isString(asset.file) || !isString(asset.mimeType)) throw new ProjectBundleError(`${label} is missing its file or MIME type.`);
+  const { metadata, provenance, lineage, variantGroupId, folder, tags, favorite } = asset;
+  if (!isOptional(metadata, isMetadata)) throw new ProjectBundleError(`${label} has invalid prompt details.`);
+  if (!isOptional(provenance, isProvenance)) throw new ProjectBundleError(`${label} has invalid provenance.`);
+  if (!isOptional(lineage, isEditHistory)) throw new ProjectBundleError(`${label} has an invalid edit history.`);
+  if (!isOptional(variantGroupId, isString)) throw new ProjectBundleError(`${label} has an invalid variant group.`);
+  if (!isOptional(folder, isString) || !isOptional(tags, isStringList) || !isOptional(favorite, isBoolean)) {
+    throw new ProjectBundleError(`${label} has an invalid folder, tags or favorite flag.`);
+  }
+  return {
+    id: asset.id,
+    type: asset.type,
+    createdAt: asset.createdAt,
+    file: asset.file,
+    mimeType: asset.mimeType,
+    metadata, provenance, lineage, variantGroupId, folder, tags, favorite,
+  };
+};
+
+// Layout and brand kit entries point at a file; the file itself is validated when read
+const validateEntry = (entry: unknown, kind: string): BundleManifest['layouts'][number] => {
+  if (!isRecord(entry) || !isString(entry.id) || !isString(entry.name) || !isString(entry.file)) {
+    throw new ProjectBundleError(`The bundle's manifest lists a ${kind} without its id, name or file.`);
+  }
+  return { id: entry.id, name: entry.name, file: entry.file };
+};
+
+const readManifest = async (zip: JSZip): Promise<BundleManifest> => {
+  const entry = zip.file('manifest.json');
+  if (!entry) throw new ProjectBundleError("This is not an Envisage project bundle.");
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(await entry.async('string'));
+  } catch {
+    throw new ProjectBundleError("The bundle's manifest is not valid JSON.");
+  }
+  if (!isRecord(manifest) || manifest.format !== PROJECT_BUNDLE_FORMAT) throw new ProjectBundleError("This is not an Envisage project bundle.");
+  if (!isNumber(manifest.formatVersion) || manifest.formatVersion > PROJECT_BUNDLE_VERSION) {
+    throw new ProjectBundleError("This bundle was exported by a newer version of Envisage.");
+  }
+  if (!Array.isArray(manifest.assets) || !Array.isArray(manifest.layouts) || !Array.isArray(manifest.brandKits)) {
+    throw new ProjectBundleError("The bundle's manifest is incomplete.");
+  }
+  const { project } = manifest;
+  return {
+    format: PROJECT_BUNDLE_FORMAT,
+    formatVersion: manifest.formatVersion,
+    exportedAt: isString(manifest.exportedAt) ? manifest.exportedAt : '',
+    exportedBy: isString(manifest.exportedBy) ? manifest.exportedBy : undefined,
+    project: { name: isRecord(project) && isString(project.name) ? project.name : '' },
+    assets: manifest.assets.map(validateAsset),
+    layouts: manifest.layouts.map(layout => validateEntry(layout, 'layout')),
+    brandKits: manifest.brandKits.map(kit => validateEntry(kit, 'brand kit')),
+  };
+};
+
+const readFile = (zip: JSZip, name: string) => {
+  const entry = zip.file(name);
+  if (!entry) throw new ProjectBundleError(`The bundle is missing "${name}".`);
+  return entry;
+};
+
+const readBlob = async (zip: JSZip, { file, mimeType }: BundleFile): Promise<Blob> =>
+  new Blob([await readFile(zip, file).async('arraybuffer')], { type: mimeType });
+
+const isLogo = (value: unknown): value is BrandLogo =>
+  isRecord(value) && isString(value.id) && isString(value.name) && isString(value.content);
+
+const isColor = (value: unknown): value is BrandColor => isRecord(value) && isString(value.name) && isString(value.hex);
+
+const parseBrandKit = (text: string, name: string): BrandKit => {
+  let kit: unknown;
+  try {
+    kit = JSON.parse(text);
+  } catch {
+    throw new ProjectBundleError(`Brand kit "${name}" is not valid JSON.`);
+  }
+  if (!isRecord(kit) || !isString(kit.id) || !isString(kit.name) || !isNumber(kit.createdAt) || !isNumber(kit.updatedAt)) {
+    throw new ProjectBundleError(`Brand kit "${name}" is incomplete.`);
+  }
+  const { logos, colors, fonts, toneOfVoice, bannedWords, sampleCopy } = kit;
+  if (!Array.isArray(logos) || !logos.every(isLogo) || !Array.isArray(colors) || !colors.every(isColor)) {
+    throw new ProjectBundleError(`Brand kit "${name}" has invalid logos or colors.`);
+  }
+  if (!isStringList(fonts) || !isString(toneOfVoice) || !isStringList(bannedWords) || !isStringList(sampleCopy)) {
+    throw new ProjectBundleError(`Brand kit "${name}" has invalid fonts or voice settings.`);
+  }
+  return {
+    id: kit.id, name: kit.name, logos, colors, fonts, toneOfVoice, bannedWords, sampleCopy,
+    createdAt: kit.createdAt, updatedAt: kit.updatedAt,
+  };
+};
+
+const existingKeys = (storeName: StoreName): Promise<Set<IDBValidKey>> =>
+  withStore(storeName, 'readonly', async tx => new Set(await requestToPromise(tx.objectStore(storeName).getAllKeys())));
+
+// Maps each id to itself if it is free, otherwise to a fresh one
+const buildIdMap = (ids: string[], taken: Set<IDBValidKey>, newId: () => string): Map<string, string> =>
+  new Map(ids.map(id => [id, taken.has(id) ? newId() : id]));
+
+// Folders are matched by name among the importer's own and created when missing
+const resolveFolders = async (userId: string, names: string[]): Promise<Map<string, string>> => {
+  const folders = await listFolders(userId);
+  const ids = new Map(folders.map(f => [f.name, f.id]));
+  for (const name of new Set(names)) {
+    if (!ids.has(name)) ids.set(name, (await createFolder(name)).id);
+  }
+  return ids;
+};
+
+// Unpacks a bundle into a new project in the workspace. If any part fails the
+// project is removed again (folders it created stay, empty); it only becomes
+// active once everything is saved.
+export const importProjectBundle = async (file: Blob, workspaceId: string): Promise<ProjectBundleImport> => {
+  const owner = getCurrentUser();
+  if (!owner) throw new ProjectBundleError("Sign in to import a project.");
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(file);
+  } catch {
+    throw new ProjectBundleError("The file is not a valid zip archive.");
+  }
+  const manifest = await readManifest(zip);
+
+  // Read and validate everything before writing anything
+  const docs = await Promise.all(manifest.layouts.map(async entry => {
+    try {
+      return parseLayoutFile(await readFile(zip, entry.file).async('string'));
+    } catch (e: any) {
+      throw new ProjectBundleError(`Layout "${entry.name}": ${e.message}`);
+    }
+  }));
+  const kits = await Promise.all(manifest.brandKits.map(async entry =>
+    parseBrandKit(await readFile(zip, entry.file).async('string'), entry.name)));
+  const contents = await Promise.all(manifest.assets.map(async asset => ({
+    content: asset.type === 'text' ? await readFile(zip, asset.file).async('string') : await readBlob(zip, asset),
+    lineage: asset.lineage && await Promise.all(asset.lineage.map(step => readBlob(zip, step))),
+  })));
+
+  const [assetKeys, layoutKeys, kitKeys] = await Promise.all([
+    existingKeys(STORES.ASSETS), existingKeys(STORES.LAYOUTS), existingKeys(STORES.BRAND_KITS),
+  ]).catch(e => { throw toStorageError(e, 'read the library'); });
+  const assetIds = buildIdMap(manifest.assets.map(a => a.id), assetKeys, newAssetId);
+  const layoutIds = buildIdMap(docs.map(d => d.id), layoutKeys, () => newBundleId('layout'));
+  const kitIds = buildIdMap(kits.map(k => k.id), kitKeys, () => newBundleId('brand'));
+  // A group whose assets already exist here is a re-import, so its copies get a group of their own
+  const groupIds = new Map<string, string>();
+  manifest.assets.forEach(a => {
+    if (a.variantGroupId && assetIds.get(a.id) !== a.id && !groupIds.has(a.variantGroupId)) {
+      groupIds.set(a.variantGroupId, newBundleId('variant'));
+    }
+  });
+  const remapped = [assetIds, layoutIds, kitIds].reduce((count, ids) =>
+    count + Array.from(ids).filter(([from, to]) => from !== to).length, 0);
+
+  const folderIds = await resolveFolders(owner.id, manifest.assets.flatMap(a => a.folder ? [a.folder] : []));
+  const project = await createProject(workspaceId, uniqueProjectName(workspaceId, manifest.project.name || 'Imported project'), false);
+
+  // Binary content goes through object URLs, the same way generators hand assets over
+  const tempUrls: string[] = [];
+  const toUrl = (blob: Blob) => {
+    const url = URL.createObjectURL(blob);
+    tempUrls.push(url);
+    return url;
+  };
+
+  try {
+    const assets: GeneratedAsset[] = manifest.assets.map(({ file, mimeType, lineage, folder, ...fields }, i) => ({
+      ...fields,
+      id: assetIds.get(fields.id)!,
+      content: typeof contents[i].content === 'string' ? contents[i].content as string : toUrl(contents[i].content as Blob),
+      variantGroupId: fields.variantGroupId && (groupIds.get(fields.variantGroupId) || fields.variantGroupId),
+      lineage: lineage?.map(({ file, mimeType, ...step }, j) => ({ ...step, image: toUrl(contents[i].lineage![j]) })),
+      provenance: fields.provenance && {
+        ...fields.provenance,
+        parentAssetIds: fields.provenance.parentAssetIds.map(id => assetIds.get(id) || id),
+        brandKitId: fields.provenance.brandKitId && (kitIds.get(fields.provenance.brandKitId) || fields.provenance.brandKitId),
+      },
+      folderId: folder ? folderIds.get(folder) : undefined,
+    }));
+    await saveAssets(assets, { ownerId: owner.id, projectId: project.id });
+
+    await withStore([STORES.LAYOUTS, STORES.BRAND_KITS], 'readwrite', tx => {
+      docs.forEach(doc => {
+        const stored: LayoutDocument = {
+          ...doc,
+          id: layoutIds.get(doc.id)!,
+          projectId: project.id,
+          items: doc.items.map(item => item.assetId ? { ...item, assetId: assetIds.get(item.assetId) || item.assetId } : item),
+        };
+        tx.objectStore(STORES.LAYOUTS).put(stored);
+      });
+      kits.forEach(kit => tx.objectStore(STORES.BRAND_KITS).put({ ...kit, id: kitIds.get(kit.id)!, projectId: project.id }));
+    });
+  } catch (e) {
+    await deleteProject(project.id).catch(cleanup => console.error('Failed to remove the partial import', cleanup));
+    throw e instanceof ProjectBundleError ? e : toStorageError(e, 'import the project');
+  } finally {
+    tempUrls.forEach(url => URL.revokeObjectURL(url));
+  }
+
+  setActiveProject(project.id);
+  return { project, assets: manifest.assets.length, layouts: docs.length, brandKits: kits.length, remapped };
+};
@@ -0,0 +1,254 @@
+import { useEffect, useState } from 'react';
+import { Project, Workspace, LayoutDocument } from '../types';
+import { STORES, StoreName, getAllByIndex, putOne, withStore, requestToPromise } from './db';
+import { toStorageError } from './assetStore';
+
+// The signed-in user's workspaces and projects, shared through useProjects().
+// Project-scoped stores (assets, layouts, brand kits, prompt history) read the
+// active project with getActiveProjectId() and reload through onProjectChange().
+
+interface ProjectState {
+  workspaces: Workspace[];
+  projects: Project[];
+  activeProject: Project | null;
+  activeWorkspace: Workspace | null;
+  loaded: boolean;
+}
+
+const ACTIVE_PROJECT_KEY = 'envisage_active_project'; // Suffixed with the user id
+const DEFAULT_WORKSPACE_NAME = 'Personal';
+const DEFAULT_PROJECT_NAME = 'General';
+const SCOPED_STORES: StoreName[] = [STORES.ASSETS, STORES.LAYOUTS, STORES.BRAND_KITS, STORES.PROMPT_HISTORY];
+
+let ownerId: string | null = null;
+let workspaces: Workspace[] = [];
+let projects: Project[] = [];
+let activeId: string | null = null;
+let loaded = false;
+let loading: Promise<void> | null = null;
+const listeners = new Set<(state: ProjectState) => void>();
+const changeListeners = new Set<(projectId: string | null) => void>();
+
+const getState = (): ProjectState => {
+  const activeProject = projects.find(p => p.id === activeId) || null;
+  return {
+    workspaces,
+    projects,
+    activeProject,
+    activeWorkspace: activeProject ? workspaces.find(w => w.id === activeProject.workspaceId) || null : null,
+    loaded,
+  };
+};
+
+const emit = () => {
+  const state = getState();
+  listeners.forEach(listener => listener(state));
+};
+
+const newProjectId = (prefix: string) => `${prefix}-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`;
+
+const byName = <T extends { name: string }>(a: T, b: T) => a.name.localeCompare(b.name);
+
+const createWorkspaceRecord = (name: string, owner: string): Workspace =>
+  ({ id: newProjectId('workspace'), name, ownerId: owner, createdAt: Date.now() });
+
+const createProjectRecord = (workspaceId: string, name: string): Project =>
+  ({ id: newProjectId('project'), workspaceId, name, createdAt: Date.now() });
+
+const activeKey = () => `${ACTIVE_PROJECT_KEY}:${ownerId}`;
+
+const setActive = (id: string | null) => {
+  if (id === activeId) return;
+  activeId = id;
+  if (ownerId && id) localStorage.setItem(activeKey(), id);
+  changeListeners.forEach(listener => listener(id));
+};
+
+// Data saved before projects existed moves into the user's first project: their
+// own assets (and any nobody owns yet), plus every unscoped layout, kit and prompt
+const adoptUnscopedRecords = (userId: string, projectId: string) =>
+  withStore(SCOPED_STORES, 'readwrite', async tx => {
+    for (const name of SCOPED_STORES) {
+      const store = tx.objectStore(name);
+      const records = await requestToPromise(store.getAll() as IDBRequest<any[]>);
+      records.forEach(record => {
+        if (record.projectId) return;
+        if (name !== STORES.ASSETS) {
+          store.put({ ...record, projectId });
+        } else if (!record.ownerId || record.ownerId === userId) {
+          store.put({ ...record, ownerId: userId, projectId });
+        }
+      });
+    }
+  });
+
+// --- Loading ---
+
+export const getActiveProjectId = (): string | null => activeId;
+
+// Called with the new project id (null when signed out) whenever the active project changes
+export const onProjectChange = (listener: (projectId: string | null) => void): (() => void) => {
+  changeListeners.add(listener);
+  return () => { changeListeners.delete(listener); };
+};
+
+// Loads the user's hierarchy, creating a first workspace and project on first use
+export const loadProjects = (userId: string): Promise<void> => {
+  if (ownerId !== userId) resetProjects(userId);
+  if (!loading) {
+    loading = (async () => {
+      try {
+        let storedWorkspaces = await getAllByIndex<Workspace>(STORES.WORKSPACES, 'ownerId', userId);
+        let storedProjects = (await Promise.all(
+          storedWorkspaces.map(w => getAllByIndex<Project>(STORES.PROJECTS, 'workspaceId', w.id))
+        )).flat();
+        if (storedProjects.length === 0) {
+          const workspace = storedWorkspaces[0] || createWorkspaceRecord(DEFAULT_WORKSPACE_NAME, userId);
+          const project = createProjectRecord(workspace.id, DEFAULT_PROJECT_NAME);
+          await withStore([STORES.WORKSPACES, STORES.PROJECTS], 'readwrite', tx => {
+            tx.objectStore(STORES.WORKSPACES).put(workspace);
+            tx.objectStore(STORES.PROJECTS).put(project);
+          });
+          await adoptUnscopedRecords(userId, project.id);
+          storedWorkspaces = storedWorkspaces.length ? storedWorkspaces : [workspace];
+          storedProjects = [project];
+        }
+        if (ownerId !== userId) return; // Signed out while loading
+        workspaces = storedWorkspaces.sort(byName);
+        projects = storedProjects.sort(byName);
+        loaded = true;
+        const remembered = localStorage.getItem(activeKey());
+        setActive(projects.some(p => p.id === remembered) ? remembered : projects[0].id);
+        emit();
+      } catch (e) {
+        loading = null;
+        throw toStorageError(e, 'load your projects');
+      }
+    })();
+  }
+  return loading;
+};
+
+// Forgets the current user's hierarchy, e.g. on sign-out
+export const resetProjects = (nextOwnerId: string | null = null) => {
+  ownerId = nextOwnerId;
+  workspaces = [];
+  projects = [];
+  loaded = false;
+  loading = null;
+  setActive(null);
+  emit();
+};
+
+export const setActiveProject = (id: string) => {
+  if (!projects.some(p => p.id === id)) return;
+  setActive(id);
+  emit();
+};
+
+// --- Editing ---
+
+// Appends a number when the workspace already has a project with this name
+export const uniqueProjectName = (workspaceId: string, name: string): string => {
+  const taken = new Set(projects.filter(p => p.workspaceId === workspaceId).map(p => p.name));
+  let candidate = name;
+  for (let n = 2; taken.has(candidate); n++) candidate = `${name} (${n})`;
+  return candidate;
+};
+
+// Pass activate = false to fill the project before anyone switches to it
+export const createProject = async (workspaceId: string, name: string, activate = true): Promise<Project> => {
+  const project = createProjectRecord(workspaceId, name);
+  try {
+    await putOne(STORES.PROJECTS, project);
+  } catch (e) {
+    throw toStorageError(e, 'create the project');
+  }
+  projects = [...projects, project].sort(byName);
+  if (activate) setActive(project.id);
+  emit();
+  return project;
+};
+
+// A workspace always starts with one project, which becomes active
+export const createWorkspace = async (name: string): Promise<Workspace> => {
+  if (!ownerId) throw new Error("Sign in to create a workspace.");
+  const workspace = createWorkspaceRecord(name, ownerId);
+  const project = createProjectRecord(workspace.id, DEFAULT_PROJECT_NAME);
+  try {
+    await withStore([STORES.WORKSPACES, STORES.PROJECTS], 'readwrite', tx => {
+      tx.objectStore(STORES.WORKSPACES).put(workspace);
+      tx.objectStore(STORES.PROJECTS).put(project);
+    });
+  } catch (e) {
+    throw toStorageError(e, 'create the workspace');
+  }
+  workspaces = [...workspaces, workspace].sort(byName);
+  projects = [...projects, project].sort(byName);
+  setActive(project.id);
+  emit();
+  return workspace;
+};
+
+export const renameProject = async (id: string, name: string): Promise<void> => {
+  const project = projects.find(p => p.id === id);
+  if (!project) return;
+  const renamed = { ...project, name };
+  try {
+    await putOne(STORES.PROJECTS, renamed);
+  } catch (e) {
+    throw toStorageError(e, 'rename the project');
+  }
+  projects = projects.map(p => p.id === id ? renamed : p).sort(byName);
+  emit();
+};
+
+export const renameWorkspace = async (id: string, name: string): Promise<void> => {
+  const workspace = workspaces.find(w => w.id === id);
+  if (!workspace) return;
+  const renamed = { ...workspace, name };
+  try {
+    await putOne(STORES.WORKSPACES, renamed);
+  } catch (e) {
+    throw toStorageError(e, 'rename the workspace');
+  }
+  workspaces = workspaces.map(w => w.id === id ? renamed : w).sort(byName);
+  emit();
+};
+
+// Deletes the project with everything in it, in one transaction. The last
+// project cannot be deleted, so there is always somewhere to work.
+export const deleteProject = async (id: string): Promise<void> => {
+  if (projects.length < 2) throw new Error("You need at least one project.");
+  try {
+    const layouts = await getAllByIndex<LayoutDocument>(STORES.LAYOUTS, 'projectId', id);
+    const versionKeys = (await Promise.all(layouts.map(doc =>
+      withStore(STORES.LAYOUT_VERSIONS, 'readonly', tx =>
+        requestToPromise(tx.objectStore(STORES.LAYOUT_VERSIONS).index('documentId').getAllKeys(doc.id)))
+    ))).flat();
+    await withStore([...SCOPED_STORES, STORES.LAYOUT_VERSIONS, STORES.PROJECTS], 'readwrite', async tx => {
+      for (const name of SCOPED_STORES) {
+        const store = tx.objectStore(name);
+        const keys = await requestToPromise(store.index('projectId').getAllKeys(id));
+        keys.forEach(key => store.delete(key));
+      }
+      versionKeys.forEach(key => tx.objectStore(STORES.LAYOUT_VERSIONS).delete(key));
+      tx.objectStore(STORES.PROJECTS).delete(id);
+    });
+  } catch (e) {
+    throw toStorageError(e, 'delete the project');
+  }
+  projects = projects.filter(p => p.id !== id);
+  if (activeId === id) setActive(projects[0].id);
+  emit();
+};
+
+export const useProjects = (): ProjectState => {
+  const [state, setState] = useState<ProjectState>(getState);
+  useEffect(() => {
+    listeners.add(setState);
+    setState(getState());
+    return () => { listeners.delete(setState); };
+  }, []);
+  return state;
+};
@@ -0,0 +1,204 @@
+import { useEffect, useState } from 'react';
+import { GeneratedAsset, PromptHistoryEntry, PromptSource, PromptTemplate, ToolType } from '../types';
+import { STORES, getAll, getAllByIndex, putOne, deleteOne, withStore } from './db';
+import { toStorageError } from './assetStore';
+import { getActiveProjectId, onProjectChange } from './projectStore';
+
+// Saved prompt templates and per-tool prompt history, both in IndexedDB and
+// shared by every generator through usePromptLibrary(). Templates are shared
+// across projects; history belongs to the active project.
+
+// Oldest non-favorite entries beyond this are dropped, per tool
+const HISTORY_LIMIT_PER_TOOL = 100;
+
+interface PromptLibraryState {
+  templates: PromptTemplate[];
+  history: PromptHistoryEntry[]; // Most recently used first
+  loaded: boolean;
+}
+
+// A prompt to prefill when reusing it from the library; `assetId` is set when it
+// came from an asset, so tools can restore more than the prompt (e.g. an edit chain).
+export interface PromptReuse extends PromptSource {
+  assetId?: string;
+}
+
+let templates: PromptTemplate[] = [];
+let history: PromptHistoryEntry[] = [];
+let loaded = false;
+let loading: Promise<void> | null = null;
+const listeners = new Set<(state: PromptLibraryState) => void>();
+
+const getState = (): PromptLibraryState => ({ templates, history, loaded });
+
+const emit = () => {
+  const state = getState();
+  listeners.forEach(listener => listener(state));
+};
+
+const newPromptId = (prefix: string) => `${prefix}-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`;
+
+const byName = (a: PromptTemplate, b: PromptTemplate) => a.name.localeCompare(b.name);
+const byRecent = (a: PromptHistoryEntry, b: PromptHistoryEntry) => b.createdAt - a.createdAt;
+
+// --- Template Variables ---
+const VARIABLE_PATTERN = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+// Variable names in order of first appearance
+export const getTemplateVariables = (text: string): string[] =>
+  Array.from(new Set(Array.from(text.matchAll(VARIABLE_PATTERN), match => match[1])));
+
+// Unfilled variables are left as-is so they stay visible in the prompt
+export const fillTemplate = (text: string, values: Record<string, string>): string =>
+  text.replace(VARIABLE_PATTERN, (placeholder, name: string) => values[name]?.trim() || placeholder);
+
+export const matchesPromptSearch = (query: string, ...fields: (string | undefined)[]) => {
+  const needle = query.trim().toLowerCase();
+  return !needle || fields.some(field => field?.toLowerCase().includes(needle));
+};
+
+// --- Persistence ---
+export const loadPromptLibrary = (): Promise<void> => {
+  const projectId = getActiveProjectId();
+  if (!projectId) return Promise.resolve();
+  if (!loading) {
+    loading = (async () => {
+      try {
+        const [storedTemplates, storedHistory] = await Promise.all([
+          getAll<PromptTemplate>(STORES.PROMPT_TEMPLATES),
+          getAllByIndex<PromptHistoryEntry>(STORES.PROMPT_HISTORY, 'projectId', projectId),
+        ]);
+        if (projectId !== getActiveProjectId()) return; // Switched projects while loading
+        templates = storedTemplates.sort(byName);
+        history = storedHistory.sort(byRecent);
+        loaded = true;
+        emit();
+      } catch (e) {
+        loading = null;
+        throw toStorageError(e, 'load the prompt library');
+      }
+    })();
+  }
+  return loading;
+};
+
+export const createPromptTemplate = (name: string, text: string, tool?: ToolType): PromptTemplate => {
+  const now = Date.now();
+  return { id: newPromptId('template'), name, text, tool, favorite: false, createdAt: now, updatedAt: now };
+};
+
+export const savePromptTemplate = async (template: PromptTemplate): Promise<PromptTemplate> => {
+  const stored = { ...template, updatedAt: Date.now() };
+  try {
+    await putOne(STORES.PROMPT_TEMPLATES, stored);
+  } catch (e) {
+    throw toStorageError(e, 'save the prompt template');
+  }
+  templates = [...templates.filter(t => t.id !== stored.id), stored].sort(byName);
+  emit();
+  return stored;
+};
+
+export const deletePromptTemplate = async (id: string): Promise<void> => {
+  try {
+    await deleteOne(STORES.PROMPT_TEMPLATES, id);
+  } catch (e) {
+    throw toStorageError(e, 'delete the prompt template');
+  }
+  templates = templates.filter(t => t.id !== id);
+  emit();
+};
+
+// Called on every generation. Re-running a prompt moves it to the top and keeps
+// the latest settings instead of adding a duplicate.
+export const recordPrompt = async (source: PromptSource): Promise<void> => {
+  const prompt = source.prompt.trim();
+  if (!prompt) return;
+  const existing = history.find(h => h.tool === source.tool && h.prompt === prompt);
+  const entry: PromptHistoryEntry = {
+    id: existing?.id || newPromptId('prompt'),
+    projectId: existing?.projectId ?? getActiveProjectId() ?? undefined,
+    tool: source.tool,
+    prompt,
+    settings: source.settings,
+    favorite: existing?.favorite || false,
+    createdAt: Date.now(),
+  };
+  const next = [entry, ...history.filter(h => h.id !== entry.id)];
+  const overflow = next
+    .filter(h => h.tool === source.tool && !h.favorite)
+    .slice(HISTORY_LIMIT_PER_TOOL);
+
+  try {
+    await withStore(STORES.PROMPT_HISTORY, 'readwrite', tx => {
+      const store = tx.objectStore(STORES.PROMPT_HISTORY);
+      store.put(entry);
+      overflow.forEach(h => store.delete(h.id));
+    });
+  } catch (e) {
+    throw toStorageError(e, 'save the prompt history');
+  }
+  history = next.filter(h => !overflow.includes(h));
+  emit();
+};
+
+export const updateHistoryEntry = async (entry: PromptHistoryEntry): Promise<void> => {
+  try {
+    await putOne(STORES.PROMPT_HISTORY, entry);
+  } catch (e) {
+    throw toStorageError(e, 'update the prompt history');
+  }
+  history = history.map(h => h.id === entry.id ? entry : h);
+  emit();
+};
+
+export const deleteHistoryEntry = async (id: string): Promise<void> => {
+  try {
+    await deleteOne(STORES.PROMPT_HISTORY, id);
+  } catch (e) {
+    throw toStorageError(e, 'delete the prompt');
+  }
+  history = history.filter(h => h.id !== id);
+  emit();
+};
+
+onProjectChange(() => {
+  history = [];
+  loaded = false;
+  loading = null;
+  emit();
+  if (listeners.size > 0) loadPromptLibrary().catch(e => console.error(e));
+});
+
+// --- Reuse ---
+const LEGACY_THREE_D_PREFIX = '3D Animation: ';
+
+// Assets saved before prompt sources were recorded only have metadata.prompt,
+// so the tool is inferred from the asset type.
+export const getPromptReuse = (asset: GeneratedAsset): PromptReuse | null => {
+  const source = asset.metadata?.source;
+  if (source) return { ...source, assetId: asset.id };
+  if (asset.lineage && asset.lineage.length > 1) {
+    return { tool: ToolType.IMAGE_EDIT, prompt: asset.lineage[asset.lineage.length - 1].prompt, assetId: asset.id };
+  }
+  const origin = asset.provenance?.origin;
+  const prompt = asset.metadata?.prompt;
+  if (!prompt || origin === 'imported' || origin === 'composed' || asset.id.startsWith('imported-')) return null;
+  if (prompt.startsWith(LEGACY_THREE_D_PREFIX)) {
+    return { tool: ToolType.THREE_D_GEN, prompt: prompt.slice(LEGACY_THREE_D_PREFIX.length), assetId: asset.id };
+  }
+  const tool = asset.type === 'text' ? ToolType.COPY_WRITER : asset.type === 'video' ? ToolType.VIDEO_GEN : ToolType.IMAGE_GEN;
+  const settings = asset.metadata?.aspectRatio ? { aspectRatio: asset.metadata.aspectRatio } : undefined;
+  return { tool, prompt, settings, assetId: asset.id };
+};
+
+export const usePromptLibrary = (): PromptLibraryState => {
+  const [state, setState] = useState<PromptLibraryState>(getState);
+  useEffect(() => {
+    listeners.add(setState);
+    setState(getState());
+    loadPromptLibrary().catch(e => console.error(e));
+    return () => { listeners.delete(setState); };
+  }, []);
+  return state;
+};
@@ -0,0 +1,121 @@
+import { AssetProvenance, BrandKit, GeneratedAsset, ProvenanceOrigin, ToolType, User } from '../types';
+import { getProvider, ProviderModels } from './providers';
+
+// Provenance records how an asset was made: tool, model, parameters, parents,
+// timings and creator. Bump PROVENANCE_VERSION when the shape changes and
+// teach upgradeProvenance how to read the previous version.
+
+export const PROVENANCE_VERSION = 1;
+
+type ProvenanceParameters = AssetProvenance['parameters'];
+
+interface ProvenanceInput {
+  tool: ToolType;
+  origin?: ProvenanceOrigin;
+  model?: keyof ProviderModels; // Which of the active provider's models did the work
+  parameters?: Record<string, string | number | boolean | undefined | null>;
+  parentAssetIds?: string[];
+  brandKit?: BrandKit | null;
+  startedAt?: number;
+}
+
+// Empty values are dropped so the detail view only lists inputs that were set
+const cleanParameters = (parameters: ProvenanceInput['parameters'] = {}): ProvenanceParameters => {
+  const cleaned: ProvenanceParameters = {};
+  Object.entries(parameters).forEach(([key, value]) => {
+    const trimmed = typeof value === 'string' ? value.trim() : value;
+    if (trimmed === undefined || trimmed === null || trimmed === '') return;
+    cleaned[key] = trimmed;
+  });
+  return cleaned;
+};
+
+// Call when the output arrives; `completedAt` is now
+export const createProvenance = ({
+  tool, origin = 'generated', model, parameters, parentAssetIds = [], brandKit, startedAt,
+}: ProvenanceInput): AssetProvenance => {
+  const provider = model ? getProvider() : null;
+  return {
+    version: PROVENANCE_VERSION,
+    origin,
+    tool,
+    providerId: provider?.id,
+    model: provider && model ? provider.models[model] : undefined,
+    parameters: cleanParameters(parameters),
+    parentAssetIds: Array.from(new Set(parentAssetIds)),
+    brandKitId: brandKit?.id,
+    startedAt,
+    completedAt: Date.now(),
+  };
+};
+
+export const importProvenance = (tool: ToolType, file: File): AssetProvenance => ({
+  version: PROVENANCE_VERSION,
+  origin: 'imported',
+  tool,
+  parameters: cleanParameters({ fileName: file.name, mimeType: file.type, fileSize: file.size }),
+  parentAssetIds: [],
+  completedAt: Date.now(),
+});
+
+// Stamped centrally when an asset is saved, so generators don't need the user
+export const withCreator = (provenance: AssetProvenance, user: User | null): AssetProvenance =>
+  user && !provenance.userId ? { ...provenance, userId: user.id, userName: user.name } : provenance;
+
+export const provenanceDuration = (provenance: AssetProvenance): number | null =>
+  provenance.startedAt && provenance.completedAt ? provenance.completedAt - provenance.startedAt : null;
+
+// --- Migration ---
+// Works on stored records as well as loaded assets
+type ProvenanceSubject = Pick<GeneratedAsset, 'id' | 'type' | 'metadata' | 'provenance' | 'createdAt'> & { lineage?: unknown[] };
+
+const LEGACY_THREE_D_PREFIX = '3D Animation: ';
+const LEGACY_LAYOUT_PROMPT = 'Saved Layout';
+
+// Best-effort provenance for assets saved before it was recorded, from what
+// the old metadata and id conventions reveal
+const inferProvenance = (asset: ProvenanceSubject): AssetProvenance => {
+  const metadata = asset.metadata;
+  const prompt = metadata?.prompt || '';
+  let origin: ProvenanceOrigin = 'generated';
+  let tool: ToolType | undefined = metadata?.source?.tool;
+
+  if (asset.id.startsWith('imported-')) {
+    origin = 'imported';
+    tool = asset.id.startsWith('imported-gen-') ? ToolType.IMAGE_GEN : ToolType.LAYOUT_EDITOR;
+  } else if (asset.lineage || /^(Masked edit|Edit): /.test(prompt)) {
+    origin = 'edited';
+    tool = ToolType.IMAGE_EDIT;
+  } else if (asset.id.startsWith('layout-') || prompt === LEGACY_LAYOUT_PROMPT) {
+    origin = 'composed';
+    tool = ToolType.LAYOUT_EDITOR;
+  } else if (prompt.startsWith(LEGACY_THREE_D_PREFIX)) {
+    tool = ToolType.THREE_D_GEN;
+  } else if (!tool) {
+    tool = asset.type === 'text' ? ToolType.COPY_WRITER : asset.type === 'video' ? ToolType.VIDEO_GEN : ToolType.IMAGE_GEN;
+  }
+
+  return {
+    version: PROVENANCE_VERSION,
+    origin,
+    tool,
+    parameters: cleanParameters({
+      ...metadata?.source?.settings,
+      aspectRatio: metadata?.aspectRatio,
+      negativePrompt: metadata?.negativePrompt,
+      seed: metadata?.seed,
+    }),
+    parentAssetIds: [],
+    completedAt: asset.createdAt,
+    migratedFrom: 0,
+  };
+};
+
+// Returns null when the asset's provenance is already current
+export const upgradeProvenance = (asset: ProvenanceSubject): AssetProvenance | null => {
+  const provenance = asset.provenance;
+  if (!provenance) return inferProvenance(asset);
+  if (provenance.version >= PROVENANCE_VERSION) return null;
+  // No released version predates 1 yet; later versions add their steps here
+  return { ...provenance, version: PROVENANCE_VERSION, migratedFrom: provenance.version };
+};
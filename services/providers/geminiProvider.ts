@@ -0,0 +1,212 @@
+import { GoogleGenAI, GenerateContentResponse, GenerateContentConfig, GenerateVideosOperation, Part, Type } from "@google/genai";
+import { CopyRequest, GenerationProvider, ProviderModels } from './types';
+
+export const DEFAULT_GEMINI_MODELS: ProviderModels = {
+  copy: 'gemini-2.5-flash',
+  image: 'gemini-2.5-flash-image',
+  edit: 'gemini-2.5-flash-image',
+  video: 'veo-3.1-fast-generate-preview',
+};
+
+interface GeminiProviderOptions {
+  // Read lazily so a key re-selected through AI Studio is picked up on the next call
+  getApiKey: () => string | undefined;
+  models?: Partial<ProviderModels>;
+}
+
+// Pull the first inline image out of a generateContent response
+const extractImage = (response: GenerateContentResponse): string | null => {
+  if (response.candidates?.[0]?.content?.parts) {
+    for (const part of response.candidates[0].content.parts) {
+      if (part.inlineData && part.inlineData.data) {
+        return `data:image/png;base64,${part.inlineData.data}`;
+      }
+    }
+  }
+  return null;
+};
+
+// Structured copy uses Gemini's JSON mode with a flat schema of string fields
+const copyConfig = ({ jsonFields }: CopyRequest): GenerateContentConfig | undefined =>
+  jsonFields ? {
+    responseMimeType: 'application/json',
+    responseSchema: {
+      type: Type.OBJECT,
+      properties: Object.fromEntries(jsonFields.map(field => [field, { type: Type.STRING }])),
+      required: jsonFields,
+    },
+  } : undefined;
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      if (typeof reader.result === 'string') {
+        resolve(reader.result);
+      } else {
+        reject(new Error("Failed to convert video to Data URL"));
+      }
+    };
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+
+export const createGeminiProvider = ({ getApiKey, models }: GeminiProviderOptions): GenerationProvider => {
+  const resolvedModels: ProviderModels = { ...DEFAULT_GEMINI_MODELS, ...models };
+
+  const getClient = (): GoogleGenAI => {
+    const apiKey = getApiKey();
+    if (!apiKey) {
+      throw new Error("API Key not found in environment");
+    }
+    return new GoogleGenAI({ apiKey });
+  };
+
+  return {
+    id: 'gemini',
+    label: 'Google Gemini',
+    requiresApiKey: true,
+    models: resolvedModels,
+    videoPollIntervalMs: 5000,
+
+    async generateCopy(request) {
+      const client = getClient();
+      const response: GenerateContentResponse = await client.models.generateContent({
+        model: resolvedModels.copy,
+        contents: request.prompt,
+        config: copyConfig(request),
+      });
+      return response.text || "No content generated.";
+    },
+
+    async *streamCopy(request) {
+      const client = getClient();
+      const stream = await client.models.generateContentStream({
+        model: resolvedModels.copy,
+        contents: request.prompt,
+        config: copyConfig(request),
+      });
+      for await (const chunk of stream) {
+        if (chunk.text) yield chunk.text;
+      }
+    },
+
+    async generateImage({ prompt, aspectRatio, seed }) {
+      const client = getClient();
+      const response = await client.models.generateContent({
+        model: resolvedModels.image,
+        contents: {
+          parts: [{ text: prompt }]
+        },
+        config: {
+          seed,
+          imageConfig: {
+            aspectRatio: aspectRatio,
+            // imageSize is only supported in pro-image
+          }
+        }
+      });
+
+      const image = extractImage(response);
+      if (!image) throw new Error("No image generated in response.");
+      return image;
+    },
+
+    async editImage({ base64Image, prompt, mask }) {
+      const client = getClient();
+      // Remove data URL prefix if present for the API call
+      const base64Data = base64Image.replace(/^data:image\/\w+;base64,/, "");
+
+      const parts: Part[] = [
+        {
+          inlineData: {
+            data: base64Data,
+            mimeType: 'image/png' // Assuming png or converts gracefully, usually safe for general base64
+          }
+        }
+      ];
+      // The model has no native mask input, so the mask goes along as a second image
+      if (mask) {
+        parts.push({ inlineData: { data: mask.replace(/^data:image\/\w+;base64,/, ""), mimeType: 'image/png' } });
+      }
+      parts.push({ text: prompt });
+
+      const response = await client.models.generateContent({
+        model: resolvedModels.edit,
+        contents: { parts }
+      });
+
+      const image = extractImage(response);
+      if (!image) throw new Error("Failed to edit image.");
+      return image;
+    },
+
+    async startVideo(request) {
+      const { prompt, aspectRatio, imageInput } = request;
+      const client = getClient();
+      const config = {
+        numberOfVideos: 1,
+        aspectRatio: aspectRatio,
+        resolution: '720p'
+      };
+
+      let operation;
+      if (imageInput) {
+        // Image-to-Video
+        const base64Data = imageInput.replace(/^data:image\/\w+;base64,/, "");
+        const mimeType = imageInput.match(/^data:(image\/\w+);base64,/)?.[1] || 'image/png';
+
+        operation = await client.models.generateVideos({
+          model: resolvedModels.video,
+          prompt: prompt || "Animate this image",
+          image: {
+            imageBytes: base64Data,
+            mimeType: mimeType
+          },
+          config
+        });
+      } else {
+        // Text-to-Video
+        operation = await client.models.generateVideos({
+          model: resolvedModels.video,
+          prompt: prompt,
+          config
+        });
+      }
+
+      if (!operation.name) throw new Error("Video generation did not return an operation.");
+      return { name: operation.name, providerId: 'gemini', request, startedAt: Date.now() };
+    },
+
+    async pollVideo({ name }) {
+      const client = getClient();
+      // Rebuild the operation from its persisted name so polling survives reloads
+      const pending = new GenerateVideosOperation();
+      pending.name = name;
+      const operation = await client.operations.getVideosOperation({ operation: pending });
+
+      if (!operation.done) return { done: false };
+      if (operation.error) {
+        throw new Error(String(operation.error.message || "Video generation failed."));
+      }
+
+      const uri = operation.response?.generatedVideos?.[0]?.video?.uri;
+      if (!uri) throw new Error("Video generation failed or returned no URI.");
+
+      // Construct the download URL safely
+      const apiKey = getApiKey() || '';
+      const separator = uri.includes('?') ? '&' : '?';
+      const downloadUrl = `${uri}${separator}key=${encodeURIComponent(apiKey)}`;
+
+      // Fetch the actual video content
+      const response = await fetch(downloadUrl);
+      if (!response.ok) {
+        throw new Error(`Failed to download video: ${response.status} ${response.statusText}`);
+      }
+
+      const rawBlob = await response.blob();
+      // Force mime type to video/mp4 to ensure data URI is correct for playback
+      return { done: true, progress: 1, result: await blobToDataUrl(new Blob([rawBlob], { type: 'video/mp4' })) };
+    },
+  };
+};
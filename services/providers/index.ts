@@ -0,0 +1,37 @@
+import { GenerationProvider } from './types';
+import { createGeminiProvider } from './geminiProvider';
+import { createMockProvider } from './mockProvider';
+
+export type { GenerationProvider, CopyRequest, ImageRequest, EditRequest, VideoRequest, VideoOperation, VideoOperationStatus, ProviderModels } from './types';
+
+export type ProviderId = 'gemini' | 'mock';
+
+const registry: Record<ProviderId, () => GenerationProvider> = {
+  gemini: () => createGeminiProvider({ getApiKey: () => process.env.API_KEY }),
+  mock: () => createMockProvider(),
+};
+
+const instances: Partial<Record<ProviderId, GenerationProvider>> = {};
+
+const isProviderId = (value: string | undefined): value is ProviderId =>
+  !!value && Object.prototype.hasOwnProperty.call(registry, value);
+
+// GENERATION_PROVIDER is injected by vite.config.ts; defaults to Gemini
+const configuredId = process.env.GENERATION_PROVIDER;
+let activeId: ProviderId = isProviderId(configuredId) ? configuredId : 'gemini';
+
+export const getProviderById = (id: string): GenerationProvider => {
+  if (!isProviderId(id)) throw new Error(`Unknown generation provider "${id}"`);
+  if (!instances[id]) {
+    instances[id] = registry[id]();
+  }
+  return instances[id]!;
+};
+
+export const getProvider = (): GenerationProvider => getProviderById(activeId);
+
+export const setActiveProvider = (id: ProviderId) => {
+  activeId = id;
+};
+
+export const getActiveProviderId = (): ProviderId => activeId;
@@ -0,0 +1,216 @@
+import { GenerationProvider, ProviderModels } from './types';
+
+// Offline provider: every output is derived from a hash of the request, so the
+// same prompt always renders the same placeholder. No key or network needed.
+
+const MOCK_MODELS: ProviderModels = {
+  copy: 'mock-copy',
+  image: 'mock-image',
+  edit: 'mock-edit',
+  video: 'mock-video',
+};
+
+const MOCK_LATENCY_MS = 400;
+const MOCK_STREAM_CHUNK_MS = 40;
+const MOCK_VIDEO_SECONDS = 2;
+const MOCK_RENDER_MS = 8000; // Simulated Veo queue time
+const PALETTE = ['#4f46e5', '#0d9488', '#db2777', '#ea580c', '#2563eb', '#7c3aed', '#059669', '#dc2626'];
+
+// FNV-1a, good enough to spread prompts across the palette
+export const hashString = (input: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const dimensionsFor = (aspectRatio: string, longSide = 512): { width: number, height: number } => {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  if (!w || !h) return { width: longSide, height: longSide };
+  return w >= h
+    ? { width: longSide, height: Math.round(longSide * h / w) }
+    : { width: Math.round(longSide * w / h), height: longSide };
+};
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  return { canvas, ctx };
+};
+
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  text.split(/\s+/).forEach(word => {
+    const candidate = line ? `${line} ${word}` : word;
+    if (ctx.measureText(candidate).width > maxWidth && line) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  });
+  if (line) lines.push(line);
+  return lines.slice(0, 4);
+};
+
+// Draws the shared placeholder look: gradient from the prompt hash plus the prompt itself
+const paintPlaceholder = (ctx: CanvasRenderingContext2D, width: number, height: number, seed: string, caption: string, phase = 0) => {
+  const hash = hashString(seed);
+  const from = PALETTE[hash % PALETTE.length];
+  const to = PALETTE[(hash >>> 3) % PALETTE.length];
+
+  const gradient = ctx.createLinearGradient(0, 0, width, height);
+  gradient.addColorStop(0, from);
+  gradient.addColorStop(1, to);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+
+  // A moving disc so video placeholders visibly animate
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.15)';
+  ctx.beginPath();
+  ctx.arc(width * (0.2 + 0.6 * phase), height * 0.35, Math.min(width, height) * 0.18, 0, Math.PI * 2);
+  ctx.fill();
+
+  ctx.fillStyle = '#ffffff';
+  ctx.textAlign = 'center';
+  ctx.font = `bold ${Math.round(Math.min(width, height) / 18)}px sans-serif`;
+  const lines = wrapText(ctx, caption, width * 0.8);
+  const lineHeight = Math.round(Math.min(width, height) / 14);
+  lines.forEach((line, i) => ctx.fillText(line, width / 2, height * 0.65 + i * lineHeight));
+
+  ctx.font = `${Math.round(Math.min(width, height) / 28)}px monospace`;
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.7)';
+  ctx.fillText(`MOCK #${hash.toString(16)}`, width / 2, height - lineHeight / 2);
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to load source image"));
+    img.src = src.startsWith('data:') ? src : `data:image/png;base64,${src}`;
+  });
+
+const recordCanvas = (canvas: HTMLCanvasElement, draw: (phase: number) => void, seconds: number): Promise<string> =>
+  new Promise((resolve, reject) => {
+    if (typeof MediaRecorder === 'undefined') {
+      reject(new Error("MediaRecorder is not supported in this environment"));
+      return;
+    }
+    const stream = canvas.captureStream(30);
+    const recorder = new MediaRecorder(stream, { mimeType: 'video/webm' });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => chunks.push(e.data);
+    recorder.onerror = () => reject(new Error("Mock video recording failed"));
+    recorder.onstop = () => {
+      const reader = new FileReader();
+      reader.onloadend = () => resolve(reader.result as string);
+      reader.onerror = reject;
+      reader.readAsDataURL(new Blob(chunks, { type: 'video/webm' }));
+    };
+
+    const start = performance.now();
+    const tick = () => {
+      const phase = Math.min(1, (performance.now() - start) / (seconds * 1000));
+      draw(phase);
+      if (phase < 1) {
+        requestAnimationFrame(tick);
+      } else {
+        recorder.stop();
+      }
+    };
+    recorder.start();
+    tick();
+  });
+
+const mockCopy = (prompt: string, jsonFields?: string[]) => {
+  const hash = hashString(prompt).toString(16);
+  if (jsonFields) {
+    return JSON.stringify(Object.fromEntries(jsonFields.map(field => [field, `Mock ${field} #${hash}`])), null, 2);
+  }
+  return `[Mock copy #${hash}]\n\n${prompt}\n\nThis placeholder text was generated offline. Switch GENERATION_PROVIDER to "gemini" for real output.`;
+};
+
+export const createMockProvider = (): GenerationProvider => ({
+  id: 'mock',
+  label: 'Offline Mock',
+  requiresApiKey: false,
+  models: MOCK_MODELS,
+  videoPollIntervalMs: 1000,
+
+  async generateCopy({ prompt, jsonFields }) {
+    await delay(MOCK_LATENCY_MS);
+    return mockCopy(prompt, jsonFields);
+  },
+
+  // Replays the placeholder word by word so streaming UIs can be exercised offline
+  async *streamCopy({ prompt, jsonFields }) {
+    await delay(MOCK_LATENCY_MS);
+    for (const word of mockCopy(prompt, jsonFields).split(/(?<=\s)/)) {
+      await delay(MOCK_STREAM_CHUNK_MS);
+      yield word;
+    }
+  },
+
+  async generateImage({ prompt, aspectRatio, seed }) {
+    await delay(MOCK_LATENCY_MS);
+    const { width, height } = dimensionsFor(aspectRatio);
+    const { canvas, ctx } = createCanvas(width, height);
+    paintPlaceholder(ctx, width, height, `${prompt}|${aspectRatio}|${seed ?? ''}`, prompt);
+    return canvas.toDataURL('image/png');
+  },
+
+  async editImage({ base64Image, prompt }) {
+    await delay(MOCK_LATENCY_MS);
+    const source = await loadImage(base64Image);
+    const { canvas, ctx } = createCanvas(source.naturalWidth, source.naturalHeight);
+    ctx.drawImage(source, 0, 0);
+    // Tint with the prompt colour and stamp the instruction so the edit is visible
+    ctx.globalAlpha = 0.25;
+    ctx.fillStyle = PALETTE[hashString(prompt) % PALETTE.length];
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.globalAlpha = 1;
+    ctx.fillStyle = '#ffffff';
+    ctx.font = `bold ${Math.max(12, Math.round(canvas.width / 24))}px sans-serif`;
+    ctx.fillText(`Edit: ${prompt}`.slice(0, 60), 16, canvas.height - 16);
+    return canvas.toDataURL('image/png');
+  },
+
+  // The operation name encodes nothing; completion is purely time-based so a
+  // resumed job finishes on schedule after a reload.
+  async startVideo(request) {
+    await delay(MOCK_LATENCY_MS);
+    const name = `mock-operations/${hashString(JSON.stringify(request)).toString(16)}-${Date.now()}`;
+    return { name, providerId: 'mock', request, startedAt: Date.now() };
+  },
+
+  async pollVideo({ request, startedAt }) {
+    const progress = Math.min(1, (Date.now() - startedAt) / MOCK_RENDER_MS);
+    if (progress < 1) return { done: false, progress };
+
+    const { prompt, aspectRatio, imageInput } = request;
+    const { width, height } = dimensionsFor(aspectRatio, 640);
+    const { canvas, ctx } = createCanvas(width, height);
+    const source = imageInput ? await loadImage(imageInput) : null;
+    const seed = `${prompt}|${aspectRatio}|${imageInput ? hashString(imageInput) : ''}`;
+
+    const result = await recordCanvas(canvas, (phase) => {
+      if (source) {
+        // Slow zoom on the input image, a stand-in for image-to-video
+        const scale = 1 + 0.1 * phase;
+        ctx.drawImage(source, -(width * (scale - 1)) / 2, -(height * (scale - 1)) / 2, width * scale, height * scale);
+      } else {
+        paintPlaceholder(ctx, width, height, seed, prompt || "Animate this image", phase);
+      }
+    }, MOCK_VIDEO_SECONDS);
+    return { done: true, progress: 1, result };
+  },
+});
@@ -0,0 +1,61 @@
+// Shared contract for every generation backend (Gemini, offline mock, ...).
+// Components never talk to a provider directly; they go through geminiService.
+
+export interface CopyRequest {
+  prompt: string;
+  jsonFields?: string[]; // When set, the reply must be a JSON object with these string properties
+}
+
+export interface ImageRequest {
+  prompt: string;
+  aspectRatio: string;
+  seed?: number; // Same seed and prompt give the same image where the model supports it
+}
+
+export interface EditRequest {
+  base64Image: string; // Data URL or raw base64
+  prompt: string;
+  mask?: string; // PNG data URL, same size as the image; white = area to edit
+}
+
+export interface VideoRequest {
+  prompt: string;
+  aspectRatio: '16:9' | '9:16';
+  imageInput?: string; // Base64 Data URL
+}
+
+// A long-running video generation. Everything needed to resume polling after a
+// reload lives here, so it can be persisted as-is.
+export interface VideoOperation {
+  name: string;
+  providerId: string;
+  request: VideoRequest;
+  startedAt: number;
+}
+
+export interface VideoOperationStatus {
+  done: boolean;
+  progress?: number; // 0-1 when the backend reports it
+  result?: string; // Data URL, set once done
+}
+
+export interface ProviderModels {
+  copy: string;
+  image: string;
+  edit: string;
+  video: string;
+}
+
+export interface GenerationProvider {
+  id: string;
+  label: string;
+  requiresApiKey: boolean;
+  models: ProviderModels;
+  generateCopy(request: CopyRequest): Promise<string>;
+  streamCopy(request: CopyRequest): AsyncGenerator<string>; // Yields text chunks as they arrive
+  generateImage(request: ImageRequest): Promise<string>; // Data URL
+  editImage(request: EditRequest): Promise<string>; // Data URL
+  videoPollIntervalMs: number;
+  startVideo(request: VideoRequest): Promise<VideoOperation>;
+  pollVideo(operation: VideoOperation): Promise<VideoOperationStatus>; // Rejects if the operation failed
+}
@@ -0,0 +1,132 @@
+import { useEffect, useState } from 'react';
+import { Capacitor } from '@capacitor/core';
+import { App as CapacitorApp } from '@capacitor/app';
+import { PromptSettings, ToolType } from '../types';
+
+// Hash-based routing, so links work from a static host and inside the Android
+// WebView without server rewrites:
+//
+//   #/image?prompt=…&aspectRatio=16:9   a tool, with its inputs in the query
+//   #/layout/<documentId>               a layout document
+//   #/library?asset=<assetId>           any route, with an asset's details open
+//
+// Every navigation is a browser history entry, so back/forward (and the Android
+// back button) step through tools, documents and opened assets.
+
+export interface Route {
+  tool: ToolType;
+  id?: string; // Layout document id on the layout route
+  params: Record<string, string>;
+  key: number; // Changes on every push and history step, but not on replace
+}
+
+const TOOL_PATHS: Record<ToolType, string> = {
+  [ToolType.DASHBOARD]: '',
+  [ToolType.COPY_WRITER]: 'copy',
+  [ToolType.IMAGE_GEN]: 'image',
+  [ToolType.IMAGE_EDIT]: 'edit',
+  [ToolType.VIDEO_GEN]: 'video',
+  [ToolType.THREE_D_GEN]: '3d',
+  [ToolType.LAYOUT_EDITOR]: 'layout',
+  [ToolType.BRAND_KIT]: 'brand-kit',
+  [ToolType.LIBRARY]: 'library',
+};
+
+// Safari throws once a page calls replaceState more than ~100 times in 30s
+const PARAM_SYNC_DELAY_MS = 400;
+
+let nextKey = 0;
+
+// Malformed escapes in a hand-edited URL are kept as typed rather than throwing
+const decode = (text: string) => {
+  try {
+    return decodeURIComponent(text);
+  } catch {
+    return text;
+  }
+};
+
+export const parseRoute = (hash: string): Omit<Route, 'key'> => {
+  const [path, query = ''] = hash.replace(/^#\/?/, '').split('?');
+  const [segment = '', id] = path.split('/').map(decode);
+  const tool = (Object.keys(TOOL_PATHS) as ToolType[]).find(t => TOOL_PATHS[t] === segment) ?? ToolType.DASHBOARD;
+  return { tool, id: id || undefined, params: Object.fromEntries(new URLSearchParams(query)) };
+};
+
+export const formatRoute = ({ tool, id, params = {} }: Partial<Omit<Route, 'key'>>): string => {
+  const path = TOOL_PATHS[tool ?? ToolType.DASHBOARD] + (id ? `/${encodeURIComponent(id)}` : '');
+  const query = new URLSearchParams(Object.entries(params).filter(([, value]) => value !== '')).toString();
+  return `#/${path}${query ? `?${query}` : ''}`;
+};
+
+let route: Route = { ...parseRoute(window.location.hash), key: nextKey++ };
+const listeners = new Set<(route: Route) => void>();
+
+const emit = () => listeners.forEach(listener => listener(route));
+
+// Back, forward, a hash typed into the address bar, or code that rewrote the URL itself
+export const syncRoute = () => {
+  if (formatRoute(parseRoute(window.location.hash)) === formatRoute(route)) return;
+  route = { ...parseRoute(window.location.hash), key: nextKey++ };
+  emit();
+};
+
+window.addEventListener('popstate', syncRoute);
+window.addEventListener('hashchange', syncRoute);
+
+// Off the device's root screen the hardware back button walks back through the
+// app; on it, the app closes as usual
+if (Capacitor.isNativePlatform()) {
+  CapacitorApp.addListener('backButton', ({ canGoBack }) => {
+    if (canGoBack) window.history.back();
+    else CapacitorApp.exitApp();
+  });
+}
+
+export const getRoute = (): Route => route;
+
+// Pushes a history entry, or replaces the current one (e.g. to tidy the URL
+// without adding a step to back)
+export const navigate = (next: Partial<Omit<Route, 'key'>>, replace = false) => {
+  const hash = formatRoute(next);
+  if (hash === formatRoute(route)) return;
+  const url = `${window.location.pathname}${window.location.search}${hash}`;
+  if (replace) window.history.replaceState(window.history.state, '', url);
+  else window.history.pushState(null, '', url);
+  route = { ...parseRoute(hash), key: replace ? route.key : nextKey++ };
+  emit();
+};
+
+// URL query values are strings; numbers and booleans are restored for tools that check types
+export const paramsToSettings = (params: Record<string, string>): PromptSettings =>
+  Object.fromEntries(Object.entries(params).map(([key, value]) => [
+    key,
+    value === 'true' ? true : value === 'false' ? false : /^-?\d+(\.\d+)?$/.test(value) ? Number(value) : value,
+  ]));
+
+export const useRoute = (): Route => {
+  const [state, setState] = useState<Route>(getRoute);
+  useEffect(() => {
+    listeners.add(setState);
+    setState(getRoute());
+    return () => { listeners.delete(setState); };
+  }, []);
+  return state;
+};
+
+// Mirrors a generator's inputs into the URL while its route is showing, so the
+// configuration can be bookmarked or shared. Replaces rather than pushes, so
+// typing never adds history entries.
+export const useRouteParams = (tool: ToolType, prompt: string, settings: PromptSettings) => {
+  const serialized = JSON.stringify({ prompt, ...settings });
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      if (route.tool !== tool) return;
+      const params: Record<string, string> = { prompt };
+      Object.entries(settings).forEach(([key, value]) => { params[key] = String(value); });
+      if (route.params.asset) params.asset = route.params.asset;
+      navigate({ tool, params }, true);
+    }, PARAM_SYNC_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [tool, serialized]);
+};
@@ -13,7 +13,9 @@ export enum ToolType {
   VIDEO_GEN = "video_gen",
   THREE_D_GEN = "three_d_gen",
   COPY_WRITER = "copy_writer",
-  LAYOUT_EDITOR = "layout_editor"
+  LAYOUT_EDITOR = "layout_editor",
+  BRAND_KIT = "brand_kit",
+  LIBRARY = "library"
 }
 
 export interface User {
@@ -21,6 +23,16 @@ export interface User {
   name: string;
   email: string;
   avatar: string;
+  roles: string[]; // From the identity provider's roles claim, e.g. "admin"
+}
+
+// One image in an ImageEditor edit chain; the first step is the uploaded original
+export interface EditStep {
+  id: string;
+  prompt: string; // Empty for the original
+  image: string; // Data URL, or an object URL once loaded from storage
+  masked?: boolean;
+  createdAt: number;
 }
 
 export interface GeneratedAsset {
@@ -30,13 +42,189 @@ export interface GeneratedAsset {
   metadata?: {
     prompt: string;
     aspectRatio?: string;
+    negativePrompt?: string;
+    seed?: number;
+    source?: PromptSource; // Tool and inputs as entered, for "reuse prompt"
   };
+  variantGroupId?: string; // Shared by alternatives generated side by side (A/B variants)
+  lineage?: EditStep[]; // Edit chain that produced this image, original first and this image last
+  provenance?: AssetProvenance;
+  tags?: string[];
+  favorite?: boolean;
+  folderId?: string; // AssetFolder the asset is filed under
+  createdAt: number;
+}
+
+// Top of the Workspace → Project hierarchy, e.g. one per client or team
+export interface Workspace {
+  id: string;
+  name: string;
+  ownerId: string; // User id
+  createdAt: number;
+}
+
+// A campaign inside a workspace. Assets, layouts, brand kits and prompt history
+// each belong to exactly one project.
+export interface Project {
+  id: string;
+  workspaceId: string;
+  name: string;
+  createdAt: number;
+}
+
+// Library folder (collection); each asset is in at most one
+export interface AssetFolder {
+  id: string;
+  name: string;
+  ownerId?: string; // User id; unset for folders made before folders had owners
+  createdAt: number;
+}
+
+export type ProvenanceOrigin = 'generated' | 'edited' | 'composed' | 'imported' | 'unknown';
+
+// How an asset was produced. Stored records with an older `version` are upgraded
+// on load (see services/provenance.ts).
+export interface AssetProvenance {
+  version: number;
+  origin: ProvenanceOrigin;
+  tool?: ToolType; // Unset when it cannot be determined
+  providerId?: string;
+  model?: string; // Model id at generation time
+  parameters: Record<string, string | number | boolean>; // Every input besides the prompt
+  parentAssetIds: string[]; // Library assets this one was made from
+  brandKitId?: string;
+  startedAt?: number;
+  completedAt?: number;
+  userId?: string;
+  userName?: string;
+  migratedFrom?: number; // Schema version the record was upgraded from; 0 = predates provenance
+}
+
+export interface BrandColor {
+  name: string;
+  hex: string;
+}
+
+export interface BrandLogo {
+  id: string;
+  name: string;
+  content: string; // Data URL, so the kit never depends on the asset library
+}
+
+// Brand guidelines injected into generator prompts and offered in the LayoutEditor
+export interface BrandKit {
+  id: string;
+  name: string; // Brand name
+  logos: BrandLogo[];
+  colors: BrandColor[];
+  fonts: string[]; // Font families, headline font first
+  toneOfVoice: string;
+  bannedWords: string[];
+  sampleCopy: string[];
+  projectId?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type PromptSettings = Record<string, string | number | boolean>;
+
+// A prompt as entered in a tool, together with the tool's other inputs
+export interface PromptSource {
+  tool: ToolType;
+  prompt: string;
+  settings?: PromptSettings;
+}
+
+export interface PromptHistoryEntry extends PromptSource {
+  id: string;
+  projectId?: string;
+  favorite: boolean;
+  createdAt: number; // Last used
+}
+
+// Reusable prompt text; {{name}} placeholders are filled in when it is applied
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  text: string;
+  tool?: ToolType; // Offered in every tool when unset
+  favorite: boolean;
   createdAt: number;
+  updatedAt: number;
+}
+
+// Per-run overrides inside a text item; unset fields inherit the item's TextStyle
+export interface TextRun {
+  text: string; // May contain '\n' line breaks
+  bold?: boolean;
+  italic?: boolean;
+  color?: string;
+}
+
+export interface TextShadow {
+  x: number;
+  y: number;
+  blur: number;
+  color: string;
+}
+
+export interface TextStyle {
+  fontFamily: string;
+  fontSize: number;
+  fontWeight: number;
+  color: string;
+  align: 'left' | 'center' | 'right' | 'justify';
+  lineHeight: number; // Multiplier of fontSize
+  letterSpacing: number; // px
+  textShadow?: TextShadow;
+}
+
+export interface RichText {
+  runs: TextRun[];
+  style: TextStyle;
+}
+
+// Playback settings of a video layout item; times are seconds in the source clip
+export interface VideoClip {
+  duration: number; // Length of the source
+  trimStart: number;
+  trimEnd: number;
+  muted: boolean;
+  loop: boolean;
+  posterTime: number;
+  poster?: string; // Frame at posterTime; stands in for the video in still exports
+}
+
+export type Easing = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out' | 'hold';
+
+export type AnimatableProperty = 'x' | 'y' | 'width' | 'height' | 'rotation' | 'opacity' | 'color';
+
+// Easing shapes the segment from this keyframe to the next one
+export interface Keyframe {
+  id: string;
+  time: number; // Seconds on the layout timeline
+  value: number | string; // Colors are hex strings
+  easing: Easing;
+}
+
+export type AnimationPresetType = 'fade' | 'slide-left' | 'slide-right' | 'slide-up' | 'slide-down' | 'scale';
+
+export interface AnimationPreset {
+  type: AnimationPresetType;
+  duration: number;
+  delay: number; // Enter: after the timeline starts. Exit: before it ends.
+  easing: Easing;
+}
+
+export interface ItemAnimation {
+  tracks: Partial<Record<AnimatableProperty, Keyframe[]>>; // Sorted by time
+  enter?: AnimationPreset;
+  exit?: AnimationPreset;
 }
 
 export interface LayoutItem {
   id: string;
-  type: 'image' | 'text' | 'shape';
+  type: 'image' | 'video' | 'text' | 'shape' | 'group';
   content: string;
   x: number;
   y: number;
@@ -48,4 +236,48 @@ export interface LayoutItem {
   style?: Record<string, string | number>;
   shapeType?: 'rectangle' | 'circle' | 'line'; // For shapes
   color?: string; // For shape background/border
+  parentId?: string; // Set on items that belong to a group; coordinates stay absolute
+  text?: RichText; // Text items; `content` mirrors the plain text
+  video?: VideoClip; // Video items; `content` is the source
+  animation?: ItemAnimation; // Keyframed properties override the static values
+  name?: string; // Layer name; a label is derived from the content when unset
+  hidden?: boolean;
+  locked?: boolean;
+  assetId?: string; // Library asset the item was placed from
+}
+
+// Fixed-size export frame on the layout pasteboard, in pixels
+export interface Artboard {
+  id: string;
+  name: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  background: string;
+}
+
+// Canvas content of a layout; also what each saved version captures.
+// Items use pasteboard coordinates and belong to the artboard they sit on.
+export interface LayoutSnapshot {
+  artboards: Artboard[];
+  items: LayoutItem[];
+  duration?: number; // Timeline length in seconds; clips and keyframes can extend it
 }
+
+export interface LayoutDocument extends LayoutSnapshot {
+  id: string;
+  name: string;
+  projectId?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface LayoutVersion {
+  id: string;
+  documentId: string;
+  label: string;
+  snapshot: LayoutSnapshot;
+  createdAt: number;
+}
+
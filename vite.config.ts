@@ -10,7 +10,15 @@ export default defineConfig(({ mode }) => {
     plugins: [react()],
     define: {
       // This ensures process.env.API_KEY works in your code even after bundling
-      'process.env.API_KEY': JSON.stringify(env.API_KEY)
+      'process.env.API_KEY': JSON.stringify(env.API_KEY),
+      // Selects the generation backend: "gemini" (default) or "mock" for offline development
+      'process.env.GENERATION_PROVIDER': JSON.stringify(env.GENERATION_PROVIDER),
+      // OpenID Connect sign-in; see README.md
+      'process.env.OIDC_ISSUER': JSON.stringify(env.OIDC_ISSUER),
+      'process.env.OIDC_CLIENT_ID': JSON.stringify(env.OIDC_CLIENT_ID),
+      'process.env.OIDC_REDIRECT_URI': JSON.stringify(env.OIDC_REDIRECT_URI),
+      'process.env.OIDC_SCOPE': JSON.stringify(env.OIDC_SCOPE),
+      'process.env.OIDC_ROLES_CLAIM': JSON.stringify(env.OIDC_ROLES_CLAIM)
     },
     build: {
       outDir: 'dist', // Standard output directory for Capacitor